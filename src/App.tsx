@@ -11,10 +11,11 @@ import { ModeToggle } from "@/components/mode-toggle"
 import ProtectedRoute from "@/components/ProtectedRoute"
 import LoginPage from "@/pages/LoginPage"
 import SignupPage from "@/pages/SignupPage"
-import { DashboardPage } from "@/features/dashboard"
+import { DashboardPage, SystemHealthPage, CriticalAlertBanner } from "@/features/dashboard"
 import ProfilePage from "@/pages/ProfilePage"
-import { TemplateCreationPage, TemplateExecutionPage, TemplateListPage, TemplateDetailPage } from "@/features/langgraph-templates"
-import { ExecutionHistoryPage, ExecutionDetailPage } from "@/features/execution-history"
+import { TemplateCreationPage, TemplateExecutionPage, TemplateListPage, TemplateDetailPage, TemplateEditPage, BatchExecutionPage } from "@/features/langgraph-templates"
+import { ExecutionHistoryPage, ExecutionDetailPage, ExecutionComparePage } from "@/features/execution-history"
+import { InterventionInboxPage } from "@/features/interventions"
 
 // Create a client
 const queryClient = new QueryClient({
@@ -55,6 +56,7 @@ function DashboardLayout({ children, title = "Dashboard" }: { children: React.Re
           </div>
         </header>
         <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          <CriticalAlertBanner />
           {children}
         </div>
       </SidebarInset>
@@ -119,6 +121,17 @@ function App() {
                 }
               />
               
+              <Route
+                path="/templates/batch"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout title="Batch Run">
+                      <BatchExecutionPage />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              
               <Route
                 path="/templates/:templateId"
                 element={
@@ -130,6 +143,17 @@ function App() {
                 }
               />
               
+              <Route
+                path="/templates/:templateId/edit"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout title="Edit Template">
+                      <TemplateEditPage />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              
               {/* Execution History routes */}
               <Route
                 path="/execution-history"
@@ -142,6 +166,17 @@ function App() {
                 }
               />
               
+              <Route
+                path="/execution-history/compare"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout title="Compare Executions">
+                      <ExecutionComparePage />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              
               <Route
                 path="/execution-history/:executionId"
                 element={
@@ -153,6 +188,30 @@ function App() {
                 }
               />
               
+              {/* HITL intervention inbox */}
+              <Route
+                path="/interventions"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout title="Interventions">
+                      <InterventionInboxPage />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              
+              {/* System health and alerts */}
+              <Route
+                path="/system-health"
+                element={
+                  <ProtectedRoute>
+                    <DashboardLayout title="System Health">
+                      <SystemHealthPage />
+                    </DashboardLayout>
+                  </ProtectedRoute>
+                }
+              />
+              
               {/* Profile route */}
               <Route
                 path="/profile"
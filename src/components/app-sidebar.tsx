@@ -5,9 +5,12 @@ import {
   User,
   FileText,
   History,
+  UserCheck,
+  HeartPulse,
 } from "lucide-react"
 
 import { NavMain } from "@/components/nav-main"
+import { NavFavorites } from "@/components/nav-favorites"
 import { NavUser } from "@/components/nav-user"
 import { useAuth } from "@/contexts/AuthContext"
 import {
@@ -36,6 +39,16 @@ const navMain = [
     url: "/execution-history",
     icon: History,
   },
+  {
+    title: "Interventions",
+    url: "/interventions",
+    icon: UserCheck,
+  },
+  {
+    title: "System Health",
+    url: "/system-health",
+    icon: HeartPulse,
+  },
   {
     title: "Profile",
     url: "/profile",
@@ -78,6 +91,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
       </SidebarHeader>
       <SidebarContent>
         <NavMain items={navMain} />
+        <NavFavorites />
       </SidebarContent>
       <SidebarFooter>
         {isLoading ? (
@@ -0,0 +1,55 @@
+/**
+ * FavoriteButton Component
+ * Star toggle that adds a template or execution to the user's favorites
+ */
+
+import React from 'react';
+import { Star } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { useFavorites } from '@/hooks/use-favorites';
+import type { FavoriteInput } from '@/services/favorites.service';
+
+interface FavoriteButtonProps {
+  item: FavoriteInput;
+  // Show "Favorite" / "Favorited" next to the star
+  showLabel?: boolean;
+  variant?: 'ghost' | 'outline';
+  size?: 'sm' | 'lg';
+  className?: string;
+}
+
+export const FavoriteButton: React.FC<FavoriteButtonProps> = ({
+  item,
+  showLabel = false,
+  variant = 'ghost',
+  size = 'sm',
+  className = ''
+}) => {
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const active = isFavorite(item.kind, item.id);
+  const label = active ? 'Remove from favorites' : 'Add to favorites';
+
+  const handleClick = (event: React.MouseEvent) => {
+    // Cards are often links themselves
+    event.preventDefault();
+    event.stopPropagation();
+    toggleFavorite(item);
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={variant}
+      size={size}
+      onClick={handleClick}
+      aria-pressed={active}
+      aria-label={label}
+      title={label}
+      className={`${showLabel ? '' : size === 'lg' ? 'h-10 w-10 p-0' : 'h-8 w-8 p-0'} ${className}`}
+    >
+      <Star className={`${size === 'lg' ? 'h-5 w-5' : 'h-4 w-4'} ${active ? 'fill-yellow-400 text-yellow-500' : 'text-muted-foreground'}`} />
+      {showLabel && <span className="ml-2">{active ? 'Favorited' : 'Favorite'}</span>}
+    </Button>
+  );
+};
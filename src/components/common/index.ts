@@ -6,3 +6,4 @@
 export { LoadingSpinner } from './LoadingSpinner';
 export { ErrorDisplay } from './ErrorDisplay';
 export { PageHeader } from './PageHeader';
+export { FavoriteButton } from './FavoriteButton';
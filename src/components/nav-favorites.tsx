@@ -0,0 +1,54 @@
+import { History, Play, StarOff } from "lucide-react"
+import { Link } from "react-router-dom"
+
+import { useFavorites } from "@/hooks/use-favorites"
+import type { FavoriteItem } from "@/services/favorites.service"
+import {
+  SidebarGroup,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar"
+
+// Templates open ready to run; executions open their results
+function getFavoriteUrl(item: FavoriteItem) {
+  return item.kind === "template"
+    ? `/templates/execute?templateId=${item.id}`
+    : `/execution-history/${item.id}`
+}
+
+export function NavFavorites() {
+  const { favorites, removeFavorite } = useFavorites()
+
+  if (favorites.length === 0) return null
+
+  return (
+    <SidebarGroup className="group-data-[collapsible=icon]:hidden">
+      <SidebarGroupLabel>Favorites</SidebarGroupLabel>
+      <SidebarMenu>
+        {favorites.map((item) => {
+          const Icon = item.kind === "template" ? Play : History
+          return (
+            <SidebarMenuItem key={`${item.kind}:${item.id}`}>
+              <SidebarMenuButton asChild tooltip={item.name}>
+                <Link to={getFavoriteUrl(item)}>
+                  <Icon />
+                  <span>{item.name}</span>
+                </Link>
+              </SidebarMenuButton>
+              <SidebarMenuAction
+                showOnHover
+                onClick={() => removeFavorite(item.kind, item.id)}
+                aria-label={`Remove ${item.name} from favorites`}
+              >
+                <StarOff />
+              </SidebarMenuAction>
+            </SidebarMenuItem>
+          )
+        })}
+      </SidebarMenu>
+    </SidebarGroup>
+  )
+}
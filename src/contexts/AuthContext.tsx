@@ -5,6 +5,8 @@
 
 import React, { createContext, useContext, useReducer, useEffect } from 'react';
 import { authService } from '@/services/api';
+import { notificationService } from '@/services/notification.service';
+import { favoritesService } from '@/services/favorites.service';
 import type { User } from '@/services/api/AuthService';
 
 // Define AuthState inline since we removed the types directory
@@ -135,6 +137,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     initializeAuth();
   }, []);
 
+  // Load the signed-in user's notification preferences and favorites
+  useEffect(() => {
+    notificationService.setUser(state.user?.id ?? null);
+    favoritesService.setUser(state.user?.id ?? null);
+  }, [state.user?.id]);
+
   // Login function
   const login = async (username: string, password: string): Promise<void> => {
     dispatch({ type: 'LOGIN_START' });
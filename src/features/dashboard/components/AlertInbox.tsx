@@ -0,0 +1,161 @@
+/**
+ * Alert Inbox Component
+ *
+ * System alerts filtered by severity and acknowledgement, with an
+ * acknowledge action and who acknowledged each one
+ */
+
+import React from 'react';
+import { AlertCircle, AlertTriangle, Bell, CheckCircle2, Info } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Badge } from '../../../components/ui/badge';
+import { Button } from '../../../components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '../../../components/ui/tabs';
+import {
+  ALERT_SEVERITY_OPTIONS,
+  countAlertsBySeverity,
+  filterAlerts,
+  type AlertFilters,
+  type AlertStatusFilter,
+} from '../utils/system-health';
+import type { ActivitySeverity, SystemAlert } from '../types';
+
+interface AlertInboxProps {
+  alerts: SystemAlert[];
+  isLoading?: boolean;
+  acknowledgingId?: string | null;
+  onAcknowledge: (alertId: string) => Promise<void>;
+}
+
+const SEVERITY_STYLES: Record<ActivitySeverity, { icon: React.ComponentType<{ className?: string }>; color: string }> = {
+  error: { icon: AlertCircle, color: 'text-red-600' },
+  warning: { icon: AlertTriangle, color: 'text-yellow-600' },
+  info: { icon: Info, color: 'text-blue-600' },
+  success: { icon: CheckCircle2, color: 'text-green-600' },
+};
+
+function AlertRow({
+  alert,
+  isAcknowledging,
+  onAcknowledge,
+}: {
+  alert: SystemAlert;
+  isAcknowledging: boolean;
+  onAcknowledge: (alertId: string) => Promise<void>;
+}) {
+  const { icon: Icon, color } = SEVERITY_STYLES[alert.severity] || SEVERITY_STYLES.info;
+  const severityLabel = ALERT_SEVERITY_OPTIONS.find(option => option.value === alert.severity)?.label || alert.severity;
+
+  return (
+    <li className={`flex gap-3 p-4 ${alert.acknowledged ? 'opacity-70' : ''}`}>
+      <Icon className={`w-5 h-5 mt-0.5 shrink-0 ${color}`} />
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">{alert.title}</span>
+          <Badge variant={alert.severity === 'error' ? 'destructive' : 'outline'}>{severityLabel}</Badge>
+        </div>
+        <p className="text-sm text-muted-foreground break-words">{alert.description}</p>
+        <p className="text-xs text-muted-foreground">
+          Raised {new Date(alert.createdAt).toLocaleString()}
+          {alert.acknowledged && (
+            <>
+              {' · '}Acknowledged
+              {alert.acknowledgedBy && <> by <span className="font-medium text-foreground">{alert.acknowledgedBy}</span></>}
+              {alert.acknowledgedAt && <> on {new Date(alert.acknowledgedAt).toLocaleString()}</>}
+            </>
+          )}
+        </p>
+      </div>
+      {!alert.acknowledged && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="shrink-0"
+          disabled={isAcknowledging}
+          onClick={() => onAcknowledge(alert.id).catch(() => undefined)}
+        >
+          {isAcknowledging ? 'Acknowledging...' : 'Acknowledge'}
+        </Button>
+      )}
+    </li>
+  );
+}
+
+export function AlertInbox({ alerts, isLoading, acknowledgingId, onAcknowledge }: AlertInboxProps) {
+  const [filters, setFilters] = React.useState<AlertFilters>({ status: 'unacknowledged' });
+
+  const counts = countAlertsBySeverity(alerts);
+  const visibleAlerts = filterAlerts(alerts, filters);
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="w-5 h-5 text-blue-600" />
+            Alerts
+          </CardTitle>
+          <Tabs
+            value={filters.status}
+            onValueChange={(status) => setFilters(prev => ({ ...prev, status: status as AlertStatusFilter }))}
+          >
+            <TabsList>
+              <TabsTrigger value="unacknowledged">Open</TabsTrigger>
+              <TabsTrigger value="acknowledged">Acknowledged</TabsTrigger>
+              <TabsTrigger value="all">All</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant={!filters.severity ? 'default' : 'outline'}
+            className="h-7 text-xs"
+            onClick={() => setFilters(prev => ({ ...prev, severity: undefined }))}
+          >
+            All severities
+          </Button>
+          {ALERT_SEVERITY_OPTIONS.map(option => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={filters.severity === option.value ? 'default' : 'outline'}
+              className="h-7 text-xs"
+              onClick={() => setFilters(prev => ({ ...prev, severity: option.value }))}
+            >
+              {option.label}
+              {counts[option.value] > 0 && (
+                <Badge variant="secondary" className="ml-1 h-4 px-1 text-[10px]">{counts[option.value]}</Badge>
+              )}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading && alerts.length === 0 ? (
+          <div className="p-6 space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-14 bg-muted/50 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : visibleAlerts.length === 0 ? (
+          <p className="text-center py-10 text-muted-foreground">No alerts match these filters</p>
+        ) : (
+          <ul className="divide-y border-t">
+            {visibleAlerts.map(alert => (
+              <AlertRow
+                key={alert.id}
+                alert={alert}
+                isAcknowledging={acknowledgingId === alert.id}
+                onAcknowledge={onAcknowledge}
+              />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default AlertInbox;
@@ -0,0 +1,61 @@
+/**
+ * Critical Alert Banner Component
+ *
+ * Shown on every page while critical alerts are unacknowledged; it goes
+ * away only once they have been acknowledged
+ */
+
+import { Link, useLocation } from 'react-router-dom';
+import { AlertCircle } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { useSystemHealth } from '../hooks/useSystemHealth';
+import { getUnacknowledgedCriticalAlerts } from '../utils/system-health';
+
+export function CriticalAlertBanner() {
+  const location = useLocation();
+  const { health, acknowledgingId, acknowledgeAlert } = useSystemHealth();
+
+  const criticalAlerts = getUnacknowledgedCriticalAlerts(health?.alerts || []);
+  if (criticalAlerts.length === 0) return null;
+
+  const [latest] = criticalAlerts;
+  const isOnHealthPage = location.pathname === '/system-health';
+
+  return (
+    <div
+      role="alert"
+      className="flex flex-wrap items-center gap-3 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-red-900 dark:border-red-900 dark:bg-red-950 dark:text-red-100"
+    >
+      <AlertCircle className="w-5 h-5 shrink-0 text-red-600" />
+      <div className="flex-1 min-w-0 text-sm">
+        <span className="font-semibold">
+          {criticalAlerts.length === 1
+            ? '1 critical alert needs acknowledgement'
+            : `${criticalAlerts.length} critical alerts need acknowledgement`}
+        </span>
+        <span className="ml-2 truncate">{latest.title}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        {criticalAlerts.length === 1 && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 border-red-300 bg-transparent"
+            disabled={acknowledgingId === latest.id}
+            onClick={() => acknowledgeAlert(latest.id).catch(() => undefined)}
+          >
+            Acknowledge
+          </Button>
+        )}
+        {!isOnHealthPage && (
+          <Button size="sm" variant="destructive" className="h-7" asChild>
+            <Link to="/system-health">Review alerts</Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CriticalAlertBanner;
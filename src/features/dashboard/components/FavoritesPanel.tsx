@@ -0,0 +1,91 @@
+/**
+ * Favorites Panel Component
+ *
+ * Quick launch for the user's favorite templates and a shortcut to their
+ * favorite executions
+ */
+
+import { Link } from 'react-router-dom';
+import { History, Play, Star } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { FavoriteButton } from '../../../components/common/FavoriteButton';
+import { useFavorites } from '../../../hooks/use-favorites';
+
+interface FavoritesPanelProps {
+  onExecute: (templateId: string) => Promise<void>;
+}
+
+export function FavoritesPanel({ onExecute }: FavoritesPanelProps) {
+  const { favoriteTemplates, favoriteExecutions } = useFavorites();
+  const isEmpty = favoriteTemplates.length === 0 && favoriteExecutions.length === 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Star className="w-5 h-5 text-yellow-500" />
+          Favorites
+        </CardTitle>
+        <CardDescription>Templates and executions you've starred</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isEmpty ? (
+          <div className="text-center py-6">
+            <p className="text-muted-foreground mb-4">
+              Star a template or execution to launch it from here and from the sidebar.
+            </p>
+            <Button variant="outline" asChild>
+              <Link to="/templates">Browse Templates</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-muted-foreground">Templates</h4>
+              {favoriteTemplates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No favorite templates yet</p>
+              ) : (
+                favoriteTemplates.map((item) => (
+                  <div key={item.id} className="flex items-center gap-2 border rounded-lg px-3 py-2">
+                    <Link to={`/templates/${item.id}`} className="flex-1 min-w-0 truncate text-sm font-medium hover:underline">
+                      {item.name}
+                    </Link>
+                    <Button size="sm" onClick={() => onExecute(item.id)}>
+                      <Play className="w-3.5 h-3.5 mr-1" />
+                      Run
+                    </Button>
+                    <FavoriteButton item={item} />
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-muted-foreground">Executions</h4>
+              {favoriteExecutions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No favorite executions yet</p>
+              ) : (
+                favoriteExecutions.map((item) => (
+                  <div key={item.id} className="flex items-center gap-2 border rounded-lg px-3 py-2">
+                    <History className="w-4 h-4 shrink-0 text-muted-foreground" />
+                    <Link
+                      to={`/execution-history/${item.id}`}
+                      className="flex-1 min-w-0 truncate text-sm hover:underline"
+                    >
+                      {item.name}
+                    </Link>
+                    <FavoriteButton item={item} />
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default FavoritesPanel;
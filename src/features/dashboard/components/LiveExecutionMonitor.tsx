@@ -20,6 +20,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui
 import { Button } from '../../../components/ui/button';
 import { Badge } from '../../../components/ui/badge';
 import { Progress } from '../../../components/ui/progress';
+import { FavoriteButton } from '../../../components/common/FavoriteButton';
 
 import type { LiveExecutionMonitorProps, LiveExecution, ExecutionStatus } from '../types';
 
@@ -105,14 +106,23 @@ function LiveExecutionCard({ execution, onStop, onPause, onResume, onViewDetails
               )}
             </div>
           </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => onViewDetails(execution.id)}
-            className="flex-shrink-0"
-          >
-            <Eye className="w-4 h-4" />
-          </Button>
+          <div className="flex items-center flex-shrink-0">
+            <FavoriteButton
+              item={{
+                kind: 'execution',
+                id: execution.id,
+                name: execution.templateName,
+                templateId: execution.templateId,
+              }}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onViewDetails(execution.id)}
+            >
+              <Eye className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
 
         {/* Progress Bar */}
@@ -0,0 +1,401 @@
+/**
+ * Performance Analytics Component
+ *
+ * Analytics tab content: execution trends, cost breakdowns, latency
+ * percentiles and an agent leaderboard. Every panel has its own time range
+ * and clicking into a chart opens the matching execution history.
+ */
+
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { BarChart3, DollarSign, ExternalLink, Gauge, TrendingUp, Trophy } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Badge } from '../../../components/ui/badge';
+import { Button } from '../../../components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../../components/ui/select';
+import { usePerformanceMetrics } from '../hooks/usePerformanceMetrics';
+import {
+  ANALYTICS_TIME_RANGES,
+  DEFAULT_ANALYTICS_TIME_RANGE,
+  buildExecutionHistoryLink,
+  getLatencyPercentiles,
+  getTimeRangeFilters,
+  getTrendPointFilters,
+  rankAgents,
+  toTrendChartData,
+  type AnalyticsTimeRange,
+  type LeaderboardMetric,
+} from '../utils/performance-analytics';
+import type { ExecutionFilters } from '../../execution-history/types';
+
+interface PerformanceAnalyticsProps {
+  // Template names for the cost breakdown, keyed by template id
+  templateNames?: Record<string, string>;
+}
+
+interface AnalyticsPanelProps {
+  title: string;
+  icon: React.ComponentType<{ className?: string }>;
+  timeRange: AnalyticsTimeRange;
+  onTimeRangeChange: (timeRange: AnalyticsTimeRange) => void;
+  isLoading: boolean;
+  isEmpty: boolean;
+  children: React.ReactNode;
+  className?: string;
+}
+
+const CHART_COLORS = ['#2563eb', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777', '#65a30d', '#ca8a04'];
+
+const formatCurrency = (value: number) => (value < 0.01 && value > 0 ? '<$0.01' : `$${value.toFixed(2)}`);
+const formatSeconds = (value: number) => (value < 60 ? `${value.toFixed(1)}s` : `${(value / 60).toFixed(1)}m`);
+
+function AnalyticsPanel({
+  title,
+  icon: Icon,
+  timeRange,
+  onTimeRangeChange,
+  isLoading,
+  isEmpty,
+  children,
+  className = '',
+}: AnalyticsPanelProps) {
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Icon className="w-5 h-5 text-blue-600" />
+            {title}
+          </CardTitle>
+          <Select value={timeRange} onValueChange={(value) => onTimeRangeChange(value as AnalyticsTimeRange)}>
+            <SelectTrigger className="h-8 w-36 text-xs" aria-label={`${title} time range`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANALYTICS_TIME_RANGES.map(range => (
+                <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-64 bg-muted/50 rounded animate-pulse" />
+        ) : isEmpty ? (
+          <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">
+            No data for this time range
+          </div>
+        ) : (
+          children
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Time range state plus the metrics query for one panel
+ */
+function usePanelMetrics() {
+  const [timeRange, setTimeRange] = React.useState<AnalyticsTimeRange>(DEFAULT_ANALYTICS_TIME_RANGE);
+  const { data, isLoading } = usePerformanceMetrics(timeRange);
+  return { timeRange, setTimeRange, metrics: data, isLoading };
+}
+
+function useDrillDown(timeRange: AnalyticsTimeRange) {
+  const navigate = useNavigate();
+  return (filters: ExecutionFilters) => {
+    navigate(buildExecutionHistoryLink({ ...getTimeRangeFilters(timeRange), ...filters }));
+  };
+}
+
+function ExecutionTrendsPanel() {
+  const { timeRange, setTimeRange, metrics, isLoading } = usePanelMetrics();
+  const drillDown = useDrillDown(timeRange);
+  const trends = metrics?.executionTrends || [];
+  const data = toTrendChartData(trends, timeRange);
+
+  return (
+    <AnalyticsPanel
+      title="Execution Trends"
+      icon={TrendingUp}
+      timeRange={timeRange}
+      onTimeRangeChange={setTimeRange}
+      isLoading={isLoading && !metrics}
+      isEmpty={data.length === 0}
+      className="lg:col-span-2"
+    >
+      <ResponsiveContainer width="100%" height={280}>
+        <LineChart
+          data={data}
+          onClick={(state) => {
+            const index = Number(state?.activeIndex);
+            if (Number.isInteger(index)) drillDown(getTrendPointFilters(trends, index));
+          }}
+          className="cursor-pointer"
+        >
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+          <YAxis yAxisId="count" allowDecimals={false} tick={{ fontSize: 12 }} />
+          <YAxis yAxisId="duration" orientation="right" tickFormatter={formatSeconds} tick={{ fontSize: 12 }} />
+          <Tooltip
+            formatter={(value, name) =>
+              name === 'Avg duration' ? formatSeconds(Number(value)) : value
+            }
+          />
+          <Legend />
+          <Line yAxisId="count" type="monotone" dataKey="successful" name="Successful" stroke="#16a34a" strokeWidth={2} dot={false} />
+          <Line yAxisId="count" type="monotone" dataKey="failed" name="Failed" stroke="#dc2626" strokeWidth={2} dot={false} />
+          <Line yAxisId="duration" type="monotone" dataKey="averageDuration" name="Avg duration" stroke="#2563eb" strokeDasharray="4 4" dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+      <p className="mt-2 text-xs text-muted-foreground">Click a point to see the executions from that period.</p>
+    </AnalyticsPanel>
+  );
+}
+
+function CostByTemplatePanel({ templateNames }: { templateNames: Record<string, string> }) {
+  const { timeRange, setTimeRange, metrics, isLoading } = usePanelMetrics();
+  const drillDown = useDrillDown(timeRange);
+  const data = [...(metrics?.costAnalysis?.costByTemplate || [])]
+    .sort((a, b) => b.cost - a.cost)
+    .slice(0, 10)
+    .map(entry => ({ ...entry, name: templateNames[entry.templateId] || entry.templateId }));
+
+  return (
+    <AnalyticsPanel
+      title="Cost by Template"
+      icon={DollarSign}
+      timeRange={timeRange}
+      onTimeRangeChange={setTimeRange}
+      isLoading={isLoading && !metrics}
+      isEmpty={data.length === 0}
+    >
+      <ResponsiveContainer width="100%" height={280}>
+        <BarChart data={data} layout="vertical" margin={{ left: 16 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+          <XAxis type="number" tickFormatter={formatCurrency} tick={{ fontSize: 12 }} />
+          <YAxis type="category" dataKey="name" width={120} tick={{ fontSize: 12 }} />
+          <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+          <Bar dataKey="cost" name="Cost" radius={[0, 4, 4, 0]}>
+            {data.map((entry, index) => (
+              <Cell
+                key={entry.templateId}
+                fill={CHART_COLORS[index % CHART_COLORS.length]}
+                cursor="pointer"
+                onClick={() => drillDown({ template_ids: [entry.templateId] })}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </AnalyticsPanel>
+  );
+}
+
+function CostByAgentPanel() {
+  const { timeRange, setTimeRange, metrics, isLoading } = usePanelMetrics();
+  const drillDown = useDrillDown(timeRange);
+  const data = [...(metrics?.costAnalysis?.costByAgent || [])]
+    .sort((a, b) => b.cost - a.cost)
+    .slice(0, 10);
+
+  return (
+    <AnalyticsPanel
+      title="Cost by Agent"
+      icon={BarChart3}
+      timeRange={timeRange}
+      onTimeRangeChange={setTimeRange}
+      isLoading={isLoading && !metrics}
+      isEmpty={data.length === 0}
+    >
+      <ResponsiveContainer width="100%" height={280}>
+        <BarChart data={data} layout="vertical" margin={{ left: 16 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+          <XAxis type="number" tickFormatter={formatCurrency} tick={{ fontSize: 12 }} />
+          <YAxis type="category" dataKey="agentName" width={120} tick={{ fontSize: 12 }} />
+          <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+          <Bar dataKey="cost" name="Cost" radius={[0, 4, 4, 0]}>
+            {data.map((entry, index) => (
+              <Cell
+                key={entry.agentName}
+                fill={CHART_COLORS[index % CHART_COLORS.length]}
+                cursor="pointer"
+                onClick={() => drillDown({ agent_name: entry.agentName })}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </AnalyticsPanel>
+  );
+}
+
+function LatencyPanel() {
+  const { timeRange, setTimeRange, metrics, isLoading } = usePanelMetrics();
+  const drillDown = useDrillDown(timeRange);
+  const responseTimes = metrics?.responseTimeMetrics;
+  const percentiles = responseTimes ? getLatencyPercentiles(responseTimes) : [];
+  const slowest = Math.max(0, ...percentiles.map(percentile => percentile.seconds));
+
+  return (
+    <AnalyticsPanel
+      title="Latency Percentiles"
+      icon={Gauge}
+      timeRange={timeRange}
+      onTimeRangeChange={setTimeRange}
+      isLoading={isLoading && !metrics}
+      isEmpty={!responseTimes || slowest === 0}
+    >
+      <div className="space-y-4">
+        <div className="flex items-baseline gap-2">
+          <span className="text-3xl font-bold">{formatSeconds(responseTimes?.averageResponseTime || 0)}</span>
+          <span className="text-sm text-muted-foreground">average</span>
+        </div>
+        {percentiles.map(percentile => (
+          <button
+            key={percentile.key}
+            type="button"
+            onClick={() => drillDown({ min_duration: percentile.seconds })}
+            className="w-full text-left group"
+            title={`Executions slower than ${percentile.label}`}
+          >
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="font-medium">{percentile.label}</span>
+              <span className="tabular-nums text-muted-foreground group-hover:text-foreground">
+                {formatSeconds(percentile.seconds)}
+              </span>
+            </div>
+            <div className="h-2 bg-muted rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${percentile.key === 'p99' ? 'bg-red-500' : percentile.key === 'p95' ? 'bg-orange-500' : 'bg-blue-500'}`}
+                style={{ width: `${(percentile.seconds / slowest) * 100}%` }}
+              />
+            </div>
+          </button>
+        ))}
+        <p className="text-xs text-muted-foreground">Click a percentile to see the executions slower than it.</p>
+      </div>
+    </AnalyticsPanel>
+  );
+}
+
+const LEADERBOARD_METRICS: { value: LeaderboardMetric; label: string }[] = [
+  { value: 'score', label: 'Overall' },
+  { value: 'successRate', label: 'Success rate' },
+  { value: 'averageConfidence', label: 'Confidence' },
+  { value: 'averageDuration', label: 'Fastest' },
+  { value: 'averageCost', label: 'Cheapest' },
+];
+
+function AgentLeaderboardPanel() {
+  const { timeRange, setTimeRange, metrics, isLoading } = usePanelMetrics();
+  const drillDown = useDrillDown(timeRange);
+  const [metric, setMetric] = React.useState<LeaderboardMetric>('score');
+  const entries = rankAgents(metrics?.agentPerformance || [], metric);
+
+  return (
+    <AnalyticsPanel
+      title="Agent Leaderboard"
+      icon={Trophy}
+      timeRange={timeRange}
+      onTimeRangeChange={setTimeRange}
+      isLoading={isLoading && !metrics}
+      isEmpty={entries.length === 0}
+      className="lg:col-span-2"
+    >
+      <div className="flex flex-wrap gap-1 mb-3">
+        {LEADERBOARD_METRICS.map(option => (
+          <Button
+            key={option.value}
+            variant={metric === option.value ? 'default' : 'outline'}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setMetric(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-xs text-muted-foreground">
+              <th className="py-2 text-left w-10">#</th>
+              <th className="py-2 text-left">Agent</th>
+              <th className="py-2 text-right">Runs</th>
+              <th className="py-2 text-right">Success</th>
+              <th className="py-2 text-right">Confidence</th>
+              <th className="py-2 text-right">Avg time</th>
+              <th className="py-2 text-right">Avg cost</th>
+              <th className="py-2 text-right">Score</th>
+              <th className="py-2 w-10" />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.agentName} className="border-b last:border-b-0 hover:bg-muted/40">
+                <td className="py-2 font-semibold">{entry.rank}</td>
+                <td className="py-2 font-medium">{entry.agentName}</td>
+                <td className="py-2 text-right tabular-nums">{entry.totalExecutions}</td>
+                <td className="py-2 text-right tabular-nums">{entry.successRate.toFixed(1)}%</td>
+                <td className="py-2 text-right tabular-nums">{Math.round(entry.averageConfidence)}%</td>
+                <td className="py-2 text-right tabular-nums">{formatSeconds(entry.averageDuration)}</td>
+                <td className="py-2 text-right tabular-nums">{formatCurrency(entry.averageCost)}</td>
+                <td className="py-2 text-right">
+                  <Badge variant={entry.score >= 75 ? 'default' : 'secondary'}>{entry.score}</Badge>
+                </td>
+                <td className="py-2 text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => drillDown({ agent_name: entry.agentName })}
+                    aria-label={`View executions with ${entry.agentName}`}
+                  >
+                    <ExternalLink className="w-3.5 h-3.5" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </AnalyticsPanel>
+  );
+}
+
+export function PerformanceAnalytics({ templateNames = {} }: PerformanceAnalyticsProps) {
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <ExecutionTrendsPanel />
+      <CostByTemplatePanel templateNames={templateNames} />
+      <CostByAgentPanel />
+      <LatencyPanel />
+      <AgentLeaderboardPanel />
+    </div>
+  );
+}
+
+export default PerformanceAnalytics;
@@ -0,0 +1,135 @@
+/**
+ * System Component List Component
+ *
+ * Each monitored component with its current status, response time and the
+ * error messages from recent checks
+ */
+
+import { ChevronDown, Clock, Server } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../../../components/ui/collapsible';
+import { SystemHealthBadge } from './SystemOverviewCards';
+import { getAverageResponseTime, getErrorHistory } from '../utils/system-health';
+import type { ComponentCheck, ComponentHistory } from '../utils/system-health';
+import type { SystemComponent, SystemHealthStatus } from '../types';
+
+interface SystemComponentListProps {
+  components: SystemComponent[];
+  history: ComponentHistory;
+  isLoading?: boolean;
+}
+
+const STATUS_DOT: Record<SystemHealthStatus, string> = {
+  healthy: 'bg-green-500',
+  warning: 'bg-yellow-500',
+  critical: 'bg-red-500',
+  unknown: 'bg-gray-400',
+};
+
+const formatResponseTime = (ms?: number | null) => (
+  typeof ms === 'number' ? (ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`) : '—'
+);
+
+const formatCheckTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+/**
+ * Recent checks as a strip of status dots, oldest on the left
+ */
+function CheckStrip({ checks }: { checks: ComponentCheck[] }) {
+  const recent = checks.slice(0, 30).reverse();
+  if (recent.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-0.5" aria-label="Recent checks">
+      {recent.map(check => (
+        <span
+          key={check.lastCheck}
+          className={`h-4 w-1.5 rounded-sm ${STATUS_DOT[check.status] || STATUS_DOT.unknown}`}
+          title={`${formatCheckTime(check.lastCheck)}: ${check.status}${check.responseTime !== undefined ? `, ${formatResponseTime(check.responseTime)}` : ''}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function SystemComponentRow({ component, checks }: { component: SystemComponent; checks: ComponentCheck[] }) {
+  const errors = getErrorHistory(checks);
+  const averageResponseTime = getAverageResponseTime(checks);
+
+  return (
+    <Collapsible className="border rounded-lg">
+      <div className="flex flex-wrap items-center gap-4 p-4">
+        <div className="flex items-center gap-2 min-w-0 flex-1">
+          <span className={`h-2.5 w-2.5 rounded-full shrink-0 ${STATUS_DOT[component.status] || STATUS_DOT.unknown}`} />
+          <span className="font-medium truncate">{component.name}</span>
+          <SystemHealthBadge status={component.status} />
+        </div>
+        <CheckStrip checks={checks} />
+        <div className="text-sm text-right tabular-nums">
+          <div>{formatResponseTime(component.responseTime)}</div>
+          <div className="text-xs text-muted-foreground">avg {formatResponseTime(averageResponseTime)}</div>
+        </div>
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Clock className="w-3 h-3" />
+          {formatCheckTime(component.lastCheck)}
+        </div>
+        <CollapsibleTrigger
+          className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+          disabled={errors.length === 0}
+        >
+          {errors.length} error{errors.length === 1 ? '' : 's'}
+          <ChevronDown className="w-3.5 h-3.5" />
+        </CollapsibleTrigger>
+      </div>
+
+      {component.errorMessage && (
+        <div className="px-4 pb-3 -mt-1 text-sm text-red-600">{component.errorMessage}</div>
+      )}
+
+      <CollapsibleContent>
+        <ul className="border-t divide-y text-sm">
+          {errors.map(check => (
+            <li key={check.lastCheck} className="flex flex-wrap gap-x-4 gap-y-1 px-4 py-2">
+              <span className="text-xs text-muted-foreground w-40 shrink-0">{formatCheckTime(check.lastCheck)}</span>
+              <span className="flex-1 min-w-0 break-words text-red-700">{check.errorMessage}</span>
+              <span className="text-xs text-muted-foreground tabular-nums">{formatResponseTime(check.responseTime)}</span>
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export function SystemComponentList({ components, history, isLoading }: SystemComponentListProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Server className="w-5 h-5 text-blue-600" />
+          Components
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && components.length === 0 ? (
+          Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-16 bg-muted/50 rounded-lg animate-pulse" />
+          ))
+        ) : components.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No components reported</p>
+        ) : (
+          components.map(component => (
+            <SystemComponentRow
+              key={component.name}
+              component={component}
+              checks={history[component.name] || []}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default SystemComponentList;
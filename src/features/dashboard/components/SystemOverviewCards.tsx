@@ -78,7 +78,7 @@ function MetricCard({ title, value, change, trend, icon: Icon, color = 'blue', o
   );
 }
 
-function SystemHealthBadge({ status }: { status: SystemHealthStatus }) {
+export function SystemHealthBadge({ status }: { status: SystemHealthStatus }) {
   const statusConfig = {
     healthy: { color: 'bg-green-100 text-green-800 border-green-200', label: 'Healthy' },
     warning: { color: 'bg-yellow-100 text-yellow-800 border-yellow-200', label: 'Warning' },
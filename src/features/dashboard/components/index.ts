@@ -6,3 +6,8 @@
 
 export * from './SystemOverviewCards';
 export * from './LiveExecutionMonitor';
+export * from './PerformanceAnalytics';
+export * from './SystemComponentList';
+export * from './AlertInbox';
+export * from './CriticalAlertBanner';
+export * from './FavoritesPanel';
@@ -5,3 +5,5 @@
  */
 
 export * from './useDashboardData';
+export * from './usePerformanceMetrics';
+export * from './useSystemHealth';
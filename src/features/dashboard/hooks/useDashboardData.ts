@@ -4,8 +4,17 @@
  * Custom hook for managing dashboard data and real-time updates
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { dashboardService } from '../services';
+import type { FetchEventSource } from '../../../services/api';
+import { notificationService } from '../../../services/notification.service';
+import { useFavorites } from '../../../hooks/use-favorites';
+import {
+  getFavoriteIds,
+  filterFavoriteTemplates,
+  filterFavoriteExecutions,
+  filterFavoriteActivity
+} from '../utils/favorites';
 import type {
   DashboardData,
   SystemOverview,
@@ -41,10 +50,12 @@ export function useDashboardData(options: UseDashboardDataOptions = {}): UseDash
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [isRealTimeConnected, setIsRealTimeConnected] = useState(false);
   const [filters, setFilters] = useState<DashboardFilters>(initialFilters);
+  const { favorites } = useFavorites();
 
   // Refs
   const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const eventSourceRef = useRef<EventSource | null>(null);
+  const eventSourceRef = useRef<FetchEventSource | null>(null);
+  const executionStatusesRef = useRef<Map<string, LiveExecution['status']> | null>(null);
 
   /**
    * Load dashboard data
@@ -236,6 +247,15 @@ export function useDashboardData(options: UseDashboardDataOptions = {}): UseDash
         const eventSource = dashboardService.createRealtimeConnection(
           (data) => {
             console.log('Dashboard real-time update:', data);
+            const update = data as { type?: string; data?: { agent_id?: string; intervention_id?: string } };
+            if (update?.type === 'intervention_required') {
+              notificationService.notify('intervention', {
+                title: 'Intervention required',
+                body: update.data?.agent_id ? `${update.data.agent_id} is waiting for your response` : undefined,
+                tag: update.data?.intervention_id ? `intervention-${update.data.intervention_id}` : undefined,
+                url: '/interventions',
+              });
+            }
             // Handle real-time updates
             // This would update specific parts of the dashboard based on the update type
             refresh();
@@ -253,6 +273,35 @@ export function useDashboardData(options: UseDashboardDataOptions = {}): UseDash
     }
   }, [isRealTimeConnected, refresh]);
 
+  // Notify when a tracked execution finishes between refreshes
+  useEffect(() => {
+    const previous = executionStatusesRef.current;
+    executionStatusesRef.current = new Map(liveExecutions.map(execution => [execution.id, execution.status]));
+    // Skip the first load so existing results don't alert
+    if (!previous) return;
+
+    liveExecutions.forEach(execution => {
+      const before = previous.get(execution.id);
+      if (!before || before === execution.status) return;
+
+      if (execution.status === 'completed') {
+        notificationService.notify('completion', {
+          title: 'Execution completed',
+          body: `${execution.templateName} finished successfully`,
+          tag: `execution-${execution.id}`,
+          url: `/execution-history/${execution.id}`,
+        });
+      } else if (execution.status === 'failed') {
+        notificationService.notify('error', {
+          title: 'Execution failed',
+          body: `${execution.templateName} stopped with an error`,
+          tag: `execution-${execution.id}`,
+          url: `/execution-history/${execution.id}`,
+        });
+      }
+    });
+  }, [liveExecutions]);
+
   // Initial load
   useEffect(() => {
     loadDashboardData(true);
@@ -298,14 +347,27 @@ export function useDashboardData(options: UseDashboardDataOptions = {}): UseDash
     };
   }, []);
 
+  // Favorites live in the browser, so the favorites filter is applied here
+  const favoriteData = useMemo(() => {
+    if (!filters.showOnlyFavorites) {
+      return { liveExecutions, templateHub, activityFeed };
+    }
+    const ids = getFavoriteIds(favorites);
+    return {
+      liveExecutions: filterFavoriteExecutions(liveExecutions, ids),
+      templateHub: filterFavoriteTemplates(templateHub, ids),
+      activityFeed: filterFavoriteActivity(activityFeed, ids)
+    };
+  }, [filters.showOnlyFavorites, favorites, liveExecutions, templateHub, activityFeed]);
+
   return {
     // Data
     dashboardData,
     systemOverview,
-    liveExecutions,
-    templateHub,
+    liveExecutions: favoriteData.liveExecutions,
+    templateHub: favoriteData.templateHub,
     performanceMetrics,
-    activityFeed,
+    activityFeed: favoriteData.activityFeed,
     systemHealth,
     
     // State
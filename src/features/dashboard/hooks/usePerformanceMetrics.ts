@@ -0,0 +1,20 @@
+/**
+ * Performance Metrics Hook
+ *
+ * Performance metrics for one time range, cached per range so each chart
+ * can pick its own
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { dashboardService } from '../services';
+
+export const PERFORMANCE_METRICS_QUERY_KEY = ['dashboard', 'performance-metrics'] as const;
+
+export function usePerformanceMetrics(timeRange: string) {
+  return useQuery({
+    queryKey: [...PERFORMANCE_METRICS_QUERY_KEY, timeRange],
+    queryFn: () => dashboardService.getPerformanceMetrics(timeRange),
+    placeholderData: previous => previous,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
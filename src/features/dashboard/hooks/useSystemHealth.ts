@@ -0,0 +1,98 @@
+/**
+ * System Health Hook
+ *
+ * Polled system health with per-component check history and alert
+ * acknowledgement. Only callers that show the history record it, so the
+ * critical alert banner's poll doesn't add checks on every page.
+ */
+
+import { useCallback, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../../../contexts/AuthContext';
+import { dashboardService, healthHistoryService } from '../services';
+import type { ComponentHistory } from '../utils/system-health';
+import type { SystemHealth } from '../types';
+
+interface UseSystemHealthOptions {
+  refreshInterval?: number;
+  enabled?: boolean;
+  // Record each polled snapshot into the component check history
+  recordHistory?: boolean;
+}
+
+interface SystemHealthQueryData {
+  snapshot: SystemHealth;
+  history: ComponentHistory | null;
+}
+
+export const SYSTEM_HEALTH_QUERY_KEY = ['dashboard', 'system-health'] as const;
+
+export function useSystemHealth(options: UseSystemHealthOptions = {}) {
+  const { refreshInterval = 30000, enabled = true, recordHistory = false } = options;
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+  const [acknowledgeError, setAcknowledgeError] = useState<string | null>(null);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: recordHistory ? [...SYSTEM_HEALTH_QUERY_KEY, 'with-history', userId] : [...SYSTEM_HEALTH_QUERY_KEY, 'latest'],
+    queryFn: async (): Promise<SystemHealthQueryData> => {
+      const snapshot = await dashboardService.getSystemHealth();
+      return { snapshot, history: recordHistory ? healthHistoryService.record(userId, snapshot) : null };
+    },
+    refetchInterval: refreshInterval,
+    staleTime: 0,
+    enabled,
+  });
+
+  const acknowledgeAlert = useCallback(async (alertId: string) => {
+    setAcknowledgingId(alertId);
+    setAcknowledgeError(null);
+    try {
+      await dashboardService.acknowledgeAlert(alertId);
+
+      // Show it acknowledged right away; the refetch brings the server's values
+      queryClient.setQueriesData<SystemHealthQueryData>({ queryKey: SYSTEM_HEALTH_QUERY_KEY }, prev => prev && {
+        ...prev,
+        snapshot: {
+          ...prev.snapshot,
+          alerts: prev.snapshot.alerts.map(alert => (alert.id === alertId
+            ? {
+                ...alert,
+                acknowledged: true,
+                acknowledgedBy: alert.acknowledgedBy || user?.full_name || user?.email,
+                acknowledgedAt: alert.acknowledgedAt || new Date().toISOString(),
+              }
+            : alert)),
+        },
+      });
+      await queryClient.invalidateQueries({ queryKey: SYSTEM_HEALTH_QUERY_KEY });
+    } catch (err) {
+      setAcknowledgeError(err instanceof Error ? err.message : 'Failed to acknowledge alert');
+      throw err;
+    } finally {
+      setAcknowledgingId(null);
+    }
+  }, [queryClient, user]);
+
+  const clearHistory = useCallback(() => {
+    healthHistoryService.clear(userId);
+    queryClient.setQueriesData<SystemHealthQueryData>(
+      { queryKey: SYSTEM_HEALTH_QUERY_KEY },
+      prev => prev && { ...prev, history: prev.history && {} }
+    );
+  }, [queryClient, userId]);
+
+  return {
+    health: data?.snapshot ?? null,
+    history: data?.history ?? {},
+    isLoading,
+    error: acknowledgeError || (error instanceof Error ? error.message : null),
+    acknowledgingId,
+    acknowledgeAlert,
+    clearHistory,
+    refresh: refetch,
+  };
+}
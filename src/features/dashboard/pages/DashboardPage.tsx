@@ -4,12 +4,14 @@
  * Main dashboard page that combines all dashboard components
  */
 
+import { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { 
   RefreshCw,
   Settings,
   Calendar,
-  TrendingUp
+  TrendingUp,
+  Star
 } from 'lucide-react';
 
 import { Button } from '../../../components/ui/button';
@@ -18,9 +20,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../../components/ui
 import { Badge } from '../../../components/ui/badge';
 import { PageHeader } from '../../../components/common/PageHeader';
 import { ErrorDisplay } from '../../../components/common/ErrorDisplay';
+import { FavoriteButton } from '../../../components/common/FavoriteButton';
 
 import { SystemOverviewCards } from '../components/SystemOverviewCards';
 import { LiveExecutionMonitor } from '../components/LiveExecutionMonitor';
+import { PerformanceAnalytics } from '../components/PerformanceAnalytics';
+import { FavoritesPanel } from '../components/FavoritesPanel';
 import { useDashboardData } from '../hooks/useDashboardData';
 
 import type { DashboardPageProps } from '../types';
@@ -48,7 +53,11 @@ export function DashboardPage({ initialFilters }: DashboardPageProps) {
     stopExecution,
     pauseExecution,
     resumeExecution,
-    toggleRealTime
+    toggleRealTime,
+    updateFilters,
+
+    // Filters
+    filters
   } = useDashboardData({
     autoRefresh: true,
     refreshInterval: 30000, // 30 seconds
@@ -56,6 +65,11 @@ export function DashboardPage({ initialFilters }: DashboardPageProps) {
     initialFilters
   });
 
+  const templateNames = useMemo(
+    () => Object.fromEntries(templateHub.map(template => [template.id, template.name])),
+    [templateHub]
+  );
+
   const handleExecuteTemplate = async (templateId: string) => {
     try {
       const executionId = await executeTemplate(templateId);
@@ -117,6 +131,16 @@ export function DashboardPage({ initialFilters }: DashboardPageProps) {
               {isRealTimeConnected ? 'Live' : 'Connect'}
             </Button>
             
+            <Button
+              variant={filters.showOnlyFavorites ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => updateFilters({ showOnlyFavorites: !filters.showOnlyFavorites })}
+              aria-pressed={Boolean(filters.showOnlyFavorites)}
+            >
+              <Star className={`w-4 h-4 mr-1 ${filters.showOnlyFavorites ? 'fill-current' : ''}`} />
+              Favorites only
+            </Button>
+
             <Button
               variant="outline"
               size="sm"
@@ -145,7 +169,7 @@ export function DashboardPage({ initialFilters }: DashboardPageProps) {
 
       {/* Main Content Tabs */}
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="executions">
             Live Executions
@@ -155,12 +179,16 @@ export function DashboardPage({ initialFilters }: DashboardPageProps) {
               </Badge>
             )}
           </TabsTrigger>
+          <TabsTrigger value="analytics">Analytics</TabsTrigger>
           <TabsTrigger value="templates">Templates</TabsTrigger>
           <TabsTrigger value="activity">Activity</TabsTrigger>
         </TabsList>
 
         {/* Overview Tab */}
         <TabsContent value="overview" className="space-y-6">
+          {/* Favorites */}
+          <FavoritesPanel onExecute={handleExecuteTemplate} />
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Live Executions */}
             <LiveExecutionMonitor
@@ -178,7 +206,7 @@ export function DashboardPage({ initialFilters }: DashboardPageProps) {
                 <div className="flex items-center justify-between">
                   <CardTitle className="flex items-center gap-2">
                     <Settings className="w-5 h-5 text-purple-600" />
-                    Popular Templates
+                    {filters.showOnlyFavorites ? 'Favorite Templates' : 'Popular Templates'}
                   </CardTitle>
                   <Button variant="ghost" size="sm" asChild>
                     <a href="/templates">View All</a>
@@ -204,11 +232,23 @@ export function DashboardPage({ initialFilters }: DashboardPageProps) {
                 ) : templateHub.length === 0 ? (
                   <div className="text-center py-8">
                     <Settings className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                    <h3 className="text-lg font-medium text-foreground mb-2">No Templates</h3>
-                    <p className="text-muted-foreground mb-4">Create your first template to get started.</p>
-                    <Button asChild>
-                      <a href="/templates/create">Create Template</a>
-                    </Button>
+                    {filters.showOnlyFavorites ? (
+                      <>
+                        <h3 className="text-lg font-medium text-foreground mb-2">No Favorite Templates</h3>
+                        <p className="text-muted-foreground mb-4">None of these templates are starred yet.</p>
+                        <Button variant="outline" onClick={() => updateFilters({ showOnlyFavorites: false })}>
+                          Show all templates
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <h3 className="text-lg font-medium text-foreground mb-2">No Templates</h3>
+                        <p className="text-muted-foreground mb-4">Create your first template to get started.</p>
+                        <Button asChild>
+                          <a href="/templates/create">Create Template</a>
+                        </Button>
+                      </>
+                    )}
                   </div>
                 ) : (
                   <div className="space-y-4 max-h-96 overflow-y-auto">
@@ -219,9 +259,12 @@ export function DashboardPage({ initialFilters }: DashboardPageProps) {
                             <h4 className="font-medium truncate text-foreground">{template.name}</h4>
                             <p className="text-sm text-muted-foreground line-clamp-2">{template.description}</p>
                           </div>
-                          {template.isFeatured && (
-                            <Badge variant="secondary" className="ml-2">Featured</Badge>
-                          )}
+                          <div className="flex items-center gap-1 ml-2">
+                            {template.isFeatured && (
+                              <Badge variant="secondary">Featured</Badge>
+                            )}
+                            <FavoriteButton item={{ kind: 'template', id: template.id, name: template.name }} />
+                          </div>
                         </div>
                         
                         <div className="flex items-center justify-between text-xs text-muted-foreground mb-3">
@@ -319,6 +362,11 @@ export function DashboardPage({ initialFilters }: DashboardPageProps) {
           />
         </TabsContent>
 
+        {/* Analytics Tab */}
+        <TabsContent value="analytics">
+          <PerformanceAnalytics templateNames={templateNames} />
+        </TabsContent>
+
         {/* Templates Tab */}
         <TabsContent value="templates">
           <Card>
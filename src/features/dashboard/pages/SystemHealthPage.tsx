@@ -0,0 +1,129 @@
+/**
+ * System Health Page
+ *
+ * Component status with check history and the system alert inbox
+ */
+
+import { Activity, Bell, Clock, RefreshCw, Server } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent } from '../../../components/ui/card';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import { PageHeader } from '../../../components/common/PageHeader';
+import { ErrorDisplay } from '../../../components/common/ErrorDisplay';
+import { SystemHealthBadge } from '../components/SystemOverviewCards';
+import { SystemComponentList } from '../components/SystemComponentList';
+import { AlertInbox } from '../components/AlertInbox';
+import { useSystemHealth } from '../hooks/useSystemHealth';
+import { formatUptime } from '../utils/system-health';
+
+export function SystemHealthPage() {
+  const {
+    health,
+    history,
+    isLoading,
+    error,
+    acknowledgingId,
+    acknowledgeAlert,
+    clearHistory,
+    refresh,
+  } = useSystemHealth({ recordHistory: true });
+
+  const components = health?.components || [];
+  const alerts = health?.alerts || [];
+  const healthyCount = components.filter(component => component.status === 'healthy').length;
+  const openAlerts = alerts.filter(alert => !alert.acknowledged).length;
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="System Health"
+        description="Component status, check history and system alerts"
+        actions={
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={clearHistory}>
+              Clear history
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => refresh()} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        }
+      />
+
+      {error && !health && (
+        <ErrorDisplay
+          title="Failed to load system health"
+          message={error}
+          onRetry={() => refresh()}
+        />
+      )}
+
+      {error && health && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="flex items-center justify-between pt-6">
+            <div>
+              <p className="text-sm text-muted-foreground">Overall</p>
+              <div className="mt-1">
+                <SystemHealthBadge status={health?.overall || 'unknown'} />
+              </div>
+            </div>
+            <Activity className="w-8 h-8 text-muted-foreground" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="flex items-center justify-between pt-6">
+            <div>
+              <p className="text-sm text-muted-foreground">Uptime</p>
+              <p className="text-2xl font-bold">{health ? formatUptime(health.uptime) : '—'}</p>
+            </div>
+            <Clock className="w-8 h-8 text-muted-foreground" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="flex items-center justify-between pt-6">
+            <div>
+              <p className="text-sm text-muted-foreground">Healthy components</p>
+              <p className="text-2xl font-bold">{healthyCount} / {components.length}</p>
+            </div>
+            <Server className="w-8 h-8 text-muted-foreground" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="flex items-center justify-between pt-6">
+            <div>
+              <p className="text-sm text-muted-foreground">Open alerts</p>
+              <p className="text-2xl font-bold">{openAlerts}</p>
+            </div>
+            <Bell className="w-8 h-8 text-muted-foreground" />
+          </CardContent>
+        </Card>
+      </div>
+
+      {health?.lastCheck && (
+        <p className="text-xs text-muted-foreground">
+          Last checked {new Date(health.lastCheck).toLocaleString()}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+        <SystemComponentList components={components} history={history} isLoading={isLoading} />
+        <AlertInbox
+          alerts={alerts}
+          isLoading={isLoading}
+          acknowledgingId={acknowledgingId}
+          onAcknowledge={acknowledgeAlert}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default SystemHealthPage;
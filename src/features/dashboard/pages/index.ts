@@ -5,3 +5,4 @@
  */
 
 export * from './DashboardPage';
+export * from './SystemHealthPage';
@@ -4,7 +4,7 @@
  * Service for dashboard API calls and data management
  */
 
-import { apiClient } from '../../../services/api';
+import { apiClient, apiConfig, FetchEventSource } from '../../../services/api';
 import {
   transformDashboardData,
   transformSystemOverview,
@@ -225,10 +225,10 @@ export class DashboardService {
   }
 
   /**
-   * Create SSE connection for real-time updates
+   * Create SSE connection for real-time updates (authenticated via the Authorization header)
    */
-  createRealtimeConnection(onUpdate: (data: unknown) => void, onError?: (error: Event) => void): EventSource {
-    const eventSource = new EventSource(`${this.baseUrl}/stream`);
+  createRealtimeConnection(onUpdate: (data: unknown) => void, onError?: (error: Error) => void): FetchEventSource {
+    const eventSource = new FetchEventSource(`${apiConfig.baseURL}${this.baseUrl}/stream`);
     
     eventSource.onmessage = (event) => {
       try {
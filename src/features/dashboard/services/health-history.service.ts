@@ -0,0 +1,65 @@
+/**
+ * Health History Service
+ *
+ * Component check history built from successive health snapshots, newest
+ * first and capped at MAX_CHECKS_PER_COMPONENT checks per component.
+ */
+
+import { appendComponentHistory } from '../utils/system-health';
+import type { ComponentHistory } from '../utils/system-health';
+import type { SystemHealth } from '../types';
+
+const STORAGE_KEY_PREFIX = 'system_health_history';
+const MAX_CHECKS_PER_COMPONENT = 50;
+
+export class HealthHistoryService {
+  private static instance: HealthHistoryService;
+
+  static getInstance(): HealthHistoryService {
+    if (!HealthHistoryService.instance) {
+      HealthHistoryService.instance = new HealthHistoryService();
+    }
+    return HealthHistoryService.instance;
+  }
+
+  // Scoped like the rest of the browser-only data of the signed-in user
+  private getStorageKey(userId: string | null): string {
+    return userId ? `${STORAGE_KEY_PREFIX}_${userId}` : STORAGE_KEY_PREFIX;
+  }
+
+  /**
+   * Get recorded checks per component, newest first
+   */
+  getHistory(userId: string | null): ComponentHistory {
+    try {
+      const raw = localStorage.getItem(this.getStorageKey(userId));
+      if (!raw) return {};
+
+      const parsed = JSON.parse(raw) as ComponentHistory;
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      console.error('Failed to read health history:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Record the component checks from a health snapshot
+   */
+  record(userId: string | null, health: SystemHealth): ComponentHistory {
+    const history = appendComponentHistory(this.getHistory(userId), health, MAX_CHECKS_PER_COMPONENT);
+    try {
+      localStorage.setItem(this.getStorageKey(userId), JSON.stringify(history));
+    } catch (error) {
+      console.error('Failed to save health history:', error);
+    }
+    return history;
+  }
+
+  clear(userId: string | null): void {
+    localStorage.removeItem(this.getStorageKey(userId));
+  }
+}
+
+// Export singleton instance
+export const healthHistoryService = HealthHistoryService.getInstance();
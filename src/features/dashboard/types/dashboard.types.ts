@@ -103,10 +103,10 @@ export interface CostAnalysis {
 export interface AgentPerformance {
   agentName: string;
   totalExecutions: number;
-  successRate: number;
+  successRate: number; // Percentage (0-100)
   averageDuration: number;
   averageCost: number;
-  averageConfidence: number;
+  averageConfidence: number; // Percentage (0-100)
 }
 
 export interface ResponseTimeMetrics {
@@ -63,10 +63,22 @@ export function transformActivityFeed(backendData: unknown) {
 }
 
 /**
- * Transform performance metrics data
+ * Transform performance metrics data; agent success rate and confidence
+ * arrive as 0-1 fractions and are converted to percentages
  */
-export function transformPerformanceMetrics(backendData: unknown) {
-  return transformKeys(backendData);
+export function transformPerformanceMetrics(backendData: unknown): unknown {
+  const metrics = transformKeys(backendData) as Record<string, unknown> | null | undefined;
+  if (!metrics || !Array.isArray(metrics.agentPerformance)) {
+    return metrics;
+  }
+  return {
+    ...metrics,
+    agentPerformance: metrics.agentPerformance.map((agent: Record<string, unknown>) => ({
+      ...agent,
+      successRate: Number(agent.successRate ?? 0) * 100,
+      averageConfidence: Number(agent.averageConfidence ?? 0) * 100,
+    })),
+  };
 }
 
 /**
@@ -0,0 +1,54 @@
+/**
+ * Dashboard Favorites Utilities
+ *
+ * Narrow dashboard data to the user's favorite templates and executions
+ * for the `showOnlyFavorites` filter.
+ */
+
+import type { FavoriteItem } from '../../../services/favorites.service';
+import type { ActivityItem, LiveExecution, TemplateHubItem } from '../types';
+
+export interface FavoriteIds {
+  templateIds: Set<string>;
+  executionIds: Set<string>;
+}
+
+/**
+ * Favorite template and execution IDs. A favorite execution also counts
+ * its template, so its later runs stay visible.
+ */
+export function getFavoriteIds(favorites: FavoriteItem[]): FavoriteIds {
+  const templateIds = new Set<string>();
+  const executionIds = new Set<string>();
+
+  favorites.forEach(item => {
+    if (item.kind === 'template') {
+      templateIds.add(item.id);
+    } else {
+      executionIds.add(item.id);
+      if (item.templateId) templateIds.add(item.templateId);
+    }
+  });
+
+  return { templateIds, executionIds };
+}
+
+export function filterFavoriteTemplates(templates: TemplateHubItem[], ids: FavoriteIds): TemplateHubItem[] {
+  return templates.filter(template => ids.templateIds.has(template.id));
+}
+
+export function filterFavoriteExecutions(executions: LiveExecution[], ids: FavoriteIds): LiveExecution[] {
+  return executions.filter(execution =>
+    ids.executionIds.has(execution.id) || ids.templateIds.has(execution.templateId)
+  );
+}
+
+/**
+ * Activity about a favorite; items tied to no template or execution are dropped
+ */
+export function filterFavoriteActivity(activities: ActivityItem[], ids: FavoriteIds): ActivityItem[] {
+  return activities.filter(activity =>
+    (activity.executionId !== undefined && ids.executionIds.has(activity.executionId)) ||
+    (activity.templateId !== undefined && ids.templateIds.has(activity.templateId))
+  );
+}
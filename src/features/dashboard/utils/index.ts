@@ -5,3 +5,6 @@
  */
 
 export * from './data-transform';
+export * from './performance-analytics';
+export * from './system-health';
+export * from './favorites';
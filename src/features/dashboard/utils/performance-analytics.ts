@@ -0,0 +1,125 @@
+/**
+ * Performance Analytics Utilities
+ *
+ * Time ranges, chart data shaping and drill-down links from the analytics
+ * charts into the filtered execution history
+ */
+
+import { appendFilterParams } from '../../execution-history/utils/execution-filter.utils';
+import type { ExecutionFilters } from '../../execution-history/types';
+import type { AgentPerformance, ExecutionTrend, ResponseTimeMetrics } from '../types';
+
+export const ANALYTICS_TIME_RANGES = [
+  { value: '24h', label: 'Last 24 hours', days: 1 },
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 },
+] as const;
+
+export type AnalyticsTimeRange = (typeof ANALYTICS_TIME_RANGES)[number]['value'];
+
+export const DEFAULT_ANALYTICS_TIME_RANGE: AnalyticsTimeRange = '7d';
+
+const toDateParam = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Execution history URL with the given filters applied
+ */
+export function buildExecutionHistoryLink(filters: ExecutionFilters): string {
+  const params = new URLSearchParams();
+  appendFilterParams(params, filters);
+  const query = params.toString();
+  return query ? `/execution-history?${query}` : '/execution-history';
+}
+
+/**
+ * Date filters covering a time range, ending today
+ */
+export function getTimeRangeFilters(timeRange: AnalyticsTimeRange, now: Date = new Date()): ExecutionFilters {
+  const days = ANALYTICS_TIME_RANGES.find(range => range.value === timeRange)?.days || 7;
+  const from = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  return { date_from: toDateParam(from), date_to: toDateParam(now) };
+}
+
+/**
+ * Date filters for one trend point: from its timestamp up to the next point
+ */
+export function getTrendPointFilters(trends: ExecutionTrend[], index: number): ExecutionFilters {
+  const point = trends[index];
+  if (!point) return {};
+  const next = trends[index + 1];
+  return {
+    date_from: toDateParam(new Date(point.timestamp)),
+    date_to: toDateParam(new Date(next ? next.timestamp : point.timestamp)),
+  };
+}
+
+export interface TrendChartPoint {
+  label: string;
+  successful: number;
+  failed: number;
+  total: number;
+  averageDuration: number;
+  cost: number;
+}
+
+export function toTrendChartData(trends: ExecutionTrend[], timeRange: AnalyticsTimeRange): TrendChartPoint[] {
+  return trends.map(trend => {
+    const date = new Date(trend.timestamp);
+    return {
+      label: timeRange === '24h'
+        ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleDateString([], { month: 'short', day: 'numeric' }),
+      successful: trend.successfulExecutions,
+      failed: trend.failedExecutions,
+      total: trend.totalExecutions,
+      averageDuration: trend.averageDuration,
+      cost: trend.totalCost,
+    };
+  });
+}
+
+export type LeaderboardMetric = 'score' | 'successRate' | 'averageConfidence' | 'averageDuration' | 'averageCost';
+
+export interface LeaderboardEntry extends AgentPerformance {
+  rank: number;
+  // 0-100 blend of success, confidence, speed and cost relative to the other agents
+  score: number;
+}
+
+/**
+ * Agents ranked by a blended score or a single metric; duration and cost
+ * rank lowest first
+ */
+export function rankAgents(agents: AgentPerformance[], metric: LeaderboardMetric = 'score'): LeaderboardEntry[] {
+  const maxDuration = Math.max(0, ...agents.map(agent => agent.averageDuration));
+  const maxCost = Math.max(0, ...agents.map(agent => agent.averageCost));
+
+  const scored = agents.map(agent => {
+    const success = agent.successRate / 100;
+    const confidence = agent.averageConfidence / 100;
+    const speed = maxDuration > 0 ? 1 - agent.averageDuration / maxDuration : 1;
+    const thrift = maxCost > 0 ? 1 - agent.averageCost / maxCost : 1;
+    const score = Math.round((success * 0.4 + confidence * 0.3 + speed * 0.15 + thrift * 0.15) * 100);
+    return { ...agent, rank: 0, score };
+  });
+
+  const ascending = metric === 'averageDuration' || metric === 'averageCost';
+  return scored
+    .sort((a, b) => (ascending ? a[metric] - b[metric] : b[metric] - a[metric]) || b.totalExecutions - a.totalExecutions)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+export interface LatencyPercentile {
+  key: 'p50' | 'p90' | 'p95' | 'p99';
+  label: string;
+  seconds: number;
+}
+
+export function getLatencyPercentiles(metrics: ResponseTimeMetrics): LatencyPercentile[] {
+  return (['p50', 'p90', 'p95', 'p99'] as const).map(key => ({
+    key,
+    label: key.toUpperCase(),
+    seconds: metrics[key] || 0,
+  }));
+}
@@ -0,0 +1,119 @@
+/**
+ * System Health Utilities
+ *
+ * Alert filtering and per-component check history for the health page and
+ * the critical alert banner
+ */
+
+import type { ActivitySeverity, SystemAlert, SystemComponent, SystemHealth } from '../types';
+
+export const ALERT_SEVERITY_OPTIONS: { value: ActivitySeverity; label: string }[] = [
+  { value: 'error', label: 'Critical' },
+  { value: 'warning', label: 'Warning' },
+  { value: 'info', label: 'Info' },
+  { value: 'success', label: 'Resolved' },
+];
+
+export type AlertStatusFilter = 'unacknowledged' | 'acknowledged' | 'all';
+
+export interface AlertFilters {
+  severity?: ActivitySeverity;
+  status: AlertStatusFilter;
+}
+
+const SEVERITY_ORDER: Record<ActivitySeverity, number> = { error: 0, warning: 1, info: 2, success: 3 };
+
+/**
+ * Critical alerts are the error-severity ones
+ */
+export function isCriticalAlert(alert: SystemAlert): boolean {
+  return alert.severity === 'error';
+}
+
+export function getUnacknowledgedCriticalAlerts(alerts: SystemAlert[]): SystemAlert[] {
+  return alerts.filter(alert => isCriticalAlert(alert) && !alert.acknowledged);
+}
+
+/**
+ * Alerts matching the filters, most severe and then newest first
+ */
+export function filterAlerts(alerts: SystemAlert[], filters: AlertFilters): SystemAlert[] {
+  return alerts
+    .filter(alert => !filters.severity || alert.severity === filters.severity)
+    .filter(alert => {
+      if (filters.status === 'unacknowledged') return !alert.acknowledged;
+      if (filters.status === 'acknowledged') return alert.acknowledged;
+      return true;
+    })
+    .sort((a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+      || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+}
+
+export function countAlertsBySeverity(alerts: SystemAlert[]): Record<ActivitySeverity, number> {
+  const counts: Record<ActivitySeverity, number> = { error: 0, warning: 0, info: 0, success: 0 };
+  alerts.forEach(alert => {
+    if (!alert.acknowledged) counts[alert.severity] += 1;
+  });
+  return counts;
+}
+
+export type ComponentCheck = Pick<SystemComponent, 'status' | 'lastCheck' | 'responseTime' | 'errorMessage'>;
+
+// Component name -> checks, newest first
+export type ComponentHistory = Record<string, ComponentCheck[]>;
+
+/**
+ * Add the checks from a health snapshot to the history; a check already
+ * recorded (same lastCheck) is not added twice
+ */
+export function appendComponentHistory(
+  history: ComponentHistory,
+  health: SystemHealth,
+  maxChecks = 50
+): ComponentHistory {
+  const next: ComponentHistory = { ...history };
+  (health.components || []).forEach(component => {
+    const checks = next[component.name] || [];
+    if (checks.some(check => check.lastCheck === component.lastCheck)) return;
+
+    const check: ComponentCheck = {
+      status: component.status,
+      lastCheck: component.lastCheck,
+      responseTime: component.responseTime,
+      errorMessage: component.errorMessage,
+    };
+    next[component.name] = [check, ...checks]
+      .sort((a, b) => new Date(b.lastCheck).getTime() - new Date(a.lastCheck).getTime())
+      .slice(0, maxChecks);
+  });
+  return next;
+}
+
+/**
+ * Checks that reported an error message
+ */
+export function getErrorHistory(checks: ComponentCheck[]): ComponentCheck[] {
+  return checks.filter(check => Boolean(check.errorMessage));
+}
+
+export function getAverageResponseTime(checks: ComponentCheck[]): number | null {
+  const times = checks
+    .map(check => check.responseTime)
+    .filter((time): time is number => typeof time === 'number');
+  if (times.length === 0) return null;
+  return times.reduce((sum, time) => sum + time, 0) / times.length;
+}
+
+/**
+ * Uptime in seconds as "3d 4h", "5h 12m" or "42m"
+ */
+export function formatUptime(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
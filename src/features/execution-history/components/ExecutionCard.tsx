@@ -19,11 +19,17 @@ import { Button } from '../../../components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../../../components/ui/card';
 import { Badge } from '../../../components/ui/badge';
 import { Progress } from '../../../components/ui/progress';
+import { Checkbox } from '../../../components/ui/checkbox';
+import { FavoriteButton } from '../../../components/common/FavoriteButton';
 
 import type { ExecutionResult } from '../types';
 
 interface ExecutionCardProps {
   execution: ExecutionResult;
+  // Compare mode selection; the checkbox is shown only when onSelectChange is set
+  isSelected?: boolean;
+  selectionDisabled?: boolean;
+  onSelectChange?: (execution: ExecutionResult, selected: boolean) => void;
 }
 
 // Status configurations matching template card style
@@ -55,7 +61,7 @@ const STATUS_CONFIG = {
   }
 } as const;
 
-export function ExecutionCard({ execution }: ExecutionCardProps) {
+export function ExecutionCard({ execution, isSelected = false, selectionDisabled = false, onSelectChange }: ExecutionCardProps) {
   const navigate = useNavigate();
   const statusConfig = STATUS_CONFIG[execution.status as keyof typeof STATUS_CONFIG] || STATUS_CONFIG.pending;
   const StatusIcon = statusConfig.icon;
@@ -95,7 +101,7 @@ export function ExecutionCard({ execution }: ExecutionCardProps) {
   const agentSuccessRate = totalAgents > 0 ? Math.round((successfulAgents / totalAgents) * 100) : 0;
 
   return (
-    <Card className="group h-full flex flex-col transition-all duration-200 hover:shadow-lg hover:shadow-blue-100 dark:hover:shadow-blue-900/20 hover:-translate-y-1 border hover:border-blue-300 dark:hover:border-blue-700">
+    <Card className={`group h-full flex flex-col transition-all duration-200 hover:shadow-lg hover:shadow-blue-100 dark:hover:shadow-blue-900/20 hover:-translate-y-1 border hover:border-blue-300 dark:hover:border-blue-700 ${isSelected ? 'ring-2 ring-blue-500 border-blue-300 dark:border-blue-700' : ''}`}>
       <CardHeader className="pb-2">
         <div className="flex items-start justify-between gap-3">
           <div className="flex-1 min-w-0">
@@ -128,6 +134,27 @@ export function ExecutionCard({ execution }: ExecutionCardProps) {
               {execution.query}
             </CardDescription>
           </div>
+
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <FavoriteButton
+              item={{
+                kind: 'execution',
+                id: execution.execution_id,
+                name: execution.query || execution.template_name,
+                templateId: execution.template_id,
+              }}
+              className="-mt-1"
+            />
+            {onSelectChange && (
+              <Checkbox
+                checked={isSelected}
+                disabled={selectionDisabled && !isSelected}
+                onCheckedChange={(checked) => onSelectChange(execution, checked === true)}
+                aria-label={`Select ${execution.template_name} for comparison`}
+                className="mt-1"
+              />
+            )}
+          </div>
         </div>
       </CardHeader>
 
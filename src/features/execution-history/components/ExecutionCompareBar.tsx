@@ -0,0 +1,52 @@
+/**
+ * ExecutionCompareBar Component
+ *
+ * Sticky action bar shown while picking executions to compare
+ */
+
+import { useNavigate } from 'react-router-dom';
+import { GitCompare, X } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent } from '../../../components/ui/card';
+
+import { buildCompareUrl, MAX_COMPARE_EXECUTIONS, MIN_COMPARE_EXECUTIONS } from '../utils/execution-compare.utils';
+
+interface ExecutionCompareBarProps {
+  selectedIds: string[];
+  onClear: () => void;
+}
+
+export function ExecutionCompareBar({ selectedIds, onClear }: ExecutionCompareBarProps) {
+  const navigate = useNavigate();
+  const canCompare = selectedIds.length >= MIN_COMPARE_EXECUTIONS;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50">
+      <Card className="shadow-lg">
+        <CardContent className="flex items-center gap-4 py-3">
+          <span className="text-sm">
+            {selectedIds.length} of {MAX_COMPARE_EXECUTIONS} selected
+            {!canCompare && (
+              <span className="text-muted-foreground"> • pick at least {MIN_COMPARE_EXECUTIONS}</span>
+            )}
+          </span>
+          <Button
+            size="sm"
+            onClick={() => navigate(buildCompareUrl(selectedIds))}
+            disabled={!canCompare}
+            className="flex items-center gap-2"
+          >
+            <GitCompare className="h-4 w-4" />
+            Compare
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClear} aria-label="Exit compare mode">
+            <X className="h-4 w-4" />
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ExecutionCompareBar;
@@ -0,0 +1,315 @@
+/**
+ * ExecutionComparison Component
+ *
+ * Side-by-side view of 2-4 executions: headline metrics, per-agent results
+ * lined up by agent name, findings/recommendations and source overlap
+ */
+
+import { Link } from 'react-router-dom';
+import {
+  Bot,
+  CheckCircle2,
+  XCircle,
+  Minus,
+  Lightbulb,
+  Target,
+  Globe,
+  ExternalLink,
+  BarChart3,
+} from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Badge } from '../../../components/ui/badge';
+
+import { ExecutionStatusBadge } from './ExecutionStatusBadge';
+import { formatDetailedDuration, formatRelativeTime } from '../utils/execution-time.utils';
+import {
+  getAgentInsights,
+  type AlignedAgentRow,
+  type CompareMetric,
+  type CompareMetricKey,
+  type CompareSource,
+} from '../utils/execution-compare.utils';
+import type { AgentResult, ExecutionResult } from '../types';
+
+interface ExecutionComparisonProps {
+  executions: ExecutionResult[];
+  metrics: CompareMetric[];
+  agentRows: AlignedAgentRow[];
+  sources: CompareSource[][];
+}
+
+// Static class names so Tailwind picks them up
+const GRID_COLUMNS: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4',
+};
+
+const formatMetric = (key: CompareMetricKey, value: number): string => {
+  switch (key) {
+    case 'total_cost':
+      return `$${value.toFixed(4)}`;
+    case 'total_tokens':
+      return value.toLocaleString();
+    case 'total_duration':
+      return value > 0 ? formatDetailedDuration(value) : 'N/A';
+    case 'overall_confidence':
+      return `${Math.round(value * 100)}%`;
+  }
+};
+
+const formatDelta = (value: number, baseline: number): string | null => {
+  if (baseline === 0 || value === baseline) return null;
+  const delta = ((value - baseline) / baseline) * 100;
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(0)}%`;
+};
+
+function InsightList({ icon: Icon, title, items, className }: {
+  icon: typeof Lightbulb;
+  title: string;
+  items: string[];
+  className: string;
+}) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+        <Icon className={`w-3 h-3 ${className}`} />
+        {title}
+      </div>
+      <ul className="space-y-1">
+        {items.map((item, index) => (
+          <li key={index} className="text-xs leading-relaxed pl-2 border-l-2 border-muted">
+            {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function AgentCell({ agent }: { agent?: AgentResult }) {
+  if (!agent) {
+    return (
+      <div className="flex items-center justify-center gap-1 rounded-lg border border-dashed p-3 text-xs text-muted-foreground">
+        <Minus className="w-3 h-3" />
+        Not run
+      </div>
+    );
+  }
+
+  const { keyFindings, recommendations } = getAgentInsights(agent);
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        {agent.success ? (
+          <Badge variant="outline" className="text-xs text-green-700 border-green-200 dark:text-green-400 dark:border-green-800">
+            <CheckCircle2 className="w-3 h-3 mr-1" />
+            Success
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="text-xs text-red-700 border-red-200 dark:text-red-400 dark:border-red-800">
+            <XCircle className="w-3 h-3 mr-1" />
+            Failed
+          </Badge>
+        )}
+        <span className="text-xs text-muted-foreground">{Math.round(agent.confidence_score * 100)}% confidence</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div>
+          <div className="text-muted-foreground">Cost</div>
+          <div className="font-medium">${agent.cost.toFixed(4)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Tokens</div>
+          <div className="font-medium">{agent.tokens_used.toLocaleString()}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Duration</div>
+          <div className="font-medium">{formatDetailedDuration(agent.duration_seconds)}</div>
+        </div>
+      </div>
+
+      {agent.error && (
+        <div className="text-xs text-red-600 dark:text-red-400 line-clamp-3">{agent.error}</div>
+      )}
+
+      <InsightList icon={Lightbulb} title="Key Findings" items={keyFindings} className="text-yellow-600" />
+      <InsightList icon={Target} title="Recommendations" items={recommendations} className="text-blue-600" />
+    </div>
+  );
+}
+
+export function ExecutionComparison({ executions, metrics, agentRows, sources }: ExecutionComparisonProps) {
+  const gridClass = `grid grid-cols-1 gap-4 ${GRID_COLUMNS[executions.length] || ''}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Execution headers */}
+      <div className={gridClass}>
+        {executions.map((execution, index) => (
+          <Card key={execution.execution_id}>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between gap-2">
+                <Badge variant="secondary" className="text-xs">Run {index + 1}</Badge>
+                <ExecutionStatusBadge status={execution.status} />
+              </div>
+              <CardTitle className="text-base line-clamp-1">{execution.template_name}</CardTitle>
+              <CardDescription className="line-clamp-2">{execution.query}</CardDescription>
+            </CardHeader>
+            <CardContent className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Started {formatRelativeTime(execution.started_at)}</span>
+              <Link
+                to={`/execution-history/${execution.execution_id}`}
+                className="flex items-center gap-1 hover:text-foreground"
+              >
+                Details
+                <ExternalLink className="w-3 h-3" />
+              </Link>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Metrics */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <BarChart3 className="w-4 h-4 text-blue-600" />
+            Metrics
+          </CardTitle>
+          <CardDescription>Best value highlighted; deltas are relative to Run 1</CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left font-medium text-muted-foreground py-2 pr-4">Metric</th>
+                {executions.map((execution, index) => (
+                  <th key={execution.execution_id} className="text-right font-medium text-muted-foreground py-2 px-2">
+                    Run {index + 1}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.map(metric => (
+                <tr key={metric.key} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-medium">{metric.label}</td>
+                  {metric.values.map((value, index) => {
+                    const delta = index > 0 ? formatDelta(value, metric.values[0]) : null;
+                    return (
+                      <td
+                        key={index}
+                        className={`py-2 px-2 text-right tabular-nums ${
+                          metric.bestIndex === index ? 'text-green-700 dark:text-green-400 font-semibold' : ''
+                        }`}
+                      >
+                        {formatMetric(metric.key, value)}
+                        {delta && <span className="ml-1 text-xs text-muted-foreground">({delta})</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {/* Agents lined up by name */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Bot className="w-4 h-4 text-purple-600" />
+            Agent Results
+          </CardTitle>
+          <CardDescription>Agents matched by name across runs</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {agentRows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No agent results to compare</p>
+          ) : (
+            agentRows.map(row => (
+              <div key={row.agentName} className="space-y-2">
+                <h4 className="text-sm font-semibold">{row.agentName}</h4>
+                <div className={gridClass}>
+                  {row.results.map((agent, index) => (
+                    <AgentCell key={index} agent={agent} />
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Sources */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Globe className="w-4 h-4 text-green-600" />
+            Sources
+          </CardTitle>
+          <CardDescription>Sources cited by only one run are highlighted</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className={gridClass}>
+            {sources.map((runSources, index) => {
+              const uniqueCount = runSources.filter(source => source.isUnique).length;
+              return (
+                <div key={index} className="space-y-2">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span className="font-medium">Run {index + 1}</span>
+                    <span>{runSources.length} sources • {uniqueCount} unique</span>
+                  </div>
+                  {runSources.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No sources</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {runSources.map(source => (
+                        <li
+                          key={source.key}
+                          className={`rounded-md border p-2 text-xs ${
+                            source.isUnique
+                              ? 'border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20'
+                              : ''
+                          }`}
+                        >
+                          <div className="flex items-start justify-between gap-2">
+                            <span className="font-medium line-clamp-2">{source.title}</span>
+                            {source.isUnique && (
+                              <Badge variant="outline" className="text-[10px] flex-shrink-0">Only here</Badge>
+                            )}
+                          </div>
+                          {source.url && (
+                            <a
+                              href={source.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="mt-1 flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                            >
+                              <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                              <span className="truncate">{source.url}</span>
+                            </a>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ExecutionComparison;
@@ -0,0 +1,104 @@
+/**
+ * ExecutionFilterPresets Component
+ *
+ * Saved filter presets as quick chips, plus saving the current filters
+ * under a name
+ */
+
+import React from 'react';
+import { Bookmark, BookmarkPlus, X } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '../../../components/ui/popover';
+import { useFilterPresets } from '../hooks/useFilterPresets';
+import { countActiveFilters } from '../utils/execution-filter.utils';
+import type { ExecutionFilters } from '../types';
+
+interface ExecutionFilterPresetsProps {
+  filters: ExecutionFilters;
+  onApply: (filters: ExecutionFilters) => void;
+  className?: string;
+}
+
+export function ExecutionFilterPresets({ filters, onApply, className = '' }: ExecutionFilterPresetsProps) {
+  const { presets, activePresetId, savePreset, deletePreset, error } = useFilterPresets(filters);
+  const [isSaveOpen, setIsSaveOpen] = React.useState(false);
+  const [name, setName] = React.useState('');
+
+  const canSave = countActiveFilters(filters) > 0 && !activePresetId;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (savePreset(name, filters)) {
+      setName('');
+      setIsSaveOpen(false);
+    }
+  };
+
+  if (presets.length === 0 && !canSave) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      {presets.map(preset => {
+        const isActive = preset.id === activePresetId;
+        return (
+          <span
+            key={preset.id}
+            className={`inline-flex items-center rounded-full border text-xs transition-colors ${
+              isActive
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'bg-background hover:bg-muted border-border'
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => onApply(isActive ? {} : preset.filters)}
+              className="inline-flex items-center gap-1 pl-3 pr-1 py-1"
+              title={isActive ? 'Clear preset' : `Apply "${preset.name}"`}
+            >
+              <Bookmark className="h-3 w-3" />
+              {preset.name}
+            </button>
+            <button
+              type="button"
+              onClick={() => deletePreset(preset.id)}
+              className="p-1 pr-2 opacity-60 hover:opacity-100"
+              aria-label={`Delete preset ${preset.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        );
+      })}
+
+      {canSave && (
+        <Popover open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 text-xs">
+              <BookmarkPlus className="h-3.5 w-3.5 mr-1" />
+              Save filters
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-64">
+            <form onSubmit={handleSave} className="space-y-2">
+              <Input
+                autoFocus
+                placeholder="Preset name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="h-8"
+              />
+              {error && <p className="text-xs text-red-600">{error}</p>}
+              <Button type="submit" size="sm" className="w-full" disabled={!name.trim()}>
+                Save preset
+              </Button>
+            </form>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
+
+export default ExecutionFilterPresets;
@@ -1,6 +1,6 @@
 /**
  * ExecutionFilters Component
- * 
+ *
  * Shadcn form components for execution filtering
  */
 
@@ -8,47 +8,89 @@ import React from 'react';
 import { Button } from '../../../components/ui/button';
 import { Input } from '../../../components/ui/input';
 import { Label } from '../../../components/ui/label';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '../../../components/ui/select';
+import { Checkbox } from '../../../components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
 import { Search, Filter, X } from 'lucide-react';
-import type { ExecutionFiltersProps, ExecutionStatus } from '../types';
-
-export function ExecutionFilters({ filters, onFiltersChange, onReset }: ExecutionFiltersProps) {
-  const handleStatusChange = (status: string) => {
-    onFiltersChange({
-      ...filters,
-      status: status === 'all' ? undefined : (status as ExecutionStatus),
-    });
+import {
+  EXECUTION_STATUS_OPTIONS,
+  describeActiveFilters,
+  removeFilterKeys,
+  type ExecutionRangeFilterKey,
+} from '../utils/execution-filter.utils';
+import type { ExecutionFilters as ExecutionFiltersValue, ExecutionFiltersProps, ExecutionStatus } from '../types';
+
+interface RangeFieldProps {
+  label: string;
+  unit: string;
+  minKey: ExecutionRangeFilterKey;
+  maxKey: ExecutionRangeFilterKey;
+  filters: ExecutionFiltersValue;
+  onChange: (key: ExecutionRangeFilterKey, value: string) => void;
+  // Displayed value = stored value * scale (confidence is shown as a percentage)
+  scale?: number;
+  step?: string;
+}
+
+function RangeField({ label, unit, minKey, maxKey, filters, onChange, scale = 1, step = 'any' }: RangeFieldProps) {
+  const display = (value?: number) => (value === undefined ? '' : String(Math.round(value * scale * 1000) / 1000));
+
+  return (
+    <div className="space-y-2">
+      <Label>{label} <span className="text-xs text-muted-foreground">({unit})</span></Label>
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="number"
+          min={0}
+          step={step}
+          placeholder="Min"
+          aria-label={`Minimum ${label.toLowerCase()}`}
+          value={display(filters[minKey])}
+          onChange={(e) => onChange(minKey, e.target.value)}
+        />
+        <Input
+          type="number"
+          min={0}
+          step={step}
+          placeholder="Max"
+          aria-label={`Maximum ${label.toLowerCase()}`}
+          value={display(filters[maxKey])}
+          onChange={(e) => onChange(maxKey, e.target.value)}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function ExecutionFilters({ filters, onFiltersChange, onReset, templateOptions = [] }: ExecutionFiltersProps) {
+  const update = (changes: Partial<ExecutionFiltersValue>) => {
+    onFiltersChange({ ...filters, ...changes });
   };
 
-  const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    onFiltersChange({
-      ...filters,
-      search: event.target.value || undefined,
-    });
+  const toggleStatus = (status: ExecutionStatus, checked: boolean) => {
+    const current = filters.statuses || [];
+    const statuses = checked ? [...current, status] : current.filter(value => value !== status);
+    update({ statuses: statuses.length > 0 ? statuses : undefined });
   };
 
-  const handleDateFromChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    onFiltersChange({
-      ...filters,
-      date_from: event.target.value || undefined,
-    });
+  const toggleTemplate = (templateId: string, checked: boolean) => {
+    const current = filters.template_ids || [];
+    const templateIds = checked ? [...current, templateId] : current.filter(value => value !== templateId);
+    update({ template_ids: templateIds.length > 0 ? templateIds : undefined });
   };
 
-  const handleDateToChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    onFiltersChange({
-      ...filters,
-      date_to: event.target.value || undefined,
-    });
+  const handleTextChange = (key: 'search' | 'date_from' | 'date_to' | 'agent_name' | 'failed_agent' | 'error_message') =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      update({ [key]: event.target.value || undefined });
+    };
+
+  const handleRangeChange = (key: ExecutionRangeFilterKey, value: string, scale = 1) => {
+    const parsed = value === '' ? undefined : Number(value) / scale;
+    update({ [key]: parsed !== undefined && Number.isFinite(parsed) ? parsed : undefined });
   };
 
-  const hasActiveFilters = Object.values(filters).some(value => value !== undefined && value !== '');
+  const templateNames = Object.fromEntries(templateOptions.map(option => [option.id, option.name]));
+  const activeFilters = describeActiveFilters(filters, templateNames);
+  const hasActiveFilters = activeFilters.length > 0;
 
   return (
     <Card>
@@ -68,7 +110,7 @@ export function ExecutionFilters({ filters, onFiltersChange, onReset }: Executio
               id="search"
               placeholder="Search by template name or query..."
               value={filters.search || ''}
-              onChange={handleSearchChange}
+              onChange={handleTextChange('search')}
               className="pl-10"
             />
           </div>
@@ -76,25 +118,38 @@ export function ExecutionFilters({ filters, onFiltersChange, onReset }: Executio
 
         {/* Status Filter */}
         <div className="space-y-2">
-          <Label htmlFor="status">Status</Label>
-          <Select
-            value={filters.status || 'all'}
-            onValueChange={handleStatusChange}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder="Select status" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Statuses</SelectItem>
-              <SelectItem value="pending">Pending</SelectItem>
-              <SelectItem value="running">Running</SelectItem>
-              <SelectItem value="completed">Completed</SelectItem>
-              <SelectItem value="failed">Failed</SelectItem>
-              <SelectItem value="cancelled">Cancelled</SelectItem>
-            </SelectContent>
-          </Select>
+          <Label>Status</Label>
+          <div className="grid grid-cols-1 gap-2">
+            {EXECUTION_STATUS_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={filters.statuses?.includes(option.value) || false}
+                  onCheckedChange={(checked) => toggleStatus(option.value, checked === true)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
         </div>
 
+        {/* Template Filter */}
+        {templateOptions.length > 0 && (
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <div className="grid grid-cols-1 gap-2 max-h-40 overflow-y-auto">
+              {templateOptions.map(option => (
+                <label key={option.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={filters.template_ids?.includes(option.id) || false}
+                    onCheckedChange={(checked) => toggleTemplate(option.id, checked === true)}
+                  />
+                  <span className="truncate">{option.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Date Range */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-2">
@@ -103,7 +158,7 @@ export function ExecutionFilters({ filters, onFiltersChange, onReset }: Executio
               id="date-from"
               type="date"
               value={filters.date_from || ''}
-              onChange={handleDateFromChange}
+              onChange={handleTextChange('date_from')}
             />
           </div>
           <div className="space-y-2">
@@ -112,11 +167,69 @@ export function ExecutionFilters({ filters, onFiltersChange, onReset }: Executio
               id="date-to"
               type="date"
               value={filters.date_to || ''}
-              onChange={handleDateToChange}
+              onChange={handleTextChange('date_to')}
             />
           </div>
         </div>
 
+        {/* Ranges */}
+        <RangeField
+          label="Cost"
+          unit="$"
+          minKey="min_cost"
+          maxKey="max_cost"
+          filters={filters}
+          onChange={(key, value) => handleRangeChange(key, value)}
+          step="0.01"
+        />
+        <RangeField
+          label="Duration"
+          unit="seconds"
+          minKey="min_duration"
+          maxKey="max_duration"
+          filters={filters}
+          onChange={(key, value) => handleRangeChange(key, value)}
+        />
+        <RangeField
+          label="Confidence"
+          unit="%"
+          minKey="min_confidence"
+          maxKey="max_confidence"
+          filters={filters}
+          onChange={(key, value) => handleRangeChange(key, value, 100)}
+          scale={100}
+          step="1"
+        />
+
+        {/* Agents and Failures */}
+        <div className="space-y-2">
+          <Label htmlFor="agent-name">Agent</Label>
+          <Input
+            id="agent-name"
+            placeholder="Agent that ran..."
+            value={filters.agent_name || ''}
+            onChange={handleTextChange('agent_name')}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="failed-agent">Failed Agent</Label>
+          <Input
+            id="failed-agent"
+            placeholder="Agent name..."
+            value={filters.failed_agent || ''}
+            onChange={handleTextChange('failed_agent')}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="error-message">Error Message</Label>
+          <Input
+            id="error-message"
+            placeholder="Text in the failure reason..."
+            value={filters.error_message || ''}
+            onChange={handleTextChange('error_message')}
+          />
+        </div>
+
         {/* Reset Button */}
         {hasActiveFilters && (
           <div className="pt-2 border-t">
@@ -138,26 +251,22 @@ export function ExecutionFilters({ filters, onFiltersChange, onReset }: Executio
             <div className="text-sm text-muted-foreground">
               Active filters:
               <div className="flex flex-wrap gap-1 mt-1">
-                {filters.status && (
-                  <span className="inline-flex items-center px-2 py-1 rounded-md bg-blue-100 text-blue-800 text-xs">
-                    Status: {filters.status}
-                  </span>
-                )}
-                {filters.search && (
-                  <span className="inline-flex items-center px-2 py-1 rounded-md bg-green-100 text-green-800 text-xs">
-                    Search: "{filters.search}"
-                  </span>
-                )}
-                {filters.date_from && (
-                  <span className="inline-flex items-center px-2 py-1 rounded-md bg-purple-100 text-purple-800 text-xs">
-                    From: {filters.date_from}
-                  </span>
-                )}
-                {filters.date_to && (
-                  <span className="inline-flex items-center px-2 py-1 rounded-md bg-purple-100 text-purple-800 text-xs">
-                    To: {filters.date_to}
+                {activeFilters.map(chip => (
+                  <span
+                    key={chip.keys.join('-')}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-blue-100 text-blue-800 text-xs"
+                  >
+                    {chip.label}
+                    <button
+                      type="button"
+                      onClick={() => onFiltersChange(removeFilterKeys(filters, chip.keys))}
+                      aria-label={`Remove ${chip.label}`}
+                      className="hover:text-blue-950"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
                   </span>
-                )}
+                ))}
               </div>
             </div>
           </div>
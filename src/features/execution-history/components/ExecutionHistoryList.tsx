@@ -4,15 +4,20 @@
  * Main component for execution history display with shadcn components
  */
 
+import { useState, useEffect } from 'react';
 import { Button } from '../../../components/ui/button';
 import { Card, CardContent, CardHeader } from '../../../components/ui/card';
 import { Alert, AlertDescription } from '../../../components/ui/alert';
 import { Skeleton } from '../../../components/ui/skeleton';
-import { RefreshCw, Plus, AlertCircle } from 'lucide-react';
+import { RefreshCw, Plus, AlertCircle, GitCompare } from 'lucide-react';
 import { ExecutionCard } from './ExecutionCard';
+import { ExecutionCompareBar } from './ExecutionCompareBar';
 import { ExecutionMetrics } from './ExecutionMetrics';
 import { ExecutionFilters } from './ExecutionFilters';
+import { ExecutionFilterPresets } from './ExecutionFilterPresets';
 import { useExecutionHistory, useExecutionActions } from '../hooks';
+import { MAX_COMPARE_EXECUTIONS } from '../utils/execution-compare.utils';
+import { countActiveFilters } from '../utils/execution-filter.utils';
 import type { ExecutionResult } from '../types';
 
 interface ExecutionHistoryListProps {
@@ -20,6 +25,7 @@ interface ExecutionHistoryListProps {
   onCreateNew?: () => void;
   showMetrics?: boolean;
   showFilters?: boolean;
+  showCompare?: boolean;
   autoRefresh?: boolean;
   className?: string;
 }
@@ -29,6 +35,7 @@ export function ExecutionHistoryList({
   onCreateNew,
   showMetrics = true,
   showFilters = true,
+  showCompare = true,
   autoRefresh = true,
   className,
 }: ExecutionHistoryListProps) {
@@ -72,6 +79,33 @@ export function ExecutionHistoryList({
     },
   });
 
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  // Templates seen so far, so filtering down to one keeps the others selectable
+  const [templateOptions, setTemplateOptions] = useState<{ id: string; name: string }[]>([]);
+  useEffect(() => {
+    setTemplateOptions(prev => {
+      const known = new Set(prev.map(option => option.id));
+      const added = executions
+        .filter(execution => !known.has(execution.template_id) && known.add(execution.template_id))
+        .map(execution => ({ id: execution.template_id, name: execution.template_name }));
+      return added.length > 0 ? [...prev, ...added].sort((a, b) => a.name.localeCompare(b.name)) : prev;
+    });
+  }, [executions]);
+
+  const handleCompareSelect = (execution: ExecutionResult, selected: boolean) => {
+    setCompareIds(prev => {
+      if (!selected) return prev.filter(id => id !== execution.execution_id);
+      if (prev.length >= MAX_COMPARE_EXECUTIONS || prev.includes(execution.execution_id)) return prev;
+      return [...prev, execution.execution_id];
+    });
+  };
+
+  const exitCompareMode = () => {
+    setIsCompareMode(false);
+    setCompareIds([]);
+  };
 
   const handleLoadMore = () => {
     if (!isLoadingMore && hasMore) {
@@ -130,6 +164,16 @@ export function ExecutionHistoryList({
             <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
+          {showCompare && (
+            <Button
+              variant={isCompareMode ? 'secondary' : 'outline'}
+              onClick={() => (isCompareMode ? exitCompareMode() : setIsCompareMode(true))}
+              className="flex items-center gap-2"
+            >
+              <GitCompare className="h-4 w-4" />
+              Compare
+            </Button>
+          )}
           {onCreateNew && (
             <Button onClick={onCreateNew} className="flex items-center gap-2">
               <Plus className="h-4 w-4" />
@@ -173,12 +217,16 @@ export function ExecutionHistoryList({
               filters={filters}
               onFiltersChange={setFilters}
               onReset={clearFilters}
+              templateOptions={templateOptions}
             />
           </div>
         )}
 
         {/* Executions List */}
         <div className={showFilters ? 'lg:col-span-3' : 'lg:col-span-4'}>
+          {/* Filter Presets */}
+          <ExecutionFilterPresets filters={filters} onApply={setFilters} className="mb-4" />
+
           {isLoading ? (
             <LoadingSkeleton />
           ) : executions.length === 0 ? (
@@ -187,7 +235,7 @@ export function ExecutionHistoryList({
                 <div className="text-center space-y-2">
                   <h3 className="text-lg font-semibold">No executions found</h3>
                   <p className="text-muted-foreground">
-                    {Object.keys(filters).length > 0
+                    {countActiveFilters(filters) > 0
                       ? 'Try adjusting your filters or create a new execution.'
                       : 'Get started by creating your first execution.'}
                   </p>
@@ -208,6 +256,9 @@ export function ExecutionHistoryList({
                   <ExecutionCard
                     key={execution.execution_id}
                     execution={execution}
+                    isSelected={compareIds.includes(execution.execution_id)}
+                    selectionDisabled={compareIds.length >= MAX_COMPARE_EXECUTIONS}
+                    onSelectChange={isCompareMode ? handleCompareSelect : undefined}
                   />
                 ))}
               </div>
@@ -244,6 +295,11 @@ export function ExecutionHistoryList({
         </div>
       </div>
 
+      {/* Compare Selection */}
+      {isCompareMode && (
+        <ExecutionCompareBar selectedIds={compareIds} onClear={exitCompareMode} />
+      )}
+
       {/* Action Status */}
       {isPerformingAction && currentAction && (
         <div className="fixed bottom-4 right-4 z-50">
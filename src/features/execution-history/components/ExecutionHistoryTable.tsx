@@ -0,0 +1,181 @@
+/**
+ * ExecutionHistoryTable Component
+ *
+ * Virtualized execution table: only the rows in view are rendered, so large
+ * pages scroll smoothly. Sortable headers map to server-side sorting.
+ */
+
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+
+import { Checkbox } from '../../../components/ui/checkbox';
+import { ExecutionStatusBadge } from './ExecutionStatusBadge';
+import { formatDuration, formatRelativeTime } from '../utils/execution-time.utils';
+import {
+  EXECUTION_TABLE_COLUMNS,
+  getVirtualWindow,
+  toggleExecutionSort,
+  type ExecutionTableColumn,
+  type ExecutionTableColumnId,
+} from '../utils/execution-table.utils';
+import type { ExecutionResult, ExecutionSort } from '../types';
+
+interface ExecutionHistoryTableProps {
+  executions: ExecutionResult[];
+  columns: ExecutionTableColumnId[];
+  sort: ExecutionSort;
+  onSortChange: (sort: ExecutionSort) => void;
+  // Dims rows while the next page loads
+  isFetching?: boolean;
+  // Compare mode selection; the checkbox column is shown only when onSelectChange is set
+  selectedIds?: string[];
+  selectionDisabled?: boolean;
+  onSelectChange?: (execution: ExecutionResult, selected: boolean) => void;
+}
+
+const ROW_HEIGHT = 52;
+const VIEWPORT_HEIGHT = 640;
+
+const formatCost = (cost: number) => {
+  if (cost === 0) return '$0.00';
+  if (cost < 0.01) return '<$0.01';
+  return `$${cost.toFixed(3)}`;
+};
+
+function renderCell(column: ExecutionTableColumnId, execution: ExecutionResult): React.ReactNode {
+  switch (column) {
+    case 'status':
+      return <ExecutionStatusBadge status={execution.status} className="text-xs" />;
+    case 'template':
+      return <span className="font-medium truncate">{execution.template_name}</span>;
+    case 'query':
+      return <span className="text-muted-foreground truncate" title={execution.query}>{execution.query}</span>;
+    case 'started_at':
+      return (
+        <span title={new Date(execution.started_at).toLocaleString()}>
+          {formatRelativeTime(execution.started_at)}
+        </span>
+      );
+    case 'total_duration':
+      return formatDuration(execution.total_duration);
+    case 'total_cost':
+      return formatCost(execution.total_cost);
+    case 'overall_confidence':
+      return execution.overall_confidence > 0 ? `${Math.round(execution.overall_confidence * 100)}%` : '—';
+    case 'total_tokens':
+      return execution.total_tokens.toLocaleString();
+    case 'agents': {
+      const succeeded = execution.agent_results.filter(result => result.success).length;
+      return `${succeeded}/${execution.agent_results.length}`;
+    }
+    default:
+      return null;
+  }
+}
+
+function SortIcon({ column, sort }: { column: ExecutionTableColumn; sort: ExecutionSort }) {
+  if (sort.field !== column.sortField) return <ArrowUpDown className="w-3 h-3 opacity-40" />;
+  return sort.order === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />;
+}
+
+export function ExecutionHistoryTable({
+  executions,
+  columns,
+  sort,
+  onSortChange,
+  isFetching = false,
+  selectedIds = [],
+  selectionDisabled = false,
+  onSelectChange,
+}: ExecutionHistoryTableProps) {
+  const navigate = useNavigate();
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = React.useState(0);
+
+  const visibleColumns = EXECUTION_TABLE_COLUMNS.filter(column => columns.includes(column.id));
+  const viewportHeight = Math.min(VIEWPORT_HEIGHT, executions.length * ROW_HEIGHT);
+  const { start, end, offsetTop, offsetBottom } = getVirtualWindow(scrollTop, VIEWPORT_HEIGHT, ROW_HEIGHT, executions.length);
+
+  // A new page starts at the top
+  React.useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [executions]);
+
+  return (
+    <div className="border rounded-lg overflow-hidden" role="table" aria-rowcount={executions.length}>
+      {/* Header */}
+      <div className="flex items-center gap-3 px-4 h-10 bg-muted/50 border-b text-xs font-medium text-muted-foreground" role="row">
+        {onSelectChange && <div className="w-6" />}
+        {visibleColumns.map(column => (
+          <div
+            key={column.id}
+            role="columnheader"
+            aria-sort={sort.field === column.sortField ? (sort.order === 'asc' ? 'ascending' : 'descending') : undefined}
+            className={`${column.width} flex-shrink-0 ${column.align === 'right' ? 'text-right' : ''}`}
+          >
+            {column.sortField ? (
+              <button
+                type="button"
+                onClick={() => onSortChange(toggleExecutionSort(sort, column.sortField!))}
+                className={`inline-flex items-center gap-1 hover:text-foreground ${sort.field === column.sortField ? 'text-foreground' : ''}`}
+              >
+                {column.label}
+                <SortIcon column={column} sort={sort} />
+              </button>
+            ) : (
+              column.label
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Rows */}
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className={`overflow-y-auto transition-opacity ${isFetching ? 'opacity-60' : ''}`}
+        style={{ height: viewportHeight }}
+      >
+        <div style={{ height: offsetTop }} />
+        {executions.slice(start, end).map((execution, index) => {
+          const isSelected = selectedIds.includes(execution.execution_id);
+          return (
+            <div
+              key={execution.execution_id}
+              role="row"
+              aria-rowindex={start + index + 1}
+              onClick={() => navigate(`/execution-history/${execution.execution_id}`)}
+              className={`flex items-center gap-3 px-4 border-b last:border-b-0 text-sm cursor-pointer hover:bg-muted/40 ${isSelected ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+              style={{ height: ROW_HEIGHT }}
+            >
+              {onSelectChange && (
+                <div className="w-6" onClick={(e) => e.stopPropagation()}>
+                  <Checkbox
+                    checked={isSelected}
+                    disabled={!isSelected && selectionDisabled}
+                    onCheckedChange={(checked) => onSelectChange(execution, checked === true)}
+                    aria-label={`Select ${execution.template_name} for comparison`}
+                  />
+                </div>
+              )}
+              {visibleColumns.map(column => (
+                <div
+                  key={column.id}
+                  role="cell"
+                  className={`${column.width} flex-shrink-0 min-w-0 flex ${column.align === 'right' ? 'justify-end tabular-nums' : ''}`}
+                >
+                  {renderCell(column.id, execution)}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+        <div style={{ height: offsetBottom }} />
+      </div>
+    </div>
+  );
+}
+
+export default ExecutionHistoryTable;
@@ -0,0 +1,120 @@
+/**
+ * ExecutionPagination Component
+ *
+ * Page buttons with gaps, a jump-to-page box and a page size selector
+ */
+
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../../components/ui/select';
+import { EXECUTION_PAGE_SIZES, getPageNumbers } from '../utils/execution-table.utils';
+
+interface ExecutionPaginationProps {
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  totalCount: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+export function ExecutionPagination({
+  page,
+  pageSize,
+  totalPages,
+  totalCount,
+  onPageChange,
+  onPageSizeChange,
+}: ExecutionPaginationProps) {
+  const [jumpTo, setJumpTo] = React.useState('');
+
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = Number.parseInt(jumpTo, 10);
+    if (Number.isFinite(target)) {
+      onPageChange(Math.min(Math.max(1, target), totalPages));
+    }
+    setJumpTo('');
+  };
+
+  const firstRow = totalCount === 0 ? 0 : (page - 1) * pageSize + 1;
+
+  return (
+    <div className="flex flex-col lg:flex-row items-center justify-between gap-3">
+      <div className="flex items-center gap-3 text-sm text-gray-600">
+        <span>
+          Showing {firstRow} to {Math.min(page * pageSize, totalCount)} of {totalCount} executions
+        </span>
+        <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+          <SelectTrigger className="h-8 w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXECUTION_PAGE_SIZES.map(size => (
+              <SelectItem key={size} value={String(size)}>{size} / page</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => onPageChange(page - 1)} disabled={page <= 1}>
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            Previous
+          </Button>
+
+          <div className="flex items-center gap-1">
+            {getPageNumbers(page, totalPages).map((pageNum, index) =>
+              pageNum === null ? (
+                <span key={`gap-${index}`} className="px-1 text-gray-400">…</span>
+              ) : (
+                <Button
+                  key={pageNum}
+                  variant={pageNum === page ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onPageChange(pageNum)}
+                  className="min-w-8 h-8 px-2"
+                >
+                  {pageNum}
+                </Button>
+              )
+            )}
+          </div>
+
+          <Button variant="outline" size="sm" onClick={() => onPageChange(page + 1)} disabled={page >= totalPages}>
+            Next
+            <ChevronRight className="w-4 h-4 ml-1" />
+          </Button>
+
+          <form onSubmit={handleJump} className="flex items-center gap-1">
+            <Input
+              type="number"
+              min={1}
+              max={totalPages}
+              value={jumpTo}
+              onChange={(e) => setJumpTo(e.target.value)}
+              placeholder="Page"
+              aria-label="Jump to page"
+              className="h-8 w-20"
+            />
+            <Button type="submit" variant="ghost" size="sm" disabled={!jumpTo}>
+              Go
+            </Button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExecutionPagination;
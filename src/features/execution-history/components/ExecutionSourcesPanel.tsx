@@ -0,0 +1,327 @@
+/**
+ * ExecutionSourcesPanel Component
+ *
+ * Execution-wide view of every source the agents cited, deduplicated by
+ * normalized URL, with credibility, citing agents / APIs, domain grouping,
+ * filters and CSV / BibTeX export.
+ */
+
+import React from 'react';
+import { Download, ExternalLink, Globe, Layers, Search, ShieldCheck } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Badge } from '../../../components/ui/badge';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Switch } from '../../../components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../../components/ui/select';
+import {
+  aggregateExecutionSources,
+  filterExecutionSources,
+  groupSourcesByDomain,
+  sourcesToBibtex,
+  sourcesToCsv,
+} from '../utils/execution-sources.utils';
+import type { CredibilityLevel, ExecutionSource, SourceApi, SourceFilters } from '../utils/execution-sources.utils';
+import type { ExecutionResult } from '../types';
+
+interface ExecutionSourcesPanelProps {
+  execution: ExecutionResult;
+}
+
+const CREDIBILITY_STYLES: Record<CredibilityLevel, string> = {
+  high: 'bg-green-100 text-green-700 border-green-200',
+  medium: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+  low: 'bg-gray-100 text-gray-600 border-gray-200',
+};
+
+const API_STYLES: Record<SourceApi, string> = {
+  search: 'bg-blue-50 text-blue-700 border-blue-200',
+  extract: 'bg-purple-50 text-purple-700 border-purple-200',
+  crawl: 'bg-orange-50 text-orange-700 border-orange-200',
+};
+
+const RELEVANCE_OPTIONS = [0, 0.3, 0.5, 0.7, 0.9];
+
+const downloadText = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+function SourceRow({ source }: { source: ExecutionSource }) {
+  return (
+    <div className="p-3 border rounded-lg hover:bg-gray-50 dark:hover:bg-gray-900 transition-colors">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 flex-1">
+          {source.url ? (
+            <a
+              href={source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium text-sm text-blue-600 hover:underline dark:text-blue-400 line-clamp-1"
+            >
+              {source.title}
+              <ExternalLink className="inline w-3 h-3 ml-1" />
+            </a>
+          ) : (
+            <span className="font-medium text-sm line-clamp-1">{source.title}</span>
+          )}
+          <div className="text-xs text-gray-500 truncate">{source.domain}</div>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <Badge variant="outline" className="text-xs" title={`Average ${Math.round(source.averageRelevance * 100)}%`}>
+            {Math.round(source.relevance_score * 100)}% relevant
+          </Badge>
+          <Badge variant="outline" className={`text-xs capitalize ${CREDIBILITY_STYLES[source.credibilityLevel]}`}>
+            <ShieldCheck className="w-3 h-3 mr-1" />
+            {source.credibilityLevel}
+          </Badge>
+        </div>
+      </div>
+
+      {source.content_preview && (
+        <p className="mt-2 text-xs text-gray-600 dark:text-gray-400 line-clamp-2">{source.content_preview}</p>
+      )}
+
+      <div className="mt-2 flex flex-wrap items-center gap-1">
+        {source.sourceTypes.map(type => (
+          <Badge key={type} variant="outline" className={`text-[10px] capitalize ${API_STYLES[type]}`}>
+            {type}
+          </Badge>
+        ))}
+        {source.agentNames.map(name => (
+          <Badge key={name} variant="secondary" className="text-[10px]">
+            {name}
+          </Badge>
+        ))}
+        <span className="text-[10px] text-gray-500 ml-auto">
+          {source.citations.length} citation{source.citations.length === 1 ? '' : 's'}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export function ExecutionSourcesPanel({ execution }: ExecutionSourcesPanelProps) {
+  const [filters, setFilters] = React.useState<SourceFilters>({});
+  const [groupByDomain, setGroupByDomain] = React.useState(false);
+
+  const sources = React.useMemo(() => aggregateExecutionSources(execution), [execution]);
+  const filtered = React.useMemo(() => filterExecutionSources(sources, filters), [sources, filters]);
+  const groups = React.useMemo(() => groupSourcesByDomain(filtered), [filtered]);
+
+  const agentNames = React.useMemo(
+    () => [...new Set(sources.flatMap(source => source.agentNames))].sort(),
+    [sources]
+  );
+  const totalCitations = sources.reduce((sum, source) => sum + source.citations.length, 0);
+  const corroborated = sources.filter(source => source.agentNames.length > 1).length;
+
+  const updateFilter = <K extends keyof SourceFilters>(key: K, value: SourceFilters[K]) =>
+    setFilters(current => ({ ...current, [key]: value }));
+
+  const handleExport = (format: 'csv' | 'bibtex') => {
+    const base = `sources-${execution.execution_id}`;
+    if (format === 'csv') {
+      downloadText(sourcesToCsv(filtered), `${base}.csv`, 'text/csv');
+    } else {
+      downloadText(sourcesToBibtex(filtered, execution), `${base}.bib`, 'application/x-bibtex');
+    }
+  };
+
+  if (sources.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <Globe className="h-12 w-12 text-gray-400 mb-4" />
+          <p className="text-gray-500">No sources were cited in this execution</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Unique Sources', value: sources.length },
+          { label: 'Citations', value: totalCitations },
+          { label: 'Domains', value: groupSourcesByDomain(sources).length },
+          { label: 'Cited by 2+ Agents', value: corroborated },
+        ].map(stat => (
+          <Card key={stat.label}>
+            <CardContent className="pt-4 pb-4">
+              <div className="text-2xl font-bold">{stat.value}</div>
+              <div className="text-xs text-gray-500">{stat.label}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <div className="md:col-span-2 space-y-1">
+              <Label className="text-xs">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Title, URL or content..."
+                  value={filters.search || ''}
+                  onChange={(e) => updateFilter('search', e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Agent</Label>
+              <Select
+                value={filters.agentName || 'all'}
+                onValueChange={(value) => updateFilter('agentName', value === 'all' ? undefined : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All agents" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Agents</SelectItem>
+                  {agentNames.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">API</Label>
+              <Select
+                value={filters.sourceType || 'all'}
+                onValueChange={(value) => updateFilter('sourceType', value === 'all' ? undefined : value as SourceApi)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All APIs" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All APIs</SelectItem>
+                  <SelectItem value="search">Search</SelectItem>
+                  <SelectItem value="extract">Extract</SelectItem>
+                  <SelectItem value="crawl">Crawl</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Credibility</Label>
+              <Select
+                value={filters.credibility || 'all'}
+                onValueChange={(value) => updateFilter('credibility', value === 'all' ? undefined : value as CredibilityLevel)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Any" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Label className="text-xs">Min relevance</Label>
+                <Select
+                  value={String(filters.minRelevance || 0)}
+                  onValueChange={(value) => updateFilter('minRelevance', Number(value) || undefined)}
+                >
+                  <SelectTrigger className="h-8 w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RELEVANCE_OPTIONS.map(option => (
+                      <SelectItem key={option} value={String(option)}>
+                        {option === 0 ? 'Any' : `${option * 100}%+`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="group-by-domain" checked={groupByDomain} onCheckedChange={setGroupByDomain} />
+                <Label htmlFor="group-by-domain" className="text-xs">Group by domain</Label>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-500">
+                {filtered.length} of {sources.length} sources
+              </span>
+              <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={filtered.length === 0}>
+                <Download className="w-4 h-4 mr-1" />
+                CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport('bibtex')} disabled={filtered.length === 0}>
+                <Download className="w-4 h-4 mr-1" />
+                BibTeX
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Sources */}
+      {filtered.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-gray-500">
+            No sources match the current filters
+          </CardContent>
+        </Card>
+      ) : groupByDomain ? (
+        groups.map(group => (
+          <Card key={group.domain}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm flex items-center gap-2">
+                <Layers className="w-4 h-4 text-gray-500" />
+                {group.domain}
+                <Badge variant="secondary" className="text-xs">
+                  {group.sources.length} source{group.sources.length === 1 ? '' : 's'}
+                </Badge>
+                <span className="text-xs font-normal text-gray-500 ml-auto">
+                  {group.citationCount} citations · top {Math.round(group.relevance_score * 100)}%
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {group.sources.map(source => (
+                <SourceRow key={source.key} source={source} />
+              ))}
+            </CardContent>
+          </Card>
+        ))
+      ) : (
+        <div className="space-y-2">
+          {filtered.map(source => (
+            <SourceRow key={source.key} source={source} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExecutionSourcesPanel;
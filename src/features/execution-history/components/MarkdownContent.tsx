@@ -0,0 +1,282 @@
+/**
+ * MarkdownContent Component
+ *
+ * Renders agent markdown output (headings, lists, tables, highlighted code)
+ * with source references shown as citation chips linked to all_sources.
+ * Everything is built as React elements; no HTML from the content is
+ * injected into the page.
+ */
+
+import React from 'react';
+import { ExternalLink } from 'lucide-react';
+
+import { Tooltip, TooltipContent, TooltipTrigger } from '../../../components/ui/tooltip';
+import { collectCitedSources, highlightCode, parseMarkdown, sanitizeUrl } from '../utils/markdown.utils';
+import type { CodeTokenType, MarkdownBlock, MarkdownInline } from '../utils/markdown.utils';
+import type { TavilySource } from '../types/execution-result.types';
+
+interface MarkdownContentProps {
+  content: string;
+  sources?: TavilySource[];
+  // Print layout: no hover previews, cited sources listed as references
+  printable?: boolean;
+  className?: string;
+}
+
+const HEADING_STYLES: Record<number, string> = {
+  1: 'text-xl font-bold mt-6 mb-3',
+  2: 'text-lg font-semibold mt-5 mb-2',
+  3: 'text-base font-semibold mt-4 mb-2',
+  4: 'text-sm font-semibold mt-3 mb-1',
+  5: 'text-sm font-medium mt-3 mb-1',
+  6: 'text-xs font-medium uppercase tracking-wide mt-3 mb-1',
+};
+
+const TOKEN_STYLES: Record<CodeTokenType, string> = {
+  plain: '',
+  keyword: 'text-purple-700 dark:text-purple-300',
+  string: 'text-green-700 dark:text-green-300',
+  number: 'text-orange-600 dark:text-orange-300',
+  literal: 'text-orange-600 dark:text-orange-300',
+  comment: 'text-gray-400 italic',
+  property: 'text-blue-700 dark:text-blue-300',
+};
+
+const getDomain = (url?: string) => {
+  if (!url) return '';
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// Source URLs come from the server, so they pass the same check as markdown links
+const getSafeSourceUrl = (source: TavilySource) => (source.url ? sanitizeUrl(source.url) : null);
+
+const CHIP_STYLE = 'inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 align-super text-[10px] font-semibold rounded-full bg-blue-100 text-blue-700 no-underline dark:bg-blue-900/40 dark:text-blue-300';
+
+function CitationChip({ index, source, printable }: { index: number; source: TavilySource; printable?: boolean }) {
+  const url = getSafeSourceUrl(source);
+  const label = `Source ${index + 1}: ${source.title}`;
+  const chip = url ? (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`${CHIP_STYLE} hover:bg-blue-200`}
+      aria-label={label}
+    >
+      {index + 1}
+    </a>
+  ) : (
+    <span className={CHIP_STYLE} aria-label={label}>
+      {index + 1}
+    </span>
+  );
+
+  if (printable) return chip;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>{chip}</TooltipTrigger>
+      <TooltipContent side="top" className="max-w-sm bg-white text-gray-800 border shadow-lg p-3 dark:bg-gray-900 dark:text-gray-100">
+        <div className="space-y-1 text-left">
+          <div className="font-semibold text-sm line-clamp-2">{source.title}</div>
+          {url && (
+            <div className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400">
+              <ExternalLink className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{getDomain(url)}</span>
+            </div>
+          )}
+          {source.content_preview && (
+            <p className="text-xs text-gray-600 dark:text-gray-300 line-clamp-4 leading-relaxed">
+              {source.content_preview}
+            </p>
+          )}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+function InlineNodes({ nodes, sources, printable }: { nodes: MarkdownInline[]; sources: TavilySource[]; printable?: boolean }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return <React.Fragment key={index}>{node.text}</React.Fragment>;
+          case 'strong':
+            return <strong key={index} className="font-semibold"><InlineNodes nodes={node.children} sources={sources} printable={printable} /></strong>;
+          case 'em':
+            return <em key={index}><InlineNodes nodes={node.children} sources={sources} printable={printable} /></em>;
+          case 'del':
+            return <del key={index}><InlineNodes nodes={node.children} sources={sources} printable={printable} /></del>;
+          case 'code':
+            return (
+              <code key={index} className="px-1 py-0.5 rounded bg-gray-100 dark:bg-gray-800 font-mono text-[0.85em]">
+                {node.text}
+              </code>
+            );
+          case 'link':
+            return (
+              <a
+                key={index}
+                href={node.href}
+                target={node.href.startsWith('#') ? undefined : '_blank'}
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:underline dark:text-blue-400 break-words"
+              >
+                <InlineNodes nodes={node.children} sources={sources} printable={printable} />
+              </a>
+            );
+          case 'citation':
+            return (
+              <React.Fragment key={index}>
+                {node.sourceIndexes.map(sourceIndex => (
+                  <CitationChip key={sourceIndex} index={sourceIndex} source={sources[sourceIndex]} printable={printable} />
+                ))}
+              </React.Fragment>
+            );
+          case 'break':
+            return <br key={index} />;
+          default:
+            return null;
+        }
+      })}
+    </>
+  );
+}
+
+function CodeBlock({ code, language }: { code: string; language: string }) {
+  const tokens = React.useMemo(() => highlightCode(code, language), [code, language]);
+
+  return (
+    <div className="my-3 rounded-lg border bg-gray-50 dark:bg-gray-900 avoid-break">
+      {language && (
+        <div className="px-3 py-1 border-b text-[10px] font-medium uppercase tracking-wide text-gray-500">
+          {language}
+        </div>
+      )}
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed font-mono whitespace-pre">
+        <code>
+          {tokens.map((token, index) => (
+            <span key={index} className={TOKEN_STYLES[token.type]}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+}
+
+function Blocks({ blocks, sources, printable }: { blocks: MarkdownBlock[]; sources: TavilySource[]; printable?: boolean }) {
+  return (
+    <>
+      {blocks.map((block, index) => {
+        const inline = (nodes: MarkdownInline[]) => <InlineNodes nodes={nodes} sources={sources} printable={printable} />;
+
+        switch (block.type) {
+          case 'heading': {
+            const Tag = `h${block.level}` as 'h1';
+            return <Tag key={index} className={`${HEADING_STYLES[block.level]} text-foreground first:mt-0`}>{inline(block.children)}</Tag>;
+          }
+          case 'paragraph':
+            return <p key={index} className="my-2 leading-relaxed">{inline(block.children)}</p>;
+          case 'code_block':
+            return <CodeBlock key={index} code={block.code} language={block.language} />;
+          case 'list': {
+            const items = block.items.map((item, itemIndex) => (
+              <li key={itemIndex} className="pl-1">
+                <Blocks blocks={item} sources={sources} printable={printable} />
+              </li>
+            ));
+            return block.ordered
+              ? <ol key={index} start={block.start} className="my-2 ml-5 list-decimal space-y-1 [&_p]:my-0">{items}</ol>
+              : <ul key={index} className="my-2 ml-5 list-disc space-y-1 [&_p]:my-0">{items}</ul>;
+          }
+          case 'blockquote':
+            return (
+              <blockquote key={index} className="my-3 border-l-4 border-gray-300 pl-4 text-gray-600 dark:text-gray-400 italic">
+                <Blocks blocks={block.children} sources={sources} printable={printable} />
+              </blockquote>
+            );
+          case 'table':
+            return (
+              <div key={index} className="my-3 overflow-x-auto avoid-break">
+                <table className="w-full text-sm border-collapse border">
+                  <thead className="bg-gray-50 dark:bg-gray-800">
+                    <tr>
+                      {block.header.map((cell, cellIndex) => (
+                        <th
+                          key={cellIndex}
+                          className="border px-3 py-2 font-semibold"
+                          style={{ textAlign: block.align[cellIndex] || 'left' }}
+                        >
+                          {inline(cell)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {block.rows.map((row, rowIndex) => (
+                      <tr key={rowIndex} className="even:bg-gray-50/50 dark:even:bg-gray-800/50">
+                        {row.map((cell, cellIndex) => (
+                          <td
+                            key={cellIndex}
+                            className="border px-3 py-2 align-top"
+                            style={{ textAlign: block.align[cellIndex] || 'left' }}
+                          >
+                            {inline(cell)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          case 'hr':
+            return <hr key={index} className="my-4 border-gray-200" />;
+          default:
+            return null;
+        }
+      })}
+    </>
+  );
+}
+
+export function MarkdownContent({ content, sources = [], printable = false, className = '' }: MarkdownContentProps) {
+  const blocks = React.useMemo(() => parseMarkdown(content, { sources }), [content, sources]);
+  const citedSources = React.useMemo(
+    () => (printable ? collectCitedSources(blocks) : []),
+    [blocks, printable]
+  );
+
+  return (
+    <div className={`text-sm text-gray-700 dark:text-gray-300 break-words ${className}`}>
+      <Blocks blocks={blocks} sources={sources} printable={printable} />
+
+      {/* Reference list so printed reports keep citation targets */}
+      {printable && citedSources.length > 0 && (
+        <div className="mt-4 pt-3 border-t text-xs text-gray-600 space-y-1">
+          <div className="font-semibold text-gray-800">References</div>
+          {[...citedSources].sort((a, b) => a - b).map(sourceIndex => {
+            const url = getSafeSourceUrl(sources[sourceIndex]);
+            return (
+              <div key={sourceIndex} className="flex gap-2">
+                <span className="font-semibold">[{sourceIndex + 1}]</span>
+                <span className="min-w-0">
+                  {sources[sourceIndex].title}
+                  {url && <span className="text-blue-600 break-all"> — {url}</span>}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MarkdownContent;
@@ -24,6 +24,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui
 import { Badge } from '../../../components/ui/badge';
 
 import { ExecutionMetricsOverview } from './ExecutionMetricsOverview';
+import { MarkdownContent } from './MarkdownContent';
 import type { ExecutionResult, AgentResult } from '../types';
 import type { TavilySource } from '../types/execution-result.types';
 
@@ -192,13 +193,11 @@ function PrintableAgentCard({ agentResult, agentNumber }: { agentResult: AgentRe
               <FileText className="w-4 h-4 text-blue-600" />
               Analysis
             </h4>
-            <div className="text-sm text-gray-700 leading-relaxed">
-              {agentResult.result.analysis.split('\n').map((paragraph: string, index: number) => (
-                paragraph.trim() ? (
-                  <p key={index} className="mb-2">{paragraph.trim()}</p>
-                ) : null
-              ))}
-            </div>
+            <MarkdownContent
+              content={agentResult.result.analysis}
+              sources={Array.isArray(agentResult.result.all_sources) ? agentResult.result.all_sources as TavilySource[] : []}
+              printable
+            />
           </div>
         ) : null}
 
@@ -27,6 +27,7 @@ import { Badge } from '../../../components/ui/badge';
 import { ScrollArea } from '../../../components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../../components/ui/tabs';
 import { EnhancedImageGallery } from '../../../components/ui/image-gallery';
+import { MarkdownContent } from './MarkdownContent';
 
 import type { LLMResponse, TavilySource } from '../types/execution-result.types';
 import type { AgentResult } from '../types';
@@ -83,7 +84,7 @@ interface TavilyResults {
   has_results: boolean;
 }
 
-function LLMResponseDisplay({ llmResponse }: { llmResponse: LLMResponse }) {
+function LLMResponseDisplay({ llmResponse, sources }: { llmResponse: LLMResponse; sources: TavilySource[] }) {
   return (
     <div className="space-y-6">
       {/* Summary */}
@@ -153,11 +154,7 @@ function LLMResponseDisplay({ llmResponse }: { llmResponse: LLMResponse }) {
         </CardHeader>
         <CardContent>
           <div className="max-h-96 overflow-y-auto">
-            <div className="prose prose-sm max-w-none">
-              <div className="whitespace-pre-wrap text-gray-700 leading-relaxed">
-                {llmResponse.content}
-              </div>
-            </div>
+            <MarkdownContent content={llmResponse.content} sources={sources} />
           </div>
         </CardContent>
       </Card>
@@ -860,7 +857,7 @@ export function StructuredAgentResult({ agentResult, hideHeader = false }: Struc
 
         <TabsContent value="llm">
           {llmResponse ? (
-            <LLMResponseDisplay llmResponse={llmResponse} />
+            <LLMResponseDisplay llmResponse={llmResponse} sources={allSources} />
           ) : (
             <Card>
               <CardContent className="flex flex-col items-center justify-center py-12">
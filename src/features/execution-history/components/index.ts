@@ -9,11 +9,18 @@ export { ExecutionCard } from './ExecutionCard';
 export { ExecutionStatusBadge } from './ExecutionStatusBadge';
 export { ExecutionMetrics } from './ExecutionMetrics';
 export { ExecutionFilters } from './ExecutionFilters';
+export { ExecutionFilterPresets } from './ExecutionFilterPresets';
 export { ExecutionHistoryList } from './ExecutionHistoryList';
+export { ExecutionComparison } from './ExecutionComparison';
+export { ExecutionCompareBar } from './ExecutionCompareBar';
+export { ExecutionHistoryTable } from './ExecutionHistoryTable';
+export { ExecutionPagination } from './ExecutionPagination';
 
 // Detail page components
 export { ExecutionDetailHeader } from './ExecutionDetailHeader';
 export { ExecutionMetricsOverview } from './ExecutionMetricsOverview';
+export { MarkdownContent } from './MarkdownContent';
+export { ExecutionSourcesPanel } from './ExecutionSourcesPanel';
 
 // Re-export types for convenience
 export type {
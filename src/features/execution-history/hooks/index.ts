@@ -7,3 +7,6 @@
 export { useExecutionHistory, default as useExecutionHistoryDefault } from './useExecutionHistory';
 export { useExecutionDetail, default as useExecutionDetailDefault } from './useExecutionDetail';
 export { useExecutionActions, default as useExecutionActionsDefault } from './useExecutionActions';
+export { useExecutionComparison, default as useExecutionComparisonDefault } from './useExecutionComparison';
+export { useExecutionTable, default as useExecutionTableDefault } from './useExecutionTable';
+export { useFilterPresets, default as useFilterPresetsDefault } from './useFilterPresets';
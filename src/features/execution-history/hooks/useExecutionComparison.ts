@@ -0,0 +1,103 @@
+/**
+ * useExecutionComparison Hook
+ *
+ * Loads 2-4 executions and derives the side-by-side comparison data
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { executionHistoryService } from '../services';
+import {
+  alignAgentResults,
+  compareExecutionMetrics,
+  compareExecutionSources,
+  type AlignedAgentRow,
+  type CompareMetric,
+  type CompareSource,
+} from '../utils/execution-compare.utils';
+import type { ExecutionResult } from '../types';
+
+interface UseExecutionComparisonReturn {
+  // Data
+  executions: ExecutionResult[];
+  metrics: CompareMetric[];
+  agentRows: AlignedAgentRow[];
+  sources: CompareSource[][];
+  // Executions that could not be loaded
+  failedIds: string[];
+
+  // State
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  refresh: () => Promise<void>;
+}
+
+export function useExecutionComparison(executionIds: string[]): UseExecutionComparisonReturn {
+  const [executions, setExecutions] = useState<ExecutionResult[]>([]);
+  const [failedIds, setFailedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable dependency for the id list
+  const idsKey = executionIds.join(',');
+
+  const loadExecutions = useCallback(async () => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    if (ids.length === 0) {
+      setExecutions([]);
+      setFailedIds([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const results = await Promise.allSettled(ids.map(id => executionHistoryService.getExecution(id)));
+
+      const loaded: ExecutionResult[] = [];
+      const failed: string[] = [];
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          loaded.push(result.value);
+        } else {
+          failed.push(ids[index]);
+          console.error(`Failed to load execution ${ids[index]}:`, result.reason);
+        }
+      });
+
+      setExecutions(loaded);
+      setFailedIds(failed);
+      if (loaded.length === 0) {
+        setError('Failed to load executions for comparison');
+      }
+    } catch (err) {
+      console.error('Failed to load executions for comparison:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load executions for comparison');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [idsKey]);
+
+  useEffect(() => {
+    loadExecutions();
+  }, [loadExecutions]);
+
+  const metrics = useMemo(() => compareExecutionMetrics(executions), [executions]);
+  const agentRows = useMemo(() => alignAgentResults(executions), [executions]);
+  const sources = useMemo(() => compareExecutionSources(executions), [executions]);
+
+  return {
+    executions,
+    metrics,
+    agentRows,
+    sources,
+    failedIds,
+    isLoading,
+    error,
+    refresh: loadExecutions,
+  };
+}
+
+export default useExecutionComparison;
@@ -0,0 +1,107 @@
+/**
+ * useExecutionTable Hook
+ *
+ * Server-side paginated, sorted execution list whose filter / sort / page /
+ * column state lives in the URL, so a filtered view can be shared as a link
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { executionHistoryService } from '../services';
+import {
+  parseExecutionTableParams,
+  serializeExecutionTableParams,
+  type ExecutionTableColumnId,
+  type ExecutionTableState,
+} from '../utils/execution-table.utils';
+import type { ExecutionFilters, ExecutionResult, ExecutionSort } from '../types';
+
+export const EXECUTION_TABLE_QUERY_KEY = ['executions', 'table'] as const;
+
+interface UseExecutionTableReturn {
+  // Data
+  executions: ExecutionResult[];
+  totalCount: number;
+
+  // URL-synced state
+  filters: ExecutionFilters;
+  sort: ExecutionSort;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  columns: ExecutionTableColumnId[];
+
+  // Setters
+  setFilters: (filters: ExecutionFilters) => void;
+  clearFilters: () => void;
+  setSort: (sort: ExecutionSort) => void;
+  setPage: (page: number) => void;
+  setPageSize: (pageSize: number) => void;
+  setColumns: (columns: ExecutionTableColumnId[]) => void;
+
+  // State
+  isLoading: boolean;
+  // A page change or refresh is loading while the previous rows stay visible
+  isFetching: boolean;
+  error: string | null;
+  refresh: () => void;
+}
+
+export function useExecutionTable(): UseExecutionTableReturn {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const state = useMemo(() => parseExecutionTableParams(searchParams), [searchParams]);
+  const { filters, sort, page, pageSize, columns } = state;
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: [...EXECUTION_TABLE_QUERY_KEY, page, pageSize, filters, sort],
+    queryFn: () => executionHistoryService.getExecutions(page, pageSize, filters, sort),
+    placeholderData: previous => previous,
+  });
+
+  const totalCount = data?.total || 0;
+  const totalPages = Math.max(1, Math.ceil(totalCount / pageSize));
+
+  // Replace rather than push so typing in the search box doesn't flood history
+  const update = useCallback((changes: Partial<ExecutionTableState>) => {
+    setSearchParams(current => serializeExecutionTableParams({
+      ...parseExecutionTableParams(current),
+      ...changes,
+    }), { replace: true });
+  }, [setSearchParams]);
+
+  // Filter, sort and page size changes go back to the first page
+  const setFilters = useCallback((next: ExecutionFilters) => update({ filters: next, page: 1 }), [update]);
+  const clearFilters = useCallback(() => update({ filters: {}, page: 1 }), [update]);
+  const setSort = useCallback((next: ExecutionSort) => update({ sort: next, page: 1 }), [update]);
+  const setPageSize = useCallback((next: number) => update({ pageSize: next, page: 1 }), [update]);
+  const setColumns = useCallback((next: ExecutionTableColumnId[]) => update({ columns: next }), [update]);
+  const setPage = useCallback((next: number) => update({ page: Math.max(1, next) }), [update]);
+
+  const refresh = useCallback(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    executions: data?.executions || [],
+    totalCount,
+    filters,
+    sort,
+    page,
+    pageSize,
+    totalPages,
+    columns,
+    setFilters,
+    clearFilters,
+    setSort,
+    setPage,
+    setPageSize,
+    setColumns,
+    isLoading,
+    isFetching,
+    error: error instanceof Error ? error.message : null,
+    refresh,
+  };
+}
+
+export default useExecutionTable;
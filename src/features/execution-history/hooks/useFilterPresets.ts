@@ -0,0 +1,67 @@
+/**
+ * useFilterPresets Hook
+ *
+ * Saved execution filter presets and which one matches the current filters
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { filterPresetService } from '../services';
+import { areFiltersEqual } from '../utils/execution-filter.utils';
+import type { ExecutionFilterPreset, ExecutionFilters } from '../types';
+
+interface UseFilterPresetsReturn {
+  presets: ExecutionFilterPreset[];
+  // Preset whose filters equal the current ones, if any
+  activePresetId: string | null;
+
+  // Actions
+  savePreset: (name: string, filters: ExecutionFilters) => ExecutionFilterPreset | null;
+  deletePreset: (presetId: string) => void;
+
+  // State
+  error: string | null;
+}
+
+export function useFilterPresets(currentFilters: ExecutionFilters): UseFilterPresetsReturn {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [presets, setPresets] = useState<ExecutionFilterPreset[]>(() => filterPresetService.listPresets(userId));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPresets(filterPresetService.listPresets(userId));
+  }, [userId]);
+
+  const activePresetId = useMemo(
+    () => presets.find(preset => areFiltersEqual(preset.filters, currentFilters))?.id || null,
+    [presets, currentFilters]
+  );
+
+  const savePreset = useCallback((name: string, filters: ExecutionFilters) => {
+    try {
+      setError(null);
+      const preset = filterPresetService.savePreset(userId, name, filters);
+      setPresets(filterPresetService.listPresets(userId));
+      return preset;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save preset');
+      return null;
+    }
+  }, [userId]);
+
+  const deletePreset = useCallback((presetId: string) => {
+    filterPresetService.deletePreset(userId, presetId);
+    setPresets(filterPresetService.listPresets(userId));
+  }, [userId]);
+
+  return {
+    presets,
+    activePresetId,
+    savePreset,
+    deletePreset,
+    error,
+  };
+}
+
+export default useFilterPresets;
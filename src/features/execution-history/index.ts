@@ -11,7 +11,7 @@ export type * from './types';
 export { executionHistoryService } from './services';
 
 // Hooks
-export { useExecutionHistory, useExecutionDetail, useExecutionActions } from './hooks';
+export { useExecutionHistory, useExecutionDetail, useExecutionActions, useExecutionComparison } from './hooks';
 
 // Components
 export { 
@@ -19,8 +19,9 @@ export {
   ExecutionCard,
   ExecutionMetrics as ExecutionMetricsComponent,
   ExecutionFilters as ExecutionFiltersComponent,
-  ExecutionHistoryList 
+  ExecutionHistoryList,
+  ExecutionComparison
 } from './components';
 
 // Pages
-export { ExecutionHistoryPage, ExecutionDetailPage } from './pages';
+export { ExecutionHistoryPage, ExecutionDetailPage, ExecutionComparePage } from './pages';
@@ -0,0 +1,100 @@
+/**
+ * ExecutionComparePage Component
+ *
+ * Side-by-side comparison of 2-4 executions selected from the history
+ */
+
+import { Link, useSearchParams } from 'react-router-dom'
+import { ArrowLeft, RefreshCw, AlertCircle } from 'lucide-react'
+
+import { Button } from '../../../components/ui/button'
+import { Alert, AlertDescription } from '../../../components/ui/alert'
+import { LoadingSpinner } from '../../../components/common/LoadingSpinner'
+import { ErrorDisplay } from '../../../components/common/ErrorDisplay'
+import { PageHeader } from '../../../components/common/PageHeader'
+
+import { useExecutionComparison } from '../hooks/useExecutionComparison'
+import { ExecutionComparison } from '../components/ExecutionComparison'
+import { MIN_COMPARE_EXECUTIONS, parseCompareIds } from '../utils/execution-compare.utils'
+
+export function ExecutionComparePage() {
+  const [searchParams] = useSearchParams()
+  const executionIds = parseCompareIds(searchParams.get('ids'))
+
+  const {
+    executions,
+    metrics,
+    agentRows,
+    sources,
+    failedIds,
+    isLoading,
+    error,
+    refresh
+  } = useExecutionComparison(executionIds)
+
+  const backButton = (
+    <Button variant="outline" asChild>
+      <Link to="/execution-history">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to History
+      </Link>
+    </Button>
+  )
+
+  if (executionIds.length < MIN_COMPARE_EXECUTIONS) {
+    return (
+      <div className="space-y-6">
+        <PageHeader title="Compare Executions" actions={backButton} />
+        <div className="text-center py-12 text-muted-foreground">
+          Select {MIN_COMPARE_EXECUTIONS} to 4 executions from the history to compare them.
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return <ErrorDisplay message={error} onRetry={refresh} />
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Compare Executions"
+        description={`Comparing ${executionIds.length} executions side by side`}
+        actions={
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={refresh} disabled={isLoading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            {backButton}
+          </div>
+        }
+      />
+
+      {failedIds.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Could not load {failedIds.length === 1 ? 'execution' : 'executions'} {failedIds.join(', ')}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && executions.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <ExecutionComparison
+          executions={executions}
+          metrics={metrics}
+          agentRows={agentRows}
+          sources={sources}
+        />
+      )}
+    </div>
+  )
+}
+
+export default ExecutionComparePage
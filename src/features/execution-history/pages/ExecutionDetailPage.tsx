@@ -34,6 +34,7 @@ import { PageHeader } from '../../../components/common/PageHeader';
 import { useExecutionDetail } from '../hooks';
 import { ExecutionMetricsOverview } from '../components/ExecutionMetricsOverview';
 import { CollapsibleAgentCard } from '../components/CollapsibleAgentCard';
+import { ExecutionSourcesPanel } from '../components/ExecutionSourcesPanel';
 import { PrintProvider } from '../contexts/PrintContext';
 
 import type { ExecutionResult } from '../types';
@@ -234,7 +235,7 @@ function ExecutionDetailPageContent() {
 
       {/* Main Content Tabs */}
       <Tabs defaultValue="agents" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="agents" className="flex items-center gap-2">
             <Bot className="w-4 h-4" />
             Agent Results
@@ -247,6 +248,10 @@ function ExecutionDetailPageContent() {
             <FileText className="w-4 h-4" />
             Results
           </TabsTrigger>
+          <TabsTrigger value="sources" className="flex items-center gap-2">
+            <Globe className="w-4 h-4" />
+            Sources
+          </TabsTrigger>
           <TabsTrigger value="details" className="flex items-center gap-2">
             <Settings className="w-4 h-4" />
             Details
@@ -474,6 +479,16 @@ function ExecutionDetailPageContent() {
           </div>
         </TabsContent>
 
+        {/* Sources Tab */}
+        <TabsContent value="sources" className="space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold mb-4">
+              Sources
+            </h3>
+            <ExecutionSourcesPanel execution={execution} />
+          </div>
+        </TabsContent>
+
         {/* Details Tab */}
         <TabsContent value="details" className="space-y-6">
           <div>
@@ -4,58 +4,101 @@
  * Beautiful execution history page matching TemplateListPage design exactly
  */
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Link } from 'react-router-dom'
-import { Plus, ChevronLeft, ChevronRight, RefreshCw } from 'lucide-react'
+import { Plus, RefreshCw, GitCompare, Columns3 } from 'lucide-react'
 
 import { Button } from '../../../components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../../../components/ui/dropdown-menu'
 import { LoadingSpinner } from '../../../components/common/LoadingSpinner'
 import { ErrorDisplay } from '../../../components/common/ErrorDisplay'
 import { PageHeader } from '../../../components/common/PageHeader'
 
-import { useExecutionHistory } from '../hooks/useExecutionHistory'
-import { ExecutionCard } from '../components/ExecutionCard'
-import type { ExecutionStatus } from '../types'
+import { useExecutionTable } from '../hooks/useExecutionTable'
+import { ExecutionHistoryTable } from '../components/ExecutionHistoryTable'
+import { ExecutionPagination } from '../components/ExecutionPagination'
+import { ExecutionCompareBar } from '../components/ExecutionCompareBar'
+import { ExecutionFilterPresets } from '../components/ExecutionFilterPresets'
+import { MAX_COMPARE_EXECUTIONS } from '../utils/execution-compare.utils'
+import { EXECUTION_TABLE_COLUMNS } from '../utils/execution-table.utils'
+import { EXECUTION_STATUS_OPTIONS, countActiveFilters } from '../utils/execution-filter.utils'
+import type { ExecutionResult, ExecutionStatus } from '../types'
 
-const STATUS_FILTERS = [
-  'all',
-  'completed',
-  'failed', 
-  'running',
-  'pending',
-  'cancelled'
-]
+const SEARCH_DEBOUNCE_MS = 300
 
 export function ExecutionHistoryPage() {
-  const [searchQuery, setSearchQuery] = useState('')
-  const [statusFilter, setStatusFilter] = useState<string>('all')
-  const [currentPage, setCurrentPage] = useState(1)
+  const [isCompareMode, setIsCompareMode] = useState(false)
+  const [compareIds, setCompareIds] = useState<string[]>([])
 
-  // Fetch executions with filters and pagination (4 per page for compact cards)
+  // Filters, sort, page and columns live in the URL so views can be shared
   const {
     executions,
     totalCount,
-    currentPage: page,
+    filters,
+    sort,
+    page,
+    pageSize,
     totalPages,
+    columns,
+    setFilters,
+    setSort,
+    setPage,
+    setPageSize,
+    setColumns,
     isLoading,
-    isRefreshing,
+    isFetching,
     error,
-    refresh,
-    setPage
-  } = useExecutionHistory({
-    initialPage: currentPage,
-    initialLimit: 4, // 4 per page for compact execution cards
-    initialFilters: {
-      status: statusFilter === 'all' ? undefined : statusFilter as ExecutionStatus,
-      search: searchQuery || undefined
-    },
-    autoRefresh: false
-  })
+    refresh
+  } = useExecutionTable()
+
+  // Search is typed locally and written to the URL once typing pauses
+  const [searchQuery, setSearchQuery] = useState(filters.search || '')
+  useEffect(() => {
+    setSearchQuery(filters.search || '')
+  }, [filters.search])
+  useEffect(() => {
+    if (searchQuery.trim() === (filters.search || '')) return
+    const timeout = setTimeout(() => {
+      setFilters({ ...filters, search: searchQuery || undefined })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchQuery, filters, setFilters])
+
+  // The quick select holds one status; presets and shared links can carry several
+  const statuses = filters.statuses || []
+  const statusFilter = statuses.length === 0 ? 'all' : statuses.length === 1 ? statuses[0] : 'multiple'
+
+  const toggleColumn = (columnId: typeof columns[number], visible: boolean) => {
+    const next = visible ? [...columns, columnId] : columns.filter(id => id !== columnId)
+    // Keep at least one column
+    if (next.length > 0) setColumns(next)
+  }
 
   const handleRefresh = () => {
     refresh()
   }
 
+  // Selection persists across pages so runs can be picked from anywhere in the history
+  const handleCompareSelect = (execution: ExecutionResult, selected: boolean) => {
+    setCompareIds(prev => {
+      if (!selected) return prev.filter(id => id !== execution.execution_id)
+      if (prev.length >= MAX_COMPARE_EXECUTIONS || prev.includes(execution.execution_id)) return prev
+      return [...prev, execution.execution_id]
+    })
+  }
+
+  const exitCompareMode = () => {
+    setIsCompareMode(false)
+    setCompareIds([])
+  }
+
   if (error) {
     return <ErrorDisplay message="Failed to load execution history" onRetry={refresh} />
   }
@@ -70,11 +113,18 @@ export function ExecutionHistoryPage() {
             <Button
               variant="outline"
               onClick={handleRefresh}
-              disabled={isRefreshing}
+              disabled={isFetching}
             >
-              <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+              <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
               Refresh
             </Button>
+            <Button
+              variant={isCompareMode ? 'secondary' : 'outline'}
+              onClick={() => (isCompareMode ? exitCompareMode() : setIsCompareMode(true))}
+            >
+              <GitCompare className="mr-2 h-4 w-4" />
+              Compare
+            </Button>
             <Button asChild>
               <Link to="/templates">
                 <Plus className="mr-2 h-4 w-4" />
@@ -102,19 +152,55 @@ export function ExecutionHistoryPage() {
         <div className="sm:w-48">
           <select
             value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value)}
+            onChange={(e) => setFilters({
+              ...filters,
+              statuses: e.target.value === 'all' ? undefined : [e.target.value as ExecutionStatus]
+            })}
             aria-label="Filter by execution status"
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
-            {STATUS_FILTERS.map((status) => (
-              <option key={status} value={status}>
-                {status === 'all' ? 'All Status' : status.charAt(0).toUpperCase() + status.slice(1)}
+            <option value="all">All Status</option>
+            {EXECUTION_STATUS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
               </option>
             ))}
+            {statusFilter === 'multiple' && (
+              <option value="multiple" disabled>
+                {statuses.length} statuses
+              </option>
+            )}
           </select>
         </div>
+
+        {/* Column Selection */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline">
+              <Columns3 className="mr-2 h-4 w-4" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-48">
+            <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {EXECUTION_TABLE_COLUMNS.map((column) => (
+              <DropdownMenuCheckboxItem
+                key={column.id}
+                checked={columns.includes(column.id)}
+                onCheckedChange={(checked) => toggleColumn(column.id, checked === true)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {column.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
+      {/* Filter Presets */}
+      <ExecutionFilterPresets filters={filters} onApply={setFilters} />
+
       {/* Loading State */}
       {isLoading && (
         <div className="flex items-center justify-center py-12">
@@ -130,7 +216,7 @@ export function ExecutionHistoryPage() {
               <div className="text-gray-500 mb-4">
                 <div className="text-lg font-medium mb-2">No executions found</div>
                 <div className="text-sm">
-                  {searchQuery || statusFilter !== 'all' 
+                  {countActiveFilters(filters) > 0 
                     ? 'Try adjusting your filters or create a new execution.'
                     : 'Get started by creating your first execution.'}
                 </div>
@@ -144,73 +230,34 @@ export function ExecutionHistoryPage() {
             </div>
           ) : (
             <>
-              {/* Execution Cards Grid */}
-              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-                {executions.map((execution) => (
-                  <ExecutionCard
-                    key={execution.execution_id}
-                    execution={execution}
-                  />
-                ))}
-              </div>
-              
-              {/* Pagination Controls */}
-              {totalPages > 1 && (
-                <div className="flex items-center justify-between">
-                  <div className="text-sm text-gray-600">
-                    Showing {((page - 1) * 4) + 1} to {Math.min(page * 4, totalCount)} of {totalCount} executions
-                  </div>
-                  
-                  <div className="flex items-center gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        setCurrentPage(page - 1)
-                        setPage(page - 1)
-                      }}
-                      disabled={page <= 1}
-                    >
-                      <ChevronLeft className="w-4 h-4 mr-1" />
-                      Previous
-                    </Button>
-                    
-                    <div className="flex items-center gap-1">
-                      {Array.from({ length: totalPages }, (_, i) => i + 1).map((pageNum) => (
-                        <Button
-                          key={pageNum}
-                          variant={pageNum === page ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => {
-                            setCurrentPage(pageNum)
-                            setPage(pageNum)
-                          }}
-                          className="w-8 h-8 p-0"
-                        >
-                          {pageNum}
-                        </Button>
-                      ))}
-                    </div>
-                    
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        setCurrentPage(page + 1)
-                        setPage(page + 1)
-                      }}
-                      disabled={page >= totalPages}
-                    >
-                      Next
-                      <ChevronRight className="w-4 h-4 ml-1" />
-                    </Button>
-                  </div>
-                </div>
-              )}
+              <ExecutionHistoryTable
+                executions={executions}
+                columns={columns}
+                sort={sort}
+                onSortChange={setSort}
+                isFetching={isFetching}
+                selectedIds={compareIds}
+                selectionDisabled={compareIds.length >= MAX_COMPARE_EXECUTIONS}
+                onSelectChange={isCompareMode ? handleCompareSelect : undefined}
+              />
+
+              <ExecutionPagination
+                page={page}
+                pageSize={pageSize}
+                totalPages={totalPages}
+                totalCount={totalCount}
+                onPageChange={setPage}
+                onPageSizeChange={setPageSize}
+              />
             </>
           )}
         </>
       )}
+
+      {/* Compare Selection */}
+      {isCompareMode && (
+        <ExecutionCompareBar selectedIds={compareIds} onClear={exitCompareMode} />
+      )}
     </div>
   )
 }
@@ -6,3 +6,4 @@
 
 export { ExecutionHistoryPage, default as ExecutionHistoryPageDefault } from './ExecutionHistoryPage';
 export { ExecutionDetailPage, default as ExecutionDetailPageDefault } from './ExecutionDetailPage';
+export { ExecutionComparePage, default as ExecutionComparePageDefault } from './ExecutionComparePage';
@@ -6,10 +6,12 @@
 
 import { ApiClient } from '../../../services/api/ApiClient';
 import { apiConfig } from '../../../services/config/api.config';
+import { EXECUTION_RANGE_FILTER_KEYS } from '../utils/execution-filter.utils';
 import type {
   ExecutionResult,
   ExecutionListResponse,
   ExecutionFilters,
+  ExecutionSort,
   ExecutionMetrics,
   ExecutionStatusCounts,
   ExecutionAction,
@@ -34,20 +36,17 @@ class ExecutionHistoryService {
   async getExecutions(
     page: number = 1,
     limit: number = 20,
-    filters?: ExecutionFilters
+    filters?: ExecutionFilters,
+    sort?: ExecutionSort
   ): Promise<ExecutionListResponse> {
     const params = new URLSearchParams({
       page: page.toString(),
       limit: limit.toString(),
     });
 
-    // Add filters to params
-    if (filters?.status) {
-      params.append('status', filters.status);
-    }
-    if (filters?.template_id) {
-      params.append('template_id', filters.template_id);
-    }
+    // Add filters to params; list filters repeat the parameter
+    filters?.statuses?.forEach(status => params.append('status', status));
+    filters?.template_ids?.forEach(templateId => params.append('template_id', templateId));
     if (filters?.date_from) {
       params.append('date_from', filters.date_from);
     }
@@ -57,6 +56,26 @@ class ExecutionHistoryService {
     if (filters?.search) {
       params.append('search', filters.search);
     }
+    if (filters?.agent_name) {
+      params.append('agent_name', filters.agent_name);
+    }
+    if (filters?.failed_agent) {
+      params.append('failed_agent', filters.failed_agent);
+    }
+    if (filters?.error_message) {
+      params.append('error_message', filters.error_message);
+    }
+    EXECUTION_RANGE_FILTER_KEYS.forEach(key => {
+      const value = filters?.[key];
+      if (value !== undefined && Number.isFinite(value)) {
+        params.append(key, value.toString());
+      }
+    });
+
+    if (sort) {
+      params.append('sort_by', sort.field);
+      params.append('sort_order', sort.order);
+    }
 
     const response = await this.apiClient.get(`/api/executions?${params.toString()}`);
     // Backend now returns proper pagination object
@@ -95,10 +114,11 @@ class ExecutionHistoryService {
   }
 
   /**
-   * Get execution metrics summary
+   * Get execution metrics summary (all time when days is omitted)
    */
-  async getExecutionMetrics(days: number = 30): Promise<ExecutionMetrics> {
-    const response = await this.apiClient.get(`/api/executions/metrics/summary?days=${days}`);
+  async getExecutionMetrics(days?: number): Promise<ExecutionMetrics> {
+    const query = days ? `?days=${days}` : '';
+    const response = await this.apiClient.get(`/api/executions/metrics/summary${query}`);
     const apiResponse = assertApiResponse<{ metrics: ExecutionMetrics }>(response);
     return apiResponse.metrics;
   }
@@ -274,6 +294,7 @@ class ExecutionHistoryService {
   async batchExecute(requests: Array<{
     template_id: string;
     query: string;
+    custom_parameters?: Record<string, unknown>;
   }>): Promise<{
     successful_executions: Array<{ execution_id: string; template_id: string }>;
     failed_executions: Array<{ template_id: string; error: string }>;
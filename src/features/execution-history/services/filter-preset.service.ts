@@ -0,0 +1,74 @@
+/**
+ * Filter Preset Service
+ *
+ * Named execution filter presets, kept in creation order. Saving under an
+ * existing name (case-insensitive) replaces that preset.
+ */
+
+import { normalizeExecutionFilters } from '../utils/execution-filter.utils';
+import type { ExecutionFilterPreset, ExecutionFilters } from '../types';
+
+const STORAGE_KEY_PREFIX = 'execution_filter_presets';
+const MAX_PRESETS = 20;
+
+export class FilterPresetService {
+  // Presets hold template ids and agent names, so each user has their own
+  private getStorageKey(userId: string | null): string {
+    return userId ? `${STORAGE_KEY_PREFIX}_${userId}` : STORAGE_KEY_PREFIX;
+  }
+
+  private writePresets(userId: string | null, presets: ExecutionFilterPreset[]): void {
+    localStorage.setItem(this.getStorageKey(userId), JSON.stringify(presets.slice(0, MAX_PRESETS)));
+  }
+
+  /**
+   * List saved presets in the order they were created
+   */
+  listPresets(userId: string | null): ExecutionFilterPreset[] {
+    try {
+      const raw = localStorage.getItem(this.getStorageKey(userId));
+      if (!raw) return [];
+
+      const parsed = JSON.parse(raw) as ExecutionFilterPreset[];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Failed to read filter presets:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save filters under a name; a preset with the same name is replaced
+   */
+  savePreset(userId: string | null, name: string, filters: ExecutionFilters): ExecutionFilterPreset {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Preset name is required');
+    }
+
+    const presets = this.listPresets(userId);
+    const existing = presets.find(preset => preset.name.toLowerCase() === trimmed.toLowerCase());
+    const preset: ExecutionFilterPreset = {
+      id: existing?.id || `preset_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: trimmed,
+      filters: normalizeExecutionFilters(filters),
+      created_at: existing?.created_at || new Date().toISOString(),
+    };
+
+    if (!existing && presets.length >= MAX_PRESETS) {
+      throw new Error(`At most ${MAX_PRESETS} presets can be saved`);
+    }
+
+    this.writePresets(userId, existing
+      ? presets.map(current => (current.id === existing.id ? preset : current))
+      : [...presets, preset]);
+    return preset;
+  }
+
+  deletePreset(userId: string | null, presetId: string): void {
+    this.writePresets(userId, this.listPresets(userId).filter(preset => preset.id !== presetId));
+  }
+}
+
+export const filterPresetService = new FilterPresetService();
+export default filterPresetService;
@@ -5,3 +5,4 @@
  */
 
 export { executionHistoryService, default as ExecutionHistoryService } from './execution-history.service';
+export { filterPresetService, FilterPresetService } from './filter-preset.service';
@@ -131,11 +131,42 @@ export interface TemplateStats {
 }
 
 export interface ExecutionFilters {
-  status?: ExecutionStatus;
-  template_id?: string;
+  // Any of the listed statuses / templates
+  statuses?: ExecutionStatus[];
+  template_ids?: string[];
   date_from?: string;
   date_to?: string;
   search?: string;
+  min_cost?: number;
+  max_cost?: number;
+  // Seconds
+  min_duration?: number;
+  max_duration?: number;
+  // 0-1, like overall_confidence
+  min_confidence?: number;
+  max_confidence?: number;
+  // Executions in which this agent ran
+  agent_name?: string;
+  failed_agent?: string;
+  // Text search within error_message
+  error_message?: string;
+}
+
+export interface ExecutionFilterPreset {
+  id: string;
+  name: string;
+  filters: ExecutionFilters;
+  created_at: string;
+}
+
+// Server-side sortable columns of the history table
+export type ExecutionSortField = 'started_at' | 'total_cost' | 'total_duration' | 'overall_confidence';
+
+export type ExecutionSortOrder = 'asc' | 'desc';
+
+export interface ExecutionSort {
+  field: ExecutionSortField;
+  order: ExecutionSortOrder;
 }
 
 export interface ExecutionMetrics {
@@ -146,6 +177,7 @@ export interface ExecutionMetrics {
   total_tokens: number;
   average_duration: number;
   success_rate: number;
+  last_execution_at?: string | null;
 }
 
 export interface ExecutionListResponse {
@@ -192,6 +224,8 @@ export interface ExecutionFiltersProps {
   filters: ExecutionFilters;
   onFiltersChange: (filters: ExecutionFilters) => void;
   onReset: () => void;
+  // Templates offered in the template multi-select
+  templateOptions?: { id: string; name: string }[];
 }
 
 export interface ExecutionMetricsProps {
@@ -23,6 +23,10 @@ export type {
   
   // UI and interaction types
   ExecutionFilters,
+  ExecutionFilterPreset,
+  ExecutionSort,
+  ExecutionSortField,
+  ExecutionSortOrder,
   ExecutionMetrics,
   ExecutionListResponse,
   ExecutionExportOptions,
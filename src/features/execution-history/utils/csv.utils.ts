@@ -0,0 +1,17 @@
+/**
+ * CSV Utilities
+ *
+ * Cell encoding shared by the CSV exports
+ */
+
+/**
+ * Encode one CSV cell. Text that a spreadsheet would read as a formula is
+ * prefixed with `'` so exported titles, URLs and results can't run on open.
+ */
+export function csvCell(value: string | number): string {
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,168 @@
+/**
+ * Execution Compare Utilities
+ *
+ * Helpers for lining up 2-4 executions side by side
+ */
+
+import type { AgentResult, ExecutionResult } from '../types';
+import type { TavilySource } from '../types/execution-result.types';
+import { getSourceKey } from './execution-sources.utils';
+
+export const MIN_COMPARE_EXECUTIONS = 2;
+export const MAX_COMPARE_EXECUTIONS = 4;
+
+export type CompareMetricKey = 'total_cost' | 'total_tokens' | 'total_duration' | 'overall_confidence';
+
+export interface CompareMetric {
+  key: CompareMetricKey;
+  label: string;
+  values: number[];
+  // Index of the best value, or null when all runs are equal
+  bestIndex: number | null;
+}
+
+export interface AlignedAgentRow {
+  agentName: string;
+  // One entry per execution, undefined when that run has no result for the agent
+  results: (AgentResult | undefined)[];
+}
+
+export interface AgentInsights {
+  keyFindings: string[];
+  recommendations: string[];
+}
+
+export interface CompareSource {
+  key: string;
+  title: string;
+  url?: string;
+  relevance_score: number;
+  // True when no other compared run cited this source
+  isUnique: boolean;
+}
+
+const METRICS: Array<{ key: CompareMetricKey; label: string; higherIsBetter: boolean }> = [
+  { key: 'total_cost', label: 'Cost', higherIsBetter: false },
+  { key: 'total_tokens', label: 'Tokens', higherIsBetter: false },
+  { key: 'total_duration', label: 'Duration', higherIsBetter: false },
+  { key: 'overall_confidence', label: 'Confidence', higherIsBetter: true },
+];
+
+/**
+ * Parse the `ids` search param of the compare page
+ */
+export function parseCompareIds(value: string | null): string[] {
+  if (!value) return [];
+  const ids = value.split(',').map(id => id.trim()).filter(Boolean);
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARE_EXECUTIONS);
+}
+
+/**
+ * Build the compare page URL for the selected executions
+ */
+export function buildCompareUrl(executionIds: string[]): string {
+  return `/execution-history/compare?ids=${executionIds.map(encodeURIComponent).join(',')}`;
+}
+
+/**
+ * Compare the headline metrics of each execution and flag the best run
+ */
+export function compareExecutionMetrics(executions: ExecutionResult[]): CompareMetric[] {
+  return METRICS.map(({ key, label, higherIsBetter }) => {
+    const values = executions.map(execution => Number(execution[key]) || 0);
+    const allEqual = values.every(value => value === values[0]);
+    const best = higherIsBetter ? Math.max(...values) : Math.min(...values);
+
+    return {
+      key,
+      label,
+      values,
+      bestIndex: allEqual ? null : values.indexOf(best),
+    };
+  });
+}
+
+/**
+ * Line up agent results across executions by agent name, keeping the
+ * order in which agents first appear
+ */
+export function alignAgentResults(executions: ExecutionResult[]): AlignedAgentRow[] {
+  const names: string[] = [];
+  executions.forEach(execution => {
+    execution.agent_results.forEach(agent => {
+      if (!names.includes(agent.agent_name)) {
+        names.push(agent.agent_name);
+      }
+    });
+  });
+
+  return names.map(agentName => ({
+    agentName,
+    results: executions.map(execution =>
+      execution.agent_results.find(agent => agent.agent_name === agentName)
+    ),
+  }));
+}
+
+/**
+ * Key findings and recommendations from a structured agent result
+ */
+export function getAgentInsights(agent?: AgentResult): AgentInsights {
+  const result = agent?.result;
+  const asStrings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+  return {
+    keyFindings: asStrings(result?.key_findings),
+    recommendations: asStrings(result?.recommendations),
+  };
+}
+
+function getExecutionSources(execution: ExecutionResult): TavilySource[] {
+  const byKey = new Map<string, TavilySource>();
+  execution.agent_results.forEach(agent => {
+    const sources = agent.result?.all_sources;
+    if (!Array.isArray(sources)) return;
+
+    (sources as TavilySource[]).forEach(source => {
+      if (!source || (!source.url && !source.title)) return;
+      const key = getSourceKey(source);
+      const existing = byKey.get(key);
+      if (!existing || (source.relevance_score || 0) > (existing.relevance_score || 0)) {
+        byKey.set(key, source);
+      }
+    });
+  });
+  return Array.from(byKey.values());
+}
+
+/**
+ * Sources cited by each execution, flagging the ones only that run found.
+ * Sources are matched by normalized URL, falling back to title.
+ */
+export function compareExecutionSources(executions: ExecutionResult[]): CompareSource[][] {
+  const perExecution = executions.map(getExecutionSources);
+  const occurrences = new Map<string, number>();
+
+  perExecution.forEach(sources => {
+    sources.forEach(source => {
+      const key = getSourceKey(source);
+      occurrences.set(key, (occurrences.get(key) || 0) + 1);
+    });
+  });
+
+  return perExecution.map(sources =>
+    sources
+      .map(source => {
+        const key = getSourceKey(source);
+        return {
+          key,
+          title: source.title || source.url || 'Untitled source',
+          url: source.url,
+          relevance_score: source.relevance_score || 0,
+          isUnique: executions.length > 1 && occurrences.get(key) === 1,
+        };
+      })
+      .sort((a, b) => Number(b.isUnique) - Number(a.isUnique) || b.relevance_score - a.relevance_score)
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Execution Filter Utilities
+ *
+ * Status options, active-filter chips and the URL encoding shared by the
+ * filter panel, presets and the history table
+ */
+
+import type { ExecutionFilters, ExecutionStatus } from '../types';
+
+export const EXECUTION_STATUS_OPTIONS: { value: ExecutionStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'running', label: 'Running' },
+  { value: 'waiting_intervention', label: 'Waiting for Intervention' },
+  { value: 'paused', label: 'Paused' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'timeout', label: 'Timeout' },
+];
+
+export type ExecutionRangeFilterKey =
+  | 'min_cost'
+  | 'max_cost'
+  | 'min_duration'
+  | 'max_duration'
+  | 'min_confidence'
+  | 'max_confidence';
+
+export const EXECUTION_RANGE_FILTER_KEYS: ExecutionRangeFilterKey[] = [
+  'min_cost',
+  'max_cost',
+  'min_duration',
+  'max_duration',
+  'min_confidence',
+  'max_confidence',
+];
+const TEXT_KEYS = ['search', 'date_from', 'date_to', 'agent_name', 'failed_agent', 'error_message'] as const;
+
+const isStatus = (value: string): value is ExecutionStatus =>
+  EXECUTION_STATUS_OPTIONS.some(option => option.value === value);
+
+/**
+ * Drop empty values so equal filters compare and serialize the same
+ */
+export function normalizeExecutionFilters(filters: ExecutionFilters): ExecutionFilters {
+  const normalized: ExecutionFilters = {};
+  if (filters.statuses?.length) normalized.statuses = [...filters.statuses].sort();
+  if (filters.template_ids?.length) normalized.template_ids = [...filters.template_ids].sort();
+  TEXT_KEYS.forEach(key => {
+    const value = filters[key]?.trim();
+    if (value) normalized[key] = value;
+  });
+  EXECUTION_RANGE_FILTER_KEYS.forEach(key => {
+    const value = filters[key];
+    if (value !== undefined && Number.isFinite(value)) normalized[key] = value;
+  });
+  return normalized;
+}
+
+export function countActiveFilters(filters: ExecutionFilters): number {
+  return Object.keys(normalizeExecutionFilters(filters)).length;
+}
+
+export function areFiltersEqual(a: ExecutionFilters, b: ExecutionFilters): boolean {
+  return JSON.stringify(normalizeExecutionFilters(a)) === JSON.stringify(normalizeExecutionFilters(b));
+}
+
+// ============================================================================
+// ACTIVE FILTER CHIPS
+// ============================================================================
+
+export interface ActiveFilterChip {
+  // Filter keys cleared when the chip is removed
+  keys: (keyof ExecutionFilters)[];
+  label: string;
+}
+
+const formatRange = (min: number | undefined, max: number | undefined, format: (value: number) => string) => {
+  if (min !== undefined && max !== undefined) return `${format(min)} – ${format(max)}`;
+  if (min !== undefined) return `≥ ${format(min)}`;
+  return `≤ ${format(max!)}`;
+};
+
+/**
+ * One chip per active filter, ranges combined into a single chip
+ */
+export function describeActiveFilters(
+  filters: ExecutionFilters,
+  templateNames: Record<string, string> = {}
+): ActiveFilterChip[] {
+  const f = normalizeExecutionFilters(filters);
+  const chips: ActiveFilterChip[] = [];
+  const statusLabel = (status: ExecutionStatus) =>
+    EXECUTION_STATUS_OPTIONS.find(option => option.value === status)?.label || status;
+
+  if (f.search) chips.push({ keys: ['search'], label: `Search: "${f.search}"` });
+  if (f.statuses) chips.push({ keys: ['statuses'], label: `Status: ${f.statuses.map(statusLabel).join(', ')}` });
+  if (f.template_ids) {
+    chips.push({
+      keys: ['template_ids'],
+      label: `Template: ${f.template_ids.map(id => templateNames[id] || id).join(', ')}`,
+    });
+  }
+  if (f.date_from) chips.push({ keys: ['date_from'], label: `From: ${f.date_from}` });
+  if (f.date_to) chips.push({ keys: ['date_to'], label: `To: ${f.date_to}` });
+  if (f.min_cost !== undefined || f.max_cost !== undefined) {
+    chips.push({
+      keys: ['min_cost', 'max_cost'],
+      label: `Cost: ${formatRange(f.min_cost, f.max_cost, value => `$${value}`)}`,
+    });
+  }
+  if (f.min_duration !== undefined || f.max_duration !== undefined) {
+    chips.push({
+      keys: ['min_duration', 'max_duration'],
+      label: `Duration: ${formatRange(f.min_duration, f.max_duration, value => `${value}s`)}`,
+    });
+  }
+  if (f.min_confidence !== undefined || f.max_confidence !== undefined) {
+    chips.push({
+      keys: ['min_confidence', 'max_confidence'],
+      label: `Confidence: ${formatRange(f.min_confidence, f.max_confidence, value => `${Math.round(value * 100)}%`)}`,
+    });
+  }
+  if (f.agent_name) chips.push({ keys: ['agent_name'], label: `Agent: ${f.agent_name}` });
+  if (f.failed_agent) chips.push({ keys: ['failed_agent'], label: `Failed agent: ${f.failed_agent}` });
+  if (f.error_message) chips.push({ keys: ['error_message'], label: `Error: "${f.error_message}"` });
+
+  return chips;
+}
+
+export function removeFilterKeys(filters: ExecutionFilters, keys: (keyof ExecutionFilters)[]): ExecutionFilters {
+  const next = { ...filters };
+  keys.forEach(key => delete next[key]);
+  return next;
+}
+
+// ============================================================================
+// URL ENCODING
+// ============================================================================
+
+const URL_KEYS: Record<(typeof TEXT_KEYS)[number], string> = {
+  search: 'q',
+  date_from: 'from',
+  date_to: 'to',
+  agent_name: 'agent',
+  failed_agent: 'failed_agent',
+  error_message: 'error',
+};
+
+/**
+ * Read filters from URL params; list filters are comma-separated
+ */
+export function parseFilterParams(params: URLSearchParams): ExecutionFilters {
+  const list = (name: string) => (params.get(name) || '').split(',').filter(Boolean);
+  const filters: ExecutionFilters = {
+    statuses: list('status').filter(isStatus),
+    template_ids: list('template'),
+  };
+
+  TEXT_KEYS.forEach(key => {
+    filters[key] = params.get(URL_KEYS[key]) || undefined;
+  });
+  EXECUTION_RANGE_FILTER_KEYS.forEach(key => {
+    const raw = params.get(key);
+    const value = raw === null || raw === '' ? NaN : Number(raw);
+    if (Number.isFinite(value)) filters[key] = value;
+  });
+
+  return normalizeExecutionFilters(filters);
+}
+
+/**
+ * Write filters into URL params
+ */
+export function appendFilterParams(params: URLSearchParams, filters: ExecutionFilters): void {
+  const f = normalizeExecutionFilters(filters);
+  if (f.search) params.set(URL_KEYS.search, f.search);
+  if (f.statuses) params.set('status', f.statuses.join(','));
+  if (f.template_ids) params.set('template', f.template_ids.join(','));
+  TEXT_KEYS.filter(key => key !== 'search').forEach(key => {
+    const value = f[key];
+    if (value) params.set(URL_KEYS[key], value);
+  });
+  EXECUTION_RANGE_FILTER_KEYS.forEach(key => {
+    const value = f[key];
+    if (value !== undefined) params.set(key, String(value));
+  });
+}
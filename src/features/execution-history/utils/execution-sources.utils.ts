@@ -0,0 +1,243 @@
+/**
+ * Execution Sources Utilities
+ *
+ * Combines every agent's all_sources into one execution-wide list: sources
+ * are deduplicated by normalized URL, their relevance scores merged, and
+ * each keeps track of which agents and Tavily APIs cited it.
+ */
+
+import { csvCell } from './csv.utils';
+import type { AgentResult, ExecutionResult } from '../types';
+import type { TavilySource } from '../types/execution-result.types';
+
+export type SourceApi = 'search' | 'extract' | 'crawl';
+
+export interface SourceCitation {
+  agentId: string;
+  agentName: string;
+  sourceType: SourceApi;
+  relevance_score: number;
+}
+
+export type CredibilityLevel = 'high' | 'medium' | 'low';
+
+export interface ExecutionSource {
+  key: string;
+  title: string;
+  url?: string;
+  domain: string;
+  content_preview: string;
+  favicon?: string;
+  // Highest relevance any agent gave the source
+  relevance_score: number;
+  averageRelevance: number;
+  citations: SourceCitation[];
+  agentNames: string[];
+  sourceTypes: SourceApi[];
+  // Relevance plus corroboration by other agents / APIs, 0-1
+  credibility: number;
+  credibilityLevel: CredibilityLevel;
+}
+
+export interface SourceDomainGroup {
+  domain: string;
+  sources: ExecutionSource[];
+  citationCount: number;
+  relevance_score: number;
+}
+
+export interface SourceFilters {
+  search?: string;
+  agentName?: string;
+  sourceType?: SourceApi;
+  minRelevance?: number;
+  credibility?: CredibilityLevel;
+}
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|ref|ref_src)$/i;
+
+/**
+ * URL reduced to what identifies the page: no scheme, www, fragment,
+ * tracking parameters or trailing slash
+ */
+export function normalizeSourceUrl(url: string): string {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    const params = [...parsed.searchParams.entries()]
+      .filter(([name]) => !TRACKING_PARAMS.test(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${host}${parsed.port ? `:${parsed.port}` : ''}${path}${query}`;
+  } catch {
+    return trimmed.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/[#].*$/, '').replace(/\/+$/, '');
+  }
+}
+
+export function getSourceDomain(url?: string): string {
+  if (!url) return 'Unknown';
+  return normalizeSourceUrl(url).split(/[/?]/)[0] || 'Unknown';
+}
+
+/**
+ * Dedup key for a source: normalized URL, falling back to title
+ */
+export function getSourceKey(source: TavilySource): string {
+  if (source.url) return normalizeSourceUrl(source.url);
+  return (source.title || '').trim().toLowerCase();
+}
+
+function getAgentSources(agent: AgentResult): TavilySource[] {
+  const sources = agent.result?.all_sources;
+  if (!Array.isArray(sources)) return [];
+  return (sources as TavilySource[]).filter(source => source && (source.url || source.title));
+}
+
+/**
+ * Credibility from relevance, then how many agents and APIs independently
+ * turned the source up
+ */
+function scoreCredibility(relevance: number, agentCount: number, apiCount: number): number {
+  const corroboration = Math.min(agentCount - 1, 3) / 3;
+  const apiSpread = Math.min(apiCount - 1, 2) / 2;
+  return Math.min(1, relevance * 0.6 + corroboration * 0.25 + apiSpread * 0.15);
+}
+
+export function getCredibilityLevel(credibility: number): CredibilityLevel {
+  if (credibility >= 0.65) return 'high';
+  if (credibility >= 0.45) return 'medium';
+  return 'low';
+}
+
+/**
+ * Every source cited in the execution, deduplicated and merged, most
+ * credible first
+ */
+export function aggregateExecutionSources(execution: ExecutionResult): ExecutionSource[] {
+  const byKey = new Map<string, { sources: TavilySource[]; citations: SourceCitation[] }>();
+
+  execution.agent_results.forEach(agent => {
+    getAgentSources(agent).forEach(source => {
+      const key = getSourceKey(source);
+      const entry = byKey.get(key) || { sources: [], citations: [] };
+      entry.sources.push(source);
+      entry.citations.push({
+        agentId: agent.agent_id,
+        agentName: agent.agent_name,
+        sourceType: source.source_type || 'search',
+        relevance_score: source.relevance_score || 0,
+      });
+      byKey.set(key, entry);
+    });
+  });
+
+  return Array.from(byKey.entries())
+    .map(([key, { sources, citations }]) => {
+      // Best-scored copy supplies the title and preview
+      const best = sources.reduce((top, source) =>
+        (source.relevance_score || 0) > (top.relevance_score || 0) ? source : top
+      );
+      const scores = citations.map(citation => citation.relevance_score);
+      const relevance = Math.max(...scores);
+      const agentNames = [...new Set(citations.map(citation => citation.agentName))];
+      const sourceTypes = [...new Set(citations.map(citation => citation.sourceType))];
+      const credibility = scoreCredibility(relevance, agentNames.length, sourceTypes.length);
+      // Prefer a copy with a full URL so links open
+      const urls = [best, ...sources].map(source => source.url).filter((url): url is string => Boolean(url));
+      const url = urls.find(candidate => /^https?:\/\//i.test(candidate)) || urls[0];
+
+      return {
+        key,
+        title: best.title || url || 'Untitled source',
+        url,
+        domain: getSourceDomain(url),
+        content_preview: best.content_preview || sources.find(source => source.content_preview)?.content_preview || '',
+        favicon: best.favicon || best.favicon_url || undefined,
+        relevance_score: relevance,
+        averageRelevance: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+        citations,
+        agentNames,
+        sourceTypes,
+        credibility,
+        credibilityLevel: getCredibilityLevel(credibility),
+      };
+    })
+    .sort((a, b) => b.credibility - a.credibility || b.relevance_score - a.relevance_score);
+}
+
+export function filterExecutionSources(sources: ExecutionSource[], filters: SourceFilters): ExecutionSource[] {
+  const search = filters.search?.trim().toLowerCase();
+  return sources.filter(source => {
+    if (search && ![source.title, source.url, source.domain, source.content_preview]
+      .some(value => value?.toLowerCase().includes(search))) return false;
+    if (filters.agentName && !source.agentNames.includes(filters.agentName)) return false;
+    if (filters.sourceType && !source.sourceTypes.includes(filters.sourceType)) return false;
+    if (filters.minRelevance !== undefined && source.relevance_score < filters.minRelevance) return false;
+    if (filters.credibility && source.credibilityLevel !== filters.credibility) return false;
+    return true;
+  });
+}
+
+/**
+ * Sources grouped by domain, most cited domain first
+ */
+export function groupSourcesByDomain(sources: ExecutionSource[]): SourceDomainGroup[] {
+  const groups = new Map<string, ExecutionSource[]>();
+  sources.forEach(source => groups.set(source.domain, [...(groups.get(source.domain) || []), source]));
+
+  return Array.from(groups.entries())
+    .map(([domain, domainSources]) => ({
+      domain,
+      sources: domainSources,
+      citationCount: domainSources.reduce((sum, source) => sum + source.citations.length, 0),
+      relevance_score: Math.max(...domainSources.map(source => source.relevance_score)),
+    }))
+    .sort((a, b) => b.citationCount - a.citationCount || b.relevance_score - a.relevance_score);
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export function sourcesToCsv(sources: ExecutionSource[]): string {
+  const header = ['Title', 'URL', 'Domain', 'Relevance', 'Average Relevance', 'Credibility', 'Citations', 'Agents', 'APIs'];
+  const rows = sources.map(source => [
+    source.title,
+    source.url || '',
+    source.domain,
+    source.relevance_score.toFixed(2),
+    source.averageRelevance.toFixed(2),
+    source.credibilityLevel,
+    source.citations.length,
+    source.agentNames.join('; '),
+    source.sourceTypes.join('; '),
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+const bibtexEscape = (value: string) => value.replace(/([{}\\&%$#_])/g, '\\$1');
+
+/**
+ * BibTeX @misc entries, keyed by domain and position
+ */
+export function sourcesToBibtex(sources: ExecutionSource[], execution: ExecutionResult): string {
+  const accessed = (execution.completed_at || execution.started_at || '').slice(0, 10);
+  const usedKeys = new Set<string>();
+
+  return sources.map((source, index) => {
+    const base = source.domain.replace(/[^a-z0-9]/gi, '').toLowerCase() || 'source';
+    let key = `${base}${index + 1}`;
+    while (usedKeys.has(key)) key = `${key}a`;
+    usedKeys.add(key);
+
+    const fields = [
+      `  title = {${bibtexEscape(source.title)}}`,
+      `  howpublished = {${source.url ? `\\url{${source.url}}` : bibtexEscape(source.domain)}}`,
+      source.url ? `  url = {${source.url}}` : null,
+      accessed ? `  note = {Accessed ${accessed}; cited by ${bibtexEscape(source.agentNames.join(', '))}}` : null,
+    ].filter(Boolean);
+    return `@misc{${key},\n${fields.join(',\n')}\n}`;
+  }).join('\n\n');
+}
@@ -0,0 +1,174 @@
+/**
+ * Execution Table Utilities
+ *
+ * Column definitions for the history table, the URL encoding of its
+ * filter / sort / page state, and row windowing for virtualization
+ */
+
+import { appendFilterParams, parseFilterParams } from './execution-filter.utils';
+import type { ExecutionFilters, ExecutionSort, ExecutionSortField } from '../types';
+
+export type ExecutionTableColumnId =
+  | 'status'
+  | 'template'
+  | 'query'
+  | 'started_at'
+  | 'total_duration'
+  | 'total_cost'
+  | 'overall_confidence'
+  | 'total_tokens'
+  | 'agents';
+
+export interface ExecutionTableColumn {
+  id: ExecutionTableColumnId;
+  label: string;
+  // Set when the backend can sort by this column
+  sortField?: ExecutionSortField;
+  // Tailwind width class
+  width: string;
+  align?: 'left' | 'right';
+  defaultVisible: boolean;
+}
+
+export const EXECUTION_TABLE_COLUMNS: ExecutionTableColumn[] = [
+  { id: 'status', label: 'Status', width: 'w-32', defaultVisible: true },
+  { id: 'template', label: 'Template', width: 'w-48', defaultVisible: true },
+  { id: 'query', label: 'Query', width: 'flex-1 min-w-[12rem]', defaultVisible: true },
+  { id: 'started_at', label: 'Started', sortField: 'started_at', width: 'w-40', defaultVisible: true },
+  { id: 'total_duration', label: 'Duration', sortField: 'total_duration', width: 'w-24', align: 'right', defaultVisible: true },
+  { id: 'total_cost', label: 'Cost', sortField: 'total_cost', width: 'w-24', align: 'right', defaultVisible: true },
+  { id: 'overall_confidence', label: 'Confidence', sortField: 'overall_confidence', width: 'w-28', align: 'right', defaultVisible: true },
+  { id: 'total_tokens', label: 'Tokens', width: 'w-24', align: 'right', defaultVisible: false },
+  { id: 'agents', label: 'Agents', width: 'w-20', align: 'right', defaultVisible: false },
+];
+
+export const DEFAULT_EXECUTION_SORT: ExecutionSort = { field: 'started_at', order: 'desc' };
+export const EXECUTION_PAGE_SIZES = [25, 50, 100, 200];
+export const DEFAULT_EXECUTION_PAGE_SIZE = 50;
+
+const DEFAULT_COLUMNS = EXECUTION_TABLE_COLUMNS.filter(column => column.defaultVisible).map(column => column.id);
+const SORT_FIELDS = EXECUTION_TABLE_COLUMNS.flatMap(column => (column.sortField ? [column.sortField] : []));
+
+export interface ExecutionTableState {
+  filters: ExecutionFilters;
+  sort: ExecutionSort;
+  page: number;
+  pageSize: number;
+  columns: ExecutionTableColumnId[];
+}
+
+// ============================================================================
+// URL STATE
+// ============================================================================
+
+const positiveInt = (value: string | null, fallback: number) => {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Read table state from the URL, falling back to defaults for anything
+ * missing or invalid
+ */
+export function parseExecutionTableParams(params: URLSearchParams): ExecutionTableState {
+  const sortField = params.get('sort') as ExecutionSortField | null;
+  const pageSize = positiveInt(params.get('size'), DEFAULT_EXECUTION_PAGE_SIZE);
+  const columns = (params.get('cols') || '')
+    .split(',')
+    .filter((id): id is ExecutionTableColumnId => EXECUTION_TABLE_COLUMNS.some(column => column.id === id));
+
+  return {
+    filters: parseFilterParams(params),
+    sort: sortField && SORT_FIELDS.includes(sortField)
+      ? { field: sortField, order: params.get('order') === 'asc' ? 'asc' : 'desc' }
+      : DEFAULT_EXECUTION_SORT,
+    page: positiveInt(params.get('page'), 1),
+    pageSize: EXECUTION_PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_EXECUTION_PAGE_SIZE,
+    columns: columns.length > 0 ? columns : DEFAULT_COLUMNS,
+  };
+}
+
+/**
+ * Write table state to URL params, leaving defaults out so shared links
+ * stay short
+ */
+export function serializeExecutionTableParams(state: ExecutionTableState): URLSearchParams {
+  const params = new URLSearchParams();
+  const { filters, sort, page, pageSize, columns } = state;
+
+  appendFilterParams(params, filters);
+  if (sort.field !== DEFAULT_EXECUTION_SORT.field || sort.order !== DEFAULT_EXECUTION_SORT.order) {
+    params.set('sort', sort.field);
+    params.set('order', sort.order);
+  }
+  if (page > 1) params.set('page', String(page));
+  if (pageSize !== DEFAULT_EXECUTION_PAGE_SIZE) params.set('size', String(pageSize));
+  if (columns.join(',') !== DEFAULT_COLUMNS.join(',')) params.set('cols', columns.join(','));
+
+  return params;
+}
+
+/**
+ * Next sort after clicking a column header: a new column sorts descending,
+ * the current column flips direction
+ */
+export function toggleExecutionSort(current: ExecutionSort, field: ExecutionSortField): ExecutionSort {
+  if (current.field !== field) return { field, order: 'desc' };
+  return { field, order: current.order === 'desc' ? 'asc' : 'desc' };
+}
+
+// ============================================================================
+// PAGINATION
+// ============================================================================
+
+/**
+ * Page buttons to show: first, last and a window around the current page,
+ * with null marking a gap
+ */
+export function getPageNumbers(current: number, total: number, siblings: number = 1): (number | null)[] {
+  if (total <= 0) return [];
+  const pages = new Set([1, total]);
+  for (let page = current - siblings; page <= current + siblings; page++) {
+    if (page >= 1 && page <= total) pages.add(page);
+  }
+
+  const sorted = [...pages].sort((a, b) => a - b);
+  return sorted.flatMap((page, index) => {
+    const previous = sorted[index - 1];
+    if (previous === undefined || page - previous === 1) return [page];
+    // A gap of one page is shown as the page itself
+    return page - previous === 2 ? [previous + 1, page] : [null, page];
+  });
+}
+
+// ============================================================================
+// VIRTUALIZATION
+// ============================================================================
+
+export interface VirtualWindow {
+  start: number;
+  end: number;
+  offsetTop: number;
+  offsetBottom: number;
+}
+
+/**
+ * Rows to render for a fixed-height list scrolled to scrollTop, with
+ * spacer heights for the rows left out
+ */
+export function getVirtualWindow(
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  rowCount: number,
+  overscan: number = 8
+): VirtualWindow {
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  return {
+    start,
+    end,
+    offsetTop: start * rowHeight,
+    offsetBottom: Math.max(0, (rowCount - end) * rowHeight),
+  };
+}
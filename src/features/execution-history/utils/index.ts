@@ -6,3 +6,9 @@
 
 export * from './execution-status.utils';
 export * from './execution-time.utils';
+export * from './execution-compare.utils';
+export * from './markdown.utils';
+export * from './execution-sources.utils';
+export * from './execution-table.utils';
+export * from './execution-filter.utils';
+export * from './csv.utils';
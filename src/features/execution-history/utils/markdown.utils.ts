@@ -0,0 +1,593 @@
+/**
+ * Markdown Utilities
+ *
+ * Small markdown parser for agent output. Produces a tree that components
+ * render as React elements, so raw HTML in the source is only ever shown as
+ * text and link targets are restricted to safe schemes.
+ *
+ * Supports headings, paragraphs, emphasis, inline code, fenced code blocks,
+ * ordered / unordered / nested lists, block quotes, rules, GFM tables and
+ * links. Source references ([1], [1, 3], [Source 2], or a URL / link that
+ * matches a source) become citations pointing into all_sources.
+ */
+
+import type { TavilySource } from '../types/execution-result.types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  // Zero-based indexes into the sources list
+  | { type: 'citation'; sourceIndexes: number[] }
+  | { type: 'break' };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code_block'; language: string; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'table'; align: TableAlignment[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'hr' };
+
+export interface MarkdownOptions {
+  // Sources that citations can refer to, usually result.all_sources
+  sources?: TavilySource[];
+}
+
+// ============================================================================
+// LINKS
+// ============================================================================
+
+const SAFE_URL_PATTERN = /^(https?:|mailto:)/i;
+
+/**
+ * Link target if it uses a safe scheme (or is a relative / fragment link),
+ * otherwise null
+ */
+export function sanitizeUrl(url: string): string | null {
+  const cleaned = Array.from(url.trim())
+    .filter(char => char.charCodeAt(0) > 31 && char.charCodeAt(0) !== 127)
+    .join('');
+  if (!cleaned) return null;
+  if (SAFE_URL_PATTERN.test(cleaned.replace(/\s+/g, ''))) return cleaned;
+  if (cleaned.startsWith('#') || (cleaned.startsWith('/') && !cleaned.startsWith('//'))) return cleaned;
+  return null;
+}
+
+const normalizeUrl = (url: string) => url.trim().replace(/^https?:\/\//i, '').replace(/^www\./i, '').replace(/\/+$/, '').toLowerCase();
+
+function findSourceByUrl(url: string, sources: TavilySource[]): number {
+  const target = normalizeUrl(url);
+  return sources.findIndex(source => source.url && normalizeUrl(source.url) === target);
+}
+
+// ============================================================================
+// INLINE PARSING
+// ============================================================================
+
+const CITATION_PATTERN = /^\[(?:(?:source|src|ref)s?\s*:?\s*)?(\d+(?:\s*(?:,|-|–)\s*\d+)*)\]/i;
+const LINK_PATTERN = /^\[((?:[^[\]]|\[[^\]]*\])*)\]\(\s*<?([^\s()<>]*(?:\([^\s()<>]*\)[^\s()<>]*)*)>?(?:\s+"[^"]*")?\s*\)/;
+const AUTOLINK_PATTERN = /^<(https?:\/\/[^\s>]+)>/i;
+const BARE_URL_PATTERN = /^https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"*_]/i;
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~<>';
+
+/**
+ * Source indexes named by a citation like "1, 3-4", or null when any of
+ * them is outside the sources list
+ */
+function parseCitationIndexes(list: string, sourceCount: number): number[] | null {
+  const indexes: number[] = [];
+  for (const part of list.split(',')) {
+    const [from, to] = part.split(/-|–/).map(value => Number(value.trim()));
+    const end = to ?? from;
+    if (!from || end < from || end - from > 20) return null;
+    for (let index = from; index <= end; index++) {
+      if (index > sourceCount) return null;
+      if (!indexes.includes(index - 1)) indexes.push(index - 1);
+    }
+  }
+  return indexes.length > 0 ? indexes : null;
+}
+
+/**
+ * Position of the closing delimiter for an emphasis run, skipping code spans
+ */
+function findClosing(text: string, delimiter: string, from: number): number {
+  let index = from;
+  while (index < text.length) {
+    if (text[index] === '\\') {
+      index += 2;
+      continue;
+    }
+    if (text[index] === '`') {
+      const end = text.indexOf('`', index + 1);
+      if (end === -1) return -1;
+      index = end + 1;
+      continue;
+    }
+    if (text.startsWith(delimiter, index) && index > from && text[index - 1] !== ' ') {
+      // "**" must not be read as the end of a single "*" run
+      if (delimiter.length === 1 && text[index + 1] === delimiter) {
+        index += 2;
+        continue;
+      }
+      return index;
+    }
+    index++;
+  }
+  return -1;
+}
+
+export function parseInline(text: string, options: MarkdownOptions = {}): MarkdownInline[] {
+  const sources = options.sources || [];
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    // Escapes
+    if (char === '\\' && index + 1 < text.length) {
+      const next = text[index + 1];
+      if (next === '\n') {
+        push({ type: 'break' });
+        index += 2;
+        continue;
+      }
+      if (ESCAPABLE.includes(next)) {
+        buffer += next;
+        index += 2;
+        continue;
+      }
+    }
+
+    // Hard line break (two trailing spaces) or soft wrap
+    if (char === '\n') {
+      if (buffer.endsWith('  ')) {
+        buffer = buffer.replace(/ +$/, '');
+        push({ type: 'break' });
+      } else {
+        buffer += ' ';
+      }
+      index++;
+      continue;
+    }
+
+    // Inline code
+    if (char === '`') {
+      const fence = rest.match(/^`+/)![0];
+      const end = text.indexOf(fence, index + fence.length);
+      if (end !== -1) {
+        push({ type: 'code', text: text.slice(index + fence.length, end).trim() });
+        index = end + fence.length;
+        continue;
+      }
+      buffer += fence;
+      index += fence.length;
+      continue;
+    }
+
+    // Emphasis
+    const delimiter = ['**', '__', '~~', '*', '_'].find(candidate => rest.startsWith(candidate));
+    if (delimiter && text[index + delimiter.length] && text[index + delimiter.length] !== ' ') {
+      const intraword = delimiter[0] === '_' && /\w/.test(text[index - 1] || '');
+      const end = intraword ? -1 : findClosing(text, delimiter, index + delimiter.length);
+      if (end !== -1) {
+        const type = delimiter === '~~' ? 'del' : delimiter.length === 2 ? 'strong' : 'em';
+        push({ type, children: parseInline(text.slice(index + delimiter.length, end), options) });
+        index = end + delimiter.length;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      // Links
+      const link = rest.match(LINK_PATTERN);
+      if (link) {
+        const href = sanitizeUrl(link[2]);
+        const children = parseInline(link[1], options);
+        if (href) {
+          push({ type: 'link', href, children });
+          const sourceIndex = findSourceByUrl(href, sources);
+          if (sourceIndex !== -1) push({ type: 'citation', sourceIndexes: [sourceIndex] });
+        } else {
+          flush();
+          nodes.push(...children);
+        }
+        index += link[0].length;
+        continue;
+      }
+
+      // Numbered source references
+      const citation = rest.match(CITATION_PATTERN);
+      const indexes = citation ? parseCitationIndexes(citation[1], sources.length) : null;
+      if (citation && indexes) {
+        push({ type: 'citation', sourceIndexes: indexes });
+        index += citation[0].length;
+        continue;
+      }
+    }
+
+    // <https://...> autolinks
+    if (char === '<') {
+      const autolink = rest.match(AUTOLINK_PATTERN);
+      const href = autolink ? sanitizeUrl(autolink[1]) : null;
+      if (autolink && href) {
+        const sourceIndex = findSourceByUrl(href, sources);
+        push(sourceIndex !== -1
+          ? { type: 'citation', sourceIndexes: [sourceIndex] }
+          : { type: 'link', href, children: [{ type: 'text', text: href }] });
+        index += autolink[0].length;
+        continue;
+      }
+    }
+
+    // Bare URLs
+    if ((char === 'h' || char === 'H') && !/\w/.test(text[index - 1] || '')) {
+      const url = rest.match(BARE_URL_PATTERN);
+      const href = url ? sanitizeUrl(url[0]) : null;
+      if (url && href) {
+        const sourceIndex = findSourceByUrl(href, sources);
+        push(sourceIndex !== -1
+          ? { type: 'citation', sourceIndexes: [sourceIndex] }
+          : { type: 'link', href, children: [{ type: 'text', text: href }] });
+        index += url[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    index++;
+  }
+
+  flush();
+  return nodes;
+}
+
+// ============================================================================
+// BLOCK PARSING
+// ============================================================================
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const HR_PATTERN = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^\s{0,3}>\s?/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+const isBlank = (line: string) => line.trim() === '';
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let current = '';
+  for (let index = 0; index < row.length; index++) {
+    if (row[index] === '\\' && row[index + 1] === '|') {
+      current += '|';
+      index++;
+    } else if (row[index] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += row[index];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return lines[index].includes('|') &&
+    index + 1 < lines.length &&
+    lines[index + 1].includes('-') &&
+    TABLE_SEPARATOR_PATTERN.test(lines[index + 1]);
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    HR_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    isTableStart(lines, index);
+}
+
+function parseBlocks(lines: string[], options: MarkdownOptions): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    // Fenced code
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const marker = fence[1];
+      const codeIndent = indentOf(line);
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(marker)) {
+        code.push(lines[index].slice(Math.min(codeIndent, indentOf(lines[index]))));
+        index++;
+      }
+      index++; // closing fence
+      blocks.push({ type: 'code_block', language: fence[2].toLowerCase(), code: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2], options) });
+      index++;
+      continue;
+    }
+
+    if (HR_PATTERN.test(line)) {
+      blocks.push({ type: 'hr' });
+      index++;
+      continue;
+    }
+
+    // Block quote
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && !isBlank(lines[index]) &&
+        (QUOTE_PATTERN.test(lines[index]) || !startsBlock(lines, index))) {
+        quoted.push(lines[index].replace(QUOTE_PATTERN, ''));
+        index++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted, options) });
+      continue;
+    }
+
+    // GFM table
+    if (isTableStart(lines, index)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[index + 1]).map<TableAlignment>(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      index += 2;
+
+      const rows: MarkdownInline[][][] = [];
+      while (index < lines.length && !isBlank(lines[index]) && lines[index].includes('|')) {
+        const cells = splitTableRow(lines[index]);
+        rows.push(header.map((_, column) => parseInline(cells[column] || '', options)));
+        index++;
+      }
+      blocks.push({
+        type: 'table',
+        align: header.map((_, column) => align[column] ?? null),
+        header: header.map(cell => parseInline(cell, options)),
+        rows,
+      });
+      continue;
+    }
+
+    // Lists
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      const baseIndent = indentOf(line);
+      const ordered = /\d/.test(item[2]);
+      const items: MarkdownBlock[][] = [];
+
+      while (index < lines.length) {
+        const current = lines[index].match(LIST_ITEM_PATTERN);
+        if (!current || indentOf(lines[index]) !== baseIndent || /\d/.test(current[2]) !== ordered) break;
+
+        const contentIndent = baseIndent + current[2].length + 1;
+        const itemLines = [current[3]];
+        index++;
+
+        while (index < lines.length) {
+          const next = lines[index];
+          if (isBlank(next)) {
+            // A blank line only continues the item if indented content follows
+            const following = lines[index + 1];
+            if (following !== undefined && !isBlank(following) && indentOf(following) > baseIndent) {
+              itemLines.push('');
+              index++;
+              continue;
+            }
+            break;
+          }
+          if (indentOf(next) > baseIndent) {
+            itemLines.push(next.slice(Math.min(indentOf(next), contentIndent)));
+          } else if (!startsBlock(lines, index)) {
+            itemLines.push(next.trim()); // lazy continuation
+          } else {
+            break;
+          }
+          index++;
+        }
+
+        items.push(parseBlocks(itemLines, options));
+        while (index < lines.length && isBlank(lines[index])) {
+          const following = lines[index + 1]?.match(LIST_ITEM_PATTERN);
+          if (!following || indentOf(lines[index + 1]) !== baseIndent) break;
+          index++;
+        }
+      }
+
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(item[2], 10) : 1, items });
+      continue;
+    }
+
+    // Paragraph
+    const paragraph: string[] = [];
+    while (index < lines.length && !isBlank(lines[index]) && (paragraph.length === 0 || !startsBlock(lines, index))) {
+      paragraph.push(paragraph.length === 0 ? lines[index].trimStart() : lines[index].trim() + (lines[index].endsWith('  ') ? '  ' : ''));
+      index++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n'), options) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse markdown into blocks ready for rendering
+ */
+export function parseMarkdown(source: string, options: MarkdownOptions = {}): MarkdownBlock[] {
+  return parseBlocks(source.replace(/\r\n?/g, '\n').split('\n'), options);
+}
+
+/**
+ * Source indexes cited anywhere in the parsed document, in order of first use
+ */
+export function collectCitedSources(blocks: MarkdownBlock[]): number[] {
+  const cited: number[] = [];
+  const visitInline = (nodes: MarkdownInline[]) => nodes.forEach(node => {
+    if (node.type === 'citation') {
+      node.sourceIndexes.forEach(index => {
+        if (!cited.includes(index)) cited.push(index);
+      });
+    } else if ('children' in node) {
+      visitInline(node.children);
+    }
+  });
+  const visitBlocks = (nodes: MarkdownBlock[]) => nodes.forEach(block => {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+        visitInline(block.children);
+        break;
+      case 'blockquote':
+        visitBlocks(block.children);
+        break;
+      case 'list':
+        block.items.forEach(visitBlocks);
+        break;
+      case 'table':
+        block.header.forEach(visitInline);
+        block.rows.forEach(row => row.forEach(visitInline));
+        break;
+    }
+  });
+  visitBlocks(blocks);
+  return cited;
+}
+
+// ============================================================================
+// CODE HIGHLIGHTING
+// ============================================================================
+
+export type CodeTokenType = 'plain' | 'keyword' | 'string' | 'number' | 'comment' | 'property' | 'literal';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+const KEYWORDS: Record<string, string[]> = {
+  javascript: [
+    'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+    'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'interface',
+    'let', 'new', 'of', 'return', 'switch', 'throw', 'try', 'type', 'typeof', 'var', 'void', 'while', 'yield',
+  ],
+  python: [
+    'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+    'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass',
+    'raise', 'return', 'try', 'while', 'with', 'yield',
+  ],
+  sql: [
+    'select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create',
+    'table', 'drop', 'alter', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order', 'having',
+    'limit', 'as', 'distinct', 'union', 'case', 'when', 'then', 'else', 'end', 'is', 'in', 'like', 'between',
+  ],
+  shell: ['if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'do', 'done', 'case', 'esac', 'function', 'export', 'echo', 'return'],
+};
+
+const LANGUAGE_FAMILIES: Record<string, string> = {
+  js: 'javascript', javascript: 'javascript', jsx: 'javascript', ts: 'javascript', typescript: 'javascript',
+  tsx: 'javascript', java: 'javascript', c: 'javascript', cpp: 'javascript', 'c++': 'javascript',
+  csharp: 'javascript', cs: 'javascript', go: 'javascript', rust: 'javascript', kotlin: 'javascript', swift: 'javascript',
+  py: 'python', python: 'python',
+  sql: 'sql',
+  sh: 'shell', bash: 'shell', shell: 'shell', zsh: 'shell', yaml: 'shell', yml: 'shell',
+  json: 'json',
+};
+
+const LITERALS = new Set(['true', 'false', 'null', 'undefined', 'none', 'nan', 'True', 'False', 'None']);
+
+/**
+ * Split code into coloured tokens with a light, language-family aware lexer
+ */
+export function highlightCode(code: string, language: string): CodeToken[] {
+  const family = LANGUAGE_FAMILIES[language.toLowerCase()] || 'javascript';
+  const keywords = new Set(KEYWORDS[family] || []);
+  const hashComments = family === 'python' || family === 'shell';
+  const caseInsensitive = family === 'sql';
+
+  const comment = family === 'sql'
+    ? '--[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/'
+    : hashComments ? '#[^\\n]*' : family === 'json' ? '(?!)' : '\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/';
+  const pattern = new RegExp(
+    `(${comment})|("(?:[^"\\\\\\n]|\\\\.)*"|'(?:[^'\\\\\\n]|\\\\.)*'|\`(?:[^\`\\\\]|\\\\.)*\`)|(\\b\\d+(?:\\.\\d+)?(?:e[+-]?\\d+)?\\b)|([A-Za-z_$][\\w$]*)`,
+    'g'
+  );
+
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let lastIndex = 0;
+  for (const match of code.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) push('plain', code.slice(lastIndex, start));
+
+    const [text, commentText, stringText, numberText, word] = match;
+    if (commentText) {
+      push('comment', text);
+    } else if (stringText) {
+      // JSON object keys are strings followed by a colon
+      const isKey = family === 'json' && /^\s*:/.test(code.slice(start + text.length));
+      push(isKey ? 'property' : 'string', text);
+    } else if (numberText) {
+      push('number', text);
+    } else if (word && LITERALS.has(word)) {
+      push('literal', text);
+    } else if (word && keywords.has(caseInsensitive ? word.toLowerCase() : word)) {
+      push('keyword', text);
+    } else {
+      push('plain', text);
+    }
+    lastIndex = start + text.length;
+  }
+  if (lastIndex < code.length) push('plain', code.slice(lastIndex));
+
+  return tokens;
+}
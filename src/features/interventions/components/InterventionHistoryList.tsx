@@ -0,0 +1,180 @@
+/**
+ * InterventionHistoryList Component
+ *
+ * Searchable list of past intervention responses with response times
+ */
+
+import { Link } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, Search, Timer } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent } from '../../../components/ui/card';
+import { Badge } from '../../../components/ui/badge';
+import { Input } from '../../../components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../../components/ui/select';
+
+import { formatDetailedDuration, formatRelativeTime } from '../../execution-history/utils/execution-time.utils';
+import type { InterventionAction, InterventionHistoryEntry, InterventionHistoryFilters } from '../types';
+
+interface InterventionHistoryListProps {
+  responses: InterventionHistoryEntry[];
+  filters: InterventionHistoryFilters;
+  onFiltersChange: (filters: InterventionHistoryFilters) => void;
+  currentPage: number;
+  totalPages: number;
+  totalCount: number;
+  averageResponseTime: number | null;
+  onPageChange: (page: number) => void;
+  isLoading: boolean;
+}
+
+const ACTIONS: InterventionAction[] = ['approve', 'reject', 'modify', 'skip', 'retry', 'cancel'];
+
+const ACTION_STYLES: Record<InterventionAction, string> = {
+  approve: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800',
+  reject: 'bg-red-100 text-red-800 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800',
+  modify: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800',
+  skip: 'bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-900/20 dark:text-gray-400 dark:border-gray-800',
+  retry: 'bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-400 dark:border-yellow-800',
+  cancel: 'bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-900/20 dark:text-gray-400 dark:border-gray-800',
+};
+
+const ALL = 'all';
+
+export function InterventionHistoryList({
+  responses,
+  filters,
+  onFiltersChange,
+  currentPage,
+  totalPages,
+  totalCount,
+  averageResponseTime,
+  onPageChange,
+  isLoading,
+}: InterventionHistoryListProps) {
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by agent, template or feedback..."
+            value={filters.search || ''}
+            onChange={(e) => onFiltersChange({ ...filters, search: e.target.value || undefined })}
+            className="pl-9"
+          />
+        </div>
+        <Select
+          value={filters.action || ALL}
+          onValueChange={(value) =>
+            onFiltersChange({ ...filters, action: value === ALL ? undefined : value as InterventionAction })
+          }
+        >
+          <SelectTrigger className="sm:w-48" aria-label="Filter by action">
+            <SelectValue placeholder="All Actions" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All Actions</SelectItem>
+            {ACTIONS.map(action => (
+              <SelectItem key={action} value={action} className="capitalize">
+                {action}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>{totalCount} response{totalCount !== 1 ? 's' : ''}</span>
+        {averageResponseTime !== null && (
+          <span className="flex items-center gap-1">
+            <Timer className="h-4 w-4" />
+            Avg. response time {formatDetailedDuration(averageResponseTime)}
+          </span>
+        )}
+      </div>
+
+      {/* Responses */}
+      {!isLoading && responses.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground text-sm">
+            No intervention responses found
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {responses.map(response => (
+            <Card key={response.intervention_id}>
+              <CardContent className="py-3 flex flex-col md:flex-row md:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-sm truncate">
+                      {response.agent_name || response.agent_id}
+                    </span>
+                    <Badge variant="outline" className="capitalize text-xs">{response.intervention_type}</Badge>
+                    {response.template_name && (
+                      <span className="text-xs text-muted-foreground">{response.template_name}</span>
+                    )}
+                  </div>
+                  {response.human_feedback && (
+                    <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{response.human_feedback}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 text-xs text-muted-foreground flex-shrink-0">
+                  <Badge variant="outline" className={`capitalize ${ACTION_STYLES[response.action]}`}>
+                    {response.action}
+                  </Badge>
+                  <span className="flex items-center gap-1" title="Response time">
+                    <Timer className="h-3 w-3" />
+                    {formatDetailedDuration(response.response_time_seconds)}
+                  </span>
+                  <span>{formatRelativeTime(response.responded_at)}</span>
+                  <Link
+                    to={`/execution-history/${response.execution_id}`}
+                    className="hover:text-foreground underline-offset-2 hover:underline"
+                  >
+                    Execution
+                  </Link>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPageChange(currentPage - 1)}
+            disabled={currentPage <= 1 || isLoading}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {currentPage} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPageChange(currentPage + 1)}
+            disabled={currentPage >= totalPages || isLoading}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default InterventionHistoryList;
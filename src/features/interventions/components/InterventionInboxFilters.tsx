@@ -0,0 +1,82 @@
+/**
+ * InterventionInboxFilters Component
+ *
+ * Filter pending interventions by type and template
+ */
+
+import { X } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../../components/ui/select';
+
+import type { InterventionFilters, InterventionType } from '../types';
+
+interface InterventionInboxFiltersProps {
+  filters: InterventionFilters;
+  templateOptions: Array<{ id: string; name: string }>;
+  onChange: (filters: InterventionFilters) => void;
+  onClear: () => void;
+}
+
+const INTERVENTION_TYPES: InterventionType[] = ['approval', 'input', 'review', 'modify', 'decision'];
+
+const ALL = 'all';
+
+export function InterventionInboxFilters({ filters, templateOptions, onChange, onClear }: InterventionInboxFiltersProps) {
+  const hasFilters = !!filters.intervention_type || !!filters.template_id;
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-4">
+      <Select
+        value={filters.intervention_type || ALL}
+        onValueChange={(value) =>
+          onChange({ ...filters, intervention_type: value === ALL ? undefined : value as InterventionType })
+        }
+      >
+        <SelectTrigger className="sm:w-48" aria-label="Filter by intervention type">
+          <SelectValue placeholder="All Types" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All Types</SelectItem>
+          {INTERVENTION_TYPES.map(type => (
+            <SelectItem key={type} value={type} className="capitalize">
+              {type}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.template_id || ALL}
+        onValueChange={(value) => onChange({ ...filters, template_id: value === ALL ? undefined : value })}
+      >
+        <SelectTrigger className="sm:w-64" aria-label="Filter by template">
+          <SelectValue placeholder="All Templates" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All Templates</SelectItem>
+          {templateOptions.map(template => (
+            <SelectItem key={template.id} value={template.id}>
+              {template.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {hasFilters && (
+        <Button variant="ghost" onClick={onClear}>
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export default InterventionInboxFilters;
@@ -0,0 +1,223 @@
+/**
+ * InterventionInboxItem Component
+ *
+ * A single pending intervention with inline approve / reject / modify / retry actions
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  CheckCircle2,
+  XCircle,
+  Pencil,
+  RotateCcw,
+  Clock,
+  ExternalLink,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Badge } from '../../../components/ui/badge';
+import { Textarea } from '../../../components/ui/textarea';
+import { Label } from '../../../components/ui/label';
+
+import { InterventionResponseForm } from '../../langgraph-templates/components/InterventionResponseForm';
+import { formatTimeRemaining, getInterventionUrgency } from '../utils';
+import type { InboxIntervention, InterventionAction, InterventionDecision } from '../types';
+
+interface InterventionInboxItemProps {
+  intervention: InboxIntervention;
+  now: number;
+  isResponding: boolean;
+  onRespond: (intervention: InboxIntervention, decision: InterventionDecision) => Promise<unknown>;
+}
+
+const URGENCY_STYLES = {
+  expired: 'bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-900/20 dark:text-gray-400 dark:border-gray-800',
+  critical: 'bg-red-100 text-red-800 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800',
+  warning: 'bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-400 dark:border-yellow-800',
+  normal: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800',
+} as const;
+
+// Types that get a generated form instead of the quick actions
+const FORM_INTERVENTION_TYPES = ['input', 'modify', 'decision'];
+
+function formatJson(value: unknown): string {
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+export function InterventionInboxItem({ intervention, now, isResponding, onRespond }: InterventionInboxItemProps) {
+  const [feedback, setFeedback] = useState('');
+  const [isModifying, setIsModifying] = useState(false);
+  const [modificationsText, setModificationsText] = useState('{}');
+  const [modificationsError, setModificationsError] = useState<string | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+
+  const urgency = getInterventionUrgency(intervention.timeout_at, now);
+  const agentName = intervention.agent_name || intervention.agent_id;
+  const hasContext = Object.keys(intervention.context || {}).length > 0;
+
+  const submit = async (action: InterventionAction) => {
+    const decision: InterventionDecision = { action, human_feedback: feedback.trim() || undefined };
+
+    if (action === 'modify') {
+      try {
+        decision.modifications = JSON.parse(modificationsText);
+      } catch {
+        setModificationsError('Modifications must be valid JSON');
+        return;
+      }
+    }
+
+    setModificationsError(null);
+    try {
+      await onRespond(intervention, decision);
+    } catch {
+      // Error is surfaced by the inbox hook
+    }
+  };
+
+  return (
+    <Card className={urgency === 'critical' ? 'border-red-300 dark:border-red-800' : undefined}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0 space-y-1">
+            <CardTitle className="text-base truncate">{agentName}</CardTitle>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant="outline" className="capitalize">{intervention.intervention_type}</Badge>
+              <span>{intervention.intervention_point.replace(/_/g, ' ')}</span>
+              {intervention.template_name && <span>• {intervention.template_name}</span>}
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-2 flex-shrink-0">
+            <Badge variant="outline" className={`flex items-center gap-1 ${URGENCY_STYLES[urgency]}`}>
+              <Clock className="h-3 w-3" />
+              {formatTimeRemaining(intervention.timeout_at, now)}
+            </Badge>
+            <Link
+              to={`/execution-history/${intervention.execution_id}`}
+              className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1"
+            >
+              Execution
+              <ExternalLink className="h-3 w-3" />
+            </Link>
+          </div>
+        </div>
+        {intervention.query && (
+          <p className="text-sm text-muted-foreground line-clamp-2 pt-1">{intervention.query}</p>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {(hasContext || intervention.agent_result) && (
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowDetails(prev => !prev)}
+              className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground"
+            >
+              {showDetails ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              Context & agent output
+            </button>
+            {showDetails && (
+              <div className="mt-2 space-y-2">
+                {hasContext && (
+                  <pre className="text-xs bg-muted rounded p-2 max-h-48 overflow-auto whitespace-pre-wrap break-words">
+                    {formatJson(intervention.context)}
+                  </pre>
+                )}
+                {intervention.agent_result && (
+                  <pre className="text-xs bg-muted rounded p-2 max-h-48 overflow-auto whitespace-pre-wrap break-words">
+                    {formatJson(intervention.agent_result)}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {FORM_INTERVENTION_TYPES.includes(intervention.intervention_type) ? (
+          <InterventionResponseForm
+            intervention={intervention}
+            isSubmitting={isResponding}
+            onSubmit={(result) => onRespond(intervention, result)}
+          />
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor={`feedback-${intervention.intervention_id}`} className="text-xs">
+                Feedback (optional)
+              </Label>
+              <Textarea
+                id={`feedback-${intervention.intervention_id}`}
+                value={feedback}
+                onChange={(e) => setFeedback(e.target.value)}
+                placeholder="Explain your decision for the agent and the audit trail..."
+                rows={2}
+                disabled={isResponding}
+              />
+            </div>
+
+            {isModifying && (
+              <div className="space-y-2">
+                <Label htmlFor={`modifications-${intervention.intervention_id}`} className="text-xs">
+                  Modifications (JSON)
+                </Label>
+                <Textarea
+                  id={`modifications-${intervention.intervention_id}`}
+                  value={modificationsText}
+                  onChange={(e) => setModificationsText(e.target.value)}
+                  rows={4}
+                  className="font-mono text-xs"
+                  disabled={isResponding}
+                />
+                {modificationsError && (
+                  <p className="text-xs text-destructive">{modificationsError}</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={() => submit('approve')} disabled={isResponding}>
+                <CheckCircle2 className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+              <Button size="sm" variant="destructive" onClick={() => submit('reject')} disabled={isResponding}>
+                <XCircle className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+              {isModifying ? (
+                <>
+                  <Button size="sm" variant="secondary" onClick={() => submit('modify')} disabled={isResponding}>
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Submit Changes
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setIsModifying(false)} disabled={isResponding}>
+                    Cancel
+                  </Button>
+                </>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => setIsModifying(true)} disabled={isResponding}>
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Modify
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => submit('retry')} disabled={isResponding}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Retry
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default InterventionInboxItem;
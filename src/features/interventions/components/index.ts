@@ -0,0 +1,9 @@
+/**
+ * Interventions Components - Index
+ * 
+ * Centralized exports for all intervention inbox components
+ */
+
+export { InterventionInboxItem } from './InterventionInboxItem';
+export { InterventionInboxFilters } from './InterventionInboxFilters';
+export { InterventionHistoryList } from './InterventionHistoryList';
@@ -0,0 +1,8 @@
+/**
+ * Interventions Hooks - Index
+ * 
+ * Centralized exports for all intervention hooks
+ */
+
+export { useInterventionInbox, default as useInterventionInboxDefault } from './useInterventionInbox';
+export { useInterventionHistory, default as useInterventionHistoryDefault } from './useInterventionHistory';
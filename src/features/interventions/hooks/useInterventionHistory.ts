@@ -0,0 +1,87 @@
+/**
+ * useInterventionHistory Hook
+ * 
+ * Paginated, searchable history of past intervention responses
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { interventionService } from '../services';
+import { INTERVENTION_HISTORY_QUERY_KEY } from './useInterventionInbox';
+import type { InterventionHistoryEntry, InterventionHistoryFilters } from '../types';
+
+interface UseInterventionHistoryOptions {
+  limit?: number;
+}
+
+interface UseInterventionHistoryReturn {
+  // Data
+  responses: InterventionHistoryEntry[];
+  totalCount: number;
+  averageResponseTime: number | null;
+
+  // Pagination
+  currentPage: number;
+  totalPages: number;
+  setPage: (page: number) => void;
+
+  // Filters
+  filters: InterventionHistoryFilters;
+  setFilters: (filters: InterventionHistoryFilters) => void;
+
+  // State
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => void;
+}
+
+export function useInterventionHistory(
+  options: UseInterventionHistoryOptions = {}
+): UseInterventionHistoryReturn {
+  const { limit = 20 } = options;
+
+  const [currentPage, setCurrentPage] = useState(1);
+  const [filters, setFiltersState] = useState<InterventionHistoryFilters>({});
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: [...INTERVENTION_HISTORY_QUERY_KEY, currentPage, limit, filters],
+    queryFn: () => interventionService.getInterventionHistory(currentPage, limit, filters),
+    placeholderData: previous => previous,
+  });
+
+  const responses = useMemo(() => data?.responses || [], [data]);
+  const totalCount = data?.total || 0;
+
+  // Average over the current page; the backend does not aggregate response times
+  const averageResponseTime = useMemo(() => {
+    if (responses.length === 0) return null;
+    const total = responses.reduce((sum, response) => sum + response.response_time_seconds, 0);
+    return total / responses.length;
+  }, [responses]);
+
+  // Reset to the first page whenever the filters change
+  const setFilters = useCallback((next: InterventionHistoryFilters) => {
+    setFiltersState(next);
+    setCurrentPage(1);
+  }, []);
+
+  const refresh = useCallback(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    responses,
+    totalCount,
+    averageResponseTime,
+    currentPage,
+    totalPages: Math.max(1, Math.ceil(totalCount / limit)),
+    setPage: setCurrentPage,
+    filters,
+    setFilters,
+    isLoading,
+    error: error instanceof Error ? error.message : null,
+    refresh,
+  };
+}
+
+export default useInterventionHistory;
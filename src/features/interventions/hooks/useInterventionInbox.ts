@@ -0,0 +1,141 @@
+/**
+ * useInterventionInbox Hook
+ * 
+ * Pending interventions across all executions with filtering and inline responses
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { interventionService } from '../services';
+import type {
+  InboxIntervention,
+  InterventionDecision,
+  InterventionFilters,
+  InterventionResponse,
+} from '../types';
+
+interface UseInterventionInboxOptions {
+  refreshInterval?: number;
+}
+
+interface TemplateOption {
+  id: string;
+  name: string;
+}
+
+interface UseInterventionInboxReturn {
+  // Data
+  interventions: InboxIntervention[];
+  totalPending: number;
+  templateOptions: TemplateOption[];
+
+  // Filters
+  filters: InterventionFilters;
+  setFilters: (filters: InterventionFilters) => void;
+  clearFilters: () => void;
+
+  // State
+  isLoading: boolean;
+  error: string | null;
+  respondingId: string | null;
+
+  // Actions
+  respond: (intervention: InboxIntervention, decision: InterventionDecision) => Promise<InterventionResponse>;
+  refresh: () => void;
+}
+
+export const PENDING_INTERVENTIONS_QUERY_KEY = ['interventions', 'pending'];
+export const INTERVENTION_HISTORY_QUERY_KEY = ['interventions', 'history'];
+
+export function useInterventionInbox(
+  options: UseInterventionInboxOptions = {}
+): UseInterventionInboxReturn {
+  const { refreshInterval = 15000 } = options;
+  const queryClient = useQueryClient();
+
+  const [filters, setFilters] = useState<InterventionFilters>({});
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [respondError, setRespondError] = useState<string | null>(null);
+
+  // Load everything once and filter locally so the template list stays complete
+  const {
+    data: allInterventions = [],
+    isLoading,
+    error: queryError,
+    refetch,
+  } = useQuery({
+    queryKey: PENDING_INTERVENTIONS_QUERY_KEY,
+    queryFn: () => interventionService.getPendingInterventions(),
+    refetchInterval: refreshInterval,
+    staleTime: 0,
+  });
+
+  const interventions = useMemo(() => {
+    return allInterventions.filter(intervention => {
+      if (filters.intervention_type && intervention.intervention_type !== filters.intervention_type) {
+        return false;
+      }
+      if (filters.template_id && intervention.template_id !== filters.template_id) {
+        return false;
+      }
+      return true;
+    });
+  }, [allInterventions, filters]);
+
+  const templateOptions = useMemo(() => {
+    const templates = new Map<string, string>();
+    allInterventions.forEach(intervention => {
+      if (intervention.template_id) {
+        templates.set(intervention.template_id, intervention.template_name || intervention.template_id);
+      }
+    });
+    return Array.from(templates, ([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [allInterventions]);
+
+  const respond = useCallback(async (intervention: InboxIntervention, decision: InterventionDecision) => {
+    setRespondingId(intervention.intervention_id);
+    setRespondError(null);
+    try {
+      const response = await interventionService.respond(intervention, decision);
+
+      // Drop it from the inbox right away instead of waiting for the next poll
+      queryClient.setQueryData<InboxIntervention[]>(PENDING_INTERVENTIONS_QUERY_KEY, prev =>
+        (prev || []).filter(item => item.intervention_id !== intervention.intervention_id)
+      );
+      await queryClient.invalidateQueries({ queryKey: INTERVENTION_HISTORY_QUERY_KEY });
+
+      return response;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to submit intervention response';
+      setRespondError(message);
+      throw err;
+    } finally {
+      setRespondingId(null);
+    }
+  }, [queryClient]);
+
+  const clearFilters = useCallback(() => {
+    setFilters({});
+  }, []);
+
+  const refresh = useCallback(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    interventions,
+    totalPending: allInterventions.length,
+    templateOptions,
+    filters,
+    setFilters,
+    clearFilters,
+    isLoading,
+    error: respondError || (queryError instanceof Error ? queryError.message : null),
+    respondingId,
+    respond,
+    refresh,
+  };
+}
+
+export default useInterventionInbox;
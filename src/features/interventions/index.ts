@@ -0,0 +1,20 @@
+/**
+ * Interventions Feature - Index
+ * 
+ * Main entry point for the HITL intervention inbox feature
+ */
+
+// Types
+export type * from './types';
+
+// Services
+export { interventionService } from './services';
+
+// Hooks
+export { useInterventionInbox, useInterventionHistory } from './hooks';
+
+// Components
+export { InterventionInboxItem, InterventionInboxFilters, InterventionHistoryList } from './components';
+
+// Pages
+export { InterventionInboxPage } from './pages';
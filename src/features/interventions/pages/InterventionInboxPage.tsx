@@ -0,0 +1,142 @@
+/**
+ * InterventionInboxPage Component
+ *
+ * Reviewer inbox listing every pending HITL intervention across executions,
+ * plus the history of past responses
+ */
+
+import { useEffect, useState } from 'react'
+import { Inbox, History, RefreshCw } from 'lucide-react'
+
+import { Button } from '../../../components/ui/button'
+import { Badge } from '../../../components/ui/badge'
+import { Card, CardContent } from '../../../components/ui/card'
+import { Alert, AlertDescription } from '../../../components/ui/alert'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../../components/ui/tabs'
+import { LoadingSpinner } from '../../../components/common/LoadingSpinner'
+import { PageHeader } from '../../../components/common/PageHeader'
+
+import { useInterventionInbox } from '../hooks/useInterventionInbox'
+import { useInterventionHistory } from '../hooks/useInterventionHistory'
+import { InterventionInboxItem } from '../components/InterventionInboxItem'
+import { InterventionInboxFilters } from '../components/InterventionInboxFilters'
+import { InterventionHistoryList } from '../components/InterventionHistoryList'
+
+export function InterventionInboxPage() {
+  const [now, setNow] = useState(() => Date.now())
+
+  const {
+    interventions,
+    totalPending,
+    templateOptions,
+    filters,
+    setFilters,
+    clearFilters,
+    isLoading,
+    error,
+    respondingId,
+    respond,
+    refresh,
+  } = useInterventionInbox()
+
+  const history = useInterventionHistory()
+
+  // One shared clock so every countdown ticks together
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Interventions"
+        description="Review and respond to human-in-the-loop requests across all executions"
+        actions={
+          <Button variant="outline" onClick={refresh} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        }
+      />
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs defaultValue="pending" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="pending" className="flex items-center gap-2">
+            <Inbox className="w-4 h-4" />
+            Pending
+            {totalPending > 0 && (
+              <Badge variant="destructive" className="ml-1">{totalPending}</Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="history" className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            History
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="pending" className="space-y-4">
+          <InterventionInboxFilters
+            filters={filters}
+            templateOptions={templateOptions}
+            onChange={setFilters}
+            onClear={clearFilters}
+          />
+
+          {isLoading ? (
+            <LoadingSpinner message="Loading interventions..." />
+          ) : interventions.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                <Inbox className="h-8 w-8 mx-auto mb-2" />
+                {totalPending === 0
+                  ? 'No pending interventions. You are all caught up.'
+                  : 'No interventions match the selected filters'}
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+              {interventions.map(intervention => (
+                <InterventionInboxItem
+                  key={intervention.intervention_id}
+                  intervention={intervention}
+                  now={now}
+                  isResponding={respondingId === intervention.intervention_id}
+                  onRespond={respond}
+                />
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="history">
+          {history.error ? (
+            <Alert variant="destructive">
+              <AlertDescription>{history.error}</AlertDescription>
+            </Alert>
+          ) : (
+            <InterventionHistoryList
+              responses={history.responses}
+              filters={history.filters}
+              onFiltersChange={history.setFilters}
+              currentPage={history.currentPage}
+              totalPages={history.totalPages}
+              totalCount={history.totalCount}
+              averageResponseTime={history.averageResponseTime}
+              onPageChange={history.setPage}
+              isLoading={history.isLoading}
+            />
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
+
+export default InterventionInboxPage
@@ -0,0 +1,7 @@
+/**
+ * Interventions Pages - Index
+ * 
+ * Centralized exports for all intervention pages
+ */
+
+export { InterventionInboxPage, default as InterventionInboxPageDefault } from './InterventionInboxPage';
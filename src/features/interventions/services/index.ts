@@ -0,0 +1,7 @@
+/**
+ * Interventions Services - Index
+ * 
+ * Centralized exports for all intervention services
+ */
+
+export { InterventionService, interventionService } from './intervention.service';
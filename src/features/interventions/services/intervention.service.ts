@@ -0,0 +1,118 @@
+/**
+ * Intervention Service
+ *
+ * API service for the HITL intervention inbox across all executions
+ */
+
+import { ApiClient } from '../../../services/api/ApiClient';
+import type {
+  InboxIntervention,
+  InterventionDecision,
+  InterventionFilters,
+  InterventionHistoryFilters,
+  InterventionHistoryResponse,
+  InterventionResponse,
+  PendingInterventionsResponse,
+} from '../types';
+
+export class InterventionService {
+  private apiClient = ApiClient.getInstance();
+
+  /**
+   * Get every pending intervention for the current user, most urgent first
+   */
+  async getPendingInterventions(filters: InterventionFilters = {}): Promise<InboxIntervention[]> {
+    const params = new URLSearchParams({ status: 'pending' });
+    if (filters.intervention_type) {
+      params.append('intervention_type', filters.intervention_type);
+    }
+    if (filters.template_id) {
+      params.append('template_id', filters.template_id);
+    }
+
+    try {
+      const response = await this.apiClient.get<PendingInterventionsResponse>(
+        `/api/interventions?${params.toString()}`
+      );
+      return sortByTimeout(response.interventions || []);
+    } catch (error) {
+      console.error('Failed to get pending interventions:', error);
+      throw new Error('Failed to load pending interventions. Please try again.');
+    }
+  }
+
+  /**
+   * Get past intervention responses
+   */
+  async getInterventionHistory(
+    page: number = 1,
+    limit: number = 20,
+    filters: InterventionHistoryFilters = {}
+  ): Promise<InterventionHistoryResponse> {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      limit: limit.toString(),
+    });
+    if (filters.search) {
+      params.append('search', filters.search);
+    }
+    if (filters.action) {
+      params.append('action', filters.action);
+    }
+    if (filters.intervention_type) {
+      params.append('intervention_type', filters.intervention_type);
+    }
+
+    try {
+      const response = await this.apiClient.get<InterventionHistoryResponse>(
+        `/api/interventions/history?${params.toString()}`
+      );
+      return {
+        responses: response.responses || [],
+        total: response.total || 0,
+        page: response.page || page,
+        limit: response.limit || limit,
+        has_more: response.has_more || false,
+      };
+    } catch (error) {
+      console.error('Failed to get intervention history:', error);
+      throw new Error('Failed to load intervention history. Please try again.');
+    }
+  }
+
+  /**
+   * Respond to a pending intervention
+   */
+  async respond(intervention: InboxIntervention, decision: InterventionDecision): Promise<InterventionResponse> {
+    const respondedAt = new Date();
+    const response: InterventionResponse = {
+      intervention_id: intervention.intervention_id,
+      action: decision.action,
+      human_feedback: decision.human_feedback || undefined,
+      modifications: decision.modifications,
+      custom_parameters: decision.custom_parameters,
+      responded_at: respondedAt.toISOString(),
+      response_time_seconds: Math.max(
+        0,
+        Math.round((respondedAt.getTime() - new Date(intervention.requested_at).getTime()) / 1000)
+      ),
+    };
+
+    try {
+      await this.apiClient.post('/api/interventions/respond', response);
+      return response;
+    } catch (error) {
+      console.error('Failed to submit intervention response:', error);
+      throw new Error('Failed to submit intervention response. Please try again.');
+    }
+  }
+}
+
+function sortByTimeout(interventions: InboxIntervention[]): InboxIntervention[] {
+  return [...interventions].sort(
+    (a, b) => new Date(a.timeout_at).getTime() - new Date(b.timeout_at).getTime()
+  );
+}
+
+export const interventionService = new InterventionService();
+export default interventionService;
@@ -0,0 +1,19 @@
+/**
+ * Interventions Types - Index
+ * 
+ * Centralized exports for all intervention inbox types
+ */
+
+export type {
+  InterventionRequest,
+  InterventionResponse,
+  InterventionType,
+  InterventionAction,
+  InboxIntervention,
+  InterventionFilters,
+  PendingInterventionsResponse,
+  InterventionHistoryEntry,
+  InterventionHistoryFilters,
+  InterventionHistoryResponse,
+  InterventionDecision,
+} from './intervention.types';
@@ -0,0 +1,66 @@
+/**
+ * Intervention Inbox Types
+ * 
+ * Types for the cross-execution HITL intervention inbox
+ */
+
+import type {
+  InterventionRequest,
+  InterventionResponse,
+  InterventionType,
+} from '../../../types';
+
+export type { InterventionRequest, InterventionResponse, InterventionType };
+
+export type InterventionAction = InterventionResponse['action'];
+
+// Pending intervention enriched with the execution it belongs to
+export interface InboxIntervention extends InterventionRequest {
+  template_id?: string;
+  template_name?: string;
+  agent_name?: string;
+  query?: string;
+}
+
+export interface InterventionFilters {
+  intervention_type?: InterventionType;
+  template_id?: string;
+}
+
+export interface PendingInterventionsResponse {
+  interventions: InboxIntervention[];
+  total: number;
+}
+
+// Past response together with the request it answered
+export interface InterventionHistoryEntry extends InterventionResponse {
+  execution_id: string;
+  agent_id: string;
+  agent_name?: string;
+  template_id?: string;
+  template_name?: string;
+  intervention_type: InterventionType;
+  requested_at: string;
+}
+
+export interface InterventionHistoryFilters {
+  search?: string;
+  action?: InterventionAction;
+  intervention_type?: InterventionType;
+}
+
+export interface InterventionHistoryResponse {
+  responses: InterventionHistoryEntry[];
+  total: number;
+  page: number;
+  limit: number;
+  has_more: boolean;
+}
+
+// Payload submitted from the inbox
+export interface InterventionDecision {
+  action: InterventionAction;
+  human_feedback?: string;
+  modifications?: Record<string, unknown>;
+  custom_parameters?: Record<string, unknown>;
+}
@@ -0,0 +1,7 @@
+/**
+ * Interventions Utils - Index
+ * 
+ * Centralized exports for all intervention utilities
+ */
+
+export * from './intervention-time.utils';
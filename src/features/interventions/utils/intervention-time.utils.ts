@@ -0,0 +1,43 @@
+/**
+ * Intervention Time Utilities
+ * 
+ * Countdown and urgency helpers for pending interventions
+ */
+
+export type InterventionUrgency = 'expired' | 'critical' | 'warning' | 'normal';
+
+/**
+ * Milliseconds left before the intervention times out
+ */
+export function getTimeRemainingMs(timeoutAt: string, now: number = Date.now()): number {
+  return Math.max(0, new Date(timeoutAt).getTime() - now);
+}
+
+/**
+ * Format the time left as m:ss, or seconds under a minute
+ */
+export function formatTimeRemaining(timeoutAt: string, now: number = Date.now()): string {
+  const seconds = Math.floor(getTimeRemainingMs(timeoutAt, now) / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+
+  if (seconds === 0) {
+    return 'Timed out';
+  }
+  if (minutes > 0) {
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  }
+  return `${seconds}s`;
+}
+
+/**
+ * Classify how close an intervention is to its timeout
+ */
+export function getInterventionUrgency(timeoutAt: string, now: number = Date.now()): InterventionUrgency {
+  const seconds = getTimeRemainingMs(timeoutAt, now) / 1000;
+
+  if (seconds <= 0) return 'expired';
+  if (seconds <= 60) return 'critical';
+  if (seconds <= 300) return 'warning';
+  return 'normal';
+}
@@ -0,0 +1,190 @@
+/**
+ * BatchProgressTable Component
+ *
+ * Grouped progress for a batch run: overall progress, one row per child
+ * execution with its status and metrics, per-row retry and result export
+ */
+
+import { Link } from 'react-router-dom';
+import { Download, ExternalLink, RotateCcw, Square } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { Progress } from '../../../components/ui/progress';
+
+import { formatEstimateCost } from '../utils/cost-estimator';
+import type { BatchRowStatus, BatchRunRow, BatchSummary } from '../utils/batch-execution';
+
+interface BatchProgressTableProps {
+  rows: BatchRunRow[];
+  summary: BatchSummary;
+  concurrency: number;
+  onRetryRow: (rowId: string) => void;
+  onRetryFailed: () => void;
+  onCancel: () => void;
+  onExport: (format: 'csv' | 'json') => void;
+}
+
+const STATUS_STYLES: Record<BatchRowStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+  submitting: { label: 'Starting', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  running: { label: 'Running', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800 border-green-200' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800 border-red-200' },
+  cancelled: { label: 'Cancelled', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+};
+
+export function BatchProgressTable({
+  rows,
+  summary,
+  concurrency,
+  onRetryRow,
+  onRetryFailed,
+  onCancel,
+  onExport,
+}: BatchProgressTableProps) {
+  return (
+    <div className="space-y-4">
+      {/* Overall progress */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <span className="font-medium">
+            {summary.completed + summary.failed + summary.cancelled} of {summary.total} finished
+          </span>
+          <span className="text-muted-foreground">
+            {summary.active} running (max {concurrency}) · {summary.queued} queued · spent {formatEstimateCost(summary.totalCost)}
+          </span>
+        </div>
+        <Progress value={summary.progress} />
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge variant="outline" className={STATUS_STYLES.completed.className}>{summary.completed} completed</Badge>
+          <Badge variant="outline" className={STATUS_STYLES.failed.className}>{summary.failed} failed</Badge>
+          {summary.cancelled > 0 && (
+            <Badge variant="outline" className={STATUS_STYLES.cancelled.className}>{summary.cancelled} cancelled</Badge>
+          )}
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        {!summary.isFinished && (
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            <Square className="w-4 h-4 mr-2" />
+            Cancel remaining
+          </Button>
+        )}
+        {summary.failed > 0 && (
+          <Button variant="outline" size="sm" onClick={onRetryFailed}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Retry {summary.failed} failed
+          </Button>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => onExport('csv')}>
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onExport('json')}>
+            <Download className="w-4 h-4 mr-2" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      {/* Rows */}
+      <div className="border rounded-lg overflow-hidden">
+        <div className="max-h-[560px] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-muted/80 backdrop-blur">
+              <tr className="text-xs text-muted-foreground">
+                <th className="px-3 py-2 text-left w-12">#</th>
+                <th className="px-3 py-2 text-left">Query</th>
+                <th className="px-3 py-2 text-left w-28">Status</th>
+                <th className="px-3 py-2 text-left w-32">Progress</th>
+                <th className="px-3 py-2 text-right w-20">Cost</th>
+                <th className="px-3 py-2 text-right w-24">Confidence</th>
+                <th className="px-3 py-2 w-24" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rows.map((row, index) => {
+                const style = STATUS_STYLES[row.status];
+                const error = row.error || (row.status === 'failed' ? row.execution?.error_message : undefined);
+                const progress = row.status === 'completed' ? 100 : row.execution?.progress_percentage ?? 0;
+
+                return (
+                  <tr key={row.id} className="align-top">
+                    <td className="px-3 py-2 text-muted-foreground tabular-nums">{index + 1}</td>
+                    <td className="px-3 py-2">
+                      <div className="break-words">{row.query}</div>
+                      {Object.keys(row.variables).length > 0 && (
+                        <div className="mt-0.5 text-xs text-muted-foreground">
+                          {Object.entries(row.variables).map(([name, value]) => `${name}: ${value}`).join(' · ')}
+                        </div>
+                      )}
+                      {error && <div className="mt-1 text-xs text-red-600 break-words">{error}</div>}
+                    </td>
+                    <td className="px-3 py-2">
+                      <Badge variant="outline" className={style.className}>{style.label}</Badge>
+                      {row.attempts > 1 && (
+                        <div className="mt-1 text-xs text-muted-foreground">attempt {row.attempts}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {row.status === 'running' || row.status === 'completed' ? (
+                        <div className="space-y-1">
+                          <Progress value={progress} className="h-1.5" />
+                          {row.status === 'running' && row.execution?.current_agent && (
+                            <div className="text-xs text-muted-foreground truncate">{row.execution.current_agent}</div>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {row.execution?.total_cost != null ? formatEstimateCost(row.execution.total_cost) : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {row.status === 'completed' && row.execution
+                        ? `${Math.round(row.execution.overall_confidence * 100)}%`
+                        : '—'}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex items-center justify-end gap-1">
+                        {(row.status === 'failed' || row.status === 'cancelled') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            onClick={() => onRetryRow(row.id)}
+                            aria-label={`Retry row ${index + 1}`}
+                          >
+                            <RotateCcw className="w-3.5 h-3.5" />
+                          </Button>
+                        )}
+                        {row.executionId && (
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" asChild>
+                            <Link
+                              to={`/execution-history/${row.executionId}`}
+                              target="_blank"
+                              aria-label={`Open execution for row ${index + 1}`}
+                            >
+                              <ExternalLink className="w-3.5 h-3.5" />
+                            </Link>
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default BatchProgressTable;
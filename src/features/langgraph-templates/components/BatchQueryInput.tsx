@@ -0,0 +1,129 @@
+/**
+ * BatchQueryInput Component
+ *
+ * Batch rows from a pasted list (one query per line) or an uploaded CSV
+ * with a `query` column and one column per template variable
+ */
+
+import { useRef, useState } from 'react';
+import { AlertTriangle, FileSpreadsheet, ListOrdered, Upload } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Textarea } from '../../../components/ui/textarea';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../../components/ui/tabs';
+
+import { MAX_BATCH_SIZE, parseBatchCsv, parseBatchList } from '../utils/batch-execution';
+import type { BatchParseResult } from '../utils/batch-execution';
+import type { TemplateVariable } from '../types';
+
+interface BatchQueryInputProps {
+  variables: TemplateVariable[];
+  result: BatchParseResult | null;
+  onChange: (result: BatchParseResult | null) => void;
+  disabled?: boolean;
+}
+
+export function BatchQueryInput({ variables, result, onChange, disabled }: BatchQueryInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [listText, setListText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+
+  const handleListChange = (text: string) => {
+    setListText(text);
+    setFileName(null);
+    onChange(text.trim() ? parseBatchList(text) : null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      onChange(parseBatchCsv(await file.text(), variables));
+    } catch (error) {
+      onChange({
+        rows: [],
+        warnings: [],
+        errors: [error instanceof Error ? error.message : 'Failed to read the CSV file'],
+      });
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const variableColumns = variables.map(variable => variable.name).join(', ');
+
+  return (
+    <div className="space-y-4">
+      <Tabs defaultValue="list">
+        <TabsList>
+          <TabsTrigger value="list" className="flex items-center gap-2">
+            <ListOrdered className="w-4 h-4" />
+            Paste list
+          </TabsTrigger>
+          <TabsTrigger value="csv" className="flex items-center gap-2">
+            <FileSpreadsheet className="w-4 h-4" />
+            Upload CSV
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="list" className="space-y-2">
+          <Textarea
+            value={listText}
+            onChange={(e) => handleListChange(e.target.value)}
+            placeholder={'Acme Corp\nGlobex\nInitech'}
+            rows={10}
+            disabled={disabled}
+            className="font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            One query per line, up to {MAX_BATCH_SIZE}. Lines starting with # are skipped.
+          </p>
+        </TabsContent>
+
+        <TabsContent value="csv" className="space-y-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {fileName ? 'Choose another file' : 'Choose CSV file'}
+          </Button>
+          {fileName && <span className="ml-3 text-sm text-muted-foreground">{fileName}</span>}
+          <p className="text-xs text-muted-foreground">
+            The header row needs a <code>query</code> column
+            {variableColumns && <> and may add variable columns: <code>{variableColumns}</code></>}.
+            Empty cells use the shared values below.
+          </p>
+        </TabsContent>
+      </Tabs>
+
+      {result && result.errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertDescription>{result.errors.join(' ')}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && result.warnings.length > 0 && (
+        <div className="space-y-1">
+          {result.warnings.map(warning => (
+            <p key={warning} className="flex items-center gap-1.5 text-xs text-yellow-700">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BatchQueryInput;
@@ -0,0 +1,161 @@
+/**
+ * CostEstimatePanel Component
+ *
+ * Min / expected / max cost, token and credit ranges for a template run,
+ * with a per-agent breakdown and an optional budget ceiling control
+ */
+
+import { useState } from 'react';
+import { Calculator, ChevronDown, ChevronRight, AlertTriangle } from 'lucide-react';
+
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Badge } from '../../../components/ui/badge';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+
+import { formatEstimateCost, formatEstimateRange } from '../utils/cost-estimator';
+import type { BudgetCheck, EstimateRange, TemplateCostEstimate } from '../utils/cost-estimator';
+
+interface CostEstimatePanelProps {
+  estimate: TemplateCostEstimate;
+  budget?: BudgetCheck;
+  budgetCeiling?: number | null;
+  onBudgetCeilingChange?: (ceiling: number | null) => void;
+  showBreakdown?: boolean;
+}
+
+function RangeStat({ label, range, format }: {
+  label: string;
+  range: EstimateRange;
+  format?: (value: number) => string;
+}) {
+  const formatValue = format || ((value: number) => Math.round(value).toLocaleString());
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-lg font-semibold tabular-nums">{formatValue(range.expected)}</div>
+      <div className="text-xs text-muted-foreground tabular-nums">
+        {formatEstimateRange(range, formatValue)}
+      </div>
+    </div>
+  );
+}
+
+export function CostEstimatePanel({
+  estimate,
+  budget,
+  budgetCeiling,
+  onBudgetCeilingChange,
+  showBreakdown = true,
+}: CostEstimatePanelProps) {
+  const [isBreakdownOpen, setIsBreakdownOpen] = useState(false);
+  const [budgetInput, setBudgetInput] = useState(budgetCeiling ? String(budgetCeiling) : '');
+
+  const handleBudgetChange = (value: string) => {
+    setBudgetInput(value);
+    const parsed = parseFloat(value);
+    onBudgetCeilingChange?.(isNaN(parsed) ? null : parsed);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Calculator className="h-4 w-4 text-muted-foreground" />
+        Estimated Cost
+        <span className="text-xs font-normal text-muted-foreground">(expected, with min – max range)</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <RangeStat label="Cost" range={estimate.cost} format={formatEstimateCost} />
+        <RangeStat label="Tokens" range={estimate.tokens} />
+        <RangeStat label="Tavily Credits" range={estimate.credits} format={value => (Math.round(value * 10) / 10).toString()} />
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        LLM {formatEstimateCost(estimate.llmCost.expected)} • Tavily {formatEstimateCost(estimate.tavilyCost.expected)}
+      </div>
+
+      {/* Budget ceiling */}
+      {onBudgetCeilingChange && (
+        <div className="flex items-center gap-3">
+          <Label htmlFor="budget-ceiling" className="text-sm whitespace-nowrap">Budget ceiling ($)</Label>
+          <Input
+            id="budget-ceiling"
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="No limit"
+            value={budgetInput}
+            onChange={(e) => handleBudgetChange(e.target.value)}
+            className="w-32"
+          />
+        </div>
+      )}
+
+      {budget?.exceeded && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Expected cost {formatEstimateCost(estimate.cost.expected)} exceeds your budget of {formatEstimateCost(budget.ceiling || 0)}.
+            Reduce agents, tokens or Tavily usage, or raise the ceiling to execute.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {budget && !budget.exceeded && budget.atRisk && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Worst case {formatEstimateCost(estimate.cost.max)} could exceed your budget of {formatEstimateCost(budget.ceiling || 0)} if agents retry.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Per-agent breakdown */}
+      {showBreakdown && estimate.agents.length > 0 && (
+        <div>
+          <button
+            type="button"
+            onClick={() => setIsBreakdownOpen(prev => !prev)}
+            className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground"
+          >
+            {isBreakdownOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            Per-agent breakdown
+          </button>
+          {isBreakdownOpen && (
+            <table className="mt-2 w-full text-xs">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="text-left font-medium py-1">Agent</th>
+                  <th className="text-left font-medium py-1">Model</th>
+                  <th className="text-right font-medium py-1">Tokens</th>
+                  <th className="text-right font-medium py-1">Credits</th>
+                  <th className="text-right font-medium py-1">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {estimate.agents.map(agent => (
+                  <tr key={agent.agentId} className="border-b last:border-0">
+                    <td className="py-1">
+                      {agent.agentName}
+                      {agent.optional && (
+                        <Badge variant="outline" className="ml-1 text-[10px]">conditional</Badge>
+                      )}
+                    </td>
+                    <td className="py-1 text-muted-foreground">{agent.model}</td>
+                    <td className="py-1 text-right tabular-nums">{Math.round(agent.tokens.expected).toLocaleString()}</td>
+                    <td className="py-1 text-right tabular-nums">{Math.round(agent.credits.expected * 10) / 10}</td>
+                    <td className="py-1 text-right tabular-nums">{formatEstimateCost(agent.cost.expected)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CostEstimatePanel;
@@ -0,0 +1,323 @@
+/**
+ * InterventionResponseForm Component
+ *
+ * Generated response form for `input`, `modify` and `decision` interventions.
+ * Renders one field per HITL `required_fields` entry, lets the human edit the
+ * agent's result and prompts, or pick the outgoing route to continue on.
+ */
+
+import { useMemo, useState } from 'react';
+import { CheckCircle2, XCircle, GitBranch, Info } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Switch } from '../../../components/ui/switch';
+import { Textarea } from '../../../components/ui/textarea';
+import { Badge } from '../../../components/ui/badge';
+
+import {
+  buildInterventionFields,
+  getEditablePrompts,
+  getInterventionRoutes,
+  parseFieldValue,
+  resolveHITLConfig,
+  type InterventionField,
+  type InterventionFormResult,
+  type InterventionFormSource,
+  type PromptKey,
+} from '../utils/intervention-form';
+import type { Template } from '../types';
+
+interface InterventionResponseFormProps {
+  intervention: InterventionFormSource & { intervention_id: string };
+  template?: Template | null;
+  isSubmitting?: boolean;
+  onSubmit: (result: InterventionFormResult) => Promise<unknown> | void;
+  onCancel?: () => void;
+}
+
+const PROMPT_LABELS: Record<PromptKey, string> = {
+  system_prompt: 'System Prompt',
+  user_prompt: 'User Prompt',
+};
+
+function formatJson(value: unknown): string {
+  if (value === undefined) return '';
+  return JSON.stringify(value, null, 2);
+}
+
+function FieldInput({
+  id,
+  field,
+  value,
+  disabled,
+  onChange,
+}: {
+  id: string;
+  field: InterventionField;
+  value: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}) {
+  switch (field.kind) {
+    case 'boolean':
+      return (
+        <Switch
+          id={id}
+          checked={value === 'true'}
+          onCheckedChange={(checked) => onChange(checked ? 'true' : 'false')}
+          disabled={disabled}
+        />
+      );
+    case 'number':
+      return <Input id={id} type="number" value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} />;
+    case 'text':
+      return <Input id={id} value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} />;
+    default:
+      return (
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={field.kind === 'json' ? 6 : 3}
+          className={field.kind === 'json' ? 'font-mono text-xs' : undefined}
+          disabled={disabled}
+        />
+      );
+  }
+}
+
+export function InterventionResponseForm({
+  intervention,
+  template,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: InterventionResponseFormProps) {
+  const type = intervention.intervention_type;
+  const config = useMemo(() => resolveHITLConfig(intervention, template), [intervention, template]);
+  const fields = useMemo(
+    () => buildInterventionFields(intervention, config.required_fields || []),
+    [intervention, config.required_fields]
+  );
+  const initialPrompts = useMemo(() => getEditablePrompts(intervention, template), [intervention, template]);
+  const routes = useMemo(() => getInterventionRoutes(intervention, template), [intervention, template]);
+
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(fields.map(field => [field.name, field.value]))
+  );
+  const [prompts, setPrompts] = useState(initialPrompts);
+  const [resultText, setResultText] = useState(() => formatJson(intervention.agent_result));
+  const [selectedRoute, setSelectedRoute] = useState<string | null>(routes.length === 1 ? routes[0].id : null);
+  const [feedback, setFeedback] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const idPrefix = `intervention-${intervention.intervention_id}`;
+
+  const collectFieldValues = (): Record<string, unknown> => {
+    const collected: Record<string, unknown> = {};
+    fields.forEach(field => {
+      const raw = values[field.name] ?? '';
+      if (field.required && field.kind !== 'boolean' && raw.trim() === '') {
+        throw new Error(`${field.label} is required`);
+      }
+      collected[field.name] = parseFieldValue(field, raw);
+    });
+    return collected;
+  };
+
+  const buildResult = (): InterventionFormResult => {
+    const human_feedback = feedback.trim() || undefined;
+
+    if (type === 'decision') {
+      const route = routes.find(r => r.id === selectedRoute);
+      if (!route) {
+        throw new Error('Select a route to continue');
+      }
+      return {
+        action: 'approve',
+        human_feedback,
+        custom_parameters: { ...collectFieldValues(), selected_route: route.to_node, selected_edge_id: route.id },
+      };
+    }
+
+    if (type === 'modify') {
+      const modifications: Record<string, unknown> = collectFieldValues();
+
+      (Object.keys(prompts) as PromptKey[]).forEach(key => {
+        if (prompts[key] !== initialPrompts[key]) {
+          modifications[key] = prompts[key];
+        }
+      });
+
+      if (resultText.trim() && resultText !== formatJson(intervention.agent_result)) {
+        try {
+          modifications.agent_result = JSON.parse(resultText);
+        } catch {
+          throw new Error('Agent result must be valid JSON');
+        }
+      }
+
+      return { action: 'modify', human_feedback, modifications };
+    }
+
+    // input: the human supplies data the agent needs to continue
+    return { action: 'approve', human_feedback, custom_parameters: collectFieldValues() };
+  };
+
+  const handleSubmit = async () => {
+    let result: InterventionFormResult;
+    try {
+      result = buildResult();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Invalid response');
+      return;
+    }
+
+    setFormError(null);
+    try {
+      await onSubmit(result);
+    } catch {
+      // Submission errors are surfaced by the caller
+    }
+  };
+
+  const handleReject = async () => {
+    setFormError(null);
+    try {
+      await onSubmit({ action: 'reject', human_feedback: feedback.trim() || undefined });
+    } catch {
+      // Submission errors are surfaced by the caller
+    }
+  };
+
+  const submitLabel = type === 'decision' ? 'Continue on Route' : type === 'modify' ? 'Apply Changes' : 'Submit Input';
+
+  return (
+    <div className="space-y-4" onClick={(e) => e.stopPropagation()}>
+      {config.custom_prompt && (
+        <div className="flex items-start gap-2 rounded-md border bg-muted/50 p-3 text-sm">
+          <Info className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+          <span>{config.custom_prompt}</span>
+        </div>
+      )}
+
+      {/* Required fields */}
+      {fields.map(field => (
+        <div key={field.name} className="space-y-1">
+          <Label htmlFor={`${idPrefix}-${field.name}`} className="text-xs">
+            {field.label}
+            {field.required && <span className="text-destructive ml-0.5">*</span>}
+          </Label>
+          <FieldInput
+            id={`${idPrefix}-${field.name}`}
+            field={field}
+            value={values[field.name] ?? ''}
+            disabled={isSubmitting}
+            onChange={(value) => setValues(prev => ({ ...prev, [field.name]: value }))}
+          />
+        </div>
+      ))}
+
+      {/* Editable prompts and result */}
+      {type === 'modify' && (
+        <>
+          {(Object.keys(prompts) as PromptKey[]).map(key => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`${idPrefix}-${key}`} className="text-xs">{PROMPT_LABELS[key]}</Label>
+              <Textarea
+                id={`${idPrefix}-${key}`}
+                value={prompts[key] || ''}
+                onChange={(e) => setPrompts(prev => ({ ...prev, [key]: e.target.value }))}
+                rows={4}
+                disabled={isSubmitting}
+              />
+            </div>
+          ))}
+          {intervention.agent_result !== undefined && (
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-result`} className="text-xs">Agent Result (JSON)</Label>
+              <Textarea
+                id={`${idPrefix}-result`}
+                value={resultText}
+                onChange={(e) => setResultText(e.target.value)}
+                rows={8}
+                className="font-mono text-xs"
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Route selection */}
+      {type === 'decision' && (
+        <div className="space-y-2">
+          <Label className="text-xs">Route</Label>
+          {routes.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No outgoing routes found for this agent</p>
+          ) : (
+            <div className="grid gap-2">
+              {routes.map(route => (
+                <button
+                  key={route.id}
+                  type="button"
+                  onClick={() => setSelectedRoute(route.id)}
+                  disabled={isSubmitting}
+                  className={`flex items-start gap-2 rounded-md border p-3 text-left text-sm transition-colors ${
+                    selectedRoute === route.id ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                  }`}
+                >
+                  <GitBranch className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{route.label}</span>
+                      {route.condition_type && (
+                        <Badge variant="outline" className="text-xs">{route.condition_type}</Badge>
+                      )}
+                    </div>
+                    {(route.description || route.condition) && (
+                      <p className="text-xs text-muted-foreground truncate">{route.description || route.condition}</p>
+                    )}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-feedback`} className="text-xs">Feedback (optional)</Label>
+        <Textarea
+          id={`${idPrefix}-feedback`}
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          rows={2}
+          disabled={isSubmitting}
+        />
+      </div>
+
+      {formError && <p className="text-xs text-destructive">{formError}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={handleSubmit} disabled={isSubmitting}>
+          <CheckCircle2 className="h-4 w-4 mr-1" />
+          {submitLabel}
+        </Button>
+        <Button size="sm" variant="destructive" onClick={handleReject} disabled={isSubmitting}>
+          <XCircle className="h-4 w-4 mr-1" />
+          Reject
+        </Button>
+        {onCancel && (
+          <Button size="sm" variant="ghost" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default InterventionResponseForm;
@@ -20,8 +20,13 @@ import { Badge } from '../../../components/ui/badge';
 import { Button } from '../../../components/ui/button';
 import { CollapsibleAgentCard } from '../../execution-history/components/CollapsibleAgentCard';
 import { PrintProvider } from '../../execution-history/contexts/PrintContext';
+import { InterventionResponseForm } from './InterventionResponseForm';
 import type { WorkflowVisualization } from '../hooks/useTemplateExecution';
 import type { ExecutionResult, InterventionRequest, InterventionResponse } from '../services/execution.service';
+import type { Template } from '../types';
+
+// Intervention types that need a generated form instead of approve/reject buttons
+const FORM_INTERVENTION_TYPES = ['input', 'modify', 'decision'];
 
 interface TimelineEvent {
   id: string;
@@ -41,6 +46,7 @@ interface LiveAgentTimelineProps {
   execution: ExecutionResult | null;
   workflow: WorkflowVisualization | null;
   pendingInterventions: InterventionRequest[];
+  template?: Template | null;
   selectedAgentId: string | null;
   onAgentSelect: (agentId: string) => void;
   onResolveIntervention: (interventionId: string) => void;
@@ -52,6 +58,7 @@ export function LiveAgentTimeline({
   execution, 
   workflow, 
   pendingInterventions,
+  template,
   selectedAgentId,
   onAgentSelect,
   onResolveIntervention,
@@ -417,49 +424,62 @@ export function LiveAgentTimeline({
                             {intervention.intervention_point === 'on_error' && '🔄 Error occurred - retry or skip?'}
                           </div>
                           
-                          {/* Quick Action Buttons */}
-                          <div className="flex items-center space-x-2 pt-1">
-                            <Button
-                              size="sm"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                onInterventionSubmit({
-                                  intervention_id: intervention.intervention_id,
-                                  action: 'approve',
-                                  human_feedback: 'Approved from timeline'
-                                });
-                              }}
-                              className="h-7 px-3 text-xs bg-green-600 hover:bg-green-700 text-white"
-                            >
-                              ✓ Approve
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                onInterventionSubmit({
+                          {FORM_INTERVENTION_TYPES.includes(intervention.intervention_type) ? (
+                            <div className="pt-1">
+                              <InterventionResponseForm
+                                intervention={intervention}
+                                template={template}
+                                onSubmit={(result) => onInterventionSubmit({
                                   intervention_id: intervention.intervention_id,
-                                  action: 'reject',
-                                  human_feedback: 'Rejected from timeline'
-                                });
-                              }}
-                              className="h-7 px-3 text-xs border-red-500 text-red-600 hover:bg-red-50"
-                            >
-                              ✗ Reject
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                onResolveIntervention(intervention.intervention_id);
-                              }}
-                              className="h-7 px-3 text-xs"
-                            >
-                              📋 Details
-                            </Button>
-                          </div>
+                                  ...result,
+                                })}
+                              />
+                            </div>
+                          ) : (
+                            /* Quick Action Buttons */
+                            <div className="flex items-center space-x-2 pt-1">
+                              <Button
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onInterventionSubmit({
+                                    intervention_id: intervention.intervention_id,
+                                    action: 'approve',
+                                    human_feedback: 'Approved from timeline'
+                                  });
+                                }}
+                                className="h-7 px-3 text-xs bg-green-600 hover:bg-green-700 text-white"
+                              >
+                                ✓ Approve
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onInterventionSubmit({
+                                    intervention_id: intervention.intervention_id,
+                                    action: 'reject',
+                                    human_feedback: 'Rejected from timeline'
+                                  });
+                                }}
+                                className="h-7 px-3 text-xs border-red-500 text-red-600 hover:bg-red-50"
+                              >
+                                ✗ Reject
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onResolveIntervention(intervention.intervention_id);
+                                }}
+                                className="h-7 px-3 text-xs"
+                              >
+                                📋 Details
+                              </Button>
+                            </div>
+                          )}
                         </div>
                       ) : (
                         <div>
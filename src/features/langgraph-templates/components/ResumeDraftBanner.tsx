@@ -0,0 +1,60 @@
+/**
+ * ResumeDraftBanner Component
+ *
+ * Offers to continue the most recent unsaved template draft when the
+ * creation wizard opens
+ */
+
+import { FileClock } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '../../../components/ui/alert';
+
+import { formatRelativeTime } from '../../execution-history/utils/execution-time.utils';
+import type { TemplateDraft } from '../services/template-draft.service';
+
+interface ResumeDraftBannerProps {
+  draft: TemplateDraft;
+  // Drafts besides the one offered
+  otherDraftCount: number;
+  onResume: (draft: TemplateDraft) => void;
+  onDiscard: (draft: TemplateDraft) => void;
+  onDismiss: () => void;
+}
+
+export function ResumeDraftBanner({ draft, otherDraftCount, onResume, onDiscard, onDismiss }: ResumeDraftBannerProps) {
+  const agentCount = draft.template.agents.length;
+
+  return (
+    <Alert>
+      <FileClock className="h-4 w-4" />
+      <AlertTitle>Resume your unsaved draft?</AlertTitle>
+      <AlertDescription>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <span className="text-sm">
+            <span className="font-medium">{draft.template.name.trim() || 'Untitled template'}</span>
+            {' '}• {agentCount} agent{agentCount === 1 ? '' : 's'} • edited {formatRelativeTime(draft.updated_at)}
+            {otherDraftCount > 0 && (
+              <span className="text-muted-foreground">
+                {' '}({otherDraftCount} more draft{otherDraftCount === 1 ? '' : 's'} on the templates page)
+              </span>
+            )}
+          </span>
+          <div className="flex gap-2">
+            <Button size="sm" variant="ghost" onClick={() => onDiscard(draft)}>
+              Discard
+            </Button>
+            <Button size="sm" variant="outline" onClick={onDismiss}>
+              Start fresh
+            </Button>
+            <Button size="sm" onClick={() => onResume(draft)}>
+              Resume draft
+            </Button>
+          </div>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+export default ResumeDraftBanner;
@@ -22,6 +22,7 @@ import { Alert, AlertDescription } from '../../../components/ui/alert';
 import { Badge } from '../../../components/ui/badge';
 import { Separator } from '../../../components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../../components/ui/tabs';
+import { estimateTavilyContextTokens, estimateTavilyCredits } from '../utils/cost-estimator';
 import { 
   Search, 
   FileText, 
@@ -93,22 +94,8 @@ export function TavilyConfigurationPanel({
   const [activeTab, setActiveTab] = useState('apis');
 
   // Calculate estimated token usage
-  const estimateTokenUsage = () => {
-    let tokens = 0;
-    if (config.search_api) {
-      tokens += config.max_results * (config.search_depth === 'advanced' ? 150 : 100);
-    }
-    if (config.extract_api) {
-      tokens += config.extract_depth === 'advanced' ? 800 : 400;
-    }
-    if (config.crawl_api) {
-      tokens += config.max_crawl_depth * 300;
-    }
-    if (config.map_api) {
-      tokens += config.max_map_depth * 100;
-    }
-    return tokens;
-  };
+  const estimateTokenUsage = () => estimateTavilyContextTokens(config);
+  const calculatedCredits = estimateTavilyCredits({ ...config, estimated_credits: 0 });
 
   // Get model-specific warnings
   const getModelWarnings = () => {
@@ -580,10 +567,15 @@ export function TavilyConfigurationPanel({
                       <Input
                         type="number"
                         min="0"
-                        value={config.estimated_credits || 0}
+                        value={config.estimated_credits || calculatedCredits.expected}
                         onChange={(e) => handleUpdate('estimated_credits', parseInt(e.target.value) || 0)}
                         disabled
                       />
+                      <p className="text-xs text-muted-foreground">
+                        Calculated from enabled APIs: {calculatedCredits.min === calculatedCredits.max
+                          ? calculatedCredits.min
+                          : `${calculatedCredits.min}–${calculatedCredits.max}`} credits per run
+                      </p>
                     </div>
                   </div>
                 </CardContent>
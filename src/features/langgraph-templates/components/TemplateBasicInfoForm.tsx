@@ -9,8 +9,20 @@ import { Input } from '../../../components/ui/input';
 import { Label } from '../../../components/ui/label';
 import { Textarea } from '../../../components/ui/textarea';
 import { Alert, AlertDescription } from '../../../components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../../components/ui/select';
 import { AlertCircle } from 'lucide-react';
-import type { Template, ValidationResult } from '../types';
+import { TemplateTagInput } from './TemplateTagInput';
+import { useTemplateTags } from '../hooks/useTemplateList';
+import { TEMPLATE_CATEGORY_CONFIGS } from '../types';
+import type { Template, TemplateCategory, ValidationResult } from '../types';
+
+const NO_CATEGORY = 'none';
 
 interface TemplateBasicInfoFormProps {
   template: Template;
@@ -28,6 +40,7 @@ export function TemplateBasicInfoForm({
   className: _className, // eslint-disable-line @typescript-eslint/no-unused-vars
 }: TemplateBasicInfoFormProps) {
   const [touchedFields, setTouchedFields] = React.useState<Set<string>>(new Set());
+  const { data: existingTags = [] } = useTemplateTags();
 
   // Simple validation - only show errors when appropriate
   const shouldShowError = (fieldName: string) => {
@@ -112,6 +125,46 @@ export function TemplateBasicInfoForm({
         </p>
       </div>
 
+      {/* Category */}
+      <div className="space-y-2">
+        <Label htmlFor="template-category">Category</Label>
+        <Select
+          value={template.category || NO_CATEGORY}
+          onValueChange={(value) => onUpdate({
+            category: value === NO_CATEGORY ? undefined : value as TemplateCategory,
+          })}
+        >
+          <SelectTrigger id="template-category">
+            <SelectValue placeholder="Choose a category" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_CATEGORY}>Uncategorized</SelectItem>
+            {Object.entries(TEMPLATE_CATEGORY_CONFIGS).map(([value, config]) => (
+              <SelectItem key={value} value={value}>
+                {config.label}
+                <span className="ml-2 text-xs text-muted-foreground">{config.description}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Groups the template in the template list
+        </p>
+      </div>
+
+      {/* Tags */}
+      <div className="space-y-2">
+        <Label htmlFor="template-tags">Tags</Label>
+        <TemplateTagInput
+          id="template-tags"
+          tags={template.tags || []}
+          onChange={(tags) => onUpdate({ tags })}
+          suggestions={existingTags}
+        />
+        <p className="text-xs text-muted-foreground">
+          Keywords that help others find this template. Press Enter or comma to add one.
+        </p>
+      </div>
 
       {/* Help Text */}
       <div className="space-y-2 pt-4 border-t">
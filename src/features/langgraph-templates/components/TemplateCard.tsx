@@ -16,19 +16,42 @@ import {
   Link as LinkIcon,
   Shield,
   CheckCircle2,
-  AlertCircle
+  AlertCircle,
+  FolderOpen
 } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
+import { FavoriteButton } from '@/components/common/FavoriteButton'
 
+import { formatCategoryLabel, highlightMatches } from '../utils/template-facets'
 import type { Template, WorkflowMode, AgentType } from '../types'
 
 interface TemplateCardProps {
   template: Template
   onExecute?: (templateId: string) => void
+  // Search query whose matches are highlighted in the name, description and tags
+  highlight?: string
+}
+
+const MAX_VISIBLE_TAGS = 4
+
+function HighlightedText({ text, query }: { text: string; query?: string }) {
+  return (
+    <>
+      {highlightMatches(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/30">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  )
 }
 
 // Workflow mode configurations with icons and colors
@@ -83,7 +106,7 @@ const AGENT_TYPE_CONFIG = {
   }
 } as const
 
-export function TemplateCard({ template, onExecute }: TemplateCardProps) {
+export function TemplateCard({ template, onExecute, highlight }: TemplateCardProps) {
   const workflowConfig = WORKFLOW_MODE_CONFIG[template.workflow.mode as WorkflowMode]
   const WorkflowIcon = workflowConfig.icon
   
@@ -177,16 +200,43 @@ export function TemplateCard({ template, onExecute }: TemplateCardProps) {
             </div>
             
             <CardTitle className="text-lg font-semibold line-clamp-1 text-foreground group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
-              {template.name}
+              <HighlightedText text={template.name} query={highlight} />
             </CardTitle>
             <CardDescription className="line-clamp-2 mt-1 text-sm text-muted-foreground">
-              {template.description}
+              <HighlightedText text={template.description} query={highlight} />
             </CardDescription>
           </div>
+
+          {template.id && (
+            <FavoriteButton
+              item={{ kind: 'template', id: template.id, name: template.name }}
+              className="-mr-2 -mt-1 flex-shrink-0"
+            />
+          )}
         </div>
       </CardHeader>
 
       <CardContent className="flex-1 pb-3 space-y-4">
+        {/* Category and Tags */}
+        {(template.category || (template.tags && template.tags.length > 0)) && (
+          <div className="flex flex-wrap items-center gap-1.5">
+            {template.category && (
+              <Badge variant="outline" className="text-xs font-medium">
+                <FolderOpen className="w-3 h-3 mr-1" />
+                {formatCategoryLabel(template.category)}
+              </Badge>
+            )}
+            {template.tags?.slice(0, MAX_VISIBLE_TAGS).map((tag) => (
+              <Badge key={tag} variant="secondary" className="text-xs font-normal">
+                #<HighlightedText text={tag} query={highlight} />
+              </Badge>
+            ))}
+            {template.tags && template.tags.length > MAX_VISIBLE_TAGS && (
+              <span className="text-xs text-muted-foreground">+{template.tags.length - MAX_VISIBLE_TAGS} more</span>
+            )}
+          </div>
+        )}
+
         {/* Agent Information */}
         <div className="flex items-center gap-4 text-sm">
           <div className="flex items-center gap-1.5 text-muted-foreground">
@@ -0,0 +1,85 @@
+/**
+ * TemplateDraftsList Component
+ *
+ * Unsaved creation-wizard drafts with continue / discard actions
+ */
+
+import { useState } from 'react';
+import { FileClock, Trash2, ArrowRight } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+
+import { formatRelativeTime } from '../../execution-history/utils/execution-time.utils';
+import type { TemplateDraft } from '../services/template-draft.service';
+
+interface TemplateDraftsListProps {
+  drafts: TemplateDraft[];
+  onContinue: (draft: TemplateDraft) => void;
+  onDiscard: (draft: TemplateDraft) => Promise<void>;
+}
+
+export function TemplateDraftsList({ drafts, onContinue, onDiscard }: TemplateDraftsListProps) {
+  const [discardingId, setDiscardingId] = useState<string | null>(null);
+
+  if (drafts.length === 0) return null;
+
+  const handleDiscard = async (draft: TemplateDraft) => {
+    setDiscardingId(draft.id);
+    try {
+      await onDiscard(draft);
+    } catch (error) {
+      console.error('Failed to discard draft:', error);
+    } finally {
+      setDiscardingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <FileClock className="h-4 w-4" />
+          Unsaved Drafts
+          <span className="text-sm font-normal text-muted-foreground">({drafts.length})</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {drafts.map(draft => {
+          const agentCount = draft.template.agents.length;
+
+          return (
+            <div
+              key={draft.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-lg border px-3 py-2"
+            >
+              <div className="min-w-0">
+                <div className="font-medium truncate">{draft.template.name.trim() || 'Untitled template'}</div>
+                <div className="text-xs text-muted-foreground">
+                  {agentCount} agent{agentCount === 1 ? '' : 's'} • edited {formatRelativeTime(draft.updated_at)}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleDiscard(draft)}
+                  disabled={discardingId === draft.id}
+                  aria-label={`Discard draft ${draft.template.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onContinue(draft)}>
+                  Continue
+                  <ArrowRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default TemplateDraftsList;
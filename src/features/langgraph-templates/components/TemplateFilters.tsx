@@ -1,67 +1,249 @@
-import { Search, Filter } from 'lucide-react'
+import { Search, Filter, ChevronDown, X } from 'lucide-react'
 
 import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 
+import { AGENT_TYPE_CONFIGS, WORKFLOW_MODE_CONFIGS } from '../types'
+import type { AgentType, TemplateCategory, WorkflowMode } from '../types'
+import {
+  SUCCESS_RATE_OPTIONS,
+  describeActiveFacets,
+  formatCategoryLabel,
+  removeFacet
+} from '../utils/template-facets'
+import type { TemplateFacetFilters, TemplateOwnerOption } from '../utils/template-facets'
+
 interface TemplateFiltersProps {
   searchQuery: string
   onSearchChange: (query: string) => void
-  categoryFilter: string
-  onCategoryChange: (category: string) => void
-  publicFilter: string
-  onPublicFilterChange: (filter: string) => void
+  filters: TemplateFacetFilters
+  onFiltersChange: (filters: TemplateFacetFilters) => void
   categories?: string[]
+  tags?: string[]
+  owners?: TemplateOwnerOption[]
+}
+
+interface FacetOption {
+  value: string
+  label: string
 }
 
+interface MultiSelectFacetProps {
+  label: string
+  options: FacetOption[]
+  selected: string[]
+  onChange: (selected: string[]) => void
+  emptyMessage?: string
+}
+
+const ALL = 'all'
+
+function MultiSelectFacet({ label, options, selected, onChange, emptyMessage = 'Nothing to filter by' }: MultiSelectFacetProps) {
+  const toggle = (value: string, checked: boolean) => {
+    onChange(checked ? [...selected, value] : selected.filter(item => item !== value))
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-9">
+          {label}
+          {selected.length > 0 && (
+            <Badge variant="secondary" className="ml-2 px-1.5 py-0 text-xs">{selected.length}</Badge>
+          )}
+          <ChevronDown className="ml-1 h-4 w-4 text-muted-foreground" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-56 p-2">
+        {options.length === 0 ? (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">{emptyMessage}</p>
+        ) : (
+          <div className="max-h-64 space-y-1 overflow-y-auto">
+            {options.map(option => (
+              <label
+                key={option.value}
+                className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-muted"
+              >
+                <Checkbox
+                  checked={selected.includes(option.value)}
+                  onCheckedChange={(checked) => toggle(option.value, checked === true)}
+                />
+                <span className="truncate">{option.label}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+const AGENT_TYPE_OPTIONS: FacetOption[] = Object.entries(AGENT_TYPE_CONFIGS).map(([value, config]) => ({
+  value,
+  label: config.label
+}))
+
+const WORKFLOW_MODE_OPTIONS: FacetOption[] = Object.entries(WORKFLOW_MODE_CONFIGS).map(([value, config]) => ({
+  value,
+  label: config.label
+}))
+
 export function TemplateFilters({
   searchQuery,
   onSearchChange,
-  categoryFilter,
-  onCategoryChange,
-  publicFilter,
-  onPublicFilterChange,
-  categories = []
+  filters,
+  onFiltersChange,
+  categories = [],
+  tags = [],
+  owners = []
 }: TemplateFiltersProps) {
+  const update = (changes: Partial<TemplateFacetFilters>) => {
+    onFiltersChange({ ...filters, ...changes })
+  }
+
+  const listValue = <T extends string>(values: T[]) => (values.length > 0 ? values : undefined)
+
+  // Keep selected tags visible even when the tag list hasn't loaded them
+  const tagOptions = Array.from(new Set([...(filters.tags || []), ...tags])).map(tag => ({ value: tag, label: `#${tag}` }))
+  const ownerNames = Object.fromEntries(owners.map(owner => [owner.id, owner.name]))
+  const activeFacets = describeActiveFacets(filters, ownerNames)
+
   return (
-    <div className="flex flex-col sm:flex-row gap-4">
-      {/* Search Input */}
-      <div className="relative flex-1">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-        <Input
-          placeholder="Search templates..."
-          value={searchQuery}
-          onChange={(e) => onSearchChange(e.target.value)}
-          className="pl-10"
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-4">
+        {/* Search Input */}
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+          <Input
+            placeholder="Search names, descriptions and tags..."
+            value={searchQuery}
+            onChange={(e) => onSearchChange(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        {/* Category Filter */}
+        <Select
+          value={filters.category || ALL}
+          onValueChange={(value) => update({ category: value === ALL ? undefined : value as TemplateCategory })}
+        >
+          <SelectTrigger className="w-full sm:w-48">
+            <Filter className="mr-2 h-4 w-4" />
+            <SelectValue placeholder="Category" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All Categories</SelectItem>
+            {categories.map((category) => (
+              <SelectItem key={category} value={category}>
+                {formatCategoryLabel(category)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Public/Private Filter */}
+        <Select
+          value={filters.is_public === undefined ? ALL : filters.is_public ? 'public' : 'private'}
+          onValueChange={(value) => update({ is_public: value === ALL ? undefined : value === 'public' })}
+        >
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue placeholder="Visibility" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All Templates</SelectItem>
+            <SelectItem value="public">Public</SelectItem>
+            <SelectItem value="private">Private</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Facets */}
+      <div className="flex flex-wrap items-center gap-2">
+        <MultiSelectFacet
+          label="Tags"
+          options={tagOptions}
+          selected={filters.tags || []}
+          onChange={(selected) => update({ tags: listValue(selected) })}
+          emptyMessage="No tags yet"
+        />
+        <MultiSelectFacet
+          label="Agent types"
+          options={AGENT_TYPE_OPTIONS}
+          selected={filters.agent_types || []}
+          onChange={(selected) => update({ agent_types: listValue(selected as AgentType[]) })}
+        />
+        <MultiSelectFacet
+          label="Workflow"
+          options={WORKFLOW_MODE_OPTIONS}
+          selected={filters.workflow_modes || []}
+          onChange={(selected) => update({ workflow_modes: listValue(selected as WorkflowMode[]) })}
         />
+
+        <Select
+          value={filters.owner || ALL}
+          onValueChange={(value) => update({ owner: value === ALL ? undefined : value })}
+        >
+          <SelectTrigger className="h-9 w-40">
+            <SelectValue placeholder="Owner" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any owner</SelectItem>
+            {owners.map((owner) => (
+              <SelectItem key={owner.id} value={owner.id}>
+                {owner.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.min_success_rate === undefined ? ALL : String(filters.min_success_rate)}
+          onValueChange={(value) => update({ min_success_rate: value === ALL ? undefined : Number(value) })}
+        >
+          <SelectTrigger className="h-9 w-40">
+            <SelectValue placeholder="Success rate" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any success rate</SelectItem>
+            {SUCCESS_RATE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={String(option.value)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
-      
-      {/* Category Filter */}
-      <Select value={categoryFilter} onValueChange={onCategoryChange}>
-        <SelectTrigger className="w-full sm:w-48">
-          <Filter className="mr-2 h-4 w-4" />
-          <SelectValue placeholder="Category" />
-        </SelectTrigger>
-        <SelectContent>
-          <SelectItem value="all">All Categories</SelectItem>
-          {categories.map((category) => (
-            <SelectItem key={category} value={category} className="capitalize">
-              {category.replace('_', ' ')}
-            </SelectItem>
+
+      {/* Active Facets */}
+      {activeFacets.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {activeFacets.map((chip) => (
+            <Badge key={`${chip.key}:${chip.value ?? ''}`} variant="secondary" className="gap-1 pr-1">
+              {chip.label}
+              <button
+                type="button"
+                onClick={() => onFiltersChange(removeFacet(filters, chip))}
+                className="rounded-sm hover:bg-muted-foreground/20"
+                aria-label={`Remove filter ${chip.label}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
           ))}
-        </SelectContent>
-      </Select>
-
-      {/* Public/Private Filter */}
-      <Select value={publicFilter} onValueChange={onPublicFilterChange}>
-        <SelectTrigger className="w-full sm:w-48">
-          <SelectValue placeholder="Visibility" />
-        </SelectTrigger>
-        <SelectContent>
-          <SelectItem value="all">All Templates</SelectItem>
-          <SelectItem value="public">Public</SelectItem>
-          <SelectItem value="private">Private</SelectItem>
-        </SelectContent>
-      </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => onFiltersChange({})}
+          >
+            Clear all
+          </Button>
+        </div>
+      )}
     </div>
   )
 }
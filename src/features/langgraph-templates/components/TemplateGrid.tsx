@@ -5,9 +5,10 @@ interface TemplateGridProps {
   templates: Template[]
   isLoading?: boolean
   onExecute?: (templateId: string) => void
+  highlight?: string
 }
 
-export function TemplateGrid({ templates, isLoading, onExecute }: TemplateGridProps) {
+export function TemplateGrid({ templates, isLoading, onExecute, highlight }: TemplateGridProps) {
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -36,6 +37,7 @@ export function TemplateGrid({ templates, isLoading, onExecute }: TemplateGridPr
           key={template.id}
           template={template}
           onExecute={onExecute}
+          highlight={highlight}
         />
       ))}
     </div>
@@ -0,0 +1,199 @@
+/**
+ * TemplateImportDialog Component
+ *
+ * Picks a JSON / YAML template file, previews the migrated and validated
+ * result, and creates the template once confirmed
+ */
+
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { Upload, FileText, AlertCircle, AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Badge } from '../../../components/ui/badge';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../../../components/ui/dialog';
+
+import { templateService } from '../services/template.service';
+import { TEMPLATE_FILE_SCHEMA_VERSION } from '../utils/template-file-format';
+import type { TemplateImportResult } from '../utils/template-file-format';
+import type { Template } from '../types';
+
+interface TemplateImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (template: Template) => void;
+}
+
+export function TemplateImportDialog({ open, onOpenChange, onImported }: TemplateImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<TemplateImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setFileName(null);
+    setResult(null);
+    setError(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setResult(null);
+    setError(null);
+    setIsReading(true);
+    try {
+      setResult(await templateService.prepareTemplateImport(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read template file');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!result?.validation.isValid) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const template = await templateService.createTemplate(result.template);
+      reset();
+      onImported(template);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import template');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Template</DialogTitle>
+          <DialogDescription>
+            Select a <code>.json</code> or <code>.yaml</code> template file exported from this or another environment.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.yaml,.yml,application/json,application/x-yaml,text/yaml"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isReading || isImporting}
+          >
+            {isReading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            {fileName ? 'Choose a different file' : 'Choose file'}
+          </Button>
+
+          {fileName && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileText className="h-4 w-4" />
+              <span className="truncate">{fileName}</span>
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {result && (
+            <div className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="font-medium">{result.template.name}</div>
+                  {result.template.description && (
+                    <p className="text-xs text-muted-foreground line-clamp-2">{result.template.description}</p>
+                  )}
+                </div>
+                <Badge variant="outline" className="shrink-0">
+                  v{result.sourceSchemaVersion}
+                  {result.sourceSchemaVersion < TEMPLATE_FILE_SCHEMA_VERSION && ` → v${TEMPLATE_FILE_SCHEMA_VERSION}`}
+                </Badge>
+              </div>
+
+              <div className="text-xs text-muted-foreground">
+                {result.template.agents.length} agent{result.template.agents.length === 1 ? '' : 's'} •{' '}
+                {result.template.workflow.mode} workflow
+                {result.template.variables?.length ? ` • ${result.template.variables.length} variables` : ''}
+              </div>
+
+              {result.warnings.map((warning, index) => (
+                <div key={index} className="flex items-start gap-2 text-xs text-yellow-700 dark:text-yellow-400">
+                  <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                  {warning}
+                </div>
+              ))}
+
+              {result.validation.isValid ? (
+                <div className="flex items-center gap-2 text-xs text-green-700 dark:text-green-400">
+                  <CheckCircle2 className="h-3 w-3" />
+                  Template is valid
+                  {result.validation.warnings.length > 0 &&
+                    ` (${result.validation.warnings.length} warning${result.validation.warnings.length === 1 ? '' : 's'})`}
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  <div className="text-xs font-medium text-destructive">
+                    Fix these issues in the file before importing:
+                  </div>
+                  {result.validation.errors.map((validationError, index) => (
+                    <div key={index} className="text-xs text-destructive">
+                      • {validationError.message}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!result?.validation.isValid || isImporting}>
+            {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default TemplateImportDialog;
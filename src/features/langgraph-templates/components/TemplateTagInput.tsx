@@ -0,0 +1,106 @@
+/**
+ * TemplateTagInput Component
+ *
+ * Tag chips with free-text entry (Enter or comma adds a tag, Backspace
+ * removes the last) and suggestions from tags already in use
+ */
+
+import { useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import { Tag, X } from 'lucide-react';
+
+import { Input } from '../../../components/ui/input';
+import { Badge } from '../../../components/ui/badge';
+
+import { MAX_TEMPLATE_TAGS, addTags, normalizeTag } from '../utils/template-facets';
+
+interface TemplateTagInputProps {
+  id?: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export function TemplateTagInput({ id, tags, onChange, suggestions = [] }: TemplateTagInputProps) {
+  const [input, setInput] = useState('');
+
+  const isFull = tags.length >= MAX_TEMPLATE_TAGS;
+  const query = normalizeTag(input);
+  const matchingSuggestions = suggestions
+    .filter(tag => !tags.includes(tag) && (!query || tag.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const commit = (value: string) => {
+    const next = addTags(tags, value);
+    if (next.length !== tags.length) onChange(next);
+    setInput('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      if (input.trim()) commit(input);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  const handleChange = (value: string) => {
+    // Pasted lists are split on commas straight away
+    if (value.includes(',')) {
+      commit(value);
+    } else {
+      setInput(value);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5 rounded-md border px-2 py-1.5 focus-within:ring-2 focus-within:ring-ring">
+        {tags.map(tag => (
+          <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter(value => value !== tag))}
+              className="rounded-sm hover:bg-muted-foreground/20"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          id={id}
+          value={input}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input.trim() && commit(input)}
+          placeholder={isFull ? `Up to ${MAX_TEMPLATE_TAGS} tags` : tags.length === 0 ? 'Add tags...' : ''}
+          disabled={isFull}
+          className="h-7 flex-1 min-w-[8rem] border-0 px-1 shadow-none focus-visible:ring-0"
+        />
+      </div>
+
+      {!isFull && matchingSuggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Tag className="h-3.5 w-3.5 text-muted-foreground" />
+          {matchingSuggestions.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => commit(tag)}
+              className="rounded-full border px-2 py-0.5 text-xs text-muted-foreground hover:bg-muted hover:text-foreground"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TemplateTagInput;
@@ -0,0 +1,260 @@
+/**
+ * TemplateVariablesEditor Component
+ *
+ * Declares the typed input variables behind the `{placeholders}` used in
+ * agent prompts. Undeclared placeholders are detected and can be added in one click.
+ */
+
+import { useMemo } from 'react';
+import { Braces, Plus, Trash2, Wand2, AlertCircle } from 'lucide-react';
+
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Switch } from '../../../components/ui/switch';
+import { Badge } from '../../../components/ui/badge';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../../components/ui/select';
+
+import {
+  BUILT_IN_PLACEHOLDERS,
+  TEMPLATE_VARIABLE_TYPES,
+  detectTemplatePlaceholders,
+  suggestTemplateVariables,
+  validateTemplateVariables,
+} from '../utils/template-variables';
+import type { Template, TemplateVariable, TemplateVariableType } from '../types';
+
+interface TemplateVariablesEditorProps {
+  template: Template;
+  onUpdate: (variables: TemplateVariable[]) => void;
+}
+
+export function TemplateVariablesEditor({ template, onUpdate }: TemplateVariablesEditorProps) {
+  const variables = template.variables || [];
+
+  const usages = useMemo(() => detectTemplatePlaceholders(template), [template]);
+  const suggestions = useMemo(() => suggestTemplateVariables(template), [template]);
+  const { errors, warnings } = useMemo(() => validateTemplateVariables(template), [template]);
+  // Undeclared placeholders already have their own alert with a declare action
+  const otherWarnings = warnings.filter(
+    warning => !suggestions.some(variable => warning.startsWith(`Placeholder {${variable.name}}`))
+  );
+
+  const updateVariable = (index: number, updates: Partial<TemplateVariable>) => {
+    onUpdate(variables.map((variable, i) => (i === index ? { ...variable, ...updates } : variable)));
+  };
+
+  const removeVariable = (index: number) => {
+    onUpdate(variables.filter((_, i) => i !== index));
+  };
+
+  const addVariable = () => {
+    onUpdate([...variables, { name: '', type: 'string', required: true }]);
+  };
+
+  const addSuggestions = () => {
+    onUpdate([...variables, ...suggestions]);
+  };
+
+  const getFieldErrors = (index: number) =>
+    errors.filter(error => error.field.startsWith(`variables.${index}.`)).map(error => error.message);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-medium flex items-center gap-2">
+            <Braces className="h-4 w-4" />
+            Input Variables
+          </h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            Values collected on the execution page for placeholders in agent prompts.{' '}
+            {BUILT_IN_PLACEHOLDERS.map(name => `{${name}}`).join(', ')} are filled automatically.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={addVariable}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Variable
+        </Button>
+      </div>
+
+      {suggestions.length > 0 && (
+        <Alert className="border-yellow-200 bg-yellow-50">
+          <AlertCircle className="h-4 w-4 text-yellow-600" />
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+            <span>
+              Undeclared placeholders:{' '}
+              {suggestions.map(variable => (
+                <code key={variable.name} className="mr-1">{`{${variable.name}}`}</code>
+              ))}
+            </span>
+            <Button size="sm" variant="outline" onClick={addSuggestions}>
+              <Wand2 className="h-4 w-4 mr-1" />
+              Declare {suggestions.length === 1 ? 'it' : `all ${suggestions.length}`}
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {variables.length === 0 && suggestions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No custom placeholders found. Add one like <code>{'{company}'}</code> to a prompt to collect it at execution time.
+        </p>
+      )}
+
+      {variables.map((variable, index) => {
+        const usage = usages.find(u => u.name === variable.name);
+        const fieldErrors = getFieldErrors(index);
+
+        return (
+          <div key={index} className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <code className="text-foreground">{`{${variable.name || '…'}}`}</code>
+                {usage ? (
+                  <span>used by {usage.agents.join(', ')}</span>
+                ) : (
+                  <Badge variant="outline" className="text-[10px]">unused</Badge>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeVariable(index)}
+                aria-label={`Remove variable ${variable.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`variable-${index}-name`} className="text-xs">Name</Label>
+                <Input
+                  id={`variable-${index}-name`}
+                  value={variable.name}
+                  onChange={(e) => updateVariable(index, { name: e.target.value.trim() })}
+                  placeholder="company_name"
+                  className="font-mono text-sm"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`variable-${index}-label`} className="text-xs">Label</Label>
+                <Input
+                  id={`variable-${index}-label`}
+                  value={variable.label || ''}
+                  onChange={(e) => updateVariable(index, { label: e.target.value || undefined })}
+                  placeholder="Company name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Type</Label>
+                <Select
+                  value={variable.type}
+                  onValueChange={(value) => updateVariable(index, { type: value as TemplateVariableType })}
+                >
+                  <SelectTrigger aria-label="Variable type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TEMPLATE_VARIABLE_TYPES).map(([type, config]) => (
+                      <SelectItem key={type} value={type}>{config.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {variable.type === 'enum' && (
+              <div className="space-y-1">
+                <Label htmlFor={`variable-${index}-options`} className="text-xs">Options (comma separated)</Label>
+                <Input
+                  id={`variable-${index}-options`}
+                  value={(variable.options || []).join(', ')}
+                  onChange={(e) => updateVariable(index, {
+                    options: e.target.value.split(',').map(option => option.trim()).filter(Boolean),
+                  })}
+                  placeholder="low, medium, high"
+                />
+              </div>
+            )}
+
+            {variable.type === 'number' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`variable-${index}-min`} className="text-xs">Minimum</Label>
+                  <Input
+                    id={`variable-${index}-min`}
+                    type="number"
+                    value={variable.min ?? ''}
+                    onChange={(e) => updateVariable(index, { min: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`variable-${index}-max`} className="text-xs">Maximum</Label>
+                  <Input
+                    id={`variable-${index}-max`}
+                    type="number"
+                    value={variable.max ?? ''}
+                    onChange={(e) => updateVariable(index, { max: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 items-end">
+              <div className="space-y-1">
+                <Label htmlFor={`variable-${index}-default`} className="text-xs">Default value</Label>
+                <Input
+                  id={`variable-${index}-default`}
+                  type={variable.type === 'date' ? 'date' : variable.type === 'number' ? 'number' : 'text'}
+                  value={variable.default_value || ''}
+                  onChange={(e) => updateVariable(index, { default_value: e.target.value || undefined })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id={`variable-${index}-required`}
+                  checked={variable.required}
+                  onCheckedChange={(checked) => updateVariable(index, { required: checked })}
+                />
+                <Label htmlFor={`variable-${index}-required`} className="text-sm">Required</Label>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor={`variable-${index}-description`} className="text-xs">Help text</Label>
+              <Input
+                id={`variable-${index}-description`}
+                value={variable.description || ''}
+                onChange={(e) => updateVariable(index, { description: e.target.value || undefined })}
+                placeholder="Shown under the field on the execution page"
+              />
+            </div>
+
+            {fieldErrors.map((message, i) => (
+              <p key={i} className="text-xs text-destructive">{message}</p>
+            ))}
+          </div>
+        );
+      })}
+
+      {otherWarnings.length > 0 && (
+        <div className="space-y-1">
+          {otherWarnings.map((warning, index) => (
+            <p key={index} className="text-xs text-yellow-700 dark:text-yellow-400">{warning}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TemplateVariablesEditor;
@@ -0,0 +1,123 @@
+/**
+ * TemplateVariablesForm Component
+ *
+ * Typed input form for a template's declared variables on the execution page
+ */
+
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Textarea } from '../../../components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../../components/ui/select';
+
+import { humanizeVariableName } from '../utils/template-variables';
+import type { TemplateVariable } from '../types';
+
+interface TemplateVariablesFormProps {
+  variables: TemplateVariable[];
+  values: Record<string, string>;
+  errors: Record<string, string>;
+  // Only show errors for fields the user has touched or after a submit attempt
+  showErrors?: boolean;
+  disabled?: boolean;
+  onChange: (name: string, value: string) => void;
+}
+
+function VariableInput({ id, variable, value, disabled, onChange }: {
+  id: string;
+  variable: TemplateVariable;
+  value: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}) {
+  switch (variable.type) {
+    case 'enum':
+      return (
+        <Select value={value || undefined} onValueChange={onChange} disabled={disabled}>
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Select an option" />
+          </SelectTrigger>
+          <SelectContent>
+            {(variable.options || []).map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'url_list':
+      return (
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="https://example.com, one per line or comma separated"
+          rows={3}
+          className="font-mono text-xs"
+          disabled={disabled}
+        />
+      );
+    case 'number':
+      return (
+        <Input
+          id={id}
+          type="number"
+          min={variable.min}
+          max={variable.max}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+        />
+      );
+    case 'date':
+      return <Input id={id} type="date" value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} />;
+    default:
+      return <Input id={id} value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} />;
+  }
+}
+
+export function TemplateVariablesForm({
+  variables,
+  values,
+  errors,
+  showErrors = true,
+  disabled,
+  onChange,
+}: TemplateVariablesFormProps) {
+  if (variables.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {variables.map(variable => {
+        const id = `template-variable-${variable.name}`;
+        const error = showErrors ? errors[variable.name] : undefined;
+
+        return (
+          <div key={variable.name} className={`space-y-1 ${variable.type === 'url_list' ? 'md:col-span-2' : ''}`}>
+            <Label htmlFor={id}>
+              {variable.label || humanizeVariableName(variable.name)}
+              {variable.required && <span className="text-red-500 ml-0.5">*</span>}
+            </Label>
+            <VariableInput
+              id={id}
+              variable={variable}
+              value={values[variable.name] ?? ''}
+              disabled={disabled}
+              onChange={(value) => onChange(variable.name, value)}
+            />
+            {variable.description && !error && (
+              <p className="text-xs text-muted-foreground">{variable.description}</p>
+            )}
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default TemplateVariablesForm;
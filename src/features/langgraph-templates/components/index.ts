@@ -10,7 +10,16 @@ export { WorkflowConfigurationForm } from './WorkflowConfigurationForm';
 export { TavilyConfigurationPanel } from './TavilyConfigurationPanel';
 export { TemplateCard } from './TemplateCard';
 export { TemplateFilters } from './TemplateFilters';
+export { TemplateTagInput } from './TemplateTagInput';
 export { TemplateGrid } from './TemplateGrid';
+export { CostEstimatePanel } from './CostEstimatePanel';
+export { TemplateVariablesEditor } from './TemplateVariablesEditor';
+export { TemplateVariablesForm } from './TemplateVariablesForm';
+export { TemplateImportDialog } from './TemplateImportDialog';
+export { TemplateDraftsList } from './TemplateDraftsList';
+export { ResumeDraftBanner } from './ResumeDraftBanner';
+export { BatchQueryInput } from './BatchQueryInput';
+export { BatchProgressTable } from './BatchProgressTable';
 
 // New modular preview components
 export * from './preview';
@@ -13,6 +13,8 @@ import {
   Rewind
 } from 'lucide-react';
 
+import { CostEstimatePanel } from '../CostEstimatePanel';
+import { useCostEstimate } from '../../hooks/useCostEstimate';
 import type { Template } from '../../types';
 
 interface ConfigurationSummaryCardProps {
@@ -21,6 +23,7 @@ interface ConfigurationSummaryCardProps {
 
 export function ConfigurationSummaryCard({ template }: ConfigurationSummaryCardProps) {
   const { workflow } = template;
+  const { estimate, budget } = useCostEstimate(template);
 
   return (
     <Card>
@@ -141,6 +144,13 @@ export function ConfigurationSummaryCard({ template }: ConfigurationSummaryCardP
           </div>
         )}
 
+        {/* Cost Estimate */}
+        {estimate && (
+          <div className="pt-2 border-t">
+            <CostEstimatePanel estimate={estimate} budget={budget} />
+          </div>
+        )}
+
         {/* Template Metadata */}
         <div className="pt-2 border-t">
           <div className="text-sm font-medium text-muted-foreground mb-3">Template Settings</div>
@@ -3,8 +3,10 @@
  * Shows workflow visualization and configuration
  */
 
+import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../../../../components/ui/card';
 import { Badge } from '../../../../components/ui/badge';
+import { Alert, AlertDescription } from '../../../../components/ui/alert';
 import { 
   Workflow,
   ArrowRight,
@@ -17,12 +19,16 @@ import {
   CheckCircle,
   XCircle,
   Eye,
-  Rewind
+  Rewind,
+  AlertTriangle,
+  CalendarClock
 } from 'lucide-react';
 
 // Import our workflow preview component
 import { WorkflowPreview } from '../workflow-visualizations/components/WorkflowPreview';
 
+import { analyzeTimeoutBudget } from '../../utils/timeout-budget';
+import type { BudgetSegmentKind, TimeoutBudget } from '../../utils/timeout-budget';
 import type { Template, WorkflowMode } from '../../types';
 
 interface WorkflowPreviewCardProps {
@@ -62,24 +68,127 @@ const WORKFLOW_MODE_CONFIG = {
   }
 } as const;
 
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  if (minutes < 60) return `${minutes}m ${remainingSeconds}s`;
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  return `${hours}h ${remainingMinutes}m`;
+};
+
+const SEGMENT_COLORS: Record<BudgetSegmentKind, string> = {
+  execution: 'bg-blue-500',
+  retry: 'bg-blue-300',
+  intervention: 'bg-purple-400'
+};
+
+function ProjectedSchedule({ budget }: { budget: TimeoutBudget }) {
+  const scale = Math.max(budget.worstCaseSeconds, budget.workflowTimeoutSeconds, 1);
+  const percent = (seconds: number) => `${(seconds / scale) * 100}%`;
+  const nameOf = (nodeId: string) => budget.agents[nodeId]?.agentName || nodeId;
+
+  if (budget.schedule.length === 0) {
+    return <div className="text-sm text-muted-foreground">No reachable agents to schedule</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {budget.exceedsTimeout && (
+        <Alert className="border-yellow-200 bg-yellow-50">
+          <AlertTriangle className="h-4 w-4 text-yellow-600" />
+          <AlertDescription className="text-yellow-800">
+            Worst case ({formatDuration(budget.worstCaseSeconds)}) exceeds the workflow timeout of{' '}
+            {formatDuration(budget.workflowTimeoutSeconds)}. Later agents may be cut off.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Gantt rows */}
+      <div className="space-y-2">
+        {budget.schedule.map(entry => (
+          <div key={entry.nodeId} className="flex items-center gap-3">
+            <div
+              className={`w-32 shrink-0 truncate text-xs ${entry.onCriticalPath ? 'font-semibold text-orange-700' : 'text-gray-700'}`}
+              title={entry.onCriticalPath ? `${entry.agentName} (critical path)` : entry.agentName}
+            >
+              {entry.agentName}
+            </div>
+            <div className="relative h-5 flex-1 rounded bg-gray-100">
+              {entry.queuedSeconds > 0 && (
+                <div
+                  className="absolute inset-y-0 bg-gray-300 opacity-60"
+                  style={{ left: percent(entry.readySeconds), width: percent(entry.queuedSeconds) }}
+                  title={`Waiting for a slot: ${formatDuration(entry.queuedSeconds)}`}
+                />
+              )}
+              <div
+                className={`absolute inset-y-0 flex overflow-hidden rounded ${entry.onCriticalPath ? 'ring-2 ring-orange-400' : ''}`}
+                style={{ left: percent(entry.startSeconds), width: percent(entry.worstCaseSeconds) }}
+              >
+                {entry.segments.map((segment, index) => (
+                  <div
+                    key={index}
+                    className={`h-full border-r border-white/60 ${SEGMENT_COLORS[segment.kind]}`}
+                    style={{ width: `${(segment.seconds / Math.max(entry.worstCaseSeconds, 1)) * 100}%` }}
+                    title={`${segment.label}: ${formatDuration(segment.seconds)}`}
+                  />
+                ))}
+              </div>
+              {budget.workflowTimeoutSeconds > 0 && (
+                <div
+                  className="absolute -inset-y-1 border-l-2 border-dashed border-red-500"
+                  style={{ left: percent(budget.workflowTimeoutSeconds) }}
+                  title={`Workflow timeout: ${formatDuration(budget.workflowTimeoutSeconds)}`}
+                />
+              )}
+            </div>
+            <div className="w-16 shrink-0 text-right text-xs text-muted-foreground">
+              {formatDuration(entry.endSeconds)}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-blue-500" /> Run</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-blue-300" /> Retries</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-purple-400" /> HITL wait</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-gray-300" /> Queued (max {budget.maxConcurrentAgents} concurrent)</span>
+        {budget.workflowTimeoutSeconds > 0 && (
+          <span className="flex items-center gap-1"><span className="h-3 w-0 border-l-2 border-dashed border-red-500" /> Timeout</span>
+        )}
+      </div>
+
+      {/* Per-path worst case */}
+      {budget.paths.length > 1 && (
+        <div className="space-y-1 border-t pt-3">
+          <div className="text-sm font-medium text-muted-foreground">Paths</div>
+          {budget.paths.slice(0, 5).map(path => (
+            <div key={path.nodes.join('>')} className="flex items-center justify-between gap-4 text-xs">
+              <span className="truncate">{path.nodes.map(nameOf).join(' → ')}</span>
+              <span className={`shrink-0 font-medium ${path.exceedsTimeout ? 'text-red-600' : 'text-gray-700'}`}>
+                {formatDuration(path.finishSeconds)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function WorkflowPreviewCard({ template, workflowSummary }: WorkflowPreviewCardProps) {
   const workflowConfig = WORKFLOW_MODE_CONFIG[template.workflow.mode as WorkflowMode] || WORKFLOW_MODE_CONFIG.langgraph;
   const WorkflowIcon = workflowConfig.icon;
 
-  // Calculate estimated execution time
-  const estimatedDuration = template.agents.reduce((total, agent) => {
-    return total + (agent.timeout_seconds || 300);
-  }, 0);
-
-  const formatDuration = (seconds: number) => {
-    if (seconds < 60) return `${seconds}s`;
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    if (minutes < 60) return `${minutes}m ${remainingSeconds}s`;
-    const hours = Math.floor(minutes / 60);
-    const remainingMinutes = minutes % 60;
-    return `${hours}h ${remainingMinutes}m`;
-  };
+  // Worst-case projection including retries, HITL waits and concurrency limits
+  const budget = React.useMemo(
+    () => analyzeTimeoutBudget(template.agents, template.workflow),
+    [template.agents, template.workflow]
+  );
 
   return (
     <div className="space-y-4">
@@ -122,8 +231,10 @@ export function WorkflowPreviewCard({ template, workflowSummary }: WorkflowPrevi
             <div className="flex items-center gap-2">
               <Clock className="w-4 h-4 text-orange-500" />
               <div>
-                <div className="text-xs text-muted-foreground">Est. Duration</div>
-                <div className="text-sm font-medium">{formatDuration(estimatedDuration)}</div>
+                <div className="text-xs text-muted-foreground">Worst Case</div>
+                <div className={`text-sm font-medium ${budget.exceedsTimeout ? 'text-red-600' : ''}`}>
+                  {formatDuration(budget.worstCaseSeconds)}
+                </div>
               </div>
             </div>
             <div className="flex items-center gap-2">
@@ -259,6 +370,19 @@ export function WorkflowPreviewCard({ template, workflowSummary }: WorkflowPrevi
         </CardContent>
       </Card>
 
+      {/* Projected Schedule */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Projected Schedule
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ProjectedSchedule budget={budget} />
+        </CardContent>
+      </Card>
+
       {/* Workflow Visualization */}
       <Card>
         <CardHeader>
@@ -1,7 +1,9 @@
 import { Link, useNavigate } from 'react-router-dom'
 import { 
   ArrowLeft,
+  Pencil,
   Play,
+  Layers,
   Zap, 
   ArrowRight, 
   GitMerge, 
@@ -16,12 +18,14 @@ import {
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from '@/components/ui/breadcrumb'
+import { FavoriteButton } from '@/components/common/FavoriteButton'
 
 import type { Template, WorkflowMode } from '../../types'
 
 interface TemplateDetailHeaderProps {
   template: Template
   onExecute?: () => void
+  onEdit?: () => void
 }
 
 // Workflow mode configurations
@@ -52,7 +56,7 @@ const WORKFLOW_MODE_CONFIG = {
   }
 } as const
 
-export function TemplateDetailHeader({ template, onExecute }: TemplateDetailHeaderProps) {
+export function TemplateDetailHeader({ template, onExecute, onEdit }: TemplateDetailHeaderProps) {
   const navigate = useNavigate()
   const workflowConfig = WORKFLOW_MODE_CONFIG[template.workflow.mode as WorkflowMode]
   const WorkflowIcon = workflowConfig.icon
@@ -66,6 +70,14 @@ export function TemplateDetailHeader({ template, onExecute }: TemplateDetailHead
     }
   }
 
+  const handleEdit = () => {
+    if (onEdit) {
+      onEdit()
+    } else {
+      navigate(`/templates/${template.id}/edit`)
+    }
+  }
+
   const handleBack = () => {
     navigate('/templates')
   }
@@ -175,8 +187,33 @@ export function TemplateDetailHeader({ template, onExecute }: TemplateDetailHead
           )}
         </div>
 
-        {/* Execute Button */}
-        <div className="flex-shrink-0">
+        {/* Favorite, Edit, Batch Run & Execute Buttons */}
+        <div className="flex-shrink-0 flex items-center gap-2">
+          {template.id && (
+            <FavoriteButton
+              item={{ kind: 'template', id: template.id, name: template.name }}
+              variant="outline"
+              size="lg"
+              showLabel
+            />
+          )}
+          <Button
+            size="lg"
+            variant="outline"
+            onClick={handleEdit}
+          >
+            <Pencil className="w-5 h-5 mr-2" />
+            Edit
+          </Button>
+          <Button
+            size="lg"
+            variant="outline"
+            onClick={() => navigate(`/templates/batch?templateId=${template.id}`)}
+            disabled={!template.is_active}
+          >
+            <Layers className="w-5 h-5 mr-2" />
+            Batch Run
+          </Button>
           <Button 
             size="lg" 
             onClick={handleExecute}
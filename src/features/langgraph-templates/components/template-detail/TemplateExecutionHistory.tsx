@@ -236,7 +236,7 @@ export function TemplateExecutionHistory({ template }: TemplateExecutionHistoryP
     refresh,
     isRefreshing
   } = useExecutionHistory({
-    initialFilters: { template_id: template.id },
+    initialFilters: { template_ids: template.id ? [template.id] : undefined },
     autoRefresh: false
   })
 
@@ -0,0 +1,254 @@
+/**
+ * Template Version History Component
+ *
+ * Lists saved template versions, diffs any two of them and rolls back to an older one
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { GitCompare, History, RotateCcw, ArrowRight } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+
+import type { TemplateVersion } from '../../services/template-version.service'
+import {
+  formatDiffValue,
+  summarizeTemplateDiff,
+  type TemplateDiffEntry,
+  type TemplateDiffSection,
+} from '../../utils/template-diff'
+
+interface TemplateVersionHistoryProps {
+  versions: TemplateVersion[]
+  compare: (fromVersion: number, toVersion: number) => TemplateDiffEntry[]
+  onRollback: (version: number) => Promise<void>
+  isSaving?: boolean
+}
+
+const SECTION_LABELS: Record<TemplateDiffSection, string> = {
+  basic: 'Basic Info',
+  agents: 'Agents',
+  prompts: 'Prompts',
+  workflow: 'Workflow',
+  edges: 'Edges',
+}
+
+const CHANGE_STYLES = {
+  added: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800',
+  removed: 'bg-red-100 text-red-800 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800',
+  changed: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800',
+} as const
+
+function DiffRow({ entry }: { entry: TemplateDiffEntry }) {
+  return (
+    <div className="border rounded-md p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-foreground break-all">{entry.label}</span>
+        <Badge variant="outline" className={`text-xs capitalize ${CHANGE_STYLES[entry.change]}`}>
+          {entry.change}
+        </Badge>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+        <pre className="whitespace-pre-wrap break-words rounded bg-red-50 dark:bg-red-900/10 p-2 text-red-900 dark:text-red-300 max-h-40 overflow-y-auto">
+          {formatDiffValue(entry.before)}
+        </pre>
+        <pre className="whitespace-pre-wrap break-words rounded bg-green-50 dark:bg-green-900/10 p-2 text-green-900 dark:text-green-300 max-h-40 overflow-y-auto">
+          {formatDiffValue(entry.after)}
+        </pre>
+      </div>
+    </div>
+  )
+}
+
+export function TemplateVersionHistory({ versions, compare, onRollback, isSaving }: TemplateVersionHistoryProps) {
+  const latest = versions.length > 0 ? versions[versions.length - 1].version : null
+  const [fromVersion, setFromVersion] = useState<number | null>(null)
+  const [toVersion, setToVersion] = useState<number | null>(null)
+  const [rollbackTarget, setRollbackTarget] = useState<number | null>(null)
+
+  // Default to comparing the two most recent versions
+  useEffect(() => {
+    if (versions.length === 0) return
+    setToVersion(prev => prev ?? versions[versions.length - 1].version)
+    setFromVersion(prev => prev ?? versions[Math.max(0, versions.length - 2)].version)
+  }, [versions])
+
+  const diff = useMemo(() => {
+    if (fromVersion === null || toVersion === null) return []
+    return compare(fromVersion, toVersion)
+  }, [compare, fromVersion, toVersion])
+
+  const summary = useMemo(() => summarizeTemplateDiff(diff), [diff])
+
+  const groupedDiff = useMemo(() => {
+    return (Object.keys(SECTION_LABELS) as TemplateDiffSection[])
+      .map(section => ({ section, entries: diff.filter(entry => entry.section === section) }))
+      .filter(group => group.entries.length > 0)
+  }, [diff])
+
+  const handleConfirmRollback = async () => {
+    if (rollbackTarget === null) return
+    try {
+      await onRollback(rollbackTarget)
+    } finally {
+      setRollbackTarget(null)
+    }
+  }
+
+  if (versions.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          <History className="h-8 w-8 mx-auto mb-2" />
+          No saved versions yet
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Version List */}
+      <Card className="lg:col-span-1">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <History className="h-4 w-4" />
+            Versions ({versions.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 max-h-[500px] overflow-y-auto">
+          {[...versions].reverse().map(version => (
+            <div key={version.version} className="flex items-start justify-between gap-2 border rounded-md p-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm">v{version.version}</span>
+                  {version.version === latest && (
+                    <Badge variant="secondary" className="text-xs">Current</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(version.saved_at).toLocaleString()}
+                </div>
+                {version.note && (
+                  <div className="text-xs text-muted-foreground truncate">{version.note}</div>
+                )}
+              </div>
+              {version.version !== latest && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRollbackTarget(version.version)}
+                  disabled={isSaving}
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Restore
+                </Button>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Diff Viewer */}
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <GitCompare className="h-4 w-4" />
+            Compare Versions
+          </CardTitle>
+          <div className="flex items-center gap-2 pt-2">
+            <Select
+              value={fromVersion?.toString()}
+              onValueChange={value => setFromVersion(Number(value))}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue placeholder="From" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map(version => (
+                  <SelectItem key={version.version} value={version.version.toString()}>
+                    v{version.version}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            <Select
+              value={toVersion?.toString()}
+              onValueChange={value => setToVersion(Number(value))}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue placeholder="To" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map(version => (
+                  <SelectItem key={version.version} value={version.version.toString()}>
+                    v{version.version}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm text-muted-foreground ml-auto">
+              {summary.total} change{summary.total !== 1 ? 's' : ''}
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6 max-h-[600px] overflow-y-auto">
+          {groupedDiff.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground text-sm">
+              No differences between the selected versions
+            </div>
+          ) : (
+            groupedDiff.map(group => (
+              <div key={group.section} className="space-y-2">
+                <h4 className="text-sm font-semibold text-foreground">
+                  {SECTION_LABELS[group.section]} ({group.entries.length})
+                </h4>
+                {group.entries.map(entry => (
+                  <DiffRow key={entry.path} entry={entry} />
+                ))}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rollback Confirmation */}
+      <AlertDialog open={rollbackTarget !== null} onOpenChange={open => !open && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {rollbackTarget}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The template will be saved with the configuration from v{rollbackTarget}. This creates a new
+              version, so the current configuration stays available in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmRollback}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+export default TemplateVersionHistory
@@ -6,3 +6,4 @@
 
 export { default as TemplateDetailHeader } from './TemplateDetailHeader';
 export { default as TemplateMetricsOverview } from './TemplateMetricsOverview';
+export { default as TemplateVersionHistory } from './TemplateVersionHistory';
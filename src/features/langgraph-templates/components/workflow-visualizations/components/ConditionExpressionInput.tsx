@@ -0,0 +1,155 @@
+/**
+ * Condition Expression Input
+ * Expression editor with field autocomplete and inline type errors
+ */
+
+import { useState, useRef, useMemo } from 'react';
+import type { KeyboardEvent } from 'react';
+import { Textarea } from '../../../../../components/ui/textarea';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { getConditionCompletions } from '../../../utils/condition-expression';
+import type { ConditionDiagnostic } from '../../../utils/condition-expression';
+
+interface ConditionExpressionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: ConditionDiagnostic[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export function ConditionExpressionInput({ value, onChange, errors }: ConditionExpressionInputProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const completions = useMemo(() => {
+    if (cursor === null) return null;
+    const result = getConditionCompletions(value, cursor);
+    // Nothing typed yet after a space, or the fragment is already complete
+    const fragment = value.slice(result.from, result.to);
+    const items = result.items.filter(item => item.label !== fragment).slice(0, MAX_SUGGESTIONS);
+    return items.length > 0 && (fragment.length > 0 || value.trim() === '') ? { ...result, items } : null;
+  }, [value, cursor]);
+
+  const showSuggestions = Boolean(completions) && !dismissed;
+
+  const updateCursor = () => {
+    setCursor(textareaRef.current?.selectionStart ?? null);
+  };
+
+  const applyCompletion = (label: string) => {
+    if (!completions) return;
+    const next = value.slice(0, completions.from) + label + value.slice(completions.to);
+    const nextCursor = completions.from + label.length;
+    onChange(next);
+    setCursor(nextCursor);
+    setActiveIndex(0);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!showSuggestions || !completions) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % completions.items.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (index - 1 + completions.items.length) % completions.items.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applyCompletion(completions.items[Math.min(activeIndex, completions.items.length - 1)].label);
+    } else if (e.key === 'Escape') {
+      // Keep the dialog open; only close the suggestion list
+      e.stopPropagation();
+      setDismissed(true);
+    }
+  };
+
+  const firstError = errors[0];
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCursor(e.target.selectionStart);
+            setActiveIndex(0);
+            setDismissed(false);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={updateCursor}
+          onClick={updateCursor}
+          onFocus={updateCursor}
+          onBlur={() => setCursor(null)}
+          placeholder="confidence_score >= 0.8 AND key_findings.length > 2"
+          className={`font-mono text-sm ${errors.length > 0 && value.trim() ? 'border-red-400 focus-visible:ring-red-300' : ''}`}
+          rows={3}
+          spellCheck={false}
+          aria-invalid={errors.length > 0}
+        />
+
+        {showSuggestions && completions && (
+          <div
+            className="absolute z-50 left-0 right-0 mt-1 max-h-64 overflow-y-auto rounded-md border bg-white shadow-lg"
+            role="listbox"
+          >
+            {completions.items.map((item, index) => (
+              <button
+                key={item.label}
+                type="button"
+                role="option"
+                aria-selected={index === activeIndex}
+                // Prevent the textarea blur from closing the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => applyCompletion(item.label)}
+                className={`w-full text-left px-3 py-1.5 text-xs flex items-baseline gap-2 ${
+                  index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className={`font-mono ${item.kind === 'keyword' ? 'text-purple-700' : 'text-gray-900'}`}>
+                  {item.label}
+                </span>
+                <span className="text-gray-500 truncate">{item.detail}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {value.trim() && firstError ? (
+        <div className="rounded-md border border-red-200 bg-red-50 p-2 space-y-1">
+          <pre className="font-mono text-xs text-gray-700 whitespace-pre overflow-x-auto">
+            {value.replace(/\n/g, ' ')}
+            {'\n'}
+            <span className="text-red-600">
+              {' '.repeat(firstError.start)}
+              {'^'.repeat(Math.max(1, firstError.end - firstError.start))}
+            </span>
+          </pre>
+          {errors.map((error, index) => (
+            <div key={index} className="flex items-start gap-1.5 text-xs text-red-700">
+              <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              <span>{error.message}</span>
+            </div>
+          ))}
+        </div>
+      ) : value.trim() ? (
+        <div className="flex items-center gap-1.5 text-xs text-green-700">
+          <CheckCircle className="h-3 w-3" />
+          Valid condition
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default ConditionExpressionInput;
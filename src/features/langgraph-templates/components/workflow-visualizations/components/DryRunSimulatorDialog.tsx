@@ -0,0 +1,374 @@
+/**
+ * Dry Run Simulator Dialog
+ * Simulates a workflow with mock agent outputs and animates the chosen path
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { ReactFlowProvider } from 'reactflow';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../../../../../components/ui/dialog';
+import { Button } from '../../../../../components/ui/button';
+import { Label } from '../../../../../components/ui/label';
+import { Input } from '../../../../../components/ui/input';
+import { Textarea } from '../../../../../components/ui/textarea';
+import { Switch } from '../../../../../components/ui/switch';
+import { Badge } from '../../../../../components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../../../../components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../../../../components/ui/select';
+import {
+  FlaskConical,
+  Play,
+  Pause,
+  RotateCcw,
+  CheckCircle,
+  XCircle,
+  MinusCircle,
+  AlertTriangle,
+  Flag,
+  Loader2
+} from 'lucide-react';
+import { ReactFlowCanvas } from '../reactflow/ReactFlowCanvas';
+import {
+  simulateWorkflow,
+  getDryRunHighlight,
+  createDefaultMocks,
+  createMocksFromExecution
+} from '../../../utils/dry-run-simulator';
+import type { DryRunMock, DryRunMocks, DryRunResult } from '../../../utils/dry-run-simulator';
+import { executionHistoryService } from '../../../../execution-history/services';
+import type { Agent, WorkflowConfig } from '../../../types';
+
+interface DryRunSimulatorDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  agents: Agent[];
+  workflow: WorkflowConfig;
+  // Saved templates can pull mocks from their past executions
+  templateId?: string;
+}
+
+const MANUAL_SOURCE = 'manual';
+const STEP_INTERVAL_MS = 800;
+
+const agentKey = (agent: Agent) => agent.id || agent.name;
+
+export function DryRunSimulatorDialog({
+  isOpen,
+  onClose,
+  agents,
+  workflow,
+  templateId
+}: DryRunSimulatorDialogProps) {
+  const [mocks, setMocks] = useState<DryRunMocks>(() => createDefaultMocks(agents));
+  const [mockSource, setMockSource] = useState(MANUAL_SOURCE);
+  const [isLoadingExecution, setIsLoadingExecution] = useState(false);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [result, setResult] = useState<DryRunResult | null>(null);
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [activeTab, setActiveTab] = useState('mocks');
+
+  // Reset whenever the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setMocks(createDefaultMocks(agents));
+      setMockSource(MANUAL_SOURCE);
+      setSourceError(null);
+      setResult(null);
+      setPlayhead(0);
+      setIsPlaying(false);
+      setActiveTab('mocks');
+    }
+  }, [isOpen, agents]);
+
+  const { data: pastExecutions } = useQuery({
+    queryKey: ['dry-run-executions', templateId],
+    queryFn: () => executionHistoryService.getExecutions(1, 20, { template_ids: templateId ? [templateId] : undefined }),
+    enabled: isOpen && Boolean(templateId),
+  });
+
+  // Step through the simulated path
+  useEffect(() => {
+    if (!isPlaying || !result) return;
+    if (playhead >= result.steps.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setPlayhead(step => step + 1), STEP_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, playhead, result]);
+
+  const highlight = useMemo(
+    () => (result ? getDryRunHighlight(result, playhead) : undefined),
+    [result, playhead]
+  );
+
+  const handleSourceChange = async (value: string) => {
+    setMockSource(value);
+    setSourceError(null);
+    setResult(null);
+
+    if (value === MANUAL_SOURCE) {
+      setMocks(createDefaultMocks(agents));
+      return;
+    }
+
+    setIsLoadingExecution(true);
+    try {
+      const execution = await executionHistoryService.getExecution(value);
+      setMocks(createMocksFromExecution(agents, execution));
+    } catch (error) {
+      console.error('Failed to load execution for dry run:', error);
+      setSourceError('Failed to load the execution. Using the current mocks instead.');
+    } finally {
+      setIsLoadingExecution(false);
+    }
+  };
+
+  const updateMock = (nodeId: string, updates: Partial<DryRunMock>) => {
+    setMocks(prev => ({ ...prev, [nodeId]: { ...prev[nodeId], ...updates } }));
+    setResult(null);
+  };
+
+  const handleRun = () => {
+    setResult(simulateWorkflow(agents, workflow, mocks));
+    setPlayhead(0);
+    setIsPlaying(true);
+    setActiveTab('result');
+  };
+
+  const handleReplay = () => {
+    setPlayhead(0);
+    setIsPlaying(true);
+  };
+
+  const agentName = (nodeId: string) => agents.find(agent => agentKey(agent) === nodeId)?.name || nodeId;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Dry Run
+          </DialogTitle>
+          <DialogDescription>
+            Simulate which path the workflow takes using mock agent outputs. No agents are executed and no credits are used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1 min-w-[260px] flex-1">
+            <Label className="text-sm">Mock outputs</Label>
+            <Select value={mockSource} onValueChange={handleSourceChange} disabled={isLoadingExecution}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={MANUAL_SOURCE}>Enter mocks manually</SelectItem>
+                {(pastExecutions?.executions || []).map(execution => (
+                  <SelectItem key={execution.execution_id} value={execution.execution_id}>
+                    {new Date(execution.started_at).toLocaleString()} • {execution.status} • {execution.query.slice(0, 40) || 'No query'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            {result && (
+              <>
+                <Button variant="outline" size="sm" onClick={() => setIsPlaying(playing => !playing)}>
+                  {isPlaying ? <Pause className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+                  {isPlaying ? 'Pause' : 'Resume'}
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleReplay}>
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Replay
+                </Button>
+              </>
+            )}
+            <Button size="sm" onClick={handleRun} disabled={agents.length === 0 || isLoadingExecution}>
+              {isLoadingExecution ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <FlaskConical className="h-4 w-4 mr-1" />
+              )}
+              Run Simulation
+            </Button>
+          </div>
+        </div>
+
+        {sourceError && (
+          <div className="text-sm text-red-600">{sourceError}</div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+          <div className="lg:col-span-3">
+            <ReactFlowProvider>
+              <ReactFlowCanvas
+                agents={agents}
+                workflow={workflow}
+                simulation={highlight || { nodes: {}, edges: {}, endReached: false }}
+              />
+            </ReactFlowProvider>
+          </div>
+
+          <div className="lg:col-span-2">
+            <Tabs value={activeTab} onValueChange={setActiveTab}>
+              <TabsList className="w-full">
+                <TabsTrigger value="mocks" className="flex-1">Mocks</TabsTrigger>
+                <TabsTrigger value="result" className="flex-1" disabled={!result}>Result</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="mocks" className="space-y-3 max-h-[540px] overflow-y-auto pr-1">
+                {agents.map(agent => {
+                  const nodeId = agentKey(agent);
+                  const mock = mocks[nodeId];
+                  if (!mock) return null;
+
+                  return (
+                    <div key={nodeId} className="border rounded-lg p-3 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-sm truncate">{agent.name}</span>
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor={`mock-success-${nodeId}`} className="text-xs text-gray-600">
+                            {mock.success ? 'Succeeds' : 'Fails'}
+                          </Label>
+                          <Switch
+                            id={`mock-success-${nodeId}`}
+                            checked={mock.success}
+                            onCheckedChange={(checked) => updateMock(nodeId, { success: checked })}
+                          />
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        <div className="space-y-1">
+                          <Label className="text-xs">Confidence</Label>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={mock.confidence_score}
+                            onChange={(e) => updateMock(nodeId, { confidence_score: parseFloat(e.target.value) || 0 })}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Duration (s)</Label>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={mock.duration_seconds}
+                            onChange={(e) => updateMock(nodeId, { duration_seconds: parseFloat(e.target.value) || 0 })}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">Tokens</Label>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={mock.tokens_used}
+                            onChange={(e) => updateMock(nodeId, { tokens_used: parseInt(e.target.value) || 0 })}
+                          />
+                        </div>
+                      </div>
+                      <Textarea
+                        value={mock.content}
+                        onChange={(e) => updateMock(nodeId, { content: e.target.value })}
+                        placeholder="Mock output text (used by content conditions)"
+                        className="text-xs"
+                        rows={2}
+                      />
+                      {mock.result && (
+                        <div className="text-xs text-gray-500">Includes the recorded structured result</div>
+                      )}
+                    </div>
+                  );
+                })}
+              </TabsContent>
+
+              <TabsContent value="result" className="space-y-3 max-h-[540px] overflow-y-auto pr-1">
+                {result && (
+                  <>
+                    <div className={`p-3 rounded-lg ${result.outcome === 'completed' ? 'bg-green-50' : 'bg-orange-50'}`}>
+                      <div className="flex items-center gap-2 font-medium text-sm">
+                        {result.outcome === 'completed' ? (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <AlertTriangle className="h-4 w-4 text-orange-600" />
+                        )}
+                        {result.outcomeMessage}
+                      </div>
+                      {result.exitPoints.length > 0 && (
+                        <div className="flex items-center gap-1 text-xs text-gray-600 mt-1">
+                          <Flag className="h-3 w-3" />
+                          Exit point{result.exitPoints.length === 1 ? '' : 's'}: {result.exitPoints.map(agentName).join(', ')}
+                        </div>
+                      )}
+                    </div>
+
+                    <ol className="space-y-2">
+                      {result.steps.map((step, index) => (
+                        <li
+                          key={step.order}
+                          className={`border rounded-lg p-2 text-sm transition-opacity ${index < playhead ? 'opacity-100' : 'opacity-40'}`}
+                        >
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className="text-xs">#{step.order}</Badge>
+                            {step.status === 'succeeded' && <CheckCircle className="h-4 w-4 text-green-600" />}
+                            {step.status === 'failed' && <XCircle className="h-4 w-4 text-red-600" />}
+                            {step.status === 'cancelled' && <MinusCircle className="h-4 w-4 text-gray-400" />}
+                            <span className="font-medium truncate">{step.agentName}</span>
+                            <span className="text-xs text-gray-500 ml-auto">step {step.superstep}</span>
+                          </div>
+                          {step.edges.length > 0 && (
+                            <ul className="mt-1 ml-7 space-y-0.5">
+                              {step.edges.map(edge => (
+                                <li
+                                  key={edge.edgeId}
+                                  className={`text-xs ${edge.taken ? 'text-blue-700' : 'text-gray-400 line-through'}`}
+                                >
+                                  → {edge.to === 'end' ? 'End' : agentName(edge.to)}
+                                  <span className="no-underline text-gray-500"> ({edge.reason})</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+
+                    {result.warnings.length > 0 && (
+                      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-2 space-y-1">
+                        {[...new Set(result.warnings)].map(warning => (
+                          <div key={warning} className="flex items-start gap-1.5 text-xs text-yellow-800">
+                            <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                            <span>{warning}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </TabsContent>
+            </Tabs>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default DryRunSimulatorDialog;
@@ -3,7 +3,7 @@
  * Allows users to configure edge conditions for conditional workflows
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -32,6 +32,16 @@ import {
   Info,
   AlertTriangle
 } from 'lucide-react';
+import { ConditionExpressionInput } from './ConditionExpressionInput';
+import {
+  compileCondition,
+  evaluateCondition,
+  buildConditionContext,
+  createExpressionConditionData,
+  isExpressionConditionData,
+  legacyConditionToExpression
+} from '../../../utils/condition-expression';
+import type { AgentResult } from '../../../../execution-history/types/execution-history.types';
 
 interface EdgeConditionEditorProps {
   isOpen: boolean;
@@ -42,13 +52,31 @@ interface EdgeConditionEditorProps {
   targetAgentName?: string;
 }
 
-type ConditionType = 'always' | 'success' | 'failure' | 'custom';
+type ConditionType = 'always' | 'success' | 'failure' | 'conditional';
+
+const EXAMPLE_EXPRESSIONS = [
+  'confidence_score >= 0.8',
+  'key_findings.length > 2 AND tavily_results.total_sources >= 5',
+  'content matches /revenue|profit/i OR NOT success',
+];
 
-interface CustomConditionData {
-  field: 'confidence_score' | 'execution_time' | 'content' | 'token_count';
-  operator: 'greater_than' | 'less_than' | 'equals' | 'contains' | 'not_contains';
-  value: string | number;
-  description?: string;
+/**
+ * Expression text for an edge, upgrading legacy single-field custom conditions
+ */
+function getInitialExpression(
+  data: { condition_type?: string; condition?: string; condition_data?: Record<string, unknown> } | undefined
+): string {
+  const conditionData = data?.condition_data;
+  if (isExpressionConditionData(conditionData)) {
+    return conditionData.expression;
+  }
+  if (data?.condition_type === 'custom' && conditionData) {
+    return legacyConditionToExpression(conditionData) || '';
+  }
+  if (data?.condition_type === 'conditional' && typeof data.condition === 'string') {
+    return data.condition;
+  }
+  return '';
 }
 
 export function EdgeConditionEditor({
@@ -60,31 +88,40 @@ export function EdgeConditionEditor({
   targetAgentName
 }: EdgeConditionEditorProps) {
   const [conditionType, setConditionType] = useState<ConditionType>('always');
-  const [customCondition, setCustomCondition] = useState<CustomConditionData>({
-    field: 'confidence_score',
-    operator: 'greater_than',
-    value: 0.8,
-    description: ''
-  });
+  const [expression, setExpression] = useState('');
   const [conditionDescription, setConditionDescription] = useState('');
+  const [sampleResult, setSampleResult] = useState('');
 
   // Initialize form data when edge changes
   useEffect(() => {
     if (edge) {
-      setConditionType(edge.data?.condition_type || 'always');
-      setConditionDescription(edge.data?.condition || '');
-      
-      if (edge.data?.condition_data) {
-        setCustomCondition({
-          field: edge.data.condition_data.field || 'confidence_score',
-          operator: edge.data.condition_data.operator || 'greater_than',
-          value: edge.data.condition_data.value || 0.8,
-          description: edge.data.condition_data.description || ''
-        });
-      }
+      const type = edge.data?.condition_type || 'always';
+      const isExpression = type === 'custom' || type === 'conditional';
+      setConditionType(isExpression ? 'conditional' : type);
+      setExpression(getInitialExpression(edge.data));
+      setConditionDescription(
+        isExpression ? edge.data?.condition_data?.description || '' : edge.data?.condition || ''
+      );
+      setSampleResult('');
     }
   }, [edge]);
 
+  const compiled = useMemo(() => compileCondition(expression), [expression]);
+
+  // Evaluate against a pasted agent result from execution history
+  const sampleEvaluation = useMemo((): { result?: boolean; error?: string } | null => {
+    if (!sampleResult.trim() || !compiled.ast) return null;
+    try {
+      const parsed = JSON.parse(sampleResult);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        return { error: 'Paste a single agent result object' };
+      }
+      return { result: evaluateCondition(compiled.ast, buildConditionContext(parsed as AgentResult)) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Invalid JSON' };
+    }
+  }, [sampleResult, compiled.ast]);
+
   // Generate human-readable condition preview
   const getConditionPreview = (): string => {
     switch (conditionType) {
@@ -94,24 +131,8 @@ export function EdgeConditionEditor({
         return 'Execute only if previous agent succeeds';
       case 'failure':
         return 'Execute only if previous agent fails';
-      case 'custom':
-        const { field, operator, value } = customCondition;
-        const fieldLabel = {
-          confidence_score: 'confidence score',
-          execution_time: 'execution time',
-          content: 'output content',
-          token_count: 'token count'
-        }[field];
-        
-        const operatorLabel = {
-          greater_than: 'is greater than',
-          less_than: 'is less than',
-          equals: 'equals',
-          contains: 'contains',
-          not_contains: 'does not contain'
-        }[operator];
-        
-        return `Execute if ${fieldLabel} ${operatorLabel} ${value}`;
+      case 'conditional':
+        return expression.trim() ? `Execute if ${expression.trim()}` : 'Enter a condition expression';
       default:
         return 'Unknown condition';
     }
@@ -126,28 +147,31 @@ export function EdgeConditionEditor({
         return { color: 'text-green-600', bg: 'bg-green-50', icon: CheckCircle };
       case 'failure':
         return { color: 'text-red-600', bg: 'bg-red-50', icon: XCircle };
-      case 'custom':
+      case 'conditional':
         return { color: 'text-orange-600', bg: 'bg-orange-50', icon: Code };
       default:
         return { color: 'text-gray-600', bg: 'bg-gray-50', icon: Settings };
     }
   };
 
-  const handleSave = () => {
-    const conditionData = {
-      condition_type: conditionType,
-      condition: conditionType === 'custom' ? 
-        customCondition.description || getConditionPreview() : 
-        conditionDescription || getConditionPreview(),
-      condition_data: conditionType === 'custom' ? {
-        field: customCondition.field,
-        operator: customCondition.operator,
-        value: customCondition.value,
-        description: customCondition.description
-      } : undefined
-    };
+  const canSave = conditionType !== 'conditional' || Boolean(compiled.ast);
 
-    onSave(edge.id, conditionData);
+  const handleSave = () => {
+    if (conditionType === 'conditional') {
+      if (!compiled.ast) return;
+      const source = expression.trim();
+      onSave(edge.id, {
+        condition_type: 'conditional',
+        condition: source,
+        condition_data: createExpressionConditionData(source, compiled.ast, conditionDescription.trim() || undefined)
+      });
+    } else {
+      onSave(edge.id, {
+        condition_type: conditionType,
+        condition: conditionDescription || getConditionPreview(),
+        condition_data: undefined
+      });
+    }
     onClose();
   };
 
@@ -214,95 +238,90 @@ export function EdgeConditionEditor({
                     <span className="text-xs text-gray-500">- Only if previous fails</span>
                   </div>
                 </SelectItem>
-                <SelectItem value="custom">
+                <SelectItem value="conditional">
                   <div className="flex items-center gap-2">
                     <Code className="h-4 w-4 text-orange-600" />
-                    <span>Custom</span>
-                    <span className="text-xs text-gray-500">- Custom logic condition</span>
+                    <span>Expression</span>
+                    <span className="text-xs text-gray-500">- Condition on the agent's result</span>
                   </div>
                 </SelectItem>
               </SelectContent>
             </Select>
           </div>
 
-          {/* Custom Condition Builder */}
-          {conditionType === 'custom' && (
+          {/* Expression Condition Builder */}
+          {conditionType === 'conditional' && (
             <div className="space-y-4 p-4 border rounded-lg bg-orange-50">
               <div className="flex items-center gap-2 text-orange-800">
                 <Code className="h-4 w-4" />
-                <span className="font-medium">Custom Condition Logic</span>
+                <span className="font-medium">Condition Expression</span>
               </div>
 
-              <div className="grid grid-cols-3 gap-3">
-                {/* Field Selection */}
-                <div className="space-y-2">
-                  <Label className="text-sm">Field</Label>
-                  <Select 
-                    value={customCondition.field} 
-                    onValueChange={(value: any) => setCustomCondition(prev => ({ ...prev, field: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="confidence_score">Confidence Score</SelectItem>
-                      <SelectItem value="execution_time">Execution Time</SelectItem>
-                      <SelectItem value="content">Output Content</SelectItem>
-                      <SelectItem value="token_count">Token Count</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+              <ConditionExpressionInput
+                value={expression}
+                onChange={setExpression}
+                errors={compiled.errors}
+              />
 
-                {/* Operator Selection */}
-                <div className="space-y-2">
-                  <Label className="text-sm">Operator</Label>
-                  <Select 
-                    value={customCondition.operator} 
-                    onValueChange={(value: any) => setCustomCondition(prev => ({ ...prev, operator: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="greater_than">Greater Than</SelectItem>
-                      <SelectItem value="less_than">Less Than</SelectItem>
-                      <SelectItem value="equals">Equals</SelectItem>
-                      <SelectItem value="contains">Contains</SelectItem>
-                      <SelectItem value="not_contains">Not Contains</SelectItem>
-                    </SelectContent>
-                  </Select>
+              <div className="text-xs text-gray-600 space-y-1">
+                <div>
+                  Combine with <code>AND</code>, <code>OR</code>, <code>NOT</code> and parentheses. Compare with{' '}
+                  <code>== != &gt; &gt;= &lt; &lt;=</code>, <code>contains</code> and <code>matches /regex/</code>.
                 </div>
-
-                {/* Value Input */}
-                <div className="space-y-2">
-                  <Label className="text-sm">Value</Label>
-                  <Input
-                    type={customCondition.field === 'content' ? 'text' : 'number'}
-                    value={customCondition.value}
-                    onChange={(e) => setCustomCondition(prev => ({ 
-                      ...prev, 
-                      value: customCondition.field === 'content' ? e.target.value : parseFloat(e.target.value) || 0
-                    }))}
-                    placeholder={customCondition.field === 'content' ? 'Enter text...' : '0.8'}
-                  />
+                <div className="flex flex-wrap gap-1">
+                  {EXAMPLE_EXPRESSIONS.map(example => (
+                    <button
+                      key={example}
+                      type="button"
+                      onClick={() => setExpression(example)}
+                      className="font-mono px-1.5 py-0.5 rounded border bg-white hover:bg-gray-50"
+                    >
+                      {example}
+                    </button>
+                  ))}
                 </div>
               </div>
 
-              {/* Custom Description */}
+              {/* Description */}
               <div className="space-y-2">
                 <Label className="text-sm">Description (Optional)</Label>
                 <Textarea
-                  value={customCondition.description}
-                  onChange={(e) => setCustomCondition(prev => ({ ...prev, description: e.target.value }))}
+                  value={conditionDescription}
+                  onChange={(e) => setConditionDescription(e.target.value)}
                   placeholder="Describe when this condition should trigger..."
                   rows={2}
                 />
               </div>
+
+              {/* Test against a recorded result */}
+              {compiled.ast && (
+                <div className="space-y-2">
+                  <Label className="text-sm">Test Against a Recorded Result (Optional)</Label>
+                  <Textarea
+                    value={sampleResult}
+                    onChange={(e) => setSampleResult(e.target.value)}
+                    placeholder='Paste an agent result JSON from execution history, e.g. {"success": true, "confidence_score": 0.9, "result": {...}}'
+                    className="font-mono text-xs"
+                    rows={3}
+                  />
+                  {sampleEvaluation?.error && (
+                    <div className="text-xs text-red-700">{sampleEvaluation.error}</div>
+                  )}
+                  {sampleEvaluation && sampleEvaluation.result !== undefined && (
+                    <Badge
+                      variant="outline"
+                      className={sampleEvaluation.result ? 'text-green-700 bg-green-50' : 'text-gray-700 bg-gray-50'}
+                    >
+                      {sampleEvaluation.result ? 'Path taken' : 'Path skipped'}
+                    </Badge>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
           {/* Basic Condition Description */}
-          {conditionType !== 'custom' && (
+          {conditionType !== 'conditional' && (
             <div className="space-y-2">
               <Label>Condition Description (Optional)</Label>
               <Input
@@ -325,9 +344,9 @@ export function EdgeConditionEditor({
               <div className={`text-sm ${currentStyle.color} font-medium`}>
                 {getConditionPreview()}
               </div>
-              {conditionType === 'custom' && customCondition.description && (
+              {conditionType === 'conditional' && conditionDescription && (
                 <div className="text-xs text-gray-600 mt-1">
-                  {customCondition.description}
+                  {conditionDescription}
                 </div>
               )}
             </div>
@@ -343,7 +362,7 @@ export function EdgeConditionEditor({
                   <li>• <strong>Always:</strong> Path is always taken</li>
                   <li>• <strong>Success:</strong> Path taken only if previous agent succeeds</li>
                   <li>• <strong>Failure:</strong> Path taken only if previous agent fails</li>
-                  <li>• <strong>Custom:</strong> Path taken based on custom logic evaluation</li>
+                  <li>• <strong>Expression:</strong> Path taken when the expression is true for the previous agent's result</li>
                 </ul>
               </div>
             </div>
@@ -354,7 +373,7 @@ export function EdgeConditionEditor({
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button onClick={handleSave}>
+          <Button onClick={handleSave} disabled={!canSave}>
             Save Condition
           </Button>
         </DialogFooter>
@@ -1,9 +1,10 @@
 /**
  * Merged Workflow Builder
  * Combines agent configuration and workflow visualization in one interface
+ * Every builder mutation is recorded for undo/redo (Ctrl+Z / Ctrl+Shift+Z)
  */
 
-import React, { useCallback, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ReactFlowProvider } from 'reactflow';
 import type { Node, Edge, Connection, NodeTypes, EdgeTypes } from 'reactflow';
 import 'reactflow/dist/style.css';
@@ -13,14 +14,18 @@ import { StartNode, EndNode } from '../reactflow/StartEndNodes';
 import { UnifiedToolbar } from './UnifiedToolbar';
 import { UnifiedConfigPanel } from './UnifiedConfigPanel';
 import { EdgeConditionEditor } from './EdgeConditionEditor';
+import { DryRunSimulatorDialog } from './DryRunSimulatorDialog';
 import { AgentListPanel } from './AgentListPanel';
 import { WorkflowCanvasWithJSON } from './WorkflowCanvasWithJSON';
 import { SequentialEdge } from '../edges/SequentialEdge';
 import { ParallelEdge } from '../edges/ParallelEdge';
 import { ConditionalEdge } from '../edges/ConditionalEdge';
 import { CustomEdge } from '../edges/CustomEdge';
-import { detectWorkflowType, createWorkflowTemplate } from '../utils/workflowUtils';
+import { detectWorkflowType, createWorkflowTemplate, shouldRebuildSequentialWorkflow } from '../utils/workflowUtils';
 import { validateTemplate } from '../../../utils/comprehensive-validation';
+import { analyzeWorkflowGraph } from '../../../utils/graph-analysis';
+import { useWorkflowHistory } from '../../../hooks/useWorkflowHistory';
+import type { NodePositions, WorkflowSnapshot } from '../../../hooks/useWorkflowHistory';
 import { Alert, AlertDescription } from '../../../../../components/ui/alert';
 import { AlertTriangle, XCircle, CheckCircle } from 'lucide-react';
 import type { Agent, WorkflowConfig, Template } from '../../../types';
@@ -45,6 +50,8 @@ interface MergedWorkflowBuilderProps {
   workflow: WorkflowConfig;
   onUpdateWorkflow: (updates: Partial<WorkflowConfig>) => void;
   onUpdateAgents: (agents: Agent[]) => void;
+  // Saved template id, lets the dry run use past executions as mocks
+  templateId?: string;
 }
 
 // Simple vertical positioning - clean and consistent
@@ -59,7 +66,8 @@ export function MergedWorkflowBuilder({
   agents,
   workflow,
   onUpdateWorkflow,
-  onUpdateAgents
+  onUpdateAgents,
+  templateId
 }: MergedWorkflowBuilderProps) {
   
   // Auto-detect current workflow type
@@ -68,21 +76,91 @@ export function MergedWorkflowBuilder({
     [workflow.graph_structure]
   );
 
+  // Graph problems to highlight on the offending nodes and edges
+  const graphAnalysis = useMemo(
+    () => analyzeWorkflowGraph(workflow, agents),
+    [workflow, agents]
+  );
+
   // Edge condition editor state
   const [selectedEdge, setSelectedEdge] = useState<Edge | null>(null);
   const [showConditionEditor, setShowConditionEditor] = useState(false);
+  const [showDryRun, setShowDryRun] = useState(false);
 
   // State to store template-generated visual edges
   const [templateVisualEdges, setTemplateVisualEdges] = useState<Edge[]>([]);
 
   // State for node positions - this will trigger re-renders when positions change
-  const [nodePositions, setNodePositions] = useState<{ [agentId: string]: { x: number; y: number } }>({});
+  const [nodePositions, setNodePositions] = useState<NodePositions>({});
+
+  // Agents set by undo/redo, so the auto-create effect keeps the restored workflow for exactly that update
+  const restoredAgentsRef = useRef<Agent[] | null>(null);
+  // Agent ids seen by the auto-create effect; null until it first runs
+  const agentIdsRef = useRef<string[] | null>(null);
+
+  const restoreSnapshot = useCallback((snapshot: WorkflowSnapshot) => {
+    if (snapshot.agents !== agents) {
+      restoredAgentsRef.current = snapshot.agents;
+      onUpdateAgents(snapshot.agents);
+    }
+    // Explicitly clear keys the snapshot doesn't have, since updates are merged
+    const keys = new Set([...Object.keys(workflow), ...Object.keys(snapshot.workflow)]);
+    onUpdateWorkflow(Object.fromEntries(
+      Array.from(keys).map(key => [key, snapshot.workflow[key as keyof WorkflowConfig]])
+    ) as Partial<WorkflowConfig>);
+    setNodePositions(snapshot.nodePositions);
+  }, [agents, workflow, onUpdateAgents, onUpdateWorkflow]);
+
+  const history = useWorkflowHistory({
+    snapshot: { agents, workflow, nodePositions },
+    restore: restoreSnapshot,
+  });
+  const { record: recordHistory, undo, redo } = history;
+
+  const getAgentName = useCallback((agentId: string) => {
+    if (agentId === 'start') return 'Start';
+    if (agentId === 'end') return 'End';
+    return agents.find(a => (a.id || a.name) === agentId)?.name || agentId;
+  }, [agents]);
+
+  // Keyboard shortcuts for undo/redo - text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
 
-  // Auto-create sequential workflow whenever agents are added
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Auto-create sequential workflow whenever agents are added or removed
   React.useEffect(() => {
+    const agentIds = agents.map(agent => agent.id || agent.name);
+    const previousIds = agentIdsRef.current;
+    agentIdsRef.current = agentIds;
+
+    if (restoredAgentsRef.current === agents) {
+      restoredAgentsRef.current = null;
+      return;
+    }
+
+    if (!shouldRebuildSequentialWorkflow(previousIds, agentIds, workflow.graph_structure)) return;
+
     if (agents.length > 0) {
-      const agentIds = agents.map(agent => agent.id || agent.name);
-      
       // Always create/update sequential workflow when agents change
       const template = createWorkflowTemplate('sequential', agents);
       
@@ -152,7 +230,8 @@ export function MergedWorkflowBuilder({
           index,
           isEntryPoint: workflow.entry_point === agentId,
           connectionCount,
-          workflowType
+          workflowType,
+          graphIssues: graphAnalysis?.nodeIssues[agentId]
         },
         draggable: true,
         selectable: true
@@ -187,7 +266,7 @@ export function MergedWorkflowBuilder({
     });
 
     return nodeList;
-  }, [agents, workflow.entry_point, workflow.graph_structure, workflowType, templateVisualEdges, nodePositions]);
+  }, [agents, workflow.entry_point, workflow.graph_structure, workflowType, templateVisualEdges, nodePositions, graphAnalysis]);
 
   // Transform backend edges to React Flow edges with smart typing
   const edges = useMemo(() => {
@@ -196,6 +275,7 @@ export function MergedWorkflowBuilder({
     // Add backend edges with smart typing (includes all workflow types)
     if (workflow.graph_structure?.edges) {
       workflow.graph_structure.edges.forEach(edge => {
+        const edgeId = edge.edge_id || `${edge.from_node}-${edge.to_node}`;
         const sourceAgent = agents.find(a => (a.id || a.name) === edge.from_node);
         const targetAgent = agents.find(a => (a.id || a.name) === edge.to_node);
         
@@ -211,16 +291,18 @@ export function MergedWorkflowBuilder({
         }
         
         edgeList.push({
-          id: edge.edge_id || `${edge.from_node}-${edge.to_node}`,
+          id: edgeId,
           source: edge.from_node,
           target: edge.to_node,
           type: edge.condition_type === 'always' ? workflowType : 'conditional',
           data: {
             condition_type: edge.condition_type || 'always',
             condition: edge.condition,
+            condition_data: edge.condition_data,
             sourceAgentName,
             targetAgentName,
-            workflowType
+            workflowType,
+            graphIssues: graphAnalysis?.edgeIssues[edgeId]
           },
           animated: edge.condition_type === 'always'
         });
@@ -245,7 +327,7 @@ export function MergedWorkflowBuilder({
     }
 
     return edgeList;
-  }, [agents, workflow.entry_point, workflow.graph_structure, workflowType]);
+  }, [agents, workflow.entry_point, workflow.graph_structure, workflowType, graphAnalysis]);
 
   // Handle new connections
   const onConnect = useCallback((connection: Connection) => {
@@ -266,6 +348,7 @@ export function MergedWorkflowBuilder({
     // Update backend
     const currentStructure = workflow.graph_structure;
     if (currentStructure) {
+      recordHistory(`Connect ${getAgentName(connection.source)} → ${getAgentName(connection.target)}`);
       const updatedEdges = [...(currentStructure.edges || []), newEdge];
       onUpdateWorkflow({
         graph_structure: {
@@ -274,13 +357,16 @@ export function MergedWorkflowBuilder({
         }
       });
     }
-  }, [workflow.graph_structure, onUpdateWorkflow]);
+  }, [workflow.graph_structure, onUpdateWorkflow, recordHistory, getAgentName]);
 
   // Handle node clicks for entry point setting
   const onNodeClick = useCallback((_event: React.MouseEvent, node: Node) => {
     if (node.type === 'agentNode') {
       const currentStructure = workflow.graph_structure;
       if (!currentStructure) return;
+      if (workflow.entry_point === node.id && currentStructure.entry_point === node.id) return;
+
+      recordHistory(`Set entry point to ${getAgentName(node.id)}`);
 
       onUpdateWorkflow({ 
         entry_point: node.id,
@@ -290,7 +376,7 @@ export function MergedWorkflowBuilder({
         }
       });
     }
-  }, [workflow.graph_structure, onUpdateWorkflow]);
+  }, [workflow.entry_point, workflow.graph_structure, onUpdateWorkflow, recordHistory, getAgentName]);
 
   // Handle edge clicks for condition editing
   const onEdgeClick = useCallback((_event: React.MouseEvent, edge: Edge) => {
@@ -303,6 +389,8 @@ export function MergedWorkflowBuilder({
     const currentStructure = workflow.graph_structure;
     if (!currentStructure) return;
 
+    recordHistory('Edit edge condition');
+
     // Update backend edges (unified for all workflow types)
     const updatedEdges = currentStructure.edges.map(edge => {
       if (edge.edge_id === edgeId || `${edge.from_node}-${edge.to_node}` === edgeId) {
@@ -322,7 +410,7 @@ export function MergedWorkflowBuilder({
         edges: updatedEdges
       }
     });
-  }, [workflow.graph_structure, onUpdateWorkflow]);
+  }, [workflow.graph_structure, onUpdateWorkflow, recordHistory]);
 
   // Workflow template creation handlers
   const handleCreateTemplate = useCallback((templateType: 'sequential' | 'parallel' | 'conditional' | 'custom') => {
@@ -356,6 +444,8 @@ export function MergedWorkflowBuilder({
       exitPoints = agentIds.length > 0 ? [agentIds[agentIds.length - 1]] : [];
     }
     
+    recordHistory(templateType === 'custom' ? 'Clear connections' : `Generate ${templateType} workflow`);
+
     // Clear visual edges - now all templates use backend edges
     setTemplateVisualEdges([]);
     
@@ -376,7 +466,7 @@ export function MergedWorkflowBuilder({
     });
     
     console.log(`✅ Created ${templateType} workflow template with entry point: ${entryPoint}, edges: ${template.edges.length}`);
-  }, [agents, workflow.graph_structure, onUpdateWorkflow]);
+  }, [agents, workflow.graph_structure, onUpdateWorkflow, recordHistory]);
 
   // Agent management handlers
   const handleAddAgent = useCallback((newAgent: Omit<Agent, 'id'>) => {
@@ -385,6 +475,7 @@ export function MergedWorkflowBuilder({
       id: `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     };
     
+    recordHistory(`Add agent ${newAgent.name}`);
     const updatedAgents = [...agents, agentWithId];
     onUpdateAgents(updatedAgents);
     
@@ -399,9 +490,10 @@ export function MergedWorkflowBuilder({
         }
       });
     }
-  }, [agents, onUpdateAgents, workflow.graph_structure, onUpdateWorkflow]);
+  }, [agents, onUpdateAgents, workflow.graph_structure, onUpdateWorkflow, recordHistory]);
 
   const handleDeleteAgent = useCallback((agentId: string) => {
+    recordHistory(`Delete agent ${getAgentName(agentId)}`);
     const updatedAgents = agents.filter(agent => (agent.id || agent.name) !== agentId);
     onUpdateAgents(updatedAgents);
     
@@ -421,7 +513,7 @@ export function MergedWorkflowBuilder({
         }
       });
     }
-  }, [agents, onUpdateAgents, workflow.graph_structure, onUpdateWorkflow]);
+  }, [agents, onUpdateAgents, workflow.graph_structure, onUpdateWorkflow, recordHistory, getAgentName]);
 
   const handleDuplicateAgent = useCallback((agent: Agent) => {
     const duplicatedAgent = {
@@ -430,9 +522,10 @@ export function MergedWorkflowBuilder({
       id: `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     };
     
+    recordHistory(`Duplicate agent ${agent.name}`);
     const updatedAgents = [...agents, duplicatedAgent];
     onUpdateAgents(updatedAgents);
-  }, [agents, onUpdateAgents]);
+  }, [agents, onUpdateAgents, recordHistory]);
 
   // Auto-layout handlers - IMPLEMENTED: actual layout algorithms with ReactFlow integration
   const handleAutoLayout = useCallback((layoutType: 'grid' | 'chain' | 'tree' | 'smart') => {
@@ -540,26 +633,28 @@ export function MergedWorkflowBuilder({
     }
     
     // ✅ IMPLEMENTED: Apply the positions to the nodes via state update
+    recordHistory(`Apply ${layoutType} layout`);
     setNodePositions(newPositions);
     console.log(`✅ Applied ${layoutType} layout positioning to ${agents.length} agents`);
-  }, [agents, workflowType]);
+  }, [agents, workflowType, recordHistory]);
 
-  // JSON paste handler
+  // JSON paste handler - pasted agents already carry fresh ids with the workflow remapped to them
   const handlePasteWorkflow = useCallback((templateData: Partial<Template>) => {
     if (templateData.agents) {
-      // Generate new IDs for pasted agents
-      const pastedAgents = templateData.agents.map(agent => ({
-        ...agent,
-        id: `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-      }));
-      
-      onUpdateAgents(pastedAgents);
+      recordHistory(`Paste workflow (${templateData.agents.length} agents)`);
+      onUpdateAgents(templateData.agents);
       
       if (templateData.workflow) {
         onUpdateWorkflow(templateData.workflow);
       }
     }
-  }, [onUpdateAgents, onUpdateWorkflow]);
+  }, [onUpdateAgents, onUpdateWorkflow, recordHistory]);
+
+  // Settings panel edits (e.g. typing a timeout) collapse into one undo step
+  const handleConfigPanelUpdate = useCallback((updates: Partial<WorkflowConfig>) => {
+    recordHistory('Edit workflow settings', { mergeKey: 'workflow-settings' });
+    onUpdateWorkflow(updates);
+  }, [onUpdateWorkflow, recordHistory]);
 
   // Validation for the current template
   const validationResult = useMemo(() => {
@@ -609,7 +704,14 @@ export function MergedWorkflowBuilder({
         <Alert className="border-green-200 bg-green-50">
           <CheckCircle className="h-4 w-4 text-green-600" />
           <AlertDescription className="text-green-800">
-            Workflow is valid and ready for execution
+            <div>Workflow is valid and ready for execution</div>
+            {graphAnalysis && graphAnalysis.criticalPath.nodes.length > 1 && (
+              <div className="text-sm mt-1">
+                Critical path: {graphAnalysis.criticalPath.nodes
+                  .map(id => agents.find(a => (a.id || a.name) === id)?.name || id)
+                  .join(' → ')} ({graphAnalysis.criticalPath.totalSeconds}s worst case)
+              </div>
+            )}
           </AlertDescription>
         </Alert>
       );
@@ -725,6 +827,16 @@ export function MergedWorkflowBuilder({
                   onCreateCustom={() => handleCreateTemplate('custom')}
                   currentWorkflowType={workflowType}
                   agentCount={agents.length}
+                  history={{
+                    entries: history.entries,
+                    cursor: history.cursor,
+                    canUndo: history.canUndo,
+                    canRedo: history.canRedo,
+                    onUndo: undo,
+                    onRedo: redo,
+                    onJump: history.jumpTo
+                  }}
+                  onDryRun={() => setShowDryRun(true)}
                 />
               </div>
             </div>
@@ -736,7 +848,7 @@ export function MergedWorkflowBuilder({
           agents={agents}
           workflow={workflow}
           workflowType={workflowType}
-          onUpdateWorkflow={onUpdateWorkflow}
+          onUpdateWorkflow={handleConfigPanelUpdate}
         />
 
         {/* Edge Condition Editor Modal */}
@@ -748,6 +860,15 @@ export function MergedWorkflowBuilder({
           sourceAgentName={selectedEdge?.data?.sourceAgentName}
           targetAgentName={selectedEdge?.data?.targetAgentName}
         />
+
+        {/* Dry Run Simulator */}
+        <DryRunSimulatorDialog
+          isOpen={showDryRun}
+          onClose={() => setShowDryRun(false)}
+          agents={agents}
+          workflow={workflow}
+          templateId={templateId}
+        />
       </div>
     </ReactFlowProvider>
   );
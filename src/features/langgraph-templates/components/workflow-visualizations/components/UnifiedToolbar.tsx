@@ -1,17 +1,33 @@
 /**
  * Unified Toolbar Component
- * One-click workflow template creation tools
+ * One-click workflow template creation tools, undo/redo history and dry run
  */
 
 import { Button } from '../../../../../components/ui/button';
 import { Badge } from '../../../../../components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '../../../../../components/ui/popover';
 import { 
   ArrowRight, 
   GitBranch, 
   GitMerge, 
   Zap, 
-  Trash2
+  Trash2,
+  Undo2,
+  Redo2,
+  History,
+  FlaskConical
 } from 'lucide-react';
+import type { WorkflowHistoryEntry } from '../../../hooks/useWorkflowHistory';
+
+interface UnifiedToolbarHistory {
+  entries: WorkflowHistoryEntry[];
+  cursor: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (cursor: number) => void;
+}
 
 interface UnifiedToolbarProps {
   onCreateSequential: () => void;
@@ -20,15 +36,22 @@ interface UnifiedToolbarProps {
   onCreateCustom: () => void;
   currentWorkflowType: string;
   agentCount: number;
+  history?: UnifiedToolbarHistory;
+  onDryRun?: () => void;
 }
 
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const modKey = isMac ? '⌘' : 'Ctrl+';
+
 export function UnifiedToolbar({
   onCreateSequential,
   onCreateParallel,
   onCreateConditional,
   onCreateCustom,
   currentWorkflowType,
-  agentCount
+  agentCount,
+  history,
+  onDryRun
 }: UnifiedToolbarProps) {
   
   const getWorkflowTypeColor = (type: string) => {
@@ -122,6 +145,100 @@ export function UnifiedToolbar({
             Clear
           </Button>
         </div>
+
+        {/* Dry Run */}
+        {onDryRun && (
+          <>
+            <div className="w-px h-6 bg-gray-300" />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onDryRun}
+              disabled={isDisabled}
+              className="flex items-center gap-2"
+              title="Simulate the workflow path with mock agent outputs"
+            >
+              <FlaskConical className="h-4 w-4" />
+              Dry Run
+            </Button>
+          </>
+        )}
+
+        {/* Undo / Redo History */}
+        {history && (
+          <>
+            <div className="w-px h-6 bg-gray-300" />
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={history.onUndo}
+                disabled={!history.canUndo}
+                title={`Undo${history.canUndo ? ` ${history.entries[history.cursor - 1].label}` : ''} (${modKey}Z)`}
+                aria-label="Undo"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={history.onRedo}
+                disabled={!history.canRedo}
+                title={`Redo${history.canRedo ? ` ${history.entries[history.cursor].label}` : ''} (${modKey}Shift+Z)`}
+                aria-label="Redo"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={history.entries.length === 0}
+                    title="Edit history"
+                    aria-label="Edit history"
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-64 p-2">
+                  <div className="text-xs font-medium text-gray-500 px-2 pb-1">History</div>
+                  <div className="max-h-64 overflow-y-auto">
+                    {[...history.entries].reverse().map((entry, reversedIndex) => {
+                      const position = history.entries.length - reversedIndex;
+                      const isCurrent = position === history.cursor;
+                      const isUndone = position > history.cursor;
+                      return (
+                        <button
+                          key={entry.id}
+                          type="button"
+                          onClick={() => history.onJump(position)}
+                          className={`w-full flex items-center justify-between gap-2 rounded px-2 py-1 text-left text-xs hover:bg-gray-100 ${
+                            isCurrent ? 'bg-blue-50 font-medium text-blue-700' : isUndone ? 'text-gray-400 line-through' : 'text-gray-700'
+                          }`}
+                        >
+                          <span className="truncate">{entry.label}</span>
+                          <span className="shrink-0 text-[10px] text-gray-400">
+                            {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                          </span>
+                        </button>
+                      );
+                    })}
+                    <button
+                      type="button"
+                      onClick={() => history.onJump(0)}
+                      className={`w-full rounded px-2 py-1 text-left text-xs hover:bg-gray-100 ${
+                        history.cursor === 0 ? 'bg-blue-50 font-medium text-blue-700' : 'text-gray-500'
+                      }`}
+                    >
+                      Initial state
+                    </button>
+                  </div>
+                </PopoverContent>
+              </Popover>
+            </div>
+          </>
+        )}
       </div>
 
       {/* Help Text */}
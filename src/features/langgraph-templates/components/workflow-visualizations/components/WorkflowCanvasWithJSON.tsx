@@ -20,6 +20,13 @@ import ReactFlow, {
 } from 'reactflow';
 import { Button } from '../../../../../components/ui/button';
 import { Download, Zap } from 'lucide-react';
+import {
+  getTemplateFileMimeType,
+  getTemplateFileName,
+  importTemplateFile,
+  serializeTemplateFile,
+  type TemplateFileType
+} from '../../../utils/template-file-format';
 import type { Agent, WorkflowConfig, Template } from '../../../types';
 
 interface WorkflowCanvasWithJSONProps {
@@ -83,14 +90,11 @@ export function WorkflowCanvasWithJSON({
       validation_warnings: []
     };
 
-    const templateData: Partial<Template> = {
+    // Agent ids are normalised to portable ids when the file is serialized
+    const templateData: Pick<Template, 'name' | 'description' | 'agents' | 'workflow'> = {
       name: `Workflow Template - ${new Date().toLocaleDateString()}`,
       description: `${workflowType} workflow with ${agents.length} agents`,
-      agents: agents.map(agent => ({
-        ...agent,
-        // Ensure we have clean agent data
-        id: agent.id || `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-      })),
+      agents,
       workflow: {
         ...workflow,
         // Use cleaned graph structure without virtual nodes
@@ -103,11 +107,10 @@ export function WorkflowCanvasWithJSON({
     return templateData;
   }, [agents, workflow, workflowType]);
 
-  // Copy workflow as JSON
+  // Copy workflow as a template file (JSON)
   const handleCopyJSON = useCallback(async () => {
     try {
-      const templateData = generateTemplateJSON();
-      const jsonString = JSON.stringify(templateData, null, 2);
+      const jsonString = serializeTemplateFile(generateTemplateJSON(), 'json');
       
       await navigator.clipboard.writeText(jsonString);
       
@@ -117,7 +120,7 @@ export function WorkflowCanvasWithJSON({
     }
   }, [generateTemplateJSON, agents.length]);
 
-  // Paste workflow from JSON
+  // Paste workflow from a template file (JSON or YAML, any schema version)
   const handlePasteJSON = useCallback(async () => {
     try {
       const clipboardText = await navigator.clipboard.readText();
@@ -127,50 +130,46 @@ export function WorkflowCanvasWithJSON({
         return;
       }
 
-      // Parse JSON
+      // Parse, migrate and remap agent ids to fresh ones
       let templateData: Partial<Template>;
       try {
-        templateData = JSON.parse(clipboardText);
-      } catch {
-        console.error('Invalid JSON in clipboard');
-        return;
-      }
-
-      // Validate template structure
-      if (!templateData.agents || !Array.isArray(templateData.agents)) {
-        console.error('Invalid template structure');
+        const result = importTemplateFile(clipboardText);
+        result.warnings.forEach(warning => console.warn(warning));
+        templateData = result.template;
+      } catch (error) {
+        console.error('Invalid template in clipboard:', error);
         return;
       }
 
       // Apply the pasted workflow
       if (onPasteWorkflow) {
         onPasteWorkflow(templateData);
-        console.log(`✅ Workflow pasted: ${templateData.agents.length} agents`);
+        console.log(`✅ Workflow pasted: ${templateData.agents?.length || 0} agents`);
       }
     } catch (error) {
       console.error('Failed to paste workflow:', error);
     }
   }, [onPasteWorkflow]);
 
-  // Download workflow as JSON file
-  const handleDownloadJSON = useCallback(() => {
+  // Download workflow as a template file
+  const handleDownloadJSON = useCallback((type: TemplateFileType = 'json') => {
     try {
       const templateData = generateTemplateJSON();
-      const jsonString = JSON.stringify(templateData, null, 2);
+      const content = serializeTemplateFile(templateData, type);
       
-      const blob = new Blob([jsonString], { type: 'application/json' });
+      const blob = new Blob([content], { type: getTemplateFileMimeType(type) });
       const url = URL.createObjectURL(blob);
       
       const link = document.createElement('a');
       link.href = url;
-      link.download = `workflow-${workflowType}-${Date.now()}.json`;
+      link.download = getTemplateFileName({ name: `workflow-${workflowType}-${Date.now()}` }, type);
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
       
       URL.revokeObjectURL(url);
       
-      console.log('✅ Workflow downloaded as JSON');
+      console.log(`✅ Workflow downloaded as ${type.toUpperCase()}`);
     } catch (error) {
       console.error('Failed to download workflow:', error);
     }
@@ -223,17 +222,27 @@ export function WorkflowCanvasWithJSON({
       >
 
         {/* Download Panel */}
-        <Panel position="bottom-right" className="bg-white rounded-lg shadow-sm border border-gray-200 p-2">
+        <Panel position="bottom-right" className="bg-white rounded-lg shadow-sm border border-gray-200 p-2 flex gap-1">
           <Button
             variant="outline"
             size="sm"
-            onClick={handleDownloadJSON}
+            onClick={() => handleDownloadJSON('json')}
             className="text-xs"
-            title="Download workflow as JSON file"
+            title="Download workflow as a JSON template file"
           >
             <Download className="h-3 w-3 mr-1" />
             Download JSON
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleDownloadJSON('yaml')}
+            className="text-xs"
+            title="Download workflow as a YAML template file"
+          >
+            <Download className="h-3 w-3 mr-1" />
+            YAML
+          </Button>
         </Panel>
 
         {/* Controls & MiniMap */}
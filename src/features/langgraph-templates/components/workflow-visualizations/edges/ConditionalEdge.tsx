@@ -6,10 +6,14 @@
 import { getBezierPath, EdgeLabelRenderer } from 'reactflow';
 import type { EdgeProps } from 'reactflow';
 import { Badge } from '../../../../../components/ui/badge';
+import type { GraphIssue } from '../../../utils/graph-analysis';
+import { EdgeIssueHighlight } from './EdgeIssueHighlight';
 
 interface EdgeData {
-  condition_type?: 'success' | 'failure' | 'custom';
+  condition_type?: 'success' | 'failure' | 'custom' | 'conditional';
+  condition?: string;
   workflowType?: string;
+  graphIssues?: GraphIssue[];
 }
 
 export function ConditionalEdge({
@@ -44,6 +48,7 @@ export function ConditionalEdge({
     switch (conditionType) {
       case 'success': return '✓ Success';
       case 'failure': return '✗ Failure';
+      case 'conditional': return 'ƒ Condition';
       default: return '⚙ Custom';
     }
   };
@@ -52,6 +57,9 @@ export function ConditionalEdge({
 
   return (
     <>
+      {/* Graph Analysis Problems */}
+      <EdgeIssueHighlight edgePath={edgePath} issues={data?.graphIssues} />
+
       {/* Main Edge Path */}
       <path
         id={id}
@@ -82,10 +90,11 @@ export function ConditionalEdge({
               text-xs font-medium shadow-sm bg-white border-2 px-2 py-1
               ${data?.condition_type === 'success' ? 'border-green-500 text-green-700' : ''}
               ${data?.condition_type === 'failure' ? 'border-red-500 text-red-700' : ''}
-              ${data?.condition_type === 'custom' ? 'border-orange-500 text-orange-700' : ''}
+              ${data?.condition_type === 'custom' || data?.condition_type === 'conditional' ? 'border-orange-500 text-orange-700' : ''}
               ${selected ? 'ring-2 ring-blue-200' : ''}
               hover:shadow-md transition-shadow cursor-pointer
             `}
+            title={data?.condition_type === 'conditional' ? data.condition : undefined}
           >
             {getConditionLabel(data?.condition_type)}
           </Badge>
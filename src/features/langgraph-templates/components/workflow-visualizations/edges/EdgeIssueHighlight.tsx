@@ -0,0 +1,31 @@
+/**
+ * Edge Issue Highlight
+ * Red / yellow halo behind an edge flagged by graph analysis
+ */
+
+import type { GraphIssue } from '../../../utils/graph-analysis';
+
+interface EdgeIssueHighlightProps {
+  edgePath: string;
+  issues?: GraphIssue[];
+}
+
+export function EdgeIssueHighlight({ edgePath, issues }: EdgeIssueHighlightProps) {
+  if (!issues || issues.length === 0) return null;
+
+  const color = issues.some(issue => issue.severity === 'error') ? '#ef4444' : '#eab308';
+
+  return (
+    <path
+      style={{
+        stroke: color,
+        strokeWidth: 10,
+        strokeOpacity: 0.35,
+        fill: 'none'
+      }}
+      d={edgePath}
+    >
+      <title>{issues.map(issue => issue.message).join('\n')}</title>
+    </path>
+  );
+}
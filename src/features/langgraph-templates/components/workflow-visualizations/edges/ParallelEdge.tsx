@@ -5,10 +5,13 @@
 
 import { getBezierPath } from 'reactflow';
 import type { EdgeProps } from 'reactflow';
+import type { GraphIssue } from '../../../utils/graph-analysis';
+import { EdgeIssueHighlight } from './EdgeIssueHighlight';
 
 interface EdgeData {
   condition_type?: string;
   workflowType?: string;
+  graphIssues?: GraphIssue[];
 }
 
 export function ParallelEdge({
@@ -19,6 +22,7 @@ export function ParallelEdge({
   targetY,
   sourcePosition,
   targetPosition,
+  data,
   selected
 }: EdgeProps<EdgeData>) {
   const [edgePath] = getBezierPath({
@@ -32,6 +36,9 @@ export function ParallelEdge({
 
   return (
     <>
+      {/* Graph Analysis Problems */}
+      <EdgeIssueHighlight edgePath={edgePath} issues={data?.graphIssues} />
+
       {/* Main Edge Path */}
       <path
         id={id}
@@ -6,16 +6,38 @@
 import { Handle, Position } from 'reactflow';
 import type { NodeProps } from 'reactflow';
 import { Badge } from '../../../../../components/ui/badge';
-import { User, Zap, Search } from 'lucide-react';
+import { User, Zap, Search, AlertTriangle } from 'lucide-react';
 import type { Agent } from '../../../types';
+import type { DryRunHighlight } from '../../../utils/dry-run-simulator';
+import type { GraphIssue } from '../../../utils/graph-analysis';
 
 interface AgentNodeData extends Agent {
   index: number;
   isEntryPoint: boolean;
   connectionCount: number;
+  simulation?: DryRunHighlight['nodes'][string];
+  graphIssues?: GraphIssue[];
 }
 
+const simulationStyles = {
+  active: 'border-blue-500 ring-4 ring-blue-200 animate-pulse',
+  succeeded: 'border-green-500 ring-2 ring-green-200',
+  failed: 'border-red-500 ring-2 ring-red-200',
+  cancelled: 'border-gray-400 opacity-60',
+};
+
+const issueStyles = {
+  error: 'border-red-500 ring-2 ring-red-200',
+  warning: 'border-yellow-500 ring-2 ring-yellow-200',
+};
+
 export function CustomAgentNode({ data, selected }: NodeProps<AgentNodeData>) {
+  const simulation = data.simulation;
+  const issues = simulation ? [] : data.graphIssues || [];
+  const issueSeverity = issues.length === 0
+    ? null
+    : issues.some(issue => issue.severity === 'error') ? 'error' : 'warning';
+
   // Check if agent has Tavily tools enabled
   const hasTavilyTools = data.tavily_config && (
     data.tavily_config.search_api || 
@@ -29,6 +51,8 @@ export function CustomAgentNode({ data, selected }: NodeProps<AgentNodeData>) {
       bg-white border-2 rounded-lg shadow-lg min-w-[180px] p-3 relative
       ${selected ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-300'}
       ${data.isEntryPoint ? 'border-green-500 bg-green-50' : ''}
+      ${simulation ? simulationStyles[simulation.status] : ''}
+      ${issueSeverity ? issueStyles[issueSeverity] : ''}
       hover:shadow-xl transition-all duration-200 cursor-move
     `}>
       {/* Agent Header */}
@@ -85,6 +109,35 @@ export function CustomAgentNode({ data, selected }: NodeProps<AgentNodeData>) {
         </div>
       )}
 
+      {/* Graph analysis problems */}
+      {issueSeverity && (
+        <div
+          className={`absolute -bottom-2 -right-2 text-white text-xs px-2 py-1 rounded-full flex items-center gap-1 ${
+            issueSeverity === 'error' ? 'bg-red-500' : 'bg-yellow-500'
+          }`}
+          title={issues.map(issue => issue.message).join('\n')}
+        >
+          <AlertTriangle className="h-3 w-3" />
+          {issues.length}
+        </div>
+      )}
+
+      {/* Dry-run execution order */}
+      {simulation && (
+        <div className="absolute -top-2 -left-2 flex gap-1">
+          {simulation.order.map(order => (
+            <span
+              key={order}
+              className={`text-white text-xs font-bold px-1.5 py-0.5 rounded-full ${
+                simulation.status === 'failed' ? 'bg-red-500' : simulation.status === 'cancelled' ? 'bg-gray-400' : 'bg-blue-600'
+              }`}
+            >
+              #{order}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Connection Handles */}
       <Handle
         type="target"
@@ -8,10 +8,12 @@ import type { EdgeProps } from 'reactflow';
 import { Badge } from '../../../../../components/ui/badge';
 
 interface EdgeData {
-  condition_type: 'always' | 'success' | 'failure' | 'custom';
+  condition_type: 'always' | 'success' | 'failure' | 'custom' | 'conditional';
   condition?: string;
   sourceAgentName?: string;
   targetAgentName?: string;
+  // Dry-run state, set only while a simulation is shown
+  simulation?: 'taken' | 'skipped' | 'pending';
 }
 
 export function CustomWorkflowEdge({
@@ -55,10 +57,20 @@ export function CustomWorkflowEdge({
       stroke: '#8b5cf6', 
       strokeWidth: selected ? 3 : 2,
       strokeDasharray: '10,5'
+    },
+    conditional: { 
+      stroke: '#8b5cf6', 
+      strokeWidth: selected ? 3 : 2,
+      strokeDasharray: '10,5'
     }
   };
 
-  const style = edgeStyles[data?.condition_type || 'always'];
+  const baseStyle = edgeStyles[data?.condition_type || 'always'];
+  const style = data?.simulation === 'taken'
+    ? { ...baseStyle, stroke: '#2563eb', strokeWidth: 4 }
+    : data?.simulation
+      ? { ...baseStyle, stroke: '#d1d5db', strokeOpacity: data.simulation === 'skipped' ? 0.5 : 1 }
+      : baseStyle;
 
   return (
     <>
@@ -88,7 +100,8 @@ export function CustomWorkflowEdge({
                 text-xs font-medium shadow-sm bg-white border-2 px-2 py-1
                 ${data.condition_type === 'success' ? 'border-green-500 text-green-700' : ''}
                 ${data.condition_type === 'failure' ? 'border-red-500 text-red-700' : ''}
-                ${data.condition_type === 'custom' ? 'border-purple-500 text-purple-700' : ''}
+                ${data.condition_type === 'custom' || data.condition_type === 'conditional' ? 'border-purple-500 text-purple-700' : ''}
+                ${data.simulation === 'skipped' ? 'opacity-50 line-through' : ''}
                 ${selected ? 'ring-2 ring-blue-200' : ''}
                 hover:shadow-md transition-shadow cursor-pointer
               `}
@@ -96,6 +109,7 @@ export function CustomWorkflowEdge({
               {data.condition_type === 'success' && '✓ Success'}
               {data.condition_type === 'failure' && '✗ Failure'}
               {data.condition_type === 'custom' && '⚙ Custom'}
+              {data.condition_type === 'conditional' && (data.condition || 'ƒ Condition')}
             </Badge>
           </div>
         </EdgeLabelRenderer>
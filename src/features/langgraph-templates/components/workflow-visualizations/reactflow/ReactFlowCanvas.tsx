@@ -23,12 +23,15 @@ import { CustomWorkflowEdge } from './CustomWorkflowEdge';
 import { Button } from '../../../../../components/ui/button';
 import { RotateCcw, Download, Network } from 'lucide-react';
 import type { Agent, WorkflowConfig } from '../../../types';
+import type { DryRunHighlight } from '../../../utils/dry-run-simulator';
 
 interface ReactFlowCanvasProps {
   agents: Agent[];
   workflow: WorkflowConfig;
-  onUpdateWorkflow: (updates: Partial<WorkflowConfig>) => void;
-  onSetEntryPoint: (agentId: string) => void;
+  onUpdateWorkflow?: (updates: Partial<WorkflowConfig>) => void;
+  onSetEntryPoint?: (agentId: string) => void;
+  // Dry-run path to highlight; the canvas is read-only while set
+  simulation?: DryRunHighlight;
 }
 
 // Node types for React Flow
@@ -66,8 +69,10 @@ export function ReactFlowCanvas({
   agents,
   workflow,
   onUpdateWorkflow,
-  onSetEntryPoint
+  onSetEntryPoint,
+  simulation
 }: ReactFlowCanvasProps) {
+  const readOnly = Boolean(simulation);
   
   // Transform agents to React Flow nodes
   const initialNodes = useMemo(() => {
@@ -171,7 +176,7 @@ export function ReactFlowCanvas({
 
   // Handle new connections
   const onConnect = useCallback((connection: Connection) => {
-    if (!connection.source || !connection.target) return;
+    if (!connection.source || !connection.target || !onUpdateWorkflow) return;
 
     // Create new edge in backend format
     const newEdge = {
@@ -217,7 +222,7 @@ export function ReactFlowCanvas({
   // Handle node clicks for entry point setting
   const onNodeClick = useCallback((_event: React.MouseEvent, node: Node) => {
     if (node.type === 'agentNode') {
-      onSetEntryPoint(node.id);
+      onSetEntryPoint?.(node.id);
     }
   }, [onSetEntryPoint]);
 
@@ -244,6 +249,30 @@ export function ReactFlowCanvas({
     setNodes(layoutedNodes);
   }, [nodes, agents, setNodes]);
 
+  // Overlay the simulated path without touching the editable node / edge state
+  const displayNodes = useMemo(() => {
+    if (!simulation) return nodes;
+    return nodes.map(node => ({
+      ...node,
+      draggable: false,
+      data: {
+        ...node.data,
+        simulation: node.type === 'endNode'
+          ? (simulation.endReached ? 'reached' : undefined)
+          : simulation.nodes[node.id]
+      }
+    }));
+  }, [nodes, simulation]);
+
+  const displayEdges = useMemo(() => {
+    if (!simulation) return edges;
+    return edges.map(edge => ({
+      ...edge,
+      animated: simulation.edges[edge.id] === 'taken',
+      data: { ...edge.data, simulation: simulation.edges[edge.id] || 'pending' }
+    }));
+  }, [edges, simulation]);
+
   // Export function
   const exportWorkflow = useCallback(() => {
     // This would implement export functionality
@@ -253,12 +282,13 @@ export function ReactFlowCanvas({
   return (
     <div className="h-[600px] w-full border-2 border-gray-200 rounded-lg bg-gray-50 relative">
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
+        nodes={displayNodes}
+        edges={displayEdges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
-        onConnect={onConnect}
-        onNodeClick={onNodeClick}
+        onConnect={readOnly ? undefined : onConnect}
+        onNodeClick={readOnly ? undefined : onNodeClick}
+        nodesConnectable={!readOnly}
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
         connectionMode={ConnectionMode.Loose}
@@ -287,7 +317,7 @@ export function ReactFlowCanvas({
         <Panel position="top-left" className="bg-white rounded-lg shadow-sm border border-gray-200 p-3">
           <div className="flex items-center gap-2">
             <Network className="h-5 w-5 text-blue-600" />
-            <h3 className="font-semibold text-gray-800">Workflow Builder</h3>
+            <h3 className="font-semibold text-gray-800">{readOnly ? 'Dry Run' : 'Workflow Builder'}</h3>
           </div>
         </Panel>
 
@@ -314,12 +344,14 @@ export function ReactFlowCanvas({
         </Panel>
 
         {/* Instructions Panel */}
-        <Panel position="bottom-center" className="bg-white rounded-lg shadow-sm border border-gray-200 p-3">
-          <div className="text-xs text-gray-600 text-center">
-            <div className="font-medium mb-1">💡 How to use:</div>
-            <div>• <strong>Drag agents</strong> to reposition • <strong>Connect handles</strong> to create edges • <strong>Click agents</strong> to set entry point</div>
-          </div>
-        </Panel>
+        {!readOnly && (
+          <Panel position="bottom-center" className="bg-white rounded-lg shadow-sm border border-gray-200 p-3">
+            <div className="text-xs text-gray-600 text-center">
+              <div className="font-medium mb-1">💡 How to use:</div>
+              <div>• <strong>Drag agents</strong> to reposition • <strong>Connect handles</strong> to create edges • <strong>Click agents</strong> to set entry point</div>
+            </div>
+          </Panel>
+        )}
       </ReactFlow>
     </div>
   );
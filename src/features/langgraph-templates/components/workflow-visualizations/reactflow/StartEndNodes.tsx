@@ -33,12 +33,13 @@ export function StartNode({ selected }: NodeProps) {
   );
 }
 
-export function EndNode({ selected }: NodeProps) {
+export function EndNode({ data, selected }: NodeProps<{ simulation?: 'reached' }>) {
   return (
     <div className={`
       bg-red-100 border-2 border-red-500 rounded-full w-20 h-20 
       flex items-center justify-center shadow-lg relative
       ${selected ? 'ring-2 ring-red-300' : ''}
+      ${data?.simulation === 'reached' ? 'ring-4 ring-green-300 animate-pulse' : ''}
       hover:shadow-xl transition-all duration-200
     `}>
       <Square className="h-8 w-8 text-red-600" />
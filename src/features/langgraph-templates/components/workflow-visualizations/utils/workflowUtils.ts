@@ -3,32 +3,14 @@
  * Helper functions for workflow detection and template creation
  */
 
-import type { Agent, WorkflowConfig } from '../../../types';
+import type { Agent, GraphStructure, WorkflowConfig } from '../../../types';
+import { extractParallelGroups } from '../../../utils/graph-analysis';
 
 /**
  * Extract parallel groups from graph structure for validation compatibility
  */
 export function extractParallelGroupsFromGraph(workflow: WorkflowConfig): string[][] {
-  if (!workflow.graph_structure) return [];
-  
-  const graph = workflow.graph_structure;
-  const parallelGroups: string[][] = [];
-  
-  // Find nodes that start from 'start' node (parallel execution)
-  const startEdges = graph.edges.filter(edge => edge.from_node === 'start');
-  if (startEdges.length > 1) {
-    // Multiple edges from start = parallel execution
-    const parallelAgents = startEdges.map(edge => edge.to_node);
-    parallelGroups.push(parallelAgents);
-  } else {
-    // Single group with all agents
-    const agentNodes = graph.nodes.filter(node => !['start', 'end'].includes(node));
-    if (agentNodes.length > 0) {
-      parallelGroups.push(agentNodes);
-    }
-  }
-  
-  return parallelGroups;
+  return extractParallelGroups(workflow.graph_structure);
 }
 
 /**
@@ -74,6 +56,34 @@ export function detectWorkflowType(edges: Array<{ condition_type?: string; from_
   return 'custom';
 }
 
+const hasSameIds = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(id => b.includes(id));
+
+const isReplacedWithGraph = (previousIds: string[], agentIds: string[], graph: GraphStructure) =>
+  !agentIds.some(id => previousIds.includes(id)) &&
+  hasSameIds(graph.nodes || [], agentIds) &&
+  agentIds.every(id => graph.edges.some(edge => edge.from_node === id || edge.to_node === id));
+
+/**
+ * Whether the builder should replace the graph with a fresh sequential one.
+ * `previousIds` is null the first time the builder sees its agents.
+ */
+export function shouldRebuildSequentialWorkflow(
+  previousIds: string[] | null,
+  agentIds: string[],
+  graph: GraphStructure | undefined
+): boolean {
+  // A loaded graph (edit page, resumed draft, remount after rollback) is kept as is
+  if (previousIds === null && graph) return false;
+  // Editing an agent's settings doesn't change which agents the graph connects
+  if (previousIds !== null && hasSameIds(previousIds, agentIds)) return false;
+  // Agents replaced together with a graph built for them, e.g. a draft resumed in place.
+  // Adding or deleting an agent also updates the graph nodes, but keeps other agents
+  // or leaves the new one without edges, so those still rebuild.
+  if (graph && isReplacedWithGraph(previousIds || [], agentIds, graph)) return false;
+  return true;
+}
+
 // Create workflow templates
 export function createWorkflowTemplate(
   templateType: 'sequential' | 'parallel' | 'conditional' | 'custom',
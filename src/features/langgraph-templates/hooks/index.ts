@@ -6,5 +6,11 @@
 
 export { useTemplateCreation } from './useTemplateCreation';
 export { useTemplateExecution } from './useTemplateExecution';
-export { useTemplateList, useTemplateCategories, useTemplateSearch } from './useTemplateList';
+export { useTemplateList, useTemplateCategories, useTemplateTags, useTemplateSearch } from './useTemplateList';
 export { useTemplateDetail } from './useTemplateDetail';
+export { useTemplateVersions } from './useTemplateVersions';
+export { useCostEstimate } from './useCostEstimate';
+export { useTemplateDrafts, useDraftAutoSave } from './useTemplateDrafts';
+export { useBatchExecution } from './useBatchExecution';
+export { useWorkflowHistory } from './useWorkflowHistory';
+export type { WorkflowSnapshot, WorkflowHistoryEntry, NodePositions } from './useWorkflowHistory';
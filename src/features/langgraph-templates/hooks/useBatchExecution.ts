@@ -0,0 +1,198 @@
+/**
+ * Batch Execution Hook
+ *
+ * Runs one template over many rows with at most `concurrency` child
+ * executions in flight, polls them until they finish, and retries or
+ * cancels individual rows.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { executionHistoryService } from '../../execution-history/services';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  getBatchRowStatus,
+  isActiveBatchRow,
+  summarizeBatch,
+} from '../utils/batch-execution';
+import type { BatchRunRow, BatchSummary } from '../utils/batch-execution';
+
+interface UseBatchExecutionOptions {
+  pollInterval?: number;
+}
+
+interface UseBatchExecutionReturn {
+  rows: BatchRunRow[];
+  summary: BatchSummary;
+  concurrency: number;
+  isRunning: boolean;
+  start: (rows: BatchRunRow[], concurrency?: number) => void;
+  retryRow: (rowId: string) => void;
+  retryFailed: () => void;
+  cancelRemaining: () => Promise<void>;
+  reset: () => void;
+}
+
+export function useBatchExecution(
+  templateId: string | null,
+  options: UseBatchExecutionOptions = {}
+): UseBatchExecutionReturn {
+  const { pollInterval = 3000 } = options;
+
+  const [rows, setRowsState] = useState<BatchRunRow[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+
+  // The submit / poll loop reads the latest rows without re-subscribing
+  const rowsRef = useRef<BatchRunRow[]>([]);
+  const concurrencyRef = useRef(DEFAULT_BATCH_CONCURRENCY);
+  const isPollingRef = useRef(false);
+
+  const updateRows = useCallback((update: (rows: BatchRunRow[]) => BatchRunRow[]) => {
+    rowsRef.current = update(rowsRef.current);
+    setRowsState(rowsRef.current);
+  }, []);
+
+  const updateRow = useCallback((rowId: string, changes: Partial<BatchRunRow>) => {
+    updateRows(current => current.map(row => (row.id === rowId ? { ...row, ...changes } : row)));
+  }, [updateRows]);
+
+  const submitRow = useCallback(async (row: BatchRunRow) => {
+    if (!templateId) return;
+    try {
+      const response = await executionHistoryService.batchExecute([{
+        template_id: templateId,
+        query: row.query,
+        custom_parameters: Object.keys(row.parameters).length > 0 ? row.parameters : undefined,
+      }]);
+      const [started] = response.successful_executions;
+      const isCancelled = rowsRef.current.find(current => current.id === row.id)?.status === 'cancelled';
+      if (isCancelled) {
+        // Cancelled while it was being submitted
+        if (started) {
+          updateRow(row.id, { executionId: started.execution_id });
+          await executionHistoryService.cancelExecution(started.execution_id).catch(() => undefined);
+        }
+      } else if (started) {
+        updateRow(row.id, { status: 'running', executionId: started.execution_id });
+      } else {
+        updateRow(row.id, {
+          status: 'failed',
+          error: response.failed_executions[0]?.error || 'Execution could not be started',
+        });
+      }
+    } catch (err) {
+      updateRow(row.id, {
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Execution could not be started',
+      });
+    }
+  }, [templateId, updateRow]);
+
+  /**
+   * Start queued rows while there are free slots
+   */
+  const fillSlots = useCallback(() => {
+    const current = rowsRef.current;
+    const free = concurrencyRef.current - current.filter(isActiveBatchRow).length;
+    if (free <= 0) return;
+
+    const next = current.filter(row => row.status === 'queued').slice(0, free);
+    if (next.length === 0) return;
+
+    const ids = new Set(next.map(row => row.id));
+    updateRows(all => all.map(row => (ids.has(row.id)
+      ? { ...row, status: 'submitting', attempts: row.attempts + 1, error: undefined }
+      : row)));
+    next.forEach(row => {
+      submitRow(row).then(fillSlots);
+    });
+  }, [submitRow, updateRows]);
+
+  const pollRunning = useCallback(async () => {
+    if (isPollingRef.current) return;
+    isPollingRef.current = true;
+    try {
+      const running = rowsRef.current.filter(row => row.status === 'running' && row.executionId);
+      await Promise.all(running.map(async row => {
+        try {
+          const execution = await executionHistoryService.getExecution(row.executionId!);
+          // The row may have been cancelled or retried while the request was in flight
+          const current = rowsRef.current.find(candidate => candidate.id === row.id);
+          if (current?.status !== 'running' || current.executionId !== row.executionId) return;
+          updateRow(row.id, { execution, status: getBatchRowStatus(execution) });
+        } catch (err) {
+          // Keep polling; a single failed status check shouldn't fail the row
+          console.error(`Failed to check execution ${row.executionId}:`, err);
+        }
+      }));
+    } finally {
+      isPollingRef.current = false;
+    }
+    fillSlots();
+  }, [fillSlots, updateRow]);
+
+  const isRunning = rows.some(row => row.status === 'queued' || isActiveBatchRow(row));
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(pollRunning, pollInterval);
+    return () => clearInterval(interval);
+  }, [isRunning, pollRunning, pollInterval]);
+
+  const start = useCallback((batchRows: BatchRunRow[], batchConcurrency = DEFAULT_BATCH_CONCURRENCY) => {
+    concurrencyRef.current = Math.max(1, batchConcurrency);
+    setConcurrency(concurrencyRef.current);
+    updateRows(() => batchRows);
+    fillSlots();
+  }, [fillSlots, updateRows]);
+
+  const retryRow = useCallback((rowId: string) => {
+    updateRows(current => current.map(row => (row.id === rowId
+      ? { ...row, status: 'queued', executionId: undefined, execution: undefined, error: undefined }
+      : row)));
+    fillSlots();
+  }, [fillSlots, updateRows]);
+
+  const retryFailed = useCallback(() => {
+    updateRows(current => current.map(row => (row.status === 'failed'
+      ? { ...row, status: 'queued', executionId: undefined, execution: undefined, error: undefined }
+      : row)));
+    fillSlots();
+  }, [fillSlots, updateRows]);
+
+  /**
+   * Drop queued rows and cancel the executions still running
+   */
+  const cancelRemaining = useCallback(async () => {
+    const running = rowsRef.current.filter(row => row.status === 'running' && row.executionId);
+    updateRows(current => current.map(row => (row.status === 'queued' || row.status === 'submitting'
+      ? { ...row, status: 'cancelled' }
+      : row)));
+
+    await Promise.all(running.map(async row => {
+      try {
+        await executionHistoryService.cancelExecution(row.executionId!);
+        updateRow(row.id, { status: 'cancelled' });
+      } catch (err) {
+        console.error(`Failed to cancel execution ${row.executionId}:`, err);
+      }
+    }));
+  }, [updateRow, updateRows]);
+
+  const reset = useCallback(() => {
+    updateRows(() => []);
+  }, [updateRows]);
+
+  return {
+    rows,
+    summary: summarizeBatch(rows),
+    concurrency,
+    isRunning,
+    start,
+    retryRow,
+    retryFailed,
+    cancelRemaining,
+    reset,
+  };
+}
+
+export default useBatchExecution;
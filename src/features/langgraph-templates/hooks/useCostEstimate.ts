@@ -0,0 +1,75 @@
+/**
+ * Cost Estimate Hook
+ *
+ * Pre-execution cost estimate for a template plus the user's budget ceiling
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { checkBudget, estimateTemplateCost } from '../utils/cost-estimator';
+import type { BudgetCheck, TemplateCostEstimate } from '../utils/cost-estimator';
+import type { Template } from '../types';
+
+const BUDGET_STORAGE_KEY_PREFIX = 'execution_budget_ceiling';
+
+interface UseCostEstimateReturn {
+  estimate: TemplateCostEstimate | null;
+  budget: BudgetCheck;
+  budgetCeiling: number | null;
+  setBudgetCeiling: (ceiling: number | null) => void;
+}
+
+// Each signed-in user keeps their own ceiling
+const getBudgetStorageKey = (userId?: string | null) =>
+  userId ? `${BUDGET_STORAGE_KEY_PREFIX}_${userId}` : BUDGET_STORAGE_KEY_PREFIX;
+
+function loadBudgetCeiling(storageKey: string): number | null {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    const value = stored ? parseFloat(stored) : NaN;
+    return isNaN(value) || value <= 0 ? null : value;
+  } catch {
+    return null;
+  }
+}
+
+export function useCostEstimate(template: Template | null, query: string = ''): UseCostEstimateReturn {
+  const { user } = useAuth();
+  const storageKey = getBudgetStorageKey(user?.id);
+  const [budgetCeiling, setBudgetCeilingState] = useState<number | null>(() => loadBudgetCeiling(storageKey));
+
+  useEffect(() => {
+    setBudgetCeilingState(loadBudgetCeiling(storageKey));
+  }, [storageKey]);
+
+  const estimate = useMemo(
+    () => (template ? estimateTemplateCost(template, query) : null),
+    [template, query]
+  );
+
+  const budget = useMemo<BudgetCheck>(
+    () => (estimate ? checkBudget(estimate, budgetCeiling) : { ceiling: budgetCeiling, exceeded: false, atRisk: false }),
+    [estimate, budgetCeiling]
+  );
+
+  const setBudgetCeiling = useCallback((ceiling: number | null) => {
+    const value = ceiling !== null && ceiling > 0 ? ceiling : null;
+    setBudgetCeilingState(value);
+    try {
+      if (value === null) {
+        localStorage.removeItem(storageKey);
+      } else {
+        localStorage.setItem(storageKey, String(value));
+      }
+    } catch (error) {
+      console.error('Failed to save budget ceiling:', error);
+    }
+  }, [storageKey]);
+
+  return {
+    estimate,
+    budget,
+    budgetCeiling,
+    setBudgetCeiling,
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Template Draft Hooks
+ *
+ * Per-user draft listing and continuous auto-save for the creation wizard
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../../../contexts/AuthContext';
+import { templateDraftService } from '../services/template-draft.service';
+import type { TemplateDraft } from '../services/template-draft.service';
+import type { Template } from '../types';
+
+const AUTO_SAVE_DELAY_MS = 1000;
+
+const draftsQueryKey = (userId: string | undefined) => ['template-drafts', userId];
+
+/**
+ * Only templates the user has actually started on are worth keeping
+ */
+function hasDraftContent(template: Template): boolean {
+  return Boolean(template.name.trim() || template.description.trim() || template.agents.length > 0);
+}
+
+export function useTemplateDrafts(options: { enabled?: boolean } = {}) {
+  const { enabled = true } = options;
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+
+  const { data: drafts = [], isLoading, error, refetch } = useQuery({
+    queryKey: draftsQueryKey(userId),
+    queryFn: () => templateDraftService.listDrafts(userId!),
+    enabled: enabled && Boolean(userId) && templateDraftService.isSupported(),
+  });
+
+  const discardDraft = useCallback(async (draftId: string) => {
+    await templateDraftService.deleteDraft(draftId);
+    await queryClient.invalidateQueries({ queryKey: draftsQueryKey(userId) });
+  }, [queryClient, userId]);
+
+  return {
+    drafts,
+    isLoading,
+    error,
+    refetch,
+    discardDraft,
+  };
+}
+
+interface UseDraftAutoSaveOptions {
+  template: Template;
+  step: string;
+  enabled?: boolean;
+}
+
+interface UseDraftAutoSaveReturn {
+  draftId: string | null;
+  lastSavedAt: Date | null;
+  saveError: string | null;
+  // Continue saving into an existing draft instead of a new one
+  resumeDraft: (draft: TemplateDraft) => void;
+  // Remove the current draft, e.g. once the template has been saved
+  discardCurrentDraft: () => Promise<void>;
+}
+
+export function useDraftAutoSave({ template, step, enabled = true }: UseDraftAutoSaveOptions): UseDraftAutoSaveReturn {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const draftIdRef = useRef<string | null>(null);
+  const createdAtRef = useRef<string | null>(null);
+  const pendingRef = useRef<{ template: Template; step: string } | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const canSave = enabled && Boolean(userId) && templateDraftService.isSupported();
+
+  const flush = useCallback(async () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (!pending || !userId) return;
+
+    if (!draftIdRef.current) {
+      draftIdRef.current = templateDraftService.createDraftId();
+      createdAtRef.current = new Date().toISOString();
+      setDraftId(draftIdRef.current);
+    }
+
+    const now = new Date();
+    try {
+      await templateDraftService.saveDraft({
+        id: draftIdRef.current,
+        user_id: userId,
+        template: pending.template,
+        step: pending.step,
+        created_at: createdAtRef.current || now.toISOString(),
+        updated_at: now.toISOString(),
+      });
+      setLastSavedAt(now);
+      setSaveError(null);
+      queryClient.invalidateQueries({ queryKey: draftsQueryKey(userId) });
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save draft');
+    }
+  }, [userId, queryClient]);
+
+  // Debounced save on every change
+  useEffect(() => {
+    if (!canSave || !hasDraftContent(template)) return;
+
+    pendingRef.current = { template, step };
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+    }
+    timerRef.current = setTimeout(() => {
+      flush();
+    }, AUTO_SAVE_DELAY_MS);
+  }, [canSave, template, step, flush]);
+
+  // Save immediately when the tab is hidden or closed, and on unmount
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        flush();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush]);
+
+  const resumeDraft = useCallback((draft: TemplateDraft) => {
+    draftIdRef.current = draft.id;
+    createdAtRef.current = draft.created_at;
+    setDraftId(draft.id);
+    setLastSavedAt(new Date(draft.updated_at));
+  }, []);
+
+  const discardCurrentDraft = useCallback(async () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    pendingRef.current = null;
+
+    const id = draftIdRef.current;
+    draftIdRef.current = null;
+    createdAtRef.current = null;
+    setDraftId(null);
+    setLastSavedAt(null);
+
+    if (id) {
+      try {
+        await templateDraftService.deleteDraft(id);
+        queryClient.invalidateQueries({ queryKey: draftsQueryKey(userId) });
+      } catch (error) {
+        // The template itself was saved; a leftover draft can be discarded from the list
+        console.error('Failed to discard saved draft:', error);
+      }
+    }
+  }, [queryClient, userId]);
+
+  return {
+    draftId,
+    lastSavedAt,
+    saveError,
+    resumeDraft,
+    discardCurrentDraft,
+  };
+}
@@ -6,6 +6,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { executionService } from '../services/execution.service';
+import { notificationService } from '../../../services/notification.service';
 import type { 
   ExecutionRequest, 
   ExecutionResponse, 
@@ -15,6 +16,7 @@ import type {
   InterventionRequest,
   InterventionResponse 
 } from '../services/execution.service';
+import type { StreamConnectionState } from '../services/execution-stream';
 import type { Template } from '../types';
 
 export interface WorkflowNode {
@@ -60,6 +62,7 @@ interface UseTemplateExecutionReturn {
   
   // Streaming state
   isConnected: boolean;
+  connectionState: StreamConnectionState;
   connectionId: string | null;
   lastEventTime: Date | null;
   
@@ -98,6 +101,7 @@ export function useTemplateExecution(
   const [parallelProgress, setParallelProgress] = useState<ParallelProgress | null>(null);
   
   const [isConnected, setIsConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<StreamConnectionState>('closed');
   const [connectionId, setConnectionId] = useState<string | null>(null);
   const [lastEventTime, setLastEventTime] = useState<Date | null>(null);
   
@@ -108,8 +112,8 @@ export function useTemplateExecution(
 
   // Refs
   const streamCleanupRef = useRef<(() => void) | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const currentExecutionIdRef = useRef<string | null>(null);
+  const templateNameRef = useRef<string | undefined>(undefined);
 
   // Initialize workflow from template
   const initializeWorkflow = useCallback((template: Template): WorkflowVisualization => {
@@ -225,6 +229,8 @@ export function useTemplateExecution(
           
           const updatedAgentResults = [...prev.agent_results];
           const existingIndex = updatedAgentResults.findIndex(r => r.agent_id === agentResult.agent_id);
+          // A result can arrive twice after a stream resume or polling fallback, so don't count it twice
+          const previous = existingIndex >= 0 ? updatedAgentResults[existingIndex] : null;
           
           if (existingIndex >= 0) {
             updatedAgentResults[existingIndex] = agentResult;
@@ -235,9 +241,9 @@ export function useTemplateExecution(
           const updatedExecution = {
             ...prev,
             agent_results: updatedAgentResults,
-            total_cost: prev.total_cost + agentResult.cost,
-            total_tokens: prev.total_tokens + agentResult.tokens_used,
-            total_tavily_credits: prev.total_tavily_credits + agentResult.tavily_credits,
+            total_cost: prev.total_cost - (previous?.cost || 0) + agentResult.cost,
+            total_tokens: prev.total_tokens - (previous?.tokens_used || 0) + agentResult.tokens_used,
+            total_tavily_credits: prev.total_tavily_credits - (previous?.tavily_credits || 0) + agentResult.tavily_credits,
           };
           
           console.log('✅ Execution State Updated:', {
@@ -283,6 +289,12 @@ export function useTemplateExecution(
           failed_agent: event.data.failed_agent,
           completed_at: event.data.completed_at,
         } : null);
+        notificationService.notify('completion', {
+          title: 'Execution completed',
+          body: templateNameRef.current ? `${templateNameRef.current} finished successfully` : undefined,
+          tag: `execution-${currentExecutionIdRef.current}`,
+          url: currentExecutionIdRef.current ? `/execution-history/${currentExecutionIdRef.current}` : undefined,
+        });
         break;
 
       case 'execution_error':
@@ -294,6 +306,12 @@ export function useTemplateExecution(
           error_message: event.data.error_message,
           failed_agent: event.data.failed_agent,
         } : null);
+        notificationService.notify('error', {
+          title: 'Execution failed',
+          body: event.data.error_message,
+          tag: `execution-${currentExecutionIdRef.current}`,
+          url: currentExecutionIdRef.current ? `/execution-history/${currentExecutionIdRef.current}` : undefined,
+        });
         break;
 
       case 'intervention_required':
@@ -301,10 +319,16 @@ export function useTemplateExecution(
         updateWorkflowNode(event.data.agent_id, {
           status: 'waiting_intervention',
         });
+        notificationService.notify('intervention', {
+          title: 'Intervention required',
+          body: `${event.data.agent_id} is waiting for your ${event.data.intervention_type || 'approval'}`,
+          tag: `intervention-${event.data.intervention_id}`,
+          url: '/interventions',
+        });
         break;
 
       case 'heartbeat':
-        // Keep connection alive
+        // Keep connection alive; the stream client resets its watchdog on every event
         break;
 
       default:
@@ -312,6 +336,15 @@ export function useTemplateExecution(
     }
   }, [updateWorkflowNode]);
 
+  // Track transport state from the stream client
+  const handleConnectionStateChange = useCallback((state: StreamConnectionState) => {
+    setConnectionState(state);
+    setIsConnected(state === 'open');
+    if (state !== 'open') {
+      setConnectionId(null);
+    }
+  }, []);
+
   // Start streaming
   const startStreaming = useCallback((executionId: string) => {
     if (streamCleanupRef.current) {
@@ -320,14 +353,18 @@ export function useTemplateExecution(
 
     if (enableRealTimeUpdates) {
       try {
-        const cleanup = executionService.createExecutionStream(executionId, handleStreamingEvent);
+        const cleanup = executionService.createExecutionStream(executionId, handleStreamingEvent, {
+          onStateChange: handleConnectionStateChange,
+          autoReconnect,
+          initialReconnectDelay: reconnectDelay,
+        });
         streamCleanupRef.current = cleanup;
       } catch (error) {
         console.error('Failed to start streaming:', error);
         setError('Failed to establish real-time connection');
       }
     }
-  }, [enableRealTimeUpdates, handleStreamingEvent]);
+  }, [enableRealTimeUpdates, handleStreamingEvent, handleConnectionStateChange, autoReconnect, reconnectDelay]);
 
   // Stop streaming
   const stopStreaming = useCallback(() => {
@@ -336,6 +373,7 @@ export function useTemplateExecution(
       streamCleanupRef.current = null;
     }
     setIsConnected(false);
+    setConnectionState('closed');
     setConnectionId(null);
   }, []);
 
@@ -412,7 +450,7 @@ export function useTemplateExecution(
       const intervention = pendingInterventions.find(i => i.intervention_id === response.intervention_id);
       if (intervention) {
         updateWorkflowNode(intervention.agent_id, {
-          status: response.action === 'approve' ? 'running' : 'failed',
+          status: response.action === 'reject' || response.action === 'cancel' ? 'failed' : 'running',
         });
       }
     } catch (error) {
@@ -420,12 +458,12 @@ export function useTemplateExecution(
     }
   }, [pendingInterventions, updateWorkflowNode]);
 
-  // Reconnect stream
+  // Reconnect stream manually, e.g. after the client gave up or fell back to polling
   const reconnectStream = useCallback(() => {
-    if (currentExecutionIdRef.current && !isConnected) {
+    if (currentExecutionIdRef.current && connectionState !== 'open') {
       startStreaming(currentExecutionIdRef.current);
     }
-  }, [isConnected, startStreaming]);
+  }, [connectionState, startStreaming]);
 
   // Load available templates
   const loadAvailableTemplates = useCallback(async () => {
@@ -467,38 +505,29 @@ export function useTemplateExecution(
     }
   }, [selectedTemplate]);
 
-  // Auto-reconnect on connection loss
+  // Load templates on mount
   useEffect(() => {
-    if (!isConnected && isExecuting && autoReconnect && currentExecutionIdRef.current) {
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
+    loadAvailableTemplates();
+  }, [loadAvailableTemplates]);
 
-      reconnectTimeoutRef.current = setTimeout(() => {
-        console.log('Attempting to reconnect...');
-        reconnectStream();
-      }, reconnectDelay);
-    }
+  // Template name for notification text
+  useEffect(() => {
+    templateNameRef.current = selectedTemplate?.name;
+  }, [selectedTemplate]);
 
-    return () => {
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-    };
-  }, [isConnected, isExecuting, autoReconnect, reconnectDelay, reconnectStream]);
+  // Mirror pending interventions in the document title
+  useEffect(() => {
+    notificationService.setPendingCount('execution', pendingInterventions.length);
+  }, [pendingInterventions.length]);
 
-  // Load templates on mount
   useEffect(() => {
-    loadAvailableTemplates();
-  }, [loadAvailableTemplates]);
+    return () => notificationService.setPendingCount('execution', 0);
+  }, []);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       stopStreaming();
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
     };
   }, [stopStreaming]);
 
@@ -515,6 +544,7 @@ export function useTemplateExecution(
     
     // Streaming state
     isConnected,
+    connectionState,
     connectionId,
     lastEventTime,
     
@@ -1,42 +1,37 @@
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, keepPreviousData } from '@tanstack/react-query'
 import { templateService } from '../services/template.service'
+import { toTemplateListParams } from '../utils/template-facets'
+import type { TemplateFacetFilters } from '../utils/template-facets'
 
-export interface UseTemplateListParams {
-  category?: string
-  is_public?: boolean
-  search?: string
+export interface UseTemplateListParams extends TemplateFacetFilters {
   page?: number
   limit?: number
 }
 
 export function useTemplateList(params: UseTemplateListParams = {}) {
+  const { page: requestedPage = 1, limit: requestedLimit = 5, ...filters } = params
+  const listParams = toTemplateListParams(filters)
+
   const {
     data: response,
     isLoading,
+    isFetching,
     error,
     refetch
   } = useQuery({
-    queryKey: ['templates-paginated', params.category, params.is_public, params.page, params.limit],
+    // Search and every facet are applied server-side, so all of them key the query
+    queryKey: ['templates-paginated', listParams, requestedPage, requestedLimit],
     queryFn: () => templateService.listTemplatesPaginated({
-      category: params.category,
-      is_public: params.is_public,
-      page: params.page || 1,
-      limit: params.limit || 5
+      ...listParams,
+      page: requestedPage,
+      limit: requestedLimit
     }),
+    placeholderData: keepPreviousData,
     staleTime: 1000 * 60 * 5, // 5 minutes
   })
 
-  // Client-side search filtering if search query is provided
-  const templates = response?.templates || []
-  const filteredTemplates = params.search 
-    ? templates.filter(template =>
-        template.name.toLowerCase().includes(params.search!.toLowerCase()) ||
-        template.description.toLowerCase().includes(params.search!.toLowerCase())
-      )
-    : templates
-
   return {
-    templates: filteredTemplates,
+    templates: response?.templates || [],
     total: response?.total || 0,
     page: response?.page || 1,
     limit: response?.limit || 5,
@@ -44,6 +39,7 @@ export function useTemplateList(params: UseTemplateListParams = {}) {
     hasNext: response ? response.page * response.limit < response.total : false,
     hasPrev: response ? response.page > 1 : false,
     isLoading,
+    isFetching,
     error,
     refetch
   }
@@ -57,6 +53,14 @@ export function useTemplateCategories() {
   })
 }
 
+export function useTemplateTags() {
+  return useQuery({
+    queryKey: ['template-tags'],
+    queryFn: () => templateService.getTags(),
+    staleTime: 1000 * 60 * 30, // 30 minutes
+  })
+}
+
 export function useTemplateSearch(query: string, enabled: boolean = true) {
   return useQuery({
     queryKey: ['template-search', query],
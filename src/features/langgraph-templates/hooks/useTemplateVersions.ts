@@ -0,0 +1,137 @@
+/**
+ * Template Versions Hook
+ *
+ * Version history, comparison and rollback for a single template
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { templateService } from '../services/template.service';
+import { templateVersionService } from '../services/template-version.service';
+import type { TemplateVersion } from '../services/template-version.service';
+import { diffTemplates } from '../utils/template-diff';
+import type { TemplateDiffEntry } from '../utils/template-diff';
+import type { Template } from '../types';
+
+interface UseTemplateVersionsReturn {
+  versions: TemplateVersion[];
+  latestVersion: TemplateVersion | null;
+
+  // Actions
+  ensureBaseline: (template: Template) => void;
+  saveVersion: (template: Template, note?: string) => Promise<Template>;
+  rollback: (version: number) => Promise<Template>;
+  compare: (fromVersion: number, toVersion: number) => TemplateDiffEntry[];
+  refresh: () => void;
+
+  // State
+  isSaving: boolean;
+  error: string | null;
+}
+
+export function useTemplateVersions(templateId: string): UseTemplateVersionsReturn {
+  const queryClient = useQueryClient();
+  const [versions, setVersions] = useState<TemplateVersion[]>(() =>
+    templateId ? templateVersionService.listVersions(templateId) : []
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const latestVersion = useMemo(
+    () => (versions.length > 0 ? versions[versions.length - 1] : null),
+    [versions]
+  );
+
+  const refresh = useCallback(() => {
+    setVersions(templateId ? templateVersionService.listVersions(templateId) : []);
+  }, [templateId]);
+
+  const invalidateTemplate = useCallback(async () => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['template', templateId] }),
+      queryClient.invalidateQueries({ queryKey: ['templates-paginated'] }),
+    ]);
+  }, [queryClient, templateId]);
+
+  // Record the server copy as version 1 the first time the template is edited
+  const ensureBaseline = useCallback((template: Template) => {
+    templateVersionService.ensureBaseline(template);
+    refresh();
+  }, [refresh]);
+
+  // Persist the template to the backend and record the result as a new version
+  const persist = useCallback(async (
+    template: Template,
+    options: { note?: string; restoredFrom?: number }
+  ): Promise<Template> => {
+    if (!templateId) {
+      throw new Error('Template ID is required to save a version');
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const latest = templateVersionService.getLatestVersion(templateId);
+      const nextVersion = (latest?.version || 0) + 1;
+      const versioned = templateVersionService.withGraphVersion(template, nextVersion);
+
+      const saved = await templateService.updateTemplate(templateId, versioned);
+
+      // The server save already succeeded; losing the local snapshot must not report it as failed
+      try {
+        templateVersionService.recordVersion({ ...saved, id: saved.id || templateId }, options);
+      } catch (recordError) {
+        console.warn('Template saved but its version snapshot could not be recorded:', recordError);
+      }
+
+      refresh();
+      await invalidateTemplate();
+      return saved;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save template version';
+      setError(message);
+      throw err;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [templateId, refresh, invalidateTemplate]);
+
+  const saveVersion = useCallback((template: Template, note?: string) => {
+    return persist(template, { note });
+  }, [persist]);
+
+  // Restore an older snapshot by saving it as the newest version
+  const rollback = useCallback(async (version: number) => {
+    const target = templateVersionService.getVersion(templateId, version);
+    if (!target) {
+      throw new Error(`Version ${version} not found`);
+    }
+
+    return persist(
+      { ...target.snapshot, id: templateId },
+      { note: `Rolled back to version ${version}`, restoredFrom: version }
+    );
+  }, [templateId, persist]);
+
+  const compare = useCallback((fromVersion: number, toVersion: number): TemplateDiffEntry[] => {
+    const from = versions.find(v => v.version === fromVersion);
+    const to = versions.find(v => v.version === toVersion);
+    if (!from || !to) return [];
+
+    return diffTemplates(from.snapshot, to.snapshot);
+  }, [versions]);
+
+  return {
+    versions,
+    latestVersion,
+    ensureBaseline,
+    saveVersion,
+    rollback,
+    compare,
+    refresh,
+    isSaving,
+    error,
+  };
+}
+
+export default useTemplateVersions;
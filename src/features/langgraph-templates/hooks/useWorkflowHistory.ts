@@ -0,0 +1,145 @@
+/**
+ * Workflow History Hook
+ *
+ * Snapshot-based undo/redo for the workflow builder. Each recorded command
+ * stores the builder state from before it ran, so a handler that performs
+ * several updates (paste, template generation) undoes in a single step.
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import type { Agent, WorkflowConfig } from '../types';
+
+export type NodePositions = { [agentId: string]: { x: number; y: number } };
+
+export interface WorkflowSnapshot {
+  agents: Agent[];
+  workflow: WorkflowConfig;
+  nodePositions: NodePositions;
+}
+
+export interface WorkflowHistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+}
+
+interface HistoryRecord extends WorkflowHistoryEntry {
+  mergeKey?: string;
+  before: WorkflowSnapshot;
+  // Captured when the command is undone so it can be redone
+  after: WorkflowSnapshot | null;
+}
+
+interface RecordOptions {
+  // Consecutive commands with the same key inside MERGE_WINDOW_MS collapse into one step
+  mergeKey?: string;
+}
+
+interface UseWorkflowHistoryOptions {
+  snapshot: WorkflowSnapshot;
+  restore: (snapshot: WorkflowSnapshot) => void;
+  limit?: number;
+}
+
+interface UseWorkflowHistoryReturn {
+  entries: WorkflowHistoryEntry[];
+  // Number of entries currently applied; entries at or after it have been undone
+  cursor: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  record: (label: string, options?: RecordOptions) => void;
+  undo: () => void;
+  redo: () => void;
+  jumpTo: (cursor: number) => void;
+  clear: () => void;
+}
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MERGE_WINDOW_MS = 1500;
+
+export function useWorkflowHistory({
+  snapshot,
+  restore,
+  limit = DEFAULT_HISTORY_LIMIT,
+}: UseWorkflowHistoryOptions): UseWorkflowHistoryReturn {
+  const [history, setHistory] = useState<{ records: HistoryRecord[]; cursor: number }>({ records: [], cursor: 0 });
+
+  // Latest values, so commands always snapshot the state they are about to change
+  const snapshotRef = useRef(snapshot);
+  snapshotRef.current = snapshot;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const nextIdRef = useRef(1);
+
+  const record = useCallback((label: string, options: RecordOptions = {}) => {
+    const { records, cursor } = historyRef.current;
+    const now = Date.now();
+    const last = cursor > 0 ? records[cursor - 1] : undefined;
+
+    if (
+      options.mergeKey &&
+      last?.mergeKey === options.mergeKey &&
+      cursor === records.length &&
+      now - last.timestamp < MERGE_WINDOW_MS
+    ) {
+      const merged = records.map((entry, index) => (index === cursor - 1 ? { ...entry, timestamp: now } : entry));
+      setHistory({ records: merged, cursor });
+      return;
+    }
+
+    const entry: HistoryRecord = {
+      id: nextIdRef.current++,
+      label,
+      timestamp: now,
+      mergeKey: options.mergeKey,
+      before: snapshotRef.current,
+      after: null,
+    };
+
+    // A new command discards anything that was undone
+    const nextRecords = [...records.slice(0, cursor), entry].slice(-limit);
+    setHistory({ records: nextRecords, cursor: nextRecords.length });
+  }, [limit]);
+
+  const jumpTo = useCallback((target: number) => {
+    const { records, cursor } = historyRef.current;
+    const nextCursor = Math.max(0, Math.min(records.length, target));
+    if (nextCursor === cursor) return;
+
+    const nextRecords = [...records];
+
+    if (nextCursor < cursor) {
+      // The state after each undone command is the state before the next one
+      for (let index = nextCursor; index < cursor; index++) {
+        nextRecords[index] = {
+          ...nextRecords[index],
+          after: index === cursor - 1 ? snapshotRef.current : nextRecords[index + 1].before,
+        };
+      }
+      restore(nextRecords[nextCursor].before);
+    } else {
+      const after = nextRecords[nextCursor - 1].after;
+      if (!after) return;
+      restore(after);
+    }
+
+    setHistory({ records: nextRecords, cursor: nextCursor });
+  }, [restore]);
+
+  const undo = useCallback(() => jumpTo(historyRef.current.cursor - 1), [jumpTo]);
+  const redo = useCallback(() => jumpTo(historyRef.current.cursor + 1), [jumpTo]);
+
+  const clear = useCallback(() => setHistory({ records: [], cursor: 0 }), []);
+
+  return {
+    entries: history.records.map(({ id, label, timestamp }) => ({ id, label, timestamp })),
+    cursor: history.cursor,
+    canUndo: history.cursor > 0,
+    canRedo: history.cursor < history.records.length,
+    record,
+    undo,
+    redo,
+    jumpTo,
+    clear,
+  };
+}
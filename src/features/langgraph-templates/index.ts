@@ -14,7 +14,8 @@ export type {
   LLMConfig,
   ValidationError,
   ValidationResult,
-  TemplateCreationData
+  TemplateCreationData,
+  TemplateCategory
 } from './types';
 
 // Services - explicit exports to avoid conflicts
@@ -30,6 +31,6 @@ export { TemplateCard, TemplateGrid, TemplateFilters } from './components';
 export * from './pages';
 
 // Main exports for easy access
-export { TemplateCreationPage, TemplateExecutionPage, TemplateListPage } from './pages';
+export { TemplateCreationPage, TemplateExecutionPage, TemplateListPage, TemplateEditPage, BatchExecutionPage } from './pages';
 export { useTemplateCreation, useTemplateExecution, useTemplateList } from './hooks';
 export { validateTemplate, getValidationSummary } from './utils';
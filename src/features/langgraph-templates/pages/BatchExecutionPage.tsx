@@ -0,0 +1,303 @@
+/**
+ * BatchExecutionPage Component
+ *
+ * Runs one template over a pasted list or CSV of queries: shared and
+ * per-row variables, an estimated total cost, a concurrency cap, and a
+ * grouped progress view of the child executions
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, Calculator, Layers, Play, RotateCcw } from 'lucide-react';
+
+import { useBatchExecution } from '../hooks/useBatchExecution';
+import { templateService } from '../services/template.service';
+import { BatchQueryInput } from '../components/BatchQueryInput';
+import { BatchProgressTable } from '../components/BatchProgressTable';
+import { TemplateVariablesForm } from '../components/TemplateVariablesForm';
+import { getDefaultVariableValues } from '../utils/template-variables';
+import { formatEstimateCost, formatEstimateRange } from '../utils/cost-estimator';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  batchResultsToCsv,
+  batchResultsToJson,
+  createBatchRunRows,
+  estimateBatchCost,
+  validateBatchRows,
+} from '../utils/batch-execution';
+import type { BatchParseResult } from '../utils/batch-execution';
+
+// shadcn/ui components
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Alert, AlertDescription } from '../../../components/ui/alert';
+import { Label } from '../../../components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../../components/ui/select';
+import { LoadingSpinner } from '../../../components/common/LoadingSpinner';
+import { PageHeader } from '../../../components/common/PageHeader';
+
+const CONCURRENCY_OPTIONS = Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1);
+
+function downloadFile(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function BatchExecutionPage() {
+  const [searchParams] = useSearchParams();
+  const templateId = searchParams.get('templateId');
+
+  const { data: template, isLoading, error } = useQuery({
+    queryKey: ['template', templateId],
+    queryFn: () => templateService.getTemplate(templateId!),
+    enabled: !!templateId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  const [input, setInput] = useState<BatchParseResult | null>(null);
+  const [sharedValues, setSharedValues] = useState<Record<string, string>>({});
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+
+  const batch = useBatchExecution(template?.id ?? null);
+  const hasStarted = batch.rows.length > 0;
+
+  const variables = useMemo(() => template?.variables || [], [template]);
+
+  useEffect(() => {
+    setSharedValues(getDefaultVariableValues(variables));
+  }, [variables]);
+
+  const inputRows = useMemo(() => input?.rows || [], [input]);
+  const rowErrors = useMemo(
+    () => validateBatchRows(inputRows, variables, sharedValues),
+    [inputRows, variables, sharedValues]
+  );
+  const invalidRowIds = Object.keys(rowErrors);
+
+  const estimate = useMemo(
+    () => (template && inputRows.length > 0 ? estimateBatchCost(template, inputRows) : null),
+    [template, inputRows]
+  );
+
+  const canStart = Boolean(template?.is_active) && inputRows.length > 0 && invalidRowIds.length === 0;
+
+  const handleStart = () => {
+    if (!canStart) return;
+    batch.start(createBatchRunRows(inputRows, variables, sharedValues), concurrency);
+  };
+
+  const handleNewBatch = () => {
+    batch.reset();
+    setInput(null);
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!template) return;
+    const baseName = `${template.name.replace(/[^a-z0-9]+/gi, '_').toLowerCase()}_batch`;
+    if (format === 'csv') {
+      downloadFile(batchResultsToCsv(batch.rows, variables), `${baseName}.csv`, 'text/csv');
+    } else {
+      downloadFile(batchResultsToJson(batch.rows, template), `${baseName}.json`, 'application/json');
+    }
+  };
+
+  if (!templateId) {
+    return (
+      <Alert>
+        <AlertDescription>
+          Choose a template to run in batch from the <Link to="/templates" className="underline">template list</Link>.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !template) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>
+          {error instanceof Error ? error.message : 'Template not found'}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title={`Batch run: ${template.name}`}
+        description="Run this template once per query and track every execution together"
+        actions={
+          <Button variant="outline" asChild>
+            <Link to={`/templates/${template.id}`}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to template
+            </Link>
+          </Button>
+        }
+      />
+
+      {!template.is_active && (
+        <Alert variant="destructive">
+          <AlertDescription>This template is inactive and can't be executed.</AlertDescription>
+        </Alert>
+      )}
+
+      {hasStarted ? (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Layers className="w-5 h-5" />
+                Batch progress
+              </CardTitle>
+              <CardDescription>
+                {batch.summary.isFinished ? 'All executions have finished' : 'Executions are started as slots free up'}
+              </CardDescription>
+            </div>
+            {batch.summary.isFinished && (
+              <Button variant="outline" size="sm" onClick={handleNewBatch}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                New batch
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <BatchProgressTable
+              rows={batch.rows}
+              summary={batch.summary}
+              concurrency={batch.concurrency}
+              onRetryRow={batch.retryRow}
+              onRetryFailed={batch.retryFailed}
+              onCancel={batch.cancelRemaining}
+              onExport={handleExport}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Queries</CardTitle>
+                <CardDescription>Each query starts its own execution of the template</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BatchQueryInput variables={variables} result={input} onChange={setInput} />
+              </CardContent>
+            </Card>
+
+            {variables.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Shared variables</CardTitle>
+                  <CardDescription>Used for every query unless its CSV row sets its own value</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TemplateVariablesForm
+                    variables={variables}
+                    values={sharedValues}
+                    errors={{}}
+                    onChange={(name, value) => setSharedValues(prev => ({ ...prev, [name]: value }))}
+                  />
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calculator className="w-5 h-5" />
+                Run batch
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <div className="text-xs text-muted-foreground">Queries</div>
+                  <div className="text-2xl font-semibold tabular-nums">{inputRows.length}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Estimated cost</div>
+                  <div className="text-2xl font-semibold tabular-nums">
+                    {estimate ? formatEstimateCost(estimate.expected) : '—'}
+                  </div>
+                  {estimate && (
+                    <div className="text-xs text-muted-foreground tabular-nums">
+                      {formatEstimateRange(estimate, formatEstimateCost)}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Run at most</Label>
+                <Select value={String(concurrency)} onValueChange={(value) => setConcurrency(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONCURRENCY_OPTIONS.map(option => (
+                      <SelectItem key={option} value={String(option)}>
+                        {option} at a time
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {invalidRowIds.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    <p className="font-medium">
+                      {invalidRowIds.length} {invalidRowIds.length === 1 ? 'query has' : 'queries have'} invalid variables
+                    </p>
+                    <ul className="mt-1 space-y-0.5 text-xs">
+                      {invalidRowIds.slice(0, 5).map(rowId => {
+                        const index = inputRows.findIndex(row => row.id === rowId);
+                        return (
+                          <li key={rowId}>
+                            Row {index + 1}: {Object.values(rowErrors[rowId]).join(', ')}
+                          </li>
+                        );
+                      })}
+                      {invalidRowIds.length > 5 && <li>and {invalidRowIds.length - 5} more</li>}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Button className="w-full" onClick={handleStart} disabled={!canStart}>
+                <Play className="w-4 h-4 mr-2" />
+                Start {inputRows.length || ''} {inputRows.length === 1 ? 'execution' : 'executions'}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BatchExecutionPage;
@@ -5,8 +5,8 @@
  * Uses only shadcn/ui components with clean validation
  */
 
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
 import { Button } from '../../../components/ui/button';
@@ -23,9 +23,12 @@ import {
 } from 'lucide-react';
 
 import { useTemplateCreation } from '../hooks';
+import { useDraftAutoSave, useTemplateDrafts } from '../hooks/useTemplateDrafts';
 import {
   TemplateBasicInfoForm,
-  EnhancedTemplatePreview
+  EnhancedTemplatePreview,
+  TemplateVariablesEditor,
+  ResumeDraftBanner
 } from '../components';
 
 // Import our merged workflow builder
@@ -36,12 +39,16 @@ import { validateTemplate, canProceedToStep } from '../utils/comprehensive-valid
 
 // Import template service
 import { templateService } from '../services';
+import { templateDraftService } from '../services/template-draft.service';
+import type { TemplateDraft } from '../services/template-draft.service';
 
 import type { Template } from '../types';
 
 interface TemplateCreationPageProps {
   initialTemplate?: Partial<Template>;
   onSave?: (template: Template) => Promise<void>;
+  title?: string;
+  description?: string;
 }
 
 type Step = 'basic' | 'workflow' | 'preview';
@@ -64,10 +71,20 @@ const STEPS: Array<{ id: Step; title: string; description: string }> = [
   },
 ];
 
-export function TemplateCreationPage({ initialTemplate, onSave }: TemplateCreationPageProps) {
+export function TemplateCreationPage({
+  initialTemplate,
+  onSave,
+  title = 'Create Template',
+  description = 'Build a multi-agent workflow template with complete enum support',
+}: TemplateCreationPageProps) {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [currentStep, setCurrentStep] = useState<Step>('basic');
+
+  // Drafts only apply to brand-new templates, not to edits with their own save handler
+  const draftsEnabled = !onSave && !initialTemplate;
+  const [isDraftPromptDismissed, setIsDraftPromptDismissed] = useState(false);
   const [showValidation, setShowValidation] = useState(false);
   
   // Simple validation state
@@ -81,6 +98,7 @@ export function TemplateCreationPage({ initialTemplate, onSave }: TemplateCreati
     canSave,
     isSubmitting,
     save,
+    loadTemplate,
   } = useTemplateCreation({
     initialTemplate,
     onSave: onSave || (async (template) => {
@@ -98,6 +116,9 @@ export function TemplateCreationPage({ initialTemplate, onSave }: TemplateCreati
           console.log('✅ Template created successfully:', savedTemplate);
         }
         
+        // The draft has served its purpose once the template is saved
+        await discardCurrentDraft();
+        
         // Invalidate template list cache to ensure fresh data
         await queryClient.invalidateQueries({ queryKey: ['templates-paginated'] });
         console.log('🔄 Template cache invalidated');
@@ -113,6 +134,47 @@ export function TemplateCreationPage({ initialTemplate, onSave }: TemplateCreati
     }),
   });
 
+  const { drafts, discardDraft } = useTemplateDrafts({ enabled: draftsEnabled });
+  const { draftId, lastSavedAt, saveError, resumeDraft, discardCurrentDraft } = useDraftAutoSave({
+    template,
+    step: currentStep,
+    enabled: draftsEnabled,
+  });
+
+  const handleResumeDraft = useCallback((draft: TemplateDraft) => {
+    loadTemplate(draft.template);
+    if (STEPS.some(step => step.id === draft.step)) {
+      setCurrentStep(draft.step as Step);
+    }
+    resumeDraft(draft);
+    setIsDraftPromptDismissed(true);
+  }, [loadTemplate, resumeDraft]);
+
+  // Continue a draft picked from the templates list (`?draft=<id>`)
+  const draftParam = searchParams.get('draft');
+  useEffect(() => {
+    if (!draftsEnabled || !draftParam) return;
+
+    let cancelled = false;
+    templateDraftService.getDraft(draftParam)
+      .then(draft => {
+        if (cancelled) return;
+        if (draft) {
+          handleResumeDraft(draft);
+        }
+        setSearchParams({}, { replace: true });
+      })
+      .catch(error => console.error('Failed to load draft:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draftsEnabled, draftParam, handleResumeDraft, setSearchParams]);
+
+  const resumableDraft = draftsEnabled && !isDraftPromptDismissed && !draftId && !draftParam
+    ? drafts[0]
+    : undefined;
+
   // Get current step index
   const currentStepIndex = STEPS.findIndex(step => step.id === currentStep);
   const progress = ((currentStepIndex + 1) / STEPS.length) * 100;
@@ -228,17 +290,24 @@ export function TemplateCreationPage({ initialTemplate, onSave }: TemplateCreati
             workflow={template.workflow}
             onUpdateWorkflow={updateWorkflow}
             onUpdateAgents={handleUpdateAgents}
+            templateId={template.id}
           />
         );
 
       case 'preview':
         return (
-          <EnhancedTemplatePreview
-            template={template}
-            validation={validationResult}
-            workflowSummary={workflowSummary}
-            showActions={false}
-          />
+          <div className="space-y-6">
+            <TemplateVariablesEditor
+              template={template}
+              onUpdate={(variables) => updateTemplate({ variables })}
+            />
+            <EnhancedTemplatePreview
+              template={template}
+              validation={validationResult}
+              workflowSummary={workflowSummary}
+              showActions={false}
+            />
+          </div>
         );
 
       default:
@@ -250,10 +319,18 @@ export function TemplateCreationPage({ initialTemplate, onSave }: TemplateCreati
     <div className="space-y-6">
       {/* Page Header */}
       <PageHeader
-        title="Create Template"
-        description="Build a multi-agent workflow template with complete enum support"
+        title={title}
+        description={description}
         actions={
-          <div className="flex gap-2">
+          <div className="flex items-center gap-2">
+            {draftsEnabled && (lastSavedAt || saveError) && (
+              <span
+                className={`text-xs ${saveError ? 'text-red-600' : 'text-muted-foreground'}`}
+                title={saveError || undefined}
+              >
+                {saveError ? 'Draft not saved' : `Draft saved ${lastSavedAt!.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+              </span>
+            )}
             <Button
               variant="outline"
               onClick={() => setShowValidation(!showValidation)}
@@ -273,6 +350,16 @@ export function TemplateCreationPage({ initialTemplate, onSave }: TemplateCreati
         }
       />
 
+      {resumableDraft && (
+        <ResumeDraftBanner
+          draft={resumableDraft}
+          otherDraftCount={drafts.length - 1}
+          onResume={handleResumeDraft}
+          onDiscard={(draft) => discardDraft(draft.id).catch(error => console.error('Failed to discard draft:', error))}
+          onDismiss={() => setIsDraftPromptDismissed(true)}
+        />
+      )}
+
       {/* Progress */}
       <Card className="mb-6">
         <CardContent className="pt-6">
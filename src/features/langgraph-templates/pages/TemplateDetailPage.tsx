@@ -1,3 +1,4 @@
+import { useState } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { 
   Bot,
@@ -5,6 +6,7 @@ import {
   History,
   Settings,
   Play,
+  Pencil,
   Zap, 
   ArrowRight, 
   GitMerge, 
@@ -13,7 +15,9 @@ import {
   AlertCircle,
   Lock,
   Globe,
-  Users
+  Users,
+  Download,
+  FlaskConical
 } from 'lucide-react'
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
@@ -21,18 +25,26 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
 
 import { ErrorDisplay } from '@/components/common/ErrorDisplay'
 import { NotFoundDisplay } from '@/components/common/NotFoundDisplay'
 import { PageHeader } from '@/components/common/PageHeader'
 
 import { useTemplateDetail } from '../hooks/useTemplateDetail'
+import { templateService } from '../services/template.service'
 import TemplateMetricsOverview from '../components/template-detail/TemplateMetricsOverview'
 import TemplateExecutionHistory from '../components/template-detail/TemplateExecutionHistory'
 import { EnhancedAgentCard } from '../components/template-detail/EnhancedAgentCard'
 
 // Import workflow preview component for read-only visualization
 import { WorkflowPreview } from '../components/workflow-visualizations/components/WorkflowPreview'
+import { DryRunSimulatorDialog } from '../components/workflow-visualizations/components/DryRunSimulatorDialog'
 
 import type { Template, WorkflowMode } from '../types'
 
@@ -145,6 +157,7 @@ export function TemplateDetailPage() {
   
   // Move hook call to top level to avoid conditional calling
   const { template, isLoading, error, metrics, refetch } = useTemplateDetail(templateId || '')
+  const [showDryRun, setShowDryRun] = useState(false)
 
   if (!templateId) {
     return <NotFoundDisplay message="Template ID not provided" />
@@ -209,18 +222,61 @@ export function TemplateDetailPage() {
         title={template.name}
         description={template.description || undefined}
         actions={
-          <Button 
-            size="lg" 
-            onClick={handleExecute}
-            disabled={!template.is_active}
-            className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm hover:shadow-md transition-all px-6"
-          >
-            <Play className="w-5 h-5 mr-2" />
-            Execute Template
-          </Button>
+          <>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="lg" variant="outline">
+                  <Download className="w-5 h-5 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => templateService.downloadTemplateFile(template, 'json')}>
+                  Export as JSON
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => templateService.downloadTemplateFile(template, 'yaml')}>
+                  Export as YAML
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              size="lg"
+              variant="outline"
+              onClick={() => setShowDryRun(true)}
+              disabled={template.agents.length === 0}
+            >
+              <FlaskConical className="w-5 h-5 mr-2" />
+              Dry Run
+            </Button>
+            <Button
+              size="lg"
+              variant="outline"
+              onClick={() => navigate(`/templates/${template.id}/edit`)}
+            >
+              <Pencil className="w-5 h-5 mr-2" />
+              Edit Template
+            </Button>
+            <Button 
+              size="lg" 
+              onClick={handleExecute}
+              disabled={!template.is_active}
+              className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm hover:shadow-md transition-all px-6"
+            >
+              <Play className="w-5 h-5 mr-2" />
+              Execute Template
+            </Button>
+          </>
         }
       />
 
+      <DryRunSimulatorDialog
+        isOpen={showDryRun}
+        onClose={() => setShowDryRun(false)}
+        agents={template.agents}
+        workflow={template.workflow}
+        templateId={template.id}
+      />
+
       {/* Template Status Badges */}
       <div className="flex items-center gap-2 mb-6">
         <Badge 
@@ -0,0 +1,115 @@
+/**
+ * Template Edit Page
+ *
+ * Edits an existing template with the creation wizard and keeps a version history
+ * that can be compared and rolled back
+ */
+
+import { useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { History, Pencil } from 'lucide-react'
+
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Badge } from '@/components/ui/badge'
+import { LoadingSpinner } from '@/components/common/LoadingSpinner'
+import { ErrorDisplay } from '@/components/common/ErrorDisplay'
+import { NotFoundDisplay } from '@/components/common/NotFoundDisplay'
+
+import { useTemplateDetail } from '../hooks/useTemplateDetail'
+import { useTemplateVersions } from '../hooks/useTemplateVersions'
+import { TemplateVersionHistory } from '../components/template-detail/TemplateVersionHistory'
+import { TemplateCreationPage } from './TemplateCreationPage'
+
+import type { Template } from '../types'
+
+export function TemplateEditPage() {
+  const { templateId } = useParams<{ templateId: string }>()
+  const navigate = useNavigate()
+  const [activeTab, setActiveTab] = useState('editor')
+  // Set after a rollback so the wizard reloads with the restored snapshot
+  const [restoredTemplate, setRestoredTemplate] = useState<Template | null>(null)
+
+  const { template, isLoading, error, refetch } = useTemplateDetail(templateId || '')
+  const {
+    versions,
+    latestVersion,
+    ensureBaseline,
+    saveVersion,
+    rollback,
+    compare,
+    isSaving,
+  } = useTemplateVersions(templateId || '')
+
+  // Record the current server copy as the first version before any edits
+  useEffect(() => {
+    if (template) {
+      ensureBaseline(template)
+    }
+  }, [template, ensureBaseline])
+
+  if (!templateId) {
+    return <NotFoundDisplay type="template" message="Template ID not provided" />
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading template..." />
+  }
+
+  if (error) {
+    return <ErrorDisplay message={error} onRetry={refetch} />
+  }
+
+  if (!template) {
+    return <NotFoundDisplay type="template" onGoBack={() => navigate('/templates')} />
+  }
+
+  const handleSave = async (updated: Template) => {
+    await saveVersion({ ...updated, id: templateId }, 'Edited template')
+    navigate(`/templates/${templateId}`)
+  }
+
+  const handleRollback = async (version: number) => {
+    const restored = await rollback(version)
+    setRestoredTemplate({ ...restored, id: restored.id || templateId })
+    setActiveTab('editor')
+  }
+
+  const editorTemplate = restoredTemplate || template
+
+  return (
+    <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+      <TabsList>
+        <TabsTrigger value="editor" className="flex items-center gap-2">
+          <Pencil className="w-4 h-4" />
+          Editor
+        </TabsTrigger>
+        <TabsTrigger value="versions" className="flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Version History
+          <Badge variant="secondary" className="ml-1">{versions.length}</Badge>
+        </TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="editor">
+        <TemplateCreationPage
+          key={latestVersion?.version ?? 0}
+          initialTemplate={editorTemplate}
+          onSave={handleSave}
+          title={`Edit ${template.name}`}
+          description={latestVersion ? `Current version: v${latestVersion.version}` : 'Update agents, prompts and workflow'}
+        />
+      </TabsContent>
+
+      <TabsContent value="versions">
+        <TemplateVersionHistory
+          versions={versions}
+          compare={compare}
+          onRollback={handleRollback}
+          isSaving={isSaving}
+        />
+      </TabsContent>
+    </Tabs>
+  )
+}
+
+export default TemplateEditPage
@@ -5,12 +5,17 @@
  * Clean, focused interface that makes interventions impossible to miss
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useSearchParams, Link } from 'react-router-dom';
 import { Play, Square, RefreshCw, AlertTriangle, Wifi, WifiOff, ArrowLeft, ExternalLink } from 'lucide-react';
 import { useTemplateExecution } from '../hooks/useTemplateExecution';
+import { useCostEstimate } from '../hooks/useCostEstimate';
+import type { StreamConnectionState } from '../services/execution-stream';
 import { LiveAgentTimeline } from '../components/LiveAgentTimeline';
 import { ExecutionResultsDisplay } from '../components/ExecutionResultsDisplay';
+import { CostEstimatePanel } from '../components/CostEstimatePanel';
+import { TemplateVariablesForm } from '../components/TemplateVariablesForm';
+import { getDefaultVariableValues, parseVariableValues, validateVariableValues } from '../utils/template-variables';
 import { executionService } from '../services/execution.service';
 import type { ExecutionRequest, InterventionResponse } from '../services/execution.service';
 
@@ -27,12 +32,22 @@ interface TemplateExecutionPageProps {
   className?: string;
 }
 
+const CONNECTION_LABELS: Record<StreamConnectionState, string> = {
+  connecting: 'Connecting',
+  open: 'Connected',
+  reconnecting: 'Reconnecting',
+  polling: 'Polling',
+  closed: 'Disconnected',
+};
+
 export function TemplateExecutionPage({ className }: TemplateExecutionPageProps) {
   const [searchParams] = useSearchParams();
   
   // Form state
   const [query, setQuery] = useState<string>('');
   const [queryErrors, setQueryErrors] = useState<string[]>([]);
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
+  const [showVariableErrors, setShowVariableErrors] = useState(false);
   
   // UI state
   const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null);
@@ -46,6 +61,7 @@ export function TemplateExecutionPage({ className }: TemplateExecutionPageProps)
     error,
     workflow,
     isConnected,
+    connectionState,
     pendingInterventions,
     executeTemplate,
     cancelExecution,
@@ -59,6 +75,27 @@ export function TemplateExecutionPage({ className }: TemplateExecutionPageProps)
     reconnectDelay: 5000,
   });
 
+  // Template input variables, sent as custom_parameters
+  const templateVariables = useMemo(() => selectedTemplate?.variables || [], [selectedTemplate]);
+  const variableErrors = useMemo(
+    () => validateVariableValues(templateVariables, variableValues),
+    [templateVariables, variableValues]
+  );
+  const hasVariableErrors = Object.keys(variableErrors).length > 0;
+
+  useEffect(() => {
+    setVariableValues(getDefaultVariableValues(templateVariables));
+    setShowVariableErrors(false);
+  }, [templateVariables]);
+
+  const handleVariableChange = (name: string, value: string) => {
+    setVariableValues(prev => ({ ...prev, [name]: value }));
+    setShowVariableErrors(true);
+  };
+
+  // Pre-execution cost estimate; blocks execution above the budget ceiling
+  const { estimate: costEstimate, budget, budgetCeiling, setBudgetCeiling } = useCostEstimate(selectedTemplate, query);
+
   // Load template and query from URL parameters on mount
   useEffect(() => {
     const templateId = searchParams.get('templateId');
@@ -87,7 +124,12 @@ export function TemplateExecutionPage({ className }: TemplateExecutionPageProps)
 
   // Handle execution start
   const handleExecute = async () => {
-    if (!selectedTemplate || !query.trim()) return;
+    if (!selectedTemplate || !query.trim() || budget.exceeded) return;
+
+    if (hasVariableErrors) {
+      setShowVariableErrors(true);
+      return;
+    }
 
     const validation = await validateQuery(query);
     if (!validation.isValid) {
@@ -98,7 +140,7 @@ export function TemplateExecutionPage({ className }: TemplateExecutionPageProps)
     const request: ExecutionRequest = {
       template_id: selectedTemplate.id!,
       query: query.trim(),
-      custom_parameters: {},
+      custom_parameters: parseVariableValues(templateVariables, variableValues),
     };
 
     const executionId = await executeTemplate(request);
@@ -141,7 +183,7 @@ export function TemplateExecutionPage({ className }: TemplateExecutionPageProps)
     }
   };
 
-  const canExecute = selectedTemplate && query.trim().length > 10 && queryErrors.length === 0 && !isExecuting;
+  const canExecute = selectedTemplate && query.trim().length > 10 && queryErrors.length === 0 && !isExecuting && !budget.exceeded && !hasVariableErrors;
 
   return (
     <div className={`space-y-6 ${className || ''}`}>
@@ -161,9 +203,18 @@ export function TemplateExecutionPage({ className }: TemplateExecutionPageProps)
               </Button>
             )}
             
-            <Badge variant={isConnected ? "secondary" : "destructive"} className="flex items-center space-x-1">
-              {isConnected ? <Wifi className="h-3 w-3" /> : <WifiOff className="h-3 w-3" />}
-              <span>{isConnected ? "Connected" : "Disconnected"}</span>
+            <Badge
+              variant={isConnected ? "secondary" : connectionState === 'closed' ? "destructive" : "outline"}
+              className="flex items-center space-x-1"
+            >
+              {isConnected ? (
+                <Wifi className="h-3 w-3" />
+              ) : connectionState === 'closed' ? (
+                <WifiOff className="h-3 w-3" />
+              ) : (
+                <RefreshCw className="h-3 w-3 animate-spin" />
+              )}
+              <span>{CONNECTION_LABELS[connectionState]}</span>
             </Badge>
           </div>
         }
@@ -213,11 +264,21 @@ export function TemplateExecutionPage({ className }: TemplateExecutionPageProps)
                 {selectedTemplate.description}
               </CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
               <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                 <span>{selectedTemplate.agents.length} agent{selectedTemplate.agents.length !== 1 ? 's' : ''}</span>
                 <span>{selectedTemplate.workflow.mode} workflow</span>
               </div>
+              {costEstimate && (
+                <div className="pt-4 border-t">
+                  <CostEstimatePanel
+                    estimate={costEstimate}
+                    budget={budget}
+                    budgetCeiling={budgetCeiling}
+                    onBudgetCeilingChange={setBudgetCeiling}
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -267,6 +328,20 @@ export function TemplateExecutionPage({ className }: TemplateExecutionPageProps)
             )}
           </div>
 
+          {templateVariables.length > 0 && (
+            <div className="space-y-2 pt-2 border-t">
+              <div className="text-sm font-medium">Template Inputs</div>
+              <TemplateVariablesForm
+                variables={templateVariables}
+                values={variableValues}
+                errors={variableErrors}
+                showErrors={showVariableErrors}
+                disabled={isExecuting}
+                onChange={handleVariableChange}
+              />
+            </div>
+          )}
+
           <div className="flex items-center space-x-2">
             <Button
               onClick={handleExecute}
@@ -299,6 +374,7 @@ export function TemplateExecutionPage({ className }: TemplateExecutionPageProps)
           execution={execution}
           workflow={workflow}
           pendingInterventions={pendingInterventions}
+          template={selectedTemplate}
           selectedAgentId={selectedAgentId}
           onAgentSelect={setSelectedAgentId}
           onResolveIntervention={handleResolveIntervention}
@@ -1,30 +1,48 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Link, useNavigate } from 'react-router-dom'
-import { Plus, ChevronLeft, ChevronRight } from 'lucide-react'
+import { Plus, ChevronLeft, ChevronRight, Upload } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import { LoadingSpinner } from '@/components/common/LoadingSpinner'
 import { ErrorDisplay } from '@/components/common/ErrorDisplay'
 import { PageHeader } from '@/components/common/PageHeader'
 
-import { useTemplateList } from '../hooks/useTemplateList'
+import { useTemplateList, useTemplateCategories, useTemplateTags } from '../hooks/useTemplateList'
+import { useTemplateDrafts } from '../hooks/useTemplateDrafts'
 import { TemplateFilters } from '../components/TemplateFilters'
 import { TemplateGrid } from '../components/TemplateGrid'
+import { TemplateImportDialog } from '../components/TemplateImportDialog'
+import { TemplateDraftsList } from '../components/TemplateDraftsList'
+import { collectTemplateOwners } from '../utils/template-facets'
+import type { TemplateFacetFilters, TemplateOwnerOption } from '../utils/template-facets'
 
-const CATEGORIES = [
-  'market_research',
-  'risk_assessment',
-  'data_analysis',
-  'competitive_intelligence',
-  'trend_analysis'
-]
+const SEARCH_DEBOUNCE_MS = 300
 
 export function TemplateListPage() {
   const navigate = useNavigate()
   const [searchQuery, setSearchQuery] = useState('')
-  const [categoryFilter, setCategoryFilter] = useState<string>('all')
-  const [publicFilter, setPublicFilter] = useState<string>('all')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [filters, setFilters] = useState<TemplateFacetFilters>({})
+  const [owners, setOwners] = useState<TemplateOwnerOption[]>([])
   const [currentPage, setCurrentPage] = useState(1)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+
+  const { data: categories = [] } = useTemplateCategories()
+  const { data: tags = [] } = useTemplateTags()
+
+  // Search runs server-side, so wait for a pause in typing before refetching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearch(searchQuery.trim())
+      setCurrentPage(1)
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
+
+  const handleFiltersChange = (next: TemplateFacetFilters) => {
+    setFilters(next)
+    setCurrentPage(1)
+  }
 
   // Fetch templates with filters and pagination
   const {
@@ -39,13 +57,24 @@ export function TemplateListPage() {
     error,
     refetch
   } = useTemplateList({
-    category: categoryFilter === 'all' ? undefined : categoryFilter,
-    is_public: publicFilter === 'all' ? undefined : publicFilter === 'public',
-    search: searchQuery,
+    ...filters,
+    search: debouncedSearch,
     page: currentPage,
     limit: 5
   })
 
+  // The owner facet offers everyone seen so far, so narrowing by another
+  // facet doesn't take the other owners out of the list
+  useEffect(() => {
+    const found = collectTemplateOwners(templates)
+    setOwners(current => {
+      const added = found.filter(owner => !current.some(existing => existing.id === owner.id))
+      return added.length > 0 ? [...current, ...added] : current
+    })
+  }, [templates])
+
+  const { drafts, discardDraft } = useTemplateDrafts()
+
   // Handle template execution
   const handleExecuteTemplate = (templateId: string) => {
     navigate(`/templates/execute?templateId=${templateId}`)
@@ -61,24 +90,46 @@ export function TemplateListPage() {
         title="Templates"
         description="Manage your multi-agent workflow templates"
         actions={
-          <Button asChild>
-            <Link to="/templates/create">
-              <Plus className="mr-2 h-4 w-4" />
-              Create Template
-            </Link>
-          </Button>
+          <>
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button asChild>
+              <Link to="/templates/create">
+                <Plus className="mr-2 h-4 w-4" />
+                Create Template
+              </Link>
+            </Button>
+          </>
         }
       />
 
+      <TemplateImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImported={(template) => {
+          setIsImportOpen(false)
+          navigate(`/templates/${template.id}`)
+        }}
+      />
+
+      {/* Unsaved creation drafts */}
+      <TemplateDraftsList
+        drafts={drafts}
+        onContinue={(draft) => navigate(`/templates/create?draft=${draft.id}`)}
+        onDiscard={(draft) => discardDraft(draft.id)}
+      />
+
       {/* Filters */}
       <TemplateFilters
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
-        categoryFilter={categoryFilter}
-        onCategoryChange={setCategoryFilter}
-        publicFilter={publicFilter}
-        onPublicFilterChange={setPublicFilter}
-        categories={CATEGORIES}
+        filters={filters}
+        onFiltersChange={handleFiltersChange}
+        categories={categories}
+        tags={tags}
+        owners={owners}
       />
 
       {/* Loading State */}
@@ -94,6 +145,7 @@ export function TemplateListPage() {
           <TemplateGrid
             templates={templates}
             onExecute={handleExecuteTemplate}
+            highlight={debouncedSearch}
           />
           
           {/* Pagination Controls */}
@@ -8,3 +8,5 @@ export { TemplateCreationPage } from './TemplateCreationPage';
 export { TemplateExecutionPage } from './TemplateExecutionPage';
 export { TemplateListPage } from './TemplateListPage';
 export { TemplateDetailPage } from './TemplateDetailPage';
+export { TemplateEditPage } from './TemplateEditPage';
+export { BatchExecutionPage } from './BatchExecutionPage';
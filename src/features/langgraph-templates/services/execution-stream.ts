@@ -0,0 +1,318 @@
+/**
+ * Execution Stream Client
+ *
+ * Resumable SSE client for execution updates:
+ * - authenticates with the Authorization header, never the query string
+ * - reconnects with exponential backoff and jitter
+ * - treats a missing `heartbeat` as a dead connection
+ * - resumes from the last seen event id (Last-Event-ID) so missed events are replayed
+ * - falls back to polling the execution status while SSE stays down
+ */
+
+import { ApiException } from '../../../services/api/ApiClient';
+import { FetchEventSource } from '../../../services/api/FetchEventSource';
+import { apiConfig } from '../../../services/config/api.config';
+import type { ExecutionResult, StreamingEvent } from './execution.service';
+
+export type StreamConnectionState = 'connecting' | 'open' | 'reconnecting' | 'polling' | 'closed';
+
+export interface ExecutionStreamOptions {
+  onEvent: (event: StreamingEvent) => void;
+  onStateChange?: (state: StreamConnectionState) => void;
+  // Used by the polling fallback
+  fetchStatus?: (executionId: string) => Promise<ExecutionResult>;
+  autoReconnect?: boolean;
+  initialReconnectDelay?: number;
+  maxReconnectDelay?: number;
+  heartbeatTimeout?: number;
+  // Failed reconnects before switching to polling
+  maxReconnectAttempts?: number;
+  pollInterval?: number;
+}
+
+const DEFAULT_OPTIONS = {
+  autoReconnect: true,
+  initialReconnectDelay: 1000,
+  maxReconnectDelay: 30000,
+  heartbeatTimeout: 45000,
+  maxReconnectAttempts: 5,
+  pollInterval: 3000,
+};
+
+const TERMINAL_EVENTS: StreamingEvent['type'][] = ['execution_completed', 'execution_error'];
+const CONNECTION_EVENTS: StreamingEvent['type'][] = ['connection_established', 'heartbeat'];
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled'];
+const MAX_TRACKED_EVENT_IDS = 1000;
+
+export class ExecutionStreamClient {
+  private readonly executionId: string;
+  private readonly options: ExecutionStreamOptions & typeof DEFAULT_OPTIONS;
+
+  private eventSource: FetchEventSource | null = null;
+  private state: StreamConnectionState = 'closed';
+  private reconnectAttempts = 0;
+  private lastEventId: string | null = null;
+  private seenEventIds = new Set<string>();
+  private reportedAgentIds = new Set<string>();
+  private isClosed = false;
+
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(executionId: string, options: ExecutionStreamOptions) {
+    this.executionId = executionId;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Open the stream
+   */
+  connect(): void {
+    this.isClosed = false;
+    this.openEventSource();
+  }
+
+  /**
+   * Close the stream and stop all timers
+   */
+  close(): void {
+    this.isClosed = true;
+    this.teardownEventSource();
+    this.clearTimer('reconnectTimer');
+    this.clearTimer('heartbeatTimer');
+    this.clearTimer('pollTimer');
+    this.setState('closed');
+  }
+
+  getState(): StreamConnectionState {
+    return this.state;
+  }
+
+  getLastEventId(): string | null {
+    return this.lastEventId;
+  }
+
+  private setState(state: StreamConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+
+  private clearTimer(timer: 'reconnectTimer' | 'heartbeatTimer' | 'pollTimer'): void {
+    const handle = this[timer];
+    if (handle) {
+      clearTimeout(handle);
+      this[timer] = null;
+    }
+  }
+
+  private openEventSource(): void {
+    if (this.isClosed) return;
+
+    this.teardownEventSource();
+    this.setState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    let eventSource: FetchEventSource;
+    try {
+      eventSource = new FetchEventSource(
+        `${apiConfig.baseURL}/api/stream/execution/${this.executionId}`,
+        { lastEventId: this.lastEventId, autoReconnect: false }
+      );
+    } catch (error) {
+      console.error('Failed to open execution stream:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.eventSource = eventSource;
+
+    eventSource.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.clearTimer('pollTimer');
+      this.setState('open');
+      this.resetHeartbeatWatchdog();
+    };
+
+    eventSource.onmessage = (message: MessageEvent<string>) => {
+      this.handleMessage(message);
+    };
+
+    eventSource.onerror = (error) => {
+      console.error('SSE connection error:', error);
+      if (error instanceof ApiException && error.status === 401) {
+        // Token refresh already failed; reconnecting would only repeat the 401
+        this.close();
+        return;
+      }
+      // Take over reconnection ourselves so backoff and resume apply
+      this.teardownEventSource();
+      this.scheduleReconnect();
+    };
+  }
+
+  private teardownEventSource(): void {
+    if (this.eventSource) {
+      this.eventSource.onopen = null;
+      this.eventSource.onmessage = null;
+      this.eventSource.onerror = null;
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+  }
+
+  private handleMessage(message: MessageEvent<string>): void {
+    this.resetHeartbeatWatchdog();
+
+    let streamingEvent: StreamingEvent;
+    try {
+      streamingEvent = JSON.parse(message.data);
+    } catch (error) {
+      console.error('Failed to parse streaming event:', error);
+      return;
+    }
+
+    // Connection-level events carry no id of their own, only the inherited last id
+    if (CONNECTION_EVENTS.includes(streamingEvent.type)) {
+      this.dispatch(streamingEvent);
+      return;
+    }
+
+    // The SSE last id is inherited by events without an `id:` line, so it is
+    // only good for resuming; dedupe on the id the event itself carries
+    const eventId = streamingEvent.event_id;
+    if (eventId) {
+      // Replayed events after a resume may overlap with ones already delivered
+      if (this.seenEventIds.has(eventId)) return;
+      this.trackEventId(eventId);
+    }
+
+    const resumeId = eventId || message.lastEventId;
+    if (resumeId) {
+      this.lastEventId = resumeId;
+    }
+
+    this.dispatch(streamingEvent);
+  }
+
+  private trackEventId(eventId: string): void {
+    this.seenEventIds.add(eventId);
+    if (this.seenEventIds.size > MAX_TRACKED_EVENT_IDS) {
+      const oldest = this.seenEventIds.values().next().value;
+      if (oldest !== undefined) {
+        this.seenEventIds.delete(oldest);
+      }
+    }
+  }
+
+  private dispatch(event: StreamingEvent): void {
+    if (event.type === 'agent_result' && event.data?.agent_result?.agent_id) {
+      this.reportedAgentIds.add(event.data.agent_result.agent_id);
+    }
+
+    this.options.onEvent(event);
+
+    if (TERMINAL_EVENTS.includes(event.type)) {
+      this.close();
+    }
+  }
+
+  private resetHeartbeatWatchdog(): void {
+    this.clearTimer('heartbeatTimer');
+    this.heartbeatTimer = setTimeout(() => {
+      console.warn(`No heartbeat for ${this.options.heartbeatTimeout}ms, reconnecting execution stream`);
+      this.teardownEventSource();
+      this.scheduleReconnect();
+    }, this.options.heartbeatTimeout);
+  }
+
+  private getReconnectDelay(): number {
+    const { initialReconnectDelay, maxReconnectDelay } = this.options;
+    const exponential = initialReconnectDelay * Math.pow(2, this.reconnectAttempts);
+    const jitter = Math.random() * initialReconnectDelay;
+    return Math.min(exponential + jitter, maxReconnectDelay);
+  }
+
+  private scheduleReconnect(): void {
+    if (this.isClosed) return;
+
+    this.clearTimer('heartbeatTimer');
+    this.clearTimer('reconnectTimer');
+
+    if (!this.options.autoReconnect) {
+      this.startPolling();
+      return;
+    }
+
+    if (this.reconnectAttempts >= this.options.maxReconnectAttempts) {
+      this.startPolling();
+    } else {
+      this.setState('reconnecting');
+    }
+
+    const delay = this.getReconnectDelay();
+    this.reconnectAttempts += 1;
+    this.reconnectTimer = setTimeout(() => this.openEventSource(), delay);
+  }
+
+  private startPolling(): void {
+    if (this.isClosed || this.pollTimer || !this.options.fetchStatus) return;
+
+    this.setState('polling');
+    const fetchStatus = this.options.fetchStatus;
+
+    const poll = async () => {
+      this.pollTimer = null;
+      if (this.isClosed || this.getState() === 'open') return;
+
+      try {
+        const execution = await fetchStatus(this.executionId);
+        this.emitPolledUpdate(execution);
+        if (TERMINAL_STATUSES.includes(execution.status)) {
+          this.close();
+          return;
+        }
+      } catch (error) {
+        console.error('Execution status polling failed:', error);
+      }
+
+      if (!this.isClosed && this.getState() !== 'open') {
+        this.pollTimer = setTimeout(poll, this.options.pollInterval);
+      }
+    };
+
+    this.pollTimer = setTimeout(poll, 0);
+  }
+
+  /**
+   * Translate a polled execution snapshot into the events the stream would have sent
+   */
+  private emitPolledUpdate(execution: ExecutionResult): void {
+    const timestamp = new Date().toISOString();
+
+    execution.agent_results
+      .filter(result => !this.reportedAgentIds.has(result.agent_id))
+      .forEach(result => {
+        this.dispatch({ type: 'agent_result', data: { agent_result: result }, timestamp });
+      });
+
+    if (execution.status === 'completed') {
+      this.dispatch({ type: 'execution_completed', data: execution, timestamp });
+    } else if (execution.status === 'failed') {
+      this.dispatch({
+        type: 'execution_error',
+        data: { error_message: execution.error_message, failed_agent: execution.failed_agent },
+        timestamp,
+      });
+    } else {
+      this.dispatch({
+        type: 'execution_status',
+        data: {
+          status: execution.status,
+          progress_percentage: execution.progress_percentage,
+          current_agent: execution.current_agent,
+        },
+        timestamp,
+      });
+    }
+  }
+}
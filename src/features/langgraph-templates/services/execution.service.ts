@@ -6,6 +6,8 @@
 
 import { ApiClient } from '../../../services/api/ApiClient';
 import { apiConfig } from '../../../services/config/api.config';
+import { ExecutionStreamClient } from './execution-stream';
+import type { ExecutionStreamOptions } from './execution-stream';
 import type { Template } from '../types';
 
 export interface ExecutionRequest {
@@ -65,6 +67,7 @@ export interface StreamingEvent {
   data: any;
   timestamp: string;
   connection_id?: string;
+  event_id?: string;
 }
 
 export interface ParallelProgress {
@@ -96,8 +99,12 @@ export interface InterventionRequest {
 
 export interface InterventionResponse {
   intervention_id: string;
-  action: 'approve' | 'reject' | 'skip' | 'retry';
+  action: 'approve' | 'reject' | 'modify' | 'skip' | 'retry' | 'cancel';
   human_feedback?: string;
+  // Edited result, prompts or required fields for `modify` interventions
+  modifications?: Record<string, unknown>;
+  // Human input for `input` interventions and the chosen route for `decision`
+  custom_parameters?: Record<string, unknown>;
 }
 
 export class ExecutionService {
@@ -172,40 +179,30 @@ export class ExecutionService {
   }
 
   /**
-   * Create SSE connection for real-time execution updates
+   * Create SSE connection for real-time execution updates.
+   * Reconnects and resumes from the last event id, falling back to status polling.
    */
-  createExecutionStream(executionId: string, onEvent: (event: StreamingEvent) => void): () => void {
+  createExecutionStream(
+    executionId: string,
+    onEvent: (event: StreamingEvent) => void,
+    options: Omit<ExecutionStreamOptions, 'onEvent'> = {}
+  ): () => void {
     // Get JWT token from localStorage
     const token = localStorage.getItem('auth_token');
     if (!token) {
       throw new Error('Authentication token not found. Please log in again.');
     }
-    
-    const eventSource = new EventSource(`${apiConfig.baseURL}/api/stream/execution/${executionId}?token=${encodeURIComponent(token)}`);
-    
-    eventSource.onmessage = (event) => {
-      try {
-        const streamingEvent: StreamingEvent = JSON.parse(event.data);
-        onEvent(streamingEvent);
-      } catch (error) {
-        console.error('Failed to parse streaming event:', error);
-      }
-    };
 
-    eventSource.onerror = (error) => {
-      console.error('SSE connection error:', error);
-      // Attempt to reconnect after a delay
-      setTimeout(() => {
-        if (eventSource.readyState === EventSource.CLOSED) {
-          console.log('Attempting to reconnect SSE...');
-          // The caller should handle reconnection logic
-        }
-      }, 5000);
-    };
+    const client = new ExecutionStreamClient(executionId, {
+      fetchStatus: (id) => this.getExecutionStatus(id),
+      ...options,
+      onEvent,
+    });
+    client.connect();
 
     // Return cleanup function
     return () => {
-      eventSource.close();
+      client.close();
     };
   }
 
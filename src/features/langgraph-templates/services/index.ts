@@ -6,6 +6,12 @@
 
 export { TemplateService, templateService } from './template.service';
 export { ExecutionService, executionService } from './execution.service';
+export { ExecutionStreamClient } from './execution-stream';
+export type { StreamConnectionState, ExecutionStreamOptions } from './execution-stream';
+export type { TemplateVersion } from './template-version.service';
+export { TemplateVersionService, templateVersionService } from './template-version.service';
+export { TemplateDraftService, templateDraftService } from './template-draft.service';
+export type { TemplateDraft } from './template-draft.service';
 export type { 
   TemplateListResponse, 
   TemplateFilters, 
@@ -0,0 +1,135 @@
+/**
+ * Template Draft Service
+ *
+ * Persists in-progress templates from the creation wizard to IndexedDB so
+ * they survive refreshes, 401 redirects and browser crashes
+ */
+
+import type { Template } from '../types';
+
+export interface TemplateDraft {
+  id: string;
+  user_id: string;
+  template: Template;
+  // Wizard step the draft was last edited on
+  step: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const DB_NAME = 'template_drafts';
+const DB_VERSION = 1;
+const STORE_NAME = 'drafts';
+const USER_INDEX = 'user_id';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class TemplateDraftService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Whether drafts can be stored in this browser
+   */
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex(USER_INDEX, 'user_id', { unique: false });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch(error => {
+        // Allow a later call to retry opening the database
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDatabase();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  /**
+   * Create a new draft id
+   */
+  createDraftId(): string {
+    return `draft_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Insert or update a draft
+   */
+  async saveDraft(draft: TemplateDraft): Promise<TemplateDraft> {
+    try {
+      const store = await this.getStore('readwrite');
+      await requestToPromise(store.put(draft));
+      return draft;
+    } catch (error) {
+      console.error('Failed to save template draft:', error);
+      throw new Error('Failed to save draft. Changes are only kept in this tab.');
+    }
+  }
+
+  /**
+   * Get a draft by ID
+   */
+  async getDraft(id: string): Promise<TemplateDraft | null> {
+    try {
+      const store = await this.getStore('readonly');
+      const draft = await requestToPromise<TemplateDraft | undefined>(store.get(id));
+      return draft ?? null;
+    } catch (error) {
+      console.error('Failed to get template draft:', error);
+      throw new Error('Failed to load draft. Please try again.');
+    }
+  }
+
+  /**
+   * List a user's drafts, most recently edited first
+   */
+  async listDrafts(userId: string): Promise<TemplateDraft[]> {
+    try {
+      const store = await this.getStore('readonly');
+      const drafts = await requestToPromise<TemplateDraft[]>(store.index(USER_INDEX).getAll(userId));
+      return drafts.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    } catch (error) {
+      console.error('Failed to list template drafts:', error);
+      throw new Error('Failed to load drafts. Please try again.');
+    }
+  }
+
+  /**
+   * Delete a draft
+   */
+  async deleteDraft(id: string): Promise<void> {
+    try {
+      const store = await this.getStore('readwrite');
+      await requestToPromise(store.delete(id));
+    } catch (error) {
+      console.error('Failed to delete template draft:', error);
+      throw new Error('Failed to discard draft. Please try again.');
+    }
+  }
+}
+
+// Export singleton instance
+export const templateDraftService = new TemplateDraftService();
+export default templateDraftService;
@@ -0,0 +1,155 @@
+/**
+ * Template Version Service
+ *
+ * Keeps a per-template list of saved snapshots so edits can be compared and rolled back.
+ * Each template keeps its latest MAX_VERSIONS_PER_TEMPLATE snapshots; older ones are
+ * evicted first, also when storage runs out.
+ */
+
+import type { Template } from '../types';
+
+export interface TemplateVersion {
+  template_id: string;
+  version: number;
+  snapshot: Template;
+  saved_at: string;
+  note?: string;
+  restored_from?: number;
+}
+
+const STORAGE_PREFIX = 'template_versions_';
+const MAX_VERSIONS_PER_TEMPLATE = 50;
+
+function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+export class TemplateVersionService {
+  private getStorageKey(templateId: string): string {
+    return `${STORAGE_PREFIX}${templateId}`;
+  }
+
+  /**
+   * Store the version list, evicting the oldest snapshots while storage is full.
+   * Returns false if even the newest snapshot alone does not fit.
+   */
+  private writeVersions(templateId: string, versions: TemplateVersion[]): boolean {
+    // Drop the oldest snapshots first once the cap is reached
+    let trimmed = versions.slice(-MAX_VERSIONS_PER_TEMPLATE);
+
+    while (trimmed.length > 0) {
+      try {
+        localStorage.setItem(this.getStorageKey(templateId), JSON.stringify(trimmed));
+        return true;
+      } catch (error) {
+        if (!isQuotaExceededError(error)) throw error;
+        trimmed = trimmed.slice(1);
+      }
+    }
+
+    console.warn(`Template version history for ${templateId} does not fit in local storage`);
+    return false;
+  }
+
+  /**
+   * List all stored versions for a template, oldest first
+   */
+  listVersions(templateId: string): TemplateVersion[] {
+    try {
+      const raw = localStorage.getItem(this.getStorageKey(templateId));
+      if (!raw) return [];
+
+      const parsed = JSON.parse(raw) as TemplateVersion[];
+      return Array.isArray(parsed) ? parsed.sort((a, b) => a.version - b.version) : [];
+    } catch (error) {
+      console.error('Failed to read template versions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a single version by number
+   */
+  getVersion(templateId: string, version: number): TemplateVersion | null {
+    return this.listVersions(templateId).find(v => v.version === version) || null;
+  }
+
+  /**
+   * Get the most recent version, if any
+   */
+  getLatestVersion(templateId: string): TemplateVersion | null {
+    const versions = this.listVersions(templateId);
+    return versions.length > 0 ? versions[versions.length - 1] : null;
+  }
+
+  /**
+   * Record a new snapshot of the template and return the stored version
+   */
+  recordVersion(
+    template: Template,
+    options: { note?: string; restoredFrom?: number } = {}
+  ): TemplateVersion {
+    if (!template.id) {
+      throw new Error('Cannot version a template that has not been saved yet');
+    }
+
+    const versions = this.listVersions(template.id);
+    const nextVersion = versions.length > 0 ? versions[versions.length - 1].version + 1 : 1;
+
+    const entry: TemplateVersion = {
+      template_id: template.id,
+      version: nextVersion,
+      snapshot: this.withGraphVersion(template, nextVersion),
+      saved_at: new Date().toISOString(),
+      note: options.note,
+      restored_from: options.restoredFrom,
+    };
+
+    this.writeVersions(template.id, [...versions, entry]);
+    return entry;
+  }
+
+  /**
+   * Seed version 1 from the server copy if the template has never been versioned locally
+   */
+  ensureBaseline(template: Template): TemplateVersion | null {
+    if (!template.id) return null;
+
+    const latest = this.getLatestVersion(template.id);
+    if (latest) return latest;
+
+    return this.recordVersion(template, { note: 'Initial version' });
+  }
+
+  /**
+   * Stamp the version number onto the graph structure so it travels with the template
+   */
+  withGraphVersion(template: Template, version: number): Template {
+    if (!template.workflow.graph_structure) {
+      return template;
+    }
+
+    return {
+      ...template,
+      workflow: {
+        ...template.workflow,
+        graph_structure: {
+          ...template.workflow.graph_structure,
+          version: `${version}.0`,
+        },
+      },
+    };
+  }
+
+  /**
+   * Remove all stored versions for a template
+   */
+  clearVersions(templateId: string): void {
+    localStorage.removeItem(this.getStorageKey(templateId));
+  }
+}
+
+// Export singleton instance
+export const templateVersionService = new TemplateVersionService();
+export default templateVersionService;
@@ -5,7 +5,16 @@
  */
 
 import { ApiClient } from '../../../services/api/ApiClient';
-import type { Template } from '../types';
+import {
+  TemplateFileError,
+  getTemplateFileMimeType,
+  getTemplateFileName,
+  importTemplateFile,
+  serializeTemplateFile,
+} from '../utils/template-file-format';
+import type { TemplateFileType, TemplateImportResult } from '../utils/template-file-format';
+import { TEMPLATE_CATEGORY_CONFIGS } from '../types';
+import type { AgentType, Template, WorkflowMode } from '../types';
 
 export interface TemplateListResponse {
   templates: Template[];
@@ -27,6 +36,9 @@ export interface TemplateListParams extends TemplateFilters {
   sort?: 'name' | 'created_at' | 'updated_at' | 'usage_count';
   order?: 'asc' | 'desc';
   is_public?: boolean;
+  agent_types?: AgentType[];
+  workflow_modes?: WorkflowMode[];
+  min_success_rate?: number; // 0-1
 }
 
 export interface TemplateStats {
@@ -37,6 +49,9 @@ export interface TemplateStats {
   last_used: string | null;
 }
 
+// Page size used to collect every template name when checking import conflicts
+const IMPORT_NAME_PAGE_SIZE = 100;
+
 export class TemplateService {
   private apiClient: ApiClient;
 
@@ -143,6 +158,14 @@ export class TemplateService {
       if (params.limit) queryParams.append('limit', params.limit.toString());
       if (params.category) queryParams.append('category', params.category);
       if (params.is_public !== undefined) queryParams.append('is_public', params.is_public.toString());
+      if (params.search) queryParams.append('search', params.search);
+      if (params.author) queryParams.append('author', params.author);
+      params.tags?.forEach(tag => queryParams.append('tags', tag));
+      params.agent_types?.forEach(type => queryParams.append('agent_type', type));
+      params.workflow_modes?.forEach(mode => queryParams.append('workflow_mode', mode));
+      if (params.min_success_rate !== undefined) {
+        queryParams.append('min_success_rate', params.min_success_rate.toString());
+      }
 
       const url = `/api/templates?${queryParams.toString()}`;
       const response = await this.apiClient.get<TemplateListResponse>(url);
@@ -176,11 +199,11 @@ export class TemplateService {
    */
   async getCategories(): Promise<string[]> {
     try {
-      const response = await this.apiClient.get<{ categories: string[] }>('/templates/categories');
+      const response = await this.apiClient.get<{ categories: string[] }>('/api/templates/categories');
       return response.categories;
     } catch (error) {
       console.error('Failed to get categories:', error);
-      return ['market_research', 'cybersecurity', 'financial_analysis', 'supply_chain', 'custom'];
+      return Object.keys(TEMPLATE_CATEGORY_CONFIGS);
     }
   }
 
@@ -189,7 +212,7 @@ export class TemplateService {
    */
   async getTags(): Promise<string[]> {
     try {
-      const response = await this.apiClient.get<{ tags: string[] }>('/templates/tags');
+      const response = await this.apiClient.get<{ tags: string[] }>('/api/templates/tags');
       return response.tags;
     } catch (error) {
       console.error('Failed to get tags:', error);
@@ -230,14 +253,12 @@ export class TemplateService {
   }
 
   /**
-   * Export template
+   * Export template as a portable, schema-versioned file
    */
-  async exportTemplate(id: string): Promise<Blob> {
+  async exportTemplate(id: string, type: TemplateFileType = 'json'): Promise<Blob> {
     try {
-      const response = await this.apiClient.get(`/templates/${id}/export`, {
-        responseType: 'blob',
-      });
-      return response as Blob;
+      const template = await this.getTemplate(id);
+      return new Blob([serializeTemplateFile(template, type)], { type: getTemplateFileMimeType(type) });
     } catch (error) {
       console.error('Failed to export template:', error);
       throw new Error('Failed to export template. Please try again.');
@@ -245,23 +266,70 @@ export class TemplateService {
   }
 
   /**
-   * Import template
+   * Download a loaded template as a portable file
    */
-  async importTemplate(file: File): Promise<Template> {
+  downloadTemplateFile(template: Template, type: TemplateFileType = 'json'): void {
+    const blob = new Blob([serializeTemplateFile(template, type)], { type: getTemplateFileMimeType(type) });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getTemplateFileName(template, type);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Names of every template, paging through the whole list
+   */
+  private async listAllTemplateNames(): Promise<string[]> {
+    const names: string[] = [];
+    for (let page = 1; ; page++) {
+      const response = await this.listTemplatesPaginated({ page, limit: IMPORT_NAME_PAGE_SIZE });
+      const templates = response.templates || [];
+      names.push(...templates.map(template => template.name));
+      if (templates.length < IMPORT_NAME_PAGE_SIZE || names.length >= response.total) {
+        return names;
+      }
+    }
+  }
+
+  /**
+   * Read a template file and prepare it for import without saving it.
+   * Parsing, migration, id remapping and validation happen client-side.
+   */
+  async prepareTemplateImport(file: File): Promise<TemplateImportResult> {
+    const text = await file.text();
+
+    let existingNames: string[] = [];
     try {
-      const formData = new FormData();
-      formData.append('template', file);
+      existingNames = await this.listAllTemplateNames();
+    } catch (error) {
+      // Name conflicts are only a convenience check; the import can still proceed
+      console.error('Failed to load template names for import:', error);
+    }
 
-      const response = await this.apiClient.post<Template>('/templates/import', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-      return response;
+    try {
+      return importTemplateFile(text, { fileName: file.name, existingNames });
     } catch (error) {
-      console.error('Failed to import template:', error);
-      throw new Error('Failed to import template. Please check the file format and try again.');
+      console.error('Failed to read template file:', error);
+      if (error instanceof TemplateFileError) {
+        throw error;
+      }
+      throw new Error('Failed to read template file. Please check the file format and try again.');
+    }
+  }
+
+  /**
+   * Import template from a JSON or YAML template file
+   */
+  async importTemplate(file: File): Promise<Template> {
+    const result = await this.prepareTemplateImport(file);
+    if (!result.validation.isValid) {
+      throw new Error(`Template file is invalid: ${result.validation.errors.map(error => error.message).join('; ')}`);
     }
+    return this.createTemplate(result.template);
   }
 
   /**
@@ -10,6 +10,7 @@ import type {
   CompletionStrategy,
   HITLConfig as CentralizedHITLConfig
 } from '../../../types/hitl.types';
+import type { TemplateCategory } from '../../execution-history/types/execution-history.types';
 
 // Re-export for convenience
 export type {
@@ -18,6 +19,7 @@ export type {
   CompletionStrategy,
   ExecutionStatus
 } from '../../../types/hitl.types';
+export type { TemplateCategory };
 
 // Backend Template Enums - Exact matches from template.py
 export type AgentType = 'research' | 'analysis' | 'synthesis' | 'validation';
@@ -177,6 +179,21 @@ export interface WorkflowConfig {
   enable_time_travel?: boolean;
 }
 
+// Template input variables - typed values for `{placeholder}`s in agent prompts
+export type TemplateVariableType = 'string' | 'number' | 'enum' | 'url_list' | 'date';
+
+export interface TemplateVariable {
+  name: string; // Placeholder name without braces
+  label?: string;
+  type: TemplateVariableType;
+  description?: string;
+  required: boolean;
+  default_value?: string;
+  options?: string[]; // For enum variables
+  min?: number; // For number variables
+  max?: number; // For number variables
+}
+
 // Template - Exact match from template.py lines 251-278
 export interface Template {
   // Core Identity
@@ -190,6 +207,13 @@ export interface Template {
   // Workflow Configuration
   workflow: WorkflowConfig;
   
+  // Input variables collected at execution time and sent as custom_parameters
+  variables?: TemplateVariable[];
+  
+  // Discovery
+  category?: TemplateCategory;
+  tags?: string[]; // lowercase, hyphenated
+  
   // Metadata
   created_by?: string; // Set automatically by backend from JWT token
   created_by_name?: string; // User's display name for UI
@@ -324,6 +348,9 @@ export interface TemplateCreationData {
   description: string;
   agents: Agent[];
   workflow: WorkflowConfig;
+  variables?: TemplateVariable[];
+  category?: TemplateCategory;
+  tags?: string[];
 }
 
 export const DEFAULT_TEMPLATE_CREATION_DATA: TemplateCreationData = {
@@ -331,6 +358,31 @@ export const DEFAULT_TEMPLATE_CREATION_DATA: TemplateCreationData = {
   description: '',
   agents: [],
   workflow: DEFAULT_WORKFLOW_CONFIG,
+  tags: [],
+};
+
+// Template category configurations for UI
+export const TEMPLATE_CATEGORY_CONFIGS: Record<TemplateCategory, { label: string; description: string }> = {
+  market_research: {
+    label: 'Market Research',
+    description: 'Markets, customers and demand',
+  },
+  risk_assessment: {
+    label: 'Risk Assessment',
+    description: 'Risks, exposures and mitigations',
+  },
+  data_analysis: {
+    label: 'Data Analysis',
+    description: 'Interpreting data sets and metrics',
+  },
+  competitive_intelligence: {
+    label: 'Competitive Intelligence',
+    description: 'Competitors, positioning and moves',
+  },
+  trend_analysis: {
+    label: 'Trend Analysis',
+    description: 'Emerging trends and forecasts',
+  },
 };
 
 // Agent type configurations for UI
@@ -0,0 +1,336 @@
+/**
+ * Batch Execution Utilities
+ *
+ * Parses pasted or CSV batch input into rows, validates and estimates them,
+ * and tracks / exports the child executions of a batch run.
+ */
+
+import { estimateTemplateCost } from './cost-estimator';
+import type { EstimateRange } from './cost-estimator';
+import { parseVariableValues, validateVariableValues } from './template-variables';
+import type { Template, TemplateVariable } from '../types';
+import { csvCell } from '../../execution-history/utils/csv.utils';
+import type { ExecutionResult } from '../../execution-history/types/execution-history.types';
+
+export const MAX_BATCH_SIZE = 200;
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 10;
+
+export interface BatchInputRow {
+  id: string;
+  query: string;
+  // Per-row variable values; they override the values shared by the batch
+  variables: Record<string, string>;
+}
+
+export interface BatchParseResult {
+  rows: BatchInputRow[];
+  warnings: string[];
+  errors: string[];
+}
+
+export type BatchRowStatus = 'queued' | 'submitting' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BatchRunRow extends BatchInputRow {
+  // Typed custom_parameters sent with the execution
+  parameters: Record<string, unknown>;
+  status: BatchRowStatus;
+  attempts: number;
+  executionId?: string;
+  execution?: ExecutionResult;
+  error?: string;
+}
+
+export interface BatchSummary {
+  total: number;
+  queued: number;
+  active: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  // Finished rows as a percentage of all rows
+  progress: number;
+  totalCost: number;
+  isFinished: boolean;
+}
+
+const createRowId = (index: number) => `row_${index + 1}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * One query per line; blank lines and `#` comments are skipped
+ */
+export function parseBatchList(text: string): BatchParseResult {
+  const queries = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+
+  return limitBatchSize({
+    rows: queries.map((query, index) => ({ id: createRowId(index), query, variables: {} })),
+    warnings: [],
+    errors: [],
+  });
+}
+
+/**
+ * Split CSV text into records, honouring quoted fields with commas,
+ * escaped quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter(row => row.some(cell => cell.trim()));
+}
+
+/**
+ * CSV with a header row: a `query` column plus one column per template
+ * variable. Other columns are ignored with a warning.
+ */
+export function parseBatchCsv(text: string, variables: TemplateVariable[]): BatchParseResult {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    return { rows: [], warnings: [], errors: ['The CSV file is empty'] };
+  }
+
+  const columns = header.map(column => column.trim());
+  const queryIndex = columns.findIndex(column => column.toLowerCase() === 'query');
+  if (queryIndex === -1) {
+    return { rows: [], warnings: [], errors: ['The CSV needs a "query" column'] };
+  }
+
+  const variableColumns = columns
+    .map((column, index) => ({ index, variable: variables.find(variable => variable.name === column) }))
+    .filter((entry): entry is { index: number; variable: TemplateVariable } => Boolean(entry.variable));
+  const ignored = columns.filter((column, index) =>
+    index !== queryIndex && column && !variableColumns.some(entry => entry.index === index)
+  );
+
+  const warnings: string[] = [];
+  if (ignored.length > 0) {
+    warnings.push(`Ignored column${ignored.length > 1 ? 's' : ''} matching no template variable: ${ignored.join(', ')}`);
+  }
+
+  const rows: BatchInputRow[] = [];
+  let skipped = 0;
+  records.forEach(record => {
+    const query = (record[queryIndex] || '').trim();
+    if (!query) {
+      skipped++;
+      return;
+    }
+    const rowVariables: Record<string, string> = {};
+    variableColumns.forEach(({ index, variable }) => {
+      const value = (record[index] || '').trim();
+      if (value) rowVariables[variable.name] = value;
+    });
+    rows.push({ id: createRowId(rows.length), query, variables: rowVariables });
+  });
+
+  if (skipped > 0) {
+    warnings.push(`Skipped ${skipped} row${skipped > 1 ? 's' : ''} without a query`);
+  }
+
+  return limitBatchSize({ rows, warnings, errors: [] });
+}
+
+function limitBatchSize(result: BatchParseResult): BatchParseResult {
+  if (result.rows.length <= MAX_BATCH_SIZE) return result;
+  return {
+    ...result,
+    rows: result.rows.slice(0, MAX_BATCH_SIZE),
+    warnings: [...result.warnings, `Only the first ${MAX_BATCH_SIZE} of ${result.rows.length} rows are used`],
+  };
+}
+
+/**
+ * Variable values for a row: the shared values overridden by the row's own
+ */
+export function getRowVariableValues(row: BatchInputRow, sharedValues: Record<string, string>): Record<string, string> {
+  return { ...sharedValues, ...row.variables };
+}
+
+/**
+ * Variable errors per row id; rows without errors are left out
+ */
+export function validateBatchRows(
+  rows: BatchInputRow[],
+  variables: TemplateVariable[],
+  sharedValues: Record<string, string>
+): Record<string, Record<string, string>> {
+  const errors: Record<string, Record<string, string>> = {};
+  rows.forEach(row => {
+    const rowErrors = validateVariableValues(variables, getRowVariableValues(row, sharedValues));
+    if (Object.keys(rowErrors).length > 0) {
+      errors[row.id] = rowErrors;
+    }
+  });
+  return errors;
+}
+
+/**
+ * Rows ready to submit, with their typed custom_parameters
+ */
+export function createBatchRunRows(
+  rows: BatchInputRow[],
+  variables: TemplateVariable[],
+  sharedValues: Record<string, string>
+): BatchRunRow[] {
+  return rows.map(row => ({
+    ...row,
+    parameters: parseVariableValues(variables, getRowVariableValues(row, sharedValues)),
+    status: 'queued',
+    attempts: 0,
+  }));
+}
+
+/**
+ * Summed cost range for running the template once per row
+ */
+export function estimateBatchCost(template: Template, rows: BatchInputRow[]): EstimateRange {
+  return rows.reduce<EstimateRange>((total, row) => {
+    const { cost } = estimateTemplateCost(template, row.query);
+    return {
+      min: total.min + cost.min,
+      expected: total.expected + cost.expected,
+      max: total.max + cost.max,
+    };
+  }, { min: 0, expected: 0, max: 0 });
+}
+
+/**
+ * Row status for a child execution's status
+ */
+export function getBatchRowStatus(execution: ExecutionResult): BatchRowStatus {
+  switch (execution.status) {
+    case 'completed':
+      return 'completed';
+    case 'failed':
+    case 'timeout':
+      return 'failed';
+    case 'cancelled':
+      return 'cancelled';
+    default:
+      return 'running';
+  }
+}
+
+export function isActiveBatchRow(row: BatchRunRow): boolean {
+  return row.status === 'submitting' || row.status === 'running';
+}
+
+export function summarizeBatch(rows: BatchRunRow[]): BatchSummary {
+  const count = (status: BatchRowStatus) => rows.filter(row => row.status === status).length;
+  const completed = count('completed');
+  const failed = count('failed');
+  const cancelled = count('cancelled');
+  const queued = count('queued');
+  const active = rows.filter(isActiveBatchRow).length;
+  const finished = completed + failed + cancelled;
+
+  return {
+    total: rows.length,
+    queued,
+    active,
+    completed,
+    failed,
+    cancelled,
+    progress: rows.length > 0 ? Math.round((finished / rows.length) * 100) : 0,
+    totalCost: rows.reduce((sum, row) => sum + (row.execution?.total_cost || 0), 0),
+    isFinished: rows.length > 0 && queued === 0 && active === 0,
+  };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const getResultText = (row: BatchRunRow) =>
+  row.execution?.final_result ? JSON.stringify(row.execution.final_result) : '';
+
+/**
+ * One line per row with its variables, outcome, metrics and final result
+ */
+export function batchResultsToCsv(rows: BatchRunRow[], variables: TemplateVariable[]): string {
+  const header = [
+    'Row', 'Query', ...variables.map(variable => variable.name),
+    'Status', 'Execution ID', 'Cost', 'Duration (s)', 'Confidence', 'Error', 'Result',
+  ];
+  const lines = rows.map((row, index) => [
+    index + 1,
+    row.query,
+    ...variables.map(variable => {
+      const value = row.parameters[variable.name];
+      return value === undefined ? '' : Array.isArray(value) ? value.join(' ') : String(value);
+    }),
+    row.status,
+    row.executionId || '',
+    // Metrics stay null on executions polled before they finish
+    row.execution?.total_cost?.toFixed(4) ?? '',
+    row.execution?.total_duration?.toFixed(1) ?? '',
+    row.execution?.overall_confidence?.toFixed(2) ?? '',
+    row.error || row.execution?.error_message || '',
+    getResultText(row),
+  ]);
+  return [header, ...lines].map(line => line.map(csvCell).join(',')).join('\n');
+}
+
+export function batchResultsToJson(rows: BatchRunRow[], template: Pick<Template, 'id' | 'name'>): string {
+  return JSON.stringify({
+    template_id: template.id,
+    template_name: template.name,
+    exported_at: new Date().toISOString(),
+    summary: summarizeBatch(rows),
+    results: rows.map((row, index) => ({
+      row: index + 1,
+      query: row.query,
+      parameters: row.parameters,
+      status: row.status,
+      attempts: row.attempts,
+      execution_id: row.executionId || null,
+      total_cost: row.execution?.total_cost ?? null,
+      total_duration: row.execution?.total_duration ?? null,
+      overall_confidence: row.execution?.overall_confidence ?? null,
+      error: row.error || row.execution?.error_message || null,
+      final_result: row.execution?.final_result ?? null,
+    })),
+  }, null, 2);
+}
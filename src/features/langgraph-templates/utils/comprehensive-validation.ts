@@ -11,6 +11,8 @@ import type {
   ValidationResult,
   ValidationError
 } from '../types';
+import { validateTemplateVariables } from './template-variables';
+import { analyzeWorkflowGraph } from './graph-analysis';
 
 export interface ValidationContext {
   showErrors?: boolean;
@@ -36,6 +38,7 @@ export class TemplateValidator {
     this.validateBasicInfo(template);
     this.validateAgents(template.agents);
     this.validateWorkflowExecution(template.workflow, template.agents);
+    this.validateVariables(template);
 
     return {
       isValid: this.errors.length === 0,
@@ -138,6 +141,24 @@ export class TemplateValidator {
         this.validateConditionalWorkflow(workflow, agents);
         break;
     }
+
+    this.validateGraphStructure(workflow, agents);
+  }
+
+  /**
+   * Graph Structure Validation - reachability, dead ends, cycles, conditions
+   */
+  private validateGraphStructure(workflow: WorkflowConfig, agents: Agent[]): void {
+    if (!workflow.graph_structure || workflow.graph_structure.edges.length === 0) return;
+
+    const analysis = analyzeWorkflowGraph(workflow, agents);
+    analysis?.issues.forEach(issue => {
+      if (issue.severity === 'error') {
+        this.addError(issue.field, issue.message);
+      } else {
+        this.addWarning(issue.message);
+      }
+    });
   }
 
   /**
@@ -220,12 +241,16 @@ export class TemplateValidator {
       return;
     }
 
-    // Validate graph structure if present
-    if (hasGraphStructure) {
-      if (!workflow.graph_structure?.entry_point) {
-        this.addError('workflow.graph_structure.entry_point', 'Conditional workflow requires an entry point', 'required');
-      }
-    }
+    // Graph structure itself is checked by validateGraphStructure
+  }
+
+  /**
+   * Declared input variables must be valid; undeclared placeholders only warn
+   */
+  private validateVariables(template: Template): void {
+    const { errors, warnings } = validateTemplateVariables(template);
+    errors.forEach(error => this.addError(error.field, error.message, error.type));
+    warnings.forEach(warning => this.addWarning(warning));
   }
 
   /**
@@ -0,0 +1,882 @@
+/**
+ * Edge Condition Expression Language
+ *
+ * A small, typed expression language for conditional edges, evaluated
+ * against the source agent's result:
+ *
+ *   confidence_score >= 0.8 AND key_findings.length > 2
+ *   (content matches /revenue|profit/i OR tavily_results.total_sources >= 5) AND NOT error contains "timeout"
+ *
+ * - Logical: AND / OR / NOT (also && || !), parentheses for grouping
+ * - Comparison: == != > >= < <=, `contains` (text or list), `matches` / =~ (regex)
+ * - Values: numbers, "strings" or 'strings', /regex/flags, true, false, null
+ * - Fields: see CONDITION_FIELDS; `.length` works on text and lists
+ *
+ * `compileCondition` parses and type-checks the source; the resulting AST is
+ * stored in `Edge.condition_data` and can be evaluated client-side with
+ * `evaluateCondition` on recorded results.
+ */
+
+import type { AgentResult } from '../../execution-history/types/execution-history.types';
+
+export const CONDITION_LANGUAGE = 'condition-expression';
+export const CONDITION_LANGUAGE_VERSION = 1;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ConditionValueType = 'number' | 'string' | 'boolean' | 'string_list' | 'list' | 'object' | 'regex' | 'null';
+
+export type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=' | 'contains' | 'matches';
+
+interface NodeRange {
+  start: number;
+  end: number;
+}
+
+export type ConditionNode =
+  | ({ type: 'logical'; operator: 'and' | 'or'; left: ConditionNode; right: ConditionNode } & NodeRange)
+  | ({ type: 'not'; operand: ConditionNode } & NodeRange)
+  | ({ type: 'comparison'; operator: ComparisonOperator; left: ConditionNode; right: ConditionNode } & NodeRange)
+  | ({ type: 'field'; path: string[] } & NodeRange)
+  | ({ type: 'literal'; value: string | number | boolean | null } & NodeRange)
+  | ({ type: 'regex'; pattern: string; flags: string } & NodeRange);
+
+export interface ConditionDiagnostic {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface CompiledCondition {
+  ast: ConditionNode | null;
+  errors: ConditionDiagnostic[];
+}
+
+/**
+ * Shape stored in `Edge.condition_data` for expression conditions
+ */
+export interface ExpressionConditionData {
+  language: typeof CONDITION_LANGUAGE;
+  version: number;
+  expression: string;
+  ast: ConditionNode;
+  description?: string;
+}
+
+export interface ConditionFieldSchema {
+  type: ConditionValueType;
+  description: string;
+  fields?: Record<string, ConditionFieldSchema>;
+}
+
+export type ConditionContext = Record<string, unknown>;
+
+// ============================================================================
+// FIELD SCHEMA
+// ============================================================================
+
+const num = (description: string): ConditionFieldSchema => ({ type: 'number', description });
+const str = (description: string): ConditionFieldSchema => ({ type: 'string', description });
+const bool = (description: string): ConditionFieldSchema => ({ type: 'boolean', description });
+
+const SOURCE_FIELDS: Record<string, ConditionFieldSchema> = {
+  title: str('Source title'),
+  url: str('Source URL'),
+  content_preview: str('Content preview'),
+  relevance_score: num('Relevance score (0-1)'),
+  content_length: num('Content length in characters'),
+};
+
+/**
+ * Fields available to conditions, mirroring AgentResult and StructuredAgentResultData
+ */
+export const CONDITION_FIELDS: Record<string, ConditionFieldSchema> = {
+  success: bool('Whether the agent succeeded'),
+  error: str('Error message, empty when the agent succeeded'),
+  confidence_score: num('Confidence score (0-1)'),
+  duration_seconds: num('Execution time in seconds'),
+  execution_time: num('Alias of duration_seconds'),
+  tokens_used: num('Tokens used'),
+  token_count: num('Alias of tokens_used'),
+  cost: num('Cost in USD'),
+  tavily_calls: num('Number of Tavily API calls'),
+  tavily_credits: num('Tavily credits used'),
+  content: str('LLM output text'),
+  key_findings: { type: 'string_list', description: 'Key findings extracted from the output' },
+  recommendations: { type: 'string_list', description: 'Recommendations extracted from the output' },
+  data_points: { type: 'string_list', description: 'Data points extracted from the output' },
+  all_sources: { type: 'list', description: 'All sources gathered by Tavily', fields: SOURCE_FIELDS },
+  llm_response: {
+    type: 'object',
+    description: 'Structured LLM response',
+    fields: {
+      content: str('LLM output text'),
+      summary: str('Summary of the output'),
+      key_points: { type: 'string_list', description: 'Key points' },
+      confidence: num('LLM confidence (0-1)'),
+      word_count: num('Word count'),
+      has_structured_content: bool('Output has headings / lists'),
+      contains_recommendations: bool('Output contains recommendations'),
+      contains_data: bool('Output contains data'),
+      contains_sources: bool('Output cites sources'),
+    },
+  },
+  tavily_results: {
+    type: 'object',
+    description: 'Structured Tavily results',
+    fields: {
+      total_sources: num('Total sources across APIs'),
+      total_credits_used: num('Credits used'),
+      apis_used: { type: 'string_list', description: 'APIs used (search, extract, crawl, map)' },
+      total_response_time: num('Total response time in seconds'),
+      successful_apis: num('APIs that succeeded'),
+      failed_apis: num('APIs that failed'),
+      has_results: bool('Whether any API returned results'),
+      search: {
+        type: 'object',
+        description: 'Search API results',
+        fields: {
+          query: str('Search query'),
+          answer: str('Tavily answer'),
+          total_results: num('Number of search results'),
+          has_answer: bool('Whether Tavily returned an answer'),
+          sources: { type: 'list', description: 'Search sources', fields: SOURCE_FIELDS },
+        },
+      },
+      extract: {
+        type: 'object',
+        description: 'Extract API results',
+        fields: {
+          total_extractions: num('Successful extractions'),
+          failed_extractions: num('Failed extractions'),
+          total_content_length: num('Extracted characters'),
+        },
+      },
+      crawl: {
+        type: 'object',
+        description: 'Crawl API results',
+        fields: {
+          total_pages: num('Pages crawled'),
+          max_depth_reached: num('Deepest crawl level'),
+        },
+      },
+      map: {
+        type: 'object',
+        description: 'Map API results',
+        fields: {
+          total_urls: num('URLs discovered'),
+        },
+      },
+    },
+  },
+};
+
+const LENGTH_FIELD: ConditionFieldSchema = num('Number of items / characters');
+
+const KEYWORDS = ['and', 'or', 'not', 'contains', 'matches', 'true', 'false', 'null'] as const;
+
+// ============================================================================
+// LEXER
+// ============================================================================
+
+type TokenKind = 'number' | 'string' | 'regex' | 'identifier' | 'keyword' | 'operator' | 'punctuation' | 'eof';
+
+interface Token extends NodeRange {
+  kind: TokenKind;
+  value: string;
+  flags?: string;
+}
+
+class ConditionSyntaxError extends Error {
+  start: number;
+  end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.name = 'ConditionSyntaxError';
+    this.start = start;
+    this.end = end;
+  }
+}
+
+const OPERATORS = ['==', '!=', '>=', '<=', '=~', '&&', '||', '>', '<', '!'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  const previousAllowsRegex = () => {
+    const previous = tokens[tokens.length - 1];
+    return previous && ((previous.kind === 'keyword' && previous.value === 'matches') || previous.value === '=~');
+  };
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+
+    if (/\d/.test(char) || (char === '.' && /\d/.test(source[pos + 1] || ''))) {
+      while (pos < source.length && /[\d.]/.test(source[pos])) pos++;
+      const value = source.slice(start, pos);
+      if (isNaN(Number(value))) {
+        throw new ConditionSyntaxError(`Invalid number "${value}"`, start, pos);
+      }
+      tokens.push({ kind: 'number', value, start, end: pos });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      pos++;
+      let value = '';
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          const escaped = source[pos + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          pos += 2;
+        } else {
+          value += source[pos++];
+        }
+      }
+      if (source[pos] !== char) {
+        throw new ConditionSyntaxError('Unterminated string', start, source.length);
+      }
+      pos++;
+      tokens.push({ kind: 'string', value, start, end: pos });
+      continue;
+    }
+
+    if (char === '/' && previousAllowsRegex()) {
+      pos++;
+      let pattern = '';
+      let inClass = false;
+      while (pos < source.length && (source[pos] !== '/' || inClass)) {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          pattern += source.slice(pos, pos + 2);
+          pos += 2;
+          continue;
+        }
+        if (source[pos] === '[') inClass = true;
+        if (source[pos] === ']') inClass = false;
+        pattern += source[pos++];
+      }
+      if (source[pos] !== '/') {
+        throw new ConditionSyntaxError('Unterminated regular expression', start, source.length);
+      }
+      pos++;
+      const flagsStart = pos;
+      while (pos < source.length && /[a-z]/i.test(source[pos])) pos++;
+      tokens.push({ kind: 'regex', value: pattern, flags: source.slice(flagsStart, pos), start, end: pos });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      while (pos < source.length && /\w/.test(source[pos])) pos++;
+      const value = source.slice(start, pos);
+      const lower = value.toLowerCase();
+      const isKeyword = (KEYWORDS as readonly string[]).includes(lower);
+      tokens.push({ kind: isKeyword ? 'keyword' : 'identifier', value: isKeyword ? lower : value, start, end: pos });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, pos));
+    if (operator) {
+      pos += operator.length;
+      tokens.push({ kind: 'operator', value: operator, start, end: pos });
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === '.') {
+      pos++;
+      tokens.push({ kind: 'punctuation', value: char, start, end: pos });
+      continue;
+    }
+
+    if (char === '=') {
+      throw new ConditionSyntaxError('Use "==" to compare values', start, start + 1);
+    }
+    throw new ConditionSyntaxError(`Unexpected character "${char}"`, start, start + 1);
+  }
+
+  tokens.push({ kind: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+const COMPARISON_OPERATORS: Record<string, ComparisonOperator> = {
+  '==': '==',
+  '!=': '!=',
+  '>': '>',
+  '>=': '>=',
+  '<': '<',
+  '<=': '<=',
+  '=~': 'matches',
+  contains: 'contains',
+  matches: 'matches',
+};
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ConditionNode {
+    if (this.peek().kind === 'eof') {
+      throw new ConditionSyntaxError('Condition is empty', 0, 0);
+    }
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'eof') {
+      throw new ConditionSyntaxError(`Unexpected "${next.value}"; expected AND, OR or end of condition`, next.start, next.end);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matches(...values: string[]): boolean {
+    const token = this.peek();
+    return (token.kind === 'keyword' || token.kind === 'operator') && values.includes(token.value);
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.matches('or', '||')) {
+      this.advance();
+      const right = this.parseAnd();
+      left = { type: 'logical', operator: 'or', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.matches('and', '&&')) {
+      this.advance();
+      const right = this.parseNot();
+      left = { type: 'logical', operator: 'and', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.matches('not', '!')) {
+      const token = this.advance();
+      const operand = this.parseNot();
+      return { type: 'not', operand, start: token.start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parsePrimary();
+    const token = this.peek();
+    const operator = (token.kind === 'keyword' || token.kind === 'operator') ? COMPARISON_OPERATORS[token.value] : undefined;
+    if (!operator) return left;
+
+    this.advance();
+    const right = this.parsePrimary();
+    return { type: 'comparison', operator, left, right, start: left.start, end: right.end };
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.advance();
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value), start: token.start, end: token.end };
+      case 'string':
+        return { type: 'literal', value: token.value, start: token.start, end: token.end };
+      case 'regex':
+        return { type: 'regex', pattern: token.value, flags: token.flags || '', start: token.start, end: token.end };
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false') {
+          return { type: 'literal', value: token.value === 'true', start: token.start, end: token.end };
+        }
+        if (token.value === 'null') {
+          return { type: 'literal', value: null, start: token.start, end: token.end };
+        }
+        throw new ConditionSyntaxError(`Expected a field or value before "${token.value.toUpperCase()}"`, token.start, token.end);
+      case 'identifier':
+        return this.parseField(token);
+      case 'punctuation':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          const closing = this.advance();
+          if (closing.value !== ')') {
+            throw new ConditionSyntaxError('Missing closing ")"', token.start, closing.end);
+          }
+          return { ...inner, start: token.start, end: closing.end };
+        }
+        break;
+      case 'eof':
+        throw new ConditionSyntaxError('Condition ends unexpectedly; expected a field or value', token.start, token.end);
+    }
+
+    throw new ConditionSyntaxError(`Unexpected "${token.value}"`, token.start, token.end);
+  }
+
+  private parseField(first: Token): ConditionNode {
+    const path = [first.value];
+    let end = first.end;
+
+    while (this.peek().kind === 'punctuation' && this.peek().value === '.') {
+      const dot = this.advance();
+      const part = this.advance();
+      if (part.kind !== 'identifier' && part.kind !== 'keyword') {
+        throw new ConditionSyntaxError('Expected a field name after "."', dot.start, part.end);
+      }
+      path.push(part.value);
+      end = part.end;
+    }
+
+    return { type: 'field', path, start: first.start, end };
+  }
+}
+
+// ============================================================================
+// TYPE CHECKER
+// ============================================================================
+
+function childFields(schema: ConditionFieldSchema): Record<string, ConditionFieldSchema> {
+  const fields = { ...(schema.fields || {}) };
+  if (schema.type === 'string' || schema.type === 'string_list' || schema.type === 'list') {
+    fields.length = LENGTH_FIELD;
+  }
+  return fields;
+}
+
+/**
+ * Resolve a dotted field path against the schema
+ */
+export function resolveConditionField(path: string[]): ConditionFieldSchema | null {
+  let fields: Record<string, ConditionFieldSchema> = CONDITION_FIELDS;
+  let schema: ConditionFieldSchema | null = null;
+
+  for (const part of path) {
+    schema = fields[part] ?? null;
+    if (!schema) return null;
+    fields = childFields(schema);
+  }
+  return schema;
+}
+
+function closestName(name: string, candidates: string[]): string | undefined {
+  const lower = name.toLowerCase();
+  return candidates.find(candidate => candidate.startsWith(lower) || lower.startsWith(candidate))
+    ?? candidates.find(candidate => candidate.includes(lower) || lower.includes(candidate));
+}
+
+const TYPE_LABELS: Record<ConditionValueType, string> = {
+  number: 'a number',
+  string: 'text',
+  boolean: 'true/false',
+  string_list: 'a list of text',
+  list: 'a list',
+  object: 'an object',
+  regex: 'a regular expression',
+  null: 'null',
+};
+
+function checkNode(node: ConditionNode, errors: ConditionDiagnostic[]): ConditionValueType | null {
+  const error = (message: string, range: NodeRange = node) => {
+    errors.push({ message, start: range.start, end: range.end });
+  };
+
+  switch (node.type) {
+    case 'literal':
+      if (node.value === null) return 'null';
+      return typeof node.value as 'number' | 'string' | 'boolean';
+
+    case 'regex':
+      try {
+        new RegExp(node.pattern, node.flags);
+      } catch (err) {
+        error(`Invalid regular expression: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      return 'regex';
+
+    case 'field': {
+      let fields: Record<string, ConditionFieldSchema> = CONDITION_FIELDS;
+      let schema: ConditionFieldSchema | null = null;
+      for (let i = 0; i < node.path.length; i++) {
+        const part = node.path[i];
+        schema = fields[part] ?? null;
+        if (!schema) {
+          const parent = node.path.slice(0, i).join('.');
+          const suggestion = closestName(part, Object.keys(fields));
+          error(
+            `Unknown field "${part}"${parent ? ` on ${parent}` : ''}${suggestion ? `; did you mean "${suggestion}"?` : ''}`
+          );
+          return null;
+        }
+        fields = childFields(schema);
+      }
+      return schema!.type;
+    }
+
+    case 'not': {
+      const operand = checkNode(node.operand, errors);
+      if (operand && operand !== 'boolean') {
+        error(`NOT needs a true/false value, got ${TYPE_LABELS[operand]}`, node.operand);
+      }
+      return 'boolean';
+    }
+
+    case 'logical': {
+      const left = checkNode(node.left, errors);
+      const right = checkNode(node.right, errors);
+      const label = node.operator.toUpperCase();
+      if (left && left !== 'boolean') error(`${label} needs conditions on both sides, got ${TYPE_LABELS[left]}`, node.left);
+      if (right && right !== 'boolean') error(`${label} needs conditions on both sides, got ${TYPE_LABELS[right]}`, node.right);
+      return 'boolean';
+    }
+
+    case 'comparison': {
+      const left = checkNode(node.left, errors);
+      const right = checkNode(node.right, errors);
+      if (!left || !right) return 'boolean';
+
+      switch (node.operator) {
+        case '>':
+        case '>=':
+        case '<':
+        case '<=':
+          if (left !== 'number') error(`"${node.operator}" compares numbers, but the left side is ${TYPE_LABELS[left]}`, node.left);
+          if (right !== 'number') error(`"${node.operator}" compares numbers, but the right side is ${TYPE_LABELS[right]}`, node.right);
+          break;
+        case '==':
+        case '!=':
+          if (left !== right && left !== 'null' && right !== 'null') {
+            error(`Can't compare ${TYPE_LABELS[left]} with ${TYPE_LABELS[right]}`);
+          } else if (['string_list', 'list', 'object', 'regex'].includes(left)) {
+            error(`"${node.operator}" can't compare ${TYPE_LABELS[left]}; use contains or .length`);
+          }
+          break;
+        case 'contains':
+          if (left !== 'string' && left !== 'string_list') {
+            error(`"contains" works on text or a list of text, but the left side is ${TYPE_LABELS[left]}`, node.left);
+          }
+          if (right !== 'string') error(`"contains" needs text on the right, got ${TYPE_LABELS[right]}`, node.right);
+          break;
+        case 'matches':
+          if (left !== 'string' && left !== 'string_list') {
+            error(`"matches" works on text or a list of text, but the left side is ${TYPE_LABELS[left]}`, node.left);
+          }
+          if (right !== 'regex' && right !== 'string') {
+            error(`"matches" needs a /regex/ or pattern string on the right, got ${TYPE_LABELS[right]}`, node.right);
+          } else if (right === 'string' && node.right.type === 'literal') {
+            try {
+              new RegExp(String(node.right.value));
+            } catch (err) {
+              error(`Invalid regular expression: ${err instanceof Error ? err.message : String(err)}`, node.right);
+            }
+          }
+          break;
+      }
+      return 'boolean';
+    }
+  }
+}
+
+/**
+ * Parse and type-check a condition expression
+ */
+export function compileCondition(source: string): CompiledCondition {
+  let ast: ConditionNode;
+  try {
+    ast = new Parser(tokenize(source)).parse();
+  } catch (error) {
+    if (error instanceof ConditionSyntaxError) {
+      return { ast: null, errors: [{ message: error.message, start: error.start, end: error.end }] };
+    }
+    throw error;
+  }
+
+  const errors: ConditionDiagnostic[] = [];
+  const resultType = checkNode(ast, errors);
+  if (errors.length === 0 && resultType !== 'boolean') {
+    errors.push({
+      message: `A condition must be true or false, but this is ${resultType ? TYPE_LABELS[resultType] : 'unknown'}; add a comparison like "> 0"`,
+      start: ast.start,
+      end: ast.end,
+    });
+  }
+
+  return { ast: errors.length === 0 ? ast : null, errors };
+}
+
+// ============================================================================
+// EVALUATOR
+// ============================================================================
+
+function readField(context: ConditionContext, path: string[]): unknown {
+  let value: unknown = context;
+  for (const part of path) {
+    if (part === 'length' && (typeof value === 'string' || Array.isArray(value))) {
+      value = value.length;
+      continue;
+    }
+    if (value === null || typeof value !== 'object') return null;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value ?? null;
+}
+
+function evaluateValue(node: ConditionNode, context: ConditionContext): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'regex':
+      return new RegExp(node.pattern, node.flags);
+    case 'field':
+      return readField(context, node.path);
+    default:
+      return evaluateCondition(node, context);
+  }
+}
+
+function toRegExp(value: unknown): RegExp | null {
+  if (value instanceof RegExp) return value;
+  if (typeof value === 'string') {
+    try {
+      return new RegExp(value);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Evaluate a compiled condition. Missing fields are null, and any comparison
+ * with null other than == / != is false.
+ */
+export function evaluateCondition(node: ConditionNode, context: ConditionContext): boolean {
+  switch (node.type) {
+    case 'logical':
+      return node.operator === 'and'
+        ? evaluateCondition(node.left, context) && evaluateCondition(node.right, context)
+        : evaluateCondition(node.left, context) || evaluateCondition(node.right, context);
+
+    case 'not':
+      return !evaluateCondition(node.operand, context);
+
+    case 'comparison': {
+      const left = evaluateValue(node.left, context);
+      const right = evaluateValue(node.right, context);
+
+      switch (node.operator) {
+        case '==':
+          return left === right;
+        case '!=':
+          return left !== right;
+        case '>':
+          return typeof left === 'number' && typeof right === 'number' && left > right;
+        case '>=':
+          return typeof left === 'number' && typeof right === 'number' && left >= right;
+        case '<':
+          return typeof left === 'number' && typeof right === 'number' && left < right;
+        case '<=':
+          return typeof left === 'number' && typeof right === 'number' && left <= right;
+        case 'contains': {
+          if (typeof right !== 'string') return false;
+          const needle = right.toLowerCase();
+          if (typeof left === 'string') return left.toLowerCase().includes(needle);
+          if (Array.isArray(left)) return left.some(item => typeof item === 'string' && item.toLowerCase().includes(needle));
+          return false;
+        }
+        case 'matches': {
+          const regex = toRegExp(right);
+          if (!regex) return false;
+          const test = (text: string) => {
+            regex.lastIndex = 0;
+            return regex.test(text);
+          };
+          if (typeof left === 'string') return test(left);
+          if (Array.isArray(left)) return left.some(item => typeof item === 'string' && test(item));
+          return false;
+        }
+      }
+      return false;
+    }
+
+    case 'field':
+      return readField(context, node.path) === true;
+
+    case 'literal':
+      return node.value === true;
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Flatten a recorded agent result into the fields conditions can read
+ */
+export function buildConditionContext(agentResult: AgentResult): ConditionContext {
+  const result = (agentResult.result || {}) as Record<string, unknown>;
+  const llmResponse = result.llm_response;
+  const content = typeof llmResponse === 'object' && llmResponse !== null
+    ? (llmResponse as Record<string, unknown>).content
+    : llmResponse ?? result.raw_llm_response;
+
+  return {
+    ...result,
+    success: agentResult.success,
+    error: agentResult.error || '',
+    confidence_score: agentResult.confidence_score,
+    duration_seconds: agentResult.duration_seconds,
+    execution_time: agentResult.duration_seconds,
+    tokens_used: agentResult.tokens_used,
+    token_count: agentResult.tokens_used,
+    cost: agentResult.cost,
+    tavily_calls: agentResult.tavily_calls,
+    tavily_credits: agentResult.tavily_credits,
+    content: typeof content === 'string' ? content : '',
+    llm_response: typeof llmResponse === 'object' && llmResponse !== null ? llmResponse : { content: content ?? '' },
+    key_findings: Array.isArray(result.key_findings) ? result.key_findings : [],
+    recommendations: Array.isArray(result.recommendations) ? result.recommendations : [],
+    data_points: Array.isArray(result.data_points) ? result.data_points : [],
+    all_sources: Array.isArray(result.all_sources) ? result.all_sources : [],
+  };
+}
+
+// ============================================================================
+// EDITOR SUPPORT
+// ============================================================================
+
+export interface ConditionCompletion {
+  label: string;
+  kind: 'field' | 'keyword';
+  detail: string;
+}
+
+export interface ConditionCompletions {
+  // Range of the fragment being completed
+  from: number;
+  to: number;
+  items: ConditionCompletion[];
+}
+
+const KEYWORD_DETAILS: Record<string, string> = {
+  AND: 'Both conditions must be true',
+  OR: 'Either condition must be true',
+  NOT: 'Negate a condition',
+  contains: 'Text or list contains a value (case-insensitive)',
+  matches: 'Text matches a /regex/',
+  true: 'Boolean true',
+  false: 'Boolean false',
+  null: 'Missing value',
+};
+
+/**
+ * Completions for the field path or keyword being typed at `cursor`
+ */
+export function getConditionCompletions(source: string, cursor: number): ConditionCompletions {
+  const before = source.slice(0, cursor);
+  const match = before.match(/([A-Za-z_][\w]*(?:\.[A-Za-z_]\w*)*)?\.?([A-Za-z_]\w*)?$/);
+  const fragment = match ? match[0] : '';
+  const from = cursor - fragment.length;
+
+  // Don't complete inside strings or regex literals
+  const quotes = (before.match(/["']/g) || []).length;
+  if (quotes % 2 === 1) {
+    return { from: cursor, to: cursor, items: [] };
+  }
+
+  const parts = fragment.split('.');
+  const prefix = (parts.pop() || '').toLowerCase();
+
+  let fields: Record<string, ConditionFieldSchema> = CONDITION_FIELDS;
+  if (parts.length > 0) {
+    const parent = resolveConditionField(parts);
+    if (!parent) return { from, to: cursor, items: [] };
+    fields = childFields(parent);
+  }
+
+  const pathPrefix = parts.length > 0 ? `${parts.join('.')}.` : '';
+  const items: ConditionCompletion[] = Object.entries(fields)
+    .filter(([name]) => name.toLowerCase().startsWith(prefix))
+    .map(([name, schema]) => ({
+      label: `${pathPrefix}${name}`,
+      kind: 'field' as const,
+      detail: `${schema.description} (${TYPE_LABELS[schema.type]})`,
+    }));
+
+  if (parts.length === 0) {
+    Object.entries(KEYWORD_DETAILS)
+      .filter(([keyword]) => prefix && keyword.toLowerCase().startsWith(prefix))
+      .forEach(([keyword, detail]) => items.push({ label: keyword, kind: 'keyword', detail }));
+  }
+
+  return { from, to: cursor, items };
+}
+
+/**
+ * Expression equivalent of the old single field / operator / value custom condition
+ */
+export function legacyConditionToExpression(data: Record<string, unknown>): string | null {
+  const fieldMap: Record<string, string> = {
+    confidence_score: 'confidence_score',
+    execution_time: 'duration_seconds',
+    content: 'content',
+    token_count: 'tokens_used',
+  };
+  const field = fieldMap[String(data.field)];
+  if (!field || data.value === undefined) return null;
+
+  const value = typeof data.value === 'number' ? String(data.value) : JSON.stringify(String(data.value));
+  switch (data.operator) {
+    case 'greater_than':
+      return `${field} > ${value}`;
+    case 'less_than':
+      return `${field} < ${value}`;
+    case 'equals':
+      return `${field} == ${value}`;
+    case 'contains':
+      return `${field} contains ${value}`;
+    case 'not_contains':
+      return `NOT ${field} contains ${value}`;
+    default:
+      return null;
+  }
+}
+
+export function isExpressionConditionData(data: unknown): data is ExpressionConditionData {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as Record<string, unknown>).language === CONDITION_LANGUAGE &&
+    typeof (data as Record<string, unknown>).expression === 'string'
+  );
+}
+
+export function createExpressionConditionData(expression: string, ast: ConditionNode, description?: string): ExpressionConditionData {
+  return {
+    language: CONDITION_LANGUAGE,
+    version: CONDITION_LANGUAGE_VERSION,
+    expression,
+    ast,
+    ...(description ? { description } : {}),
+  };
+}
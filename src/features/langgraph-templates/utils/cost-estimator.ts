@@ -0,0 +1,297 @@
+/**
+ * Cost Estimator
+ *
+ * Pre-execution min / expected / max estimates of LLM tokens, Tavily credits
+ * and dollar cost for a template, built from each agent's LLM config, prompt
+ * lengths, enabled Tavily APIs, retry settings and the workflow mode.
+ */
+
+import type { Agent, LLMModel, Template, TavilyConfig } from '../types';
+
+export interface EstimateRange {
+  min: number;
+  expected: number;
+  max: number;
+}
+
+export interface AgentCostEstimate {
+  agentId: string;
+  agentName: string;
+  model: LLMModel;
+  // Conditional agents may not run at all; they only count towards the max
+  optional: boolean;
+  inputTokens: EstimateRange;
+  outputTokens: EstimateRange;
+  tokens: EstimateRange;
+  credits: EstimateRange;
+  cost: EstimateRange;
+}
+
+export interface TemplateCostEstimate {
+  agents: AgentCostEstimate[];
+  tokens: EstimateRange;
+  credits: EstimateRange;
+  cost: EstimateRange;
+  llmCost: EstimateRange;
+  tavilyCost: EstimateRange;
+}
+
+export interface BudgetCheck {
+  ceiling: number | null;
+  // Expected cost is over the ceiling: execution is blocked
+  exceeded: boolean;
+  // Only the worst case is over the ceiling
+  atRisk: boolean;
+}
+
+// USD per 1K tokens
+export const MODEL_PRICING: Record<LLMModel, { input: number; output: number }> = {
+  'gpt-4': { input: 0.03, output: 0.06 },
+  'gpt-4-turbo': { input: 0.01, output: 0.03 },
+  'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 },
+};
+
+// USD per Tavily API credit
+export const TAVILY_CREDIT_PRICE = 0.008;
+
+// Rough characters-per-token ratio for English prompts
+const CHARS_PER_TOKEN = 4;
+
+// Share of max_tokens an agent typically generates
+const OUTPUT_RATIO = { min: 0.25, expected: 0.6, max: 1 };
+
+// Expected share of optional (conditional) agents that actually run
+const OPTIONAL_AGENT_RUN_RATE = 0.5;
+
+const zeroRange = (): EstimateRange => ({ min: 0, expected: 0, max: 0 });
+
+const addRanges = (a: EstimateRange, b: EstimateRange): EstimateRange => ({
+  min: a.min + b.min,
+  expected: a.expected + b.expected,
+  max: a.max + b.max,
+});
+
+export function estimateTextTokens(text: string | undefined): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+/**
+ * Tokens the Tavily results add to an agent's prompt context
+ */
+export function estimateTavilyContextTokens(config: TavilyConfig): number {
+  let tokens = 0;
+  if (config.search_api) {
+    tokens += config.max_results * (config.search_depth === 'advanced' ? 150 : 100);
+  }
+  if (config.extract_api) {
+    tokens += config.extract_depth === 'advanced' ? 800 : 400;
+  }
+  if (config.crawl_api) {
+    tokens += config.max_crawl_depth * 300;
+  }
+  if (config.map_api) {
+    tokens += config.max_map_depth * 100;
+  }
+  return tokens;
+}
+
+/**
+ * Tavily credits for one agent run, following Tavily's credit rules:
+ * search costs 1 (basic) or 2 (advanced); extract costs 1 (basic) or 2
+ * (advanced) per 5 URLs; crawl and map cost 1 per 10 pages. The max covers
+ * fallback retries and the expected value is kept inside the range.
+ */
+export function estimateTavilyCredits(config: TavilyConfig): EstimateRange {
+  let credits = 0;
+  if (config.search_api) {
+    credits += config.search_depth === 'advanced' ? 2 : 1;
+  }
+  if (config.extract_api) {
+    const urls = Math.max(1, config.max_results);
+    credits += Math.ceil(urls / 5) * (config.extract_depth === 'advanced' ? 2 : 1);
+  }
+  if (config.crawl_api) {
+    credits += Math.ceil(config.crawl_limit / 10);
+  }
+  if (config.map_api) {
+    credits += Math.ceil(config.crawl_limit / 10);
+  }
+
+  if (credits === 0) return zeroRange();
+
+  const cap = config.max_credits_per_agent > 0 ? config.max_credits_per_agent : Infinity;
+  const retries = config.fallback_enabled ? config.retry_attempts : 0;
+  const expected = config.estimated_credits > 0 ? config.estimated_credits : credits;
+
+  const min = Math.min(credits, cap);
+  const max = Math.min(credits * (1 + retries), cap);
+
+  return {
+    min,
+    expected: Math.min(Math.max(expected, min), max),
+    max,
+  };
+}
+
+const agentKey = (agent: Agent) => agent.id || agent.name;
+
+/**
+ * Agents that always run: everything outside conditional modes, otherwise the
+ * entry point and agents reached from it through unconditional edges
+ */
+function getGuaranteedAgents(template: Template): Set<string> {
+  const { workflow, agents } = template;
+  const all = new Set(agents.map(agentKey));
+  const graph = workflow.graph_structure;
+
+  if ((workflow.mode !== 'conditional' && workflow.mode !== 'langgraph') || !graph?.edges.length) {
+    return all;
+  }
+
+  const entry = graph.entry_point || workflow.entry_point;
+  if (!entry) return all;
+
+  const guaranteed = new Set<string>([entry]);
+  const queue = [entry];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    graph.edges
+      .filter(edge => edge.from_node === node && edge.condition_type === 'always')
+      .forEach(edge => {
+        if (!guaranteed.has(edge.to_node)) {
+          guaranteed.add(edge.to_node);
+          queue.push(edge.to_node);
+        }
+      });
+  }
+  return guaranteed;
+}
+
+/**
+ * Order agents run in, so upstream outputs can be added to downstream context
+ */
+function getExecutionOrder(template: Template): Agent[] {
+  const { workflow, agents } = template;
+  if (workflow.mode !== 'sequential' || !workflow.sequence?.length) return agents;
+
+  const byKey = new Map(agents.map(agent => [agentKey(agent), agent]));
+  const ordered = workflow.sequence
+    .map(key => byKey.get(key) || agents.find(agent => agent.name === key))
+    .filter((agent): agent is Agent => Boolean(agent));
+  return [...ordered, ...agents.filter(agent => !ordered.includes(agent))];
+}
+
+/**
+ * Estimate tokens, credits and cost for a whole template run
+ */
+export function estimateTemplateCost(template: Template, query: string = ''): TemplateCostEstimate {
+  const guaranteed = getGuaranteedAgents(template);
+  // Parallel agents don't see each other's output; other modes pass results downstream
+  const passesContext = template.workflow.mode !== 'parallel';
+  const queryTokens = estimateTextTokens(query);
+
+  let upstreamOutput = zeroRange();
+  const agents: AgentCostEstimate[] = getExecutionOrder(template).map(agent => {
+    const optional = !guaranteed.has(agentKey(agent));
+    const pricing = MODEL_PRICING[agent.llm_config.model] || MODEL_PRICING['gpt-4'];
+    const attempts = 1 + Math.max(0, agent.retry_count || 0);
+
+    const baseInput = estimateTextTokens(agent.system_prompt)
+      + estimateTextTokens(agent.user_prompt)
+      + queryTokens
+      + estimateTavilyContextTokens(agent.tavily_config);
+    const inputTokens: EstimateRange = passesContext
+      ? addRanges({ min: baseInput, expected: baseInput, max: baseInput }, upstreamOutput)
+      : { min: baseInput, expected: baseInput, max: baseInput };
+
+    const maxTokens = agent.llm_config.max_tokens;
+    const outputTokens: EstimateRange = {
+      min: Math.round(maxTokens * OUTPUT_RATIO.min),
+      expected: Math.round(maxTokens * OUTPUT_RATIO.expected),
+      max: maxTokens,
+    };
+
+    // A retried agent repeats its LLM call in the worst case; Tavily retries are
+    // already in the credit range, so credits scale by whether the agent runs only
+    const runs = { min: optional ? 0 : 1, expected: optional ? OPTIONAL_AGENT_RUN_RATE : 1, max: attempts };
+    const creditRuns = { ...runs, max: 1 };
+    const credits = estimateTavilyCredits(agent.tavily_config);
+
+    const scale = (range: EstimateRange, factor: EstimateRange): EstimateRange => ({
+      min: range.min * factor.min,
+      expected: range.expected * factor.expected,
+      max: range.max * factor.max,
+    });
+
+    const input = scale(inputTokens, runs);
+    const output = scale(outputTokens, runs);
+    const agentCredits = scale(credits, creditRuns);
+    const llmCost = (range: 'min' | 'expected' | 'max') =>
+      (input[range] / 1000) * pricing.input + (output[range] / 1000) * pricing.output;
+
+    if (passesContext && !optional) {
+      upstreamOutput = addRanges(upstreamOutput, outputTokens);
+    }
+
+    return {
+      agentId: agentKey(agent),
+      agentName: agent.name,
+      model: agent.llm_config.model,
+      optional,
+      inputTokens: input,
+      outputTokens: output,
+      tokens: addRanges(input, output),
+      credits: agentCredits,
+      cost: {
+        min: llmCost('min') + agentCredits.min * TAVILY_CREDIT_PRICE,
+        expected: llmCost('expected') + agentCredits.expected * TAVILY_CREDIT_PRICE,
+        max: llmCost('max') + agentCredits.max * TAVILY_CREDIT_PRICE,
+      },
+    };
+  });
+
+  const credits = agents.reduce((sum, agent) => addRanges(sum, agent.credits), zeroRange());
+  const cost = agents.reduce((sum, agent) => addRanges(sum, agent.cost), zeroRange());
+  const tavilyCost = {
+    min: credits.min * TAVILY_CREDIT_PRICE,
+    expected: credits.expected * TAVILY_CREDIT_PRICE,
+    max: credits.max * TAVILY_CREDIT_PRICE,
+  };
+
+  return {
+    agents,
+    tokens: agents.reduce((sum, agent) => addRanges(sum, agent.tokens), zeroRange()),
+    credits,
+    cost,
+    llmCost: {
+      min: cost.min - tavilyCost.min,
+      expected: cost.expected - tavilyCost.expected,
+      max: cost.max - tavilyCost.max,
+    },
+    tavilyCost,
+  };
+}
+
+/**
+ * Compare an estimate against the user's budget ceiling
+ */
+export function checkBudget(estimate: TemplateCostEstimate, ceiling: number | null): BudgetCheck {
+  if (ceiling === null || ceiling <= 0) {
+    return { ceiling: null, exceeded: false, atRisk: false };
+  }
+  return {
+    ceiling,
+    exceeded: estimate.cost.expected > ceiling,
+    atRisk: estimate.cost.max > ceiling,
+  };
+}
+
+export function formatEstimateCost(amount: number): string {
+  if (amount === 0) return '$0.00';
+  if (amount < 0.01) return '<$0.01';
+  return `$${amount.toFixed(2)}`;
+}
+
+export function formatEstimateRange(range: EstimateRange, format: (value: number) => string = value => Math.round(value).toLocaleString()): string {
+  return range.min === range.max ? format(range.expected) : `${format(range.min)} – ${format(range.max)}`;
+}
@@ -0,0 +1,454 @@
+/**
+ * Dry-Run Simulator
+ *
+ * Walks a workflow graph from its entry point using mock agent outputs
+ * instead of real LLM / Tavily calls, to show which agents would run, in
+ * what order, which edges are taken and which exit point is reached.
+ *
+ * Execution follows LangGraph supersteps: every node whose incoming edge
+ * fired in the previous step runs in the next one. Edge conditions,
+ * `completion_strategy` / `required_completions` (for steps running more
+ * than one agent), `failure_threshold` and `continue_on_failure` are applied
+ * the same way the backend does.
+ */
+
+import type { Agent, Edge, WorkflowConfig } from '../types';
+import type { AgentResult, ExecutionResult } from '../../execution-history/types/execution-history.types';
+import {
+  buildConditionContext,
+  compileCondition,
+  evaluateCondition,
+  isExpressionConditionData,
+  legacyConditionToExpression,
+} from './condition-expression';
+import { resolveExecutionGraph } from './graph-analysis';
+import type { ExecutionGraph } from './graph-analysis';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DryRunMock {
+  success: boolean;
+  confidence_score: number;
+  duration_seconds: number;
+  tokens_used: number;
+  cost: number;
+  error?: string;
+  // LLM output text; shortcut for result.llm_response.content
+  content: string;
+  // Full structured result, e.g. copied from a past execution
+  result?: Record<string, unknown>;
+}
+
+export type DryRunMocks = Record<string, DryRunMock>;
+
+export type DryRunOutcome =
+  | 'completed'
+  | 'failure_threshold'
+  | 'completion_strategy'
+  | 'agent_failed'
+  | 'dead_end'
+  | 'step_limit'
+  | 'no_entry_point';
+
+export type DryRunNodeStatus = 'succeeded' | 'failed' | 'cancelled';
+
+export interface DryRunEdgeDecision {
+  edgeId: string;
+  from: string;
+  to: string;
+  taken: boolean;
+  reason: string;
+}
+
+export interface DryRunStep {
+  // 1-based position in execution order
+  order: number;
+  superstep: number;
+  nodeId: string;
+  agentName: string;
+  status: DryRunNodeStatus;
+  // Edge that triggered this node, null for entry points
+  triggeredBy: string | null;
+  edges: DryRunEdgeDecision[];
+}
+
+export interface DryRunResult {
+  steps: DryRunStep[];
+  supersteps: number;
+  outcome: DryRunOutcome;
+  outcomeMessage: string;
+  // Nodes whose completion reached End (or that ended the run as exit points)
+  exitPoints: string[];
+  failures: number;
+  warnings: string[];
+}
+
+export interface DryRunHighlight {
+  nodes: Record<string, { status: DryRunNodeStatus | 'active'; order: number[] }>;
+  edges: Record<string, 'taken' | 'skipped'>;
+  endReached: boolean;
+}
+
+// Edge id used for the Start → entry point connection on the canvas
+export const DRY_RUN_START_EDGE_ID = 'start-entry';
+
+const MAX_SUPERSTEPS = 50;
+
+const agentKey = (agent: Agent) => agent.id || agent.name;
+
+export const getEdgeId = (edge: Edge) => edge.edge_id || `${edge.from_node}-${edge.to_node}`;
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+export function createDefaultMock(): DryRunMock {
+  return {
+    success: true,
+    confidence_score: 0.85,
+    duration_seconds: 10,
+    tokens_used: 1000,
+    cost: 0.01,
+    content: '',
+  };
+}
+
+export function createDefaultMocks(agents: Agent[]): DryRunMocks {
+  return Object.fromEntries(agents.map(agent => [agentKey(agent), createDefaultMock()]));
+}
+
+/**
+ * Mocks from a past execution's recorded agent results, matched by agent id
+ * or name. Agents missing from the execution keep a default mock.
+ */
+export function createMocksFromExecution(agents: Agent[], execution: ExecutionResult): DryRunMocks {
+  const mocks = createDefaultMocks(agents);
+
+  agents.forEach(agent => {
+    const recorded = execution.agent_results.find(
+      result => result.agent_id === agentKey(agent) || result.agent_id === agent.id || result.agent_name === agent.name
+    );
+    if (!recorded) return;
+
+    const context = buildConditionContext(recorded);
+    mocks[agentKey(agent)] = {
+      success: recorded.success,
+      confidence_score: recorded.confidence_score,
+      duration_seconds: recorded.duration_seconds,
+      tokens_used: recorded.tokens_used,
+      cost: recorded.cost,
+      error: recorded.error,
+      content: String(context.content || ''),
+      result: recorded.result,
+    };
+  });
+
+  return mocks;
+}
+
+function mockToAgentResult(nodeId: string, agentName: string, mock: DryRunMock): AgentResult {
+  const result = { ...(mock.result || {}) };
+  const llmResponse = result.llm_response;
+  if (mock.content) {
+    result.llm_response = typeof llmResponse === 'object' && llmResponse !== null
+      ? { ...llmResponse, content: mock.content }
+      : { content: mock.content };
+  }
+
+  return {
+    agent_id: nodeId,
+    agent_name: agentName,
+    success: mock.success,
+    result,
+    error: mock.success ? undefined : mock.error || 'Simulated failure',
+    cost: mock.cost,
+    duration_seconds: mock.duration_seconds,
+    confidence_score: mock.confidence_score,
+    tokens_used: mock.tokens_used,
+    tavily_calls: 0,
+    tavily_credits: 0,
+    started_at: '',
+  };
+}
+
+/**
+ * Decide whether an edge fires for the source agent's result
+ */
+function evaluateEdge(edge: Edge, agentResult: AgentResult, warnings: string[]): { taken: boolean; reason: string } {
+  switch (edge.condition_type) {
+    case 'always':
+      return { taken: true, reason: 'Always' };
+    case 'success':
+      return { taken: agentResult.success, reason: agentResult.success ? 'Agent succeeded' : 'Agent failed' };
+    case 'failure':
+      return { taken: !agentResult.success, reason: agentResult.success ? 'Agent succeeded' : 'Agent failed' };
+  }
+
+  let expression: string | null = null;
+  if (isExpressionConditionData(edge.condition_data)) {
+    expression = edge.condition_data.expression;
+  } else if (edge.condition_data) {
+    expression = legacyConditionToExpression(edge.condition_data);
+  } else if (edge.condition_type === 'conditional' && edge.condition) {
+    expression = edge.condition;
+  }
+
+  if (!expression) {
+    warnings.push(`Edge ${edge.from_node} → ${edge.to_node} has no condition the simulator can evaluate; treated as not taken`);
+    return { taken: false, reason: 'Condition could not be evaluated' };
+  }
+
+  const compiled = compileCondition(expression);
+  if (!compiled.ast) {
+    warnings.push(`Edge ${edge.from_node} → ${edge.to_node}: ${compiled.errors[0]?.message || 'invalid condition'}`);
+    return { taken: false, reason: 'Invalid condition' };
+  }
+
+  const taken = evaluateCondition(compiled.ast, buildConditionContext(agentResult));
+  return { taken, reason: `${expression} is ${taken ? 'true' : 'false'}` };
+}
+
+/**
+ * Whether a superstep with several agents completes under the workflow's
+ * completion strategy, and which agents' outgoing edges are followed
+ */
+function applyCompletionStrategy(
+  workflow: WorkflowConfig,
+  ran: { nodeId: string; success: boolean; duration: number }[]
+): { satisfied: boolean; continuing: Set<string>; message: string } {
+  const succeeded = ran.filter(node => node.success);
+  const total = ran.length;
+  const all = new Set(ran.map(node => node.nodeId));
+
+  switch (workflow.completion_strategy) {
+    case 'any':
+      return { satisfied: succeeded.length >= 1, continuing: all, message: 'No agent in the parallel step succeeded' };
+    case 'majority':
+      return {
+        satisfied: succeeded.length > total / 2,
+        continuing: all,
+        message: `Only ${succeeded.length} of ${total} parallel agents succeeded; majority required`,
+      };
+    case 'threshold': {
+      const required = Math.min(workflow.required_completions || total, total);
+      return {
+        satisfied: succeeded.length >= required,
+        continuing: all,
+        message: `Only ${succeeded.length} of ${required} required parallel agents succeeded`,
+      };
+    }
+    case 'first_success': {
+      // The fastest successful agent wins; the rest are cancelled
+      const winner = [...succeeded].sort((a, b) => a.duration - b.duration)[0];
+      return {
+        satisfied: Boolean(winner),
+        continuing: new Set(winner ? [winner.nodeId] : []),
+        message: 'No agent in the parallel step succeeded',
+      };
+    }
+    default:
+      return {
+        satisfied: succeeded.length === total || workflow.continue_on_failure,
+        continuing: all,
+        message: `${total - succeeded.length} of ${total} parallel agents failed; all must succeed`,
+      };
+  }
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Execution graph without the builder's placeholder self-edge for a lone
+ * agent, which analyzeGraph doesn't treat as a loop either
+ */
+function getSimulationGraph(agents: Agent[], workflow: WorkflowConfig): ExecutionGraph {
+  const graph = resolveExecutionGraph(agents, workflow);
+  return {
+    ...graph,
+    edges: graph.edges.filter(
+      edge => !(agents.length === 1 && edge.from_node === edge.to_node && edge.condition_type === 'always')
+    ),
+  };
+}
+
+/**
+ * Simulate a workflow run with mock agent outputs
+ */
+export function simulateWorkflow(agents: Agent[], workflow: WorkflowConfig, mocks: DryRunMocks): DryRunResult {
+  const graph = getSimulationGraph(agents, workflow);
+  const warnings: string[] = [];
+  const steps: DryRunStep[] = [];
+  const exitPoints = new Set<string>();
+  const agentNames = new Map(agents.map(agent => [agentKey(agent), agent.name]));
+  let failures = 0;
+
+  const finish = (outcome: DryRunOutcome, outcomeMessage: string, supersteps: number): DryRunResult => ({
+    steps,
+    supersteps,
+    outcome,
+    outcomeMessage,
+    exitPoints: [...exitPoints],
+    failures,
+    warnings,
+  });
+
+  // Roots are the entry point plus every start → X edge, as in analyzeGraph
+  const roots = new Map<string, string>(graph.entryPoints.map(nodeId => [nodeId, DRY_RUN_START_EDGE_ID]));
+  graph.edges.forEach(edge => {
+    if (edge.from_node === 'start' && edge.to_node !== 'end' && !roots.has(edge.to_node)) {
+      roots.set(edge.to_node, getEdgeId(edge));
+    }
+  });
+
+  if (roots.size === 0) {
+    return finish('no_entry_point', 'The workflow has no entry point', 0);
+  }
+
+  let frontier = [...roots.entries()].map(([nodeId, triggeredBy]) => ({ nodeId, triggeredBy: triggeredBy as string | null }));
+
+  for (let superstep = 1; superstep <= MAX_SUPERSTEPS; superstep++) {
+    const ran: { nodeId: string; success: boolean; duration: number }[] = [];
+    const stepStart = steps.length;
+
+    frontier.forEach(({ nodeId, triggeredBy }) => {
+      if (!agentNames.has(nodeId)) {
+        warnings.push(`Node "${nodeId}" is not an agent in this template and was skipped`);
+        return;
+      }
+      let mock = mocks[nodeId];
+      if (!mock) {
+        warnings.push(`No mock output for "${agentNames.get(nodeId)}"; assumed a successful run`);
+        mock = createDefaultMock();
+      }
+      if (!mock.success) failures++;
+      ran.push({ nodeId, success: mock.success, duration: mock.duration_seconds });
+      steps.push({
+        order: steps.length + 1,
+        superstep,
+        nodeId,
+        agentName: agentNames.get(nodeId) || nodeId,
+        status: mock.success ? 'succeeded' : 'failed',
+        triggeredBy,
+        edges: [],
+      });
+    });
+
+    const stepEntries = steps.slice(stepStart);
+
+    if (workflow.failure_threshold && failures >= workflow.failure_threshold) {
+      return finish(
+        'failure_threshold',
+        `${failures} agent failure${failures === 1 ? '' : 's'} reached the failure threshold of ${workflow.failure_threshold}`,
+        superstep
+      );
+    }
+
+    let continuing = new Set(ran.map(node => node.nodeId));
+    if (ran.length > 1) {
+      const completion = applyCompletionStrategy(workflow, ran);
+      if (!completion.satisfied) {
+        return finish('completion_strategy', `${completion.message} (${workflow.completion_strategy} strategy)`, superstep);
+      }
+      continuing = completion.continuing;
+      stepEntries.forEach(step => {
+        if (!continuing.has(step.nodeId) && step.status === 'succeeded') step.status = 'cancelled';
+      });
+    }
+
+    const next = new Map<string, string>();
+    for (const step of stepEntries) {
+      if (!continuing.has(step.nodeId)) continue;
+
+      const mock = mocks[step.nodeId] || createDefaultMock();
+      const agentResult = mockToAgentResult(step.nodeId, step.agentName, mock);
+      const outgoing = graph.edges.filter(edge => edge.from_node === step.nodeId);
+
+      step.edges = outgoing.map(edge => {
+        const decision = evaluateEdge(edge, agentResult, warnings);
+        return { edgeId: getEdgeId(edge), from: edge.from_node, to: edge.to_node, ...decision };
+      });
+
+      const taken = step.edges.filter(edge => edge.taken);
+      if (ran.length === 1 && step.status === 'failed' && !workflow.continue_on_failure && !taken.some(edge => edge.to !== 'end')) {
+        return finish('agent_failed', `"${step.agentName}" failed and continue-on-failure is off`, superstep);
+      }
+
+      if (outgoing.length === 0) {
+        // No outgoing edges: the node is an exit point
+        exitPoints.add(step.nodeId);
+        if (graph.exitPoints.length > 0 && !graph.exitPoints.includes(step.nodeId)) {
+          warnings.push(`"${step.agentName}" has no outgoing edges but is not a declared exit point`);
+        }
+      }
+
+      taken.forEach(edge => {
+        if (edge.to === 'end') {
+          exitPoints.add(step.nodeId);
+        } else if (!next.has(edge.to)) {
+          next.set(edge.to, edge.edgeId);
+        }
+      });
+
+      if (outgoing.length > 0 && taken.length === 0) {
+        warnings.push(`No outgoing edge of "${step.agentName}" matched; this branch stops here`);
+      }
+    }
+
+    if (next.size === 0) {
+      return exitPoints.size > 0
+        ? finish('completed', `Workflow reached End after ${steps.length} agent run${steps.length === 1 ? '' : 's'}`, superstep)
+        : finish('dead_end', 'No outgoing edge matched and no exit point was reached', superstep);
+    }
+
+    frontier = [...next.entries()].map(([nodeId, triggeredBy]) => ({ nodeId, triggeredBy }));
+  }
+
+  return finish('step_limit', `Stopped after ${MAX_SUPERSTEPS} steps; the workflow may loop forever`, MAX_SUPERSTEPS);
+}
+
+/**
+ * Canvas highlight for the first `stepCount` steps of a simulation, used to
+ * animate the chosen path
+ */
+export function getDryRunHighlight(result: DryRunResult, stepCount: number): DryRunHighlight {
+  const highlight: DryRunHighlight = { nodes: {}, edges: {}, endReached: false };
+  const shown = result.steps.slice(0, stepCount);
+  const current = shown[shown.length - 1];
+
+  shown.forEach(step => {
+    const existing = highlight.nodes[step.nodeId];
+    highlight.nodes[step.nodeId] = {
+      status: step === current && stepCount < result.steps.length ? 'active' : step.status,
+      order: [...(existing?.order || []), step.order],
+    };
+    if (step.triggeredBy) highlight.edges[step.triggeredBy] = 'taken';
+  });
+
+  // Outgoing decisions are shown once the agent has finished running
+  const lastCompleteSuperstep = stepCount >= result.steps.length
+    ? result.supersteps
+    : (current?.superstep ?? 1) - 1;
+
+  shown
+    .filter(step => step.superstep <= lastCompleteSuperstep)
+    .forEach(step => {
+      step.edges.forEach(edge => {
+        if (edge.taken) {
+          highlight.edges[edge.edgeId] = 'taken';
+          if (edge.to === 'end') highlight.endReached = true;
+        } else if (!highlight.edges[edge.edgeId]) {
+          highlight.edges[edge.edgeId] = 'skipped';
+        }
+      });
+    });
+
+  if (stepCount >= result.steps.length && result.outcome === 'completed') {
+    highlight.endReached = true;
+  }
+
+  return highlight;
+}
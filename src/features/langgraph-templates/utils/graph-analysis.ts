@@ -0,0 +1,737 @@
+/**
+ * Workflow Graph Analysis
+ *
+ * Single analysis pass over a GraphStructure shared by every validator and
+ * the workflow canvas:
+ * - reachability from the entry point (and Start edges)
+ * - orphan, unreachable and dead-end nodes, unreachable exit points
+ * - cycles, and whether each one can ever be left
+ * - contradictory conditions and overlapping conditions on sibling edges
+ * - the critical path by agent timeout_seconds
+ *
+ * Each problem is reported as a GraphIssue naming the offending node and
+ * edge ids so the canvas can highlight it.
+ */
+
+import type { Agent, Edge, GraphStructure, WorkflowConfig } from '../types';
+import {
+  compileCondition,
+  isExpressionConditionData,
+  legacyConditionToExpression,
+} from './condition-expression';
+import type { ConditionNode } from './condition-expression';
+import type { ValidationError } from './workflow-validation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type GraphIssueKind =
+  | 'missing_entry_point'
+  | 'unknown_node'
+  | 'orphan_node'
+  | 'unreachable_node'
+  | 'dead_end'
+  | 'unreachable_exit_point'
+  | 'cycle_without_exit'
+  | 'impossible_condition'
+  | 'conflicting_conditions'
+  | 'duplicate_edge';
+
+export interface GraphIssue {
+  kind: GraphIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  // Validation field path, e.g. workflow.graph_structure.edges[2]
+  field: string;
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+export interface GraphCycle {
+  nodes: string[];
+  edgeIds: string[];
+  // Some edge leaves the cycle
+  hasExitEdge: boolean;
+  // Some edge inside the cycle is conditional, so the loop can stop
+  hasExitCondition: boolean;
+}
+
+export interface CriticalPath {
+  nodes: string[];
+  edgeIds: string[];
+  // Sum of agent timeout_seconds along the path
+  totalSeconds: number;
+}
+
+export interface GraphAnalysis {
+  entryPoint: string | null;
+  reachableNodes: string[];
+  unreachableNodes: string[];
+  orphanNodes: string[];
+  deadEndNodes: string[];
+  unreachableExitPoints: string[];
+  cycles: GraphCycle[];
+  criticalPath: CriticalPath;
+  issues: GraphIssue[];
+  // Issues indexed by node id / edge id for canvas highlighting
+  nodeIssues: Record<string, GraphIssue[]>;
+  edgeIssues: Record<string, GraphIssue[]>;
+}
+
+const START_NODE = 'start';
+const END_NODE = 'end';
+
+const GRAPH_FIELD = 'workflow.graph_structure';
+
+const agentKey = (agent: Agent) => agent.id || agent.name;
+
+export const getGraphEdgeId = (edge: Edge) => edge.edge_id || `${edge.from_node}-${edge.to_node}`;
+
+export const isVirtualNode = (nodeId: string) =>
+  nodeId === START_NODE || nodeId === END_NODE || nodeId.startsWith('parallel_');
+
+// ============================================================================
+// EXECUTION GRAPH
+// ============================================================================
+
+export interface ExecutionGraph {
+  entryPoints: string[];
+  edges: Edge[];
+  exitPoints: string[];
+}
+
+const alwaysEdge = (from: string, to: string): Edge => ({ from_node: from, to_node: to, condition_type: 'always' });
+
+/**
+ * Explicit graph_structure when present, otherwise the graph implied by the
+ * sequential / parallel configuration
+ */
+export function resolveExecutionGraph(agents: Agent[], workflow: WorkflowConfig): ExecutionGraph {
+  const graph = workflow.graph_structure;
+  if (graph?.edges.length) {
+    const entry = graph.entry_point || workflow.entry_point;
+    return {
+      entryPoints: entry ? [entry] : [],
+      edges: graph.edges,
+      exitPoints: graph.exit_points || [],
+    };
+  }
+
+  const keys = agents.map(agentKey);
+
+  if (workflow.mode === 'parallel') {
+    const groups = workflow.parallel_groups?.length ? workflow.parallel_groups : [keys];
+    const edges: Edge[] = [];
+    groups.forEach((group, index) => {
+      const next = groups[index + 1];
+      group.forEach(node => {
+        if (next) next.forEach(target => edges.push(alwaysEdge(node, target)));
+        else edges.push(alwaysEdge(node, END_NODE));
+      });
+    });
+    return { entryPoints: groups[0] || [], edges, exitPoints: groups[groups.length - 1] || [] };
+  }
+
+  const sequence = workflow.sequence?.length ? workflow.sequence : keys;
+  const edges = sequence.map((node, index) => alwaysEdge(node, sequence[index + 1] || END_NODE));
+  const entry = workflow.entry_point || sequence[0];
+  return { entryPoints: entry ? [entry] : [], edges, exitPoints: sequence.slice(-1) };
+}
+
+// ============================================================================
+// TRAVERSAL HELPERS
+// ============================================================================
+
+function buildAdjacency(edges: Edge[]): Map<string, Edge[]> {
+  const adjacency = new Map<string, Edge[]>();
+  edges.forEach(edge => {
+    const list = adjacency.get(edge.from_node) || [];
+    list.push(edge);
+    adjacency.set(edge.from_node, list);
+  });
+  return adjacency;
+}
+
+function collectReachable(roots: string[], next: (node: string) => string[]): Set<string> {
+  const reached = new Set<string>();
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (reached.has(node)) continue;
+    reached.add(node);
+    next(node).forEach(target => {
+      if (!reached.has(target)) queue.push(target);
+    });
+  }
+  return reached;
+}
+
+/**
+ * Strongly connected components (Tarjan) that form cycles
+ */
+function findCycleComponents(nodes: string[], adjacency: Map<string, Edge[]>): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (node: string) => {
+    indices.set(node, index);
+    lowLinks.set(node, index);
+    index++;
+    stack.push(node);
+    onStack.add(node);
+
+    (adjacency.get(node) || []).forEach(edge => {
+      const target = edge.to_node;
+      if (!indices.has(target)) {
+        visit(target);
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, indices.get(target)!));
+      }
+    });
+
+    if (lowLinks.get(node) === indices.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+
+      const selfLoop = (adjacency.get(node) || []).some(edge => edge.to_node === node);
+      if (component.length > 1 || selfLoop) {
+        components.push(component.reverse());
+      }
+    }
+  };
+
+  nodes.forEach(node => {
+    if (!indices.has(node)) visit(node);
+  });
+  return components;
+}
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+interface NumericRange {
+  min: number;
+  minInclusive: boolean;
+  max: number;
+  maxInclusive: boolean;
+}
+
+type ConstraintSet = {
+  numbers: Record<string, NumericRange>;
+  booleans: Record<string, boolean>;
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  execution_time: 'duration_seconds',
+  token_count: 'tokens_used',
+};
+
+const anyRange = (): NumericRange => ({ min: -Infinity, minInclusive: false, max: Infinity, maxInclusive: false });
+
+function intersectRanges(a: NumericRange, b: NumericRange): NumericRange {
+  const min = a.min > b.min ? a : a.min < b.min ? b : { min: a.min, minInclusive: a.minInclusive && b.minInclusive };
+  const max = a.max < b.max ? a : a.max > b.max ? b : { max: a.max, maxInclusive: a.maxInclusive && b.maxInclusive };
+  return { min: min.min, minInclusive: min.minInclusive, max: max.max, maxInclusive: max.maxInclusive };
+}
+
+const isEmptyRange = (range: NumericRange) =>
+  range.min > range.max || (range.min === range.max && !(range.minInclusive && range.maxInclusive));
+
+function formatRange(field: string, range: NumericRange): string {
+  if (range.min === range.max) return `${field} == ${range.min}`;
+  const parts: string[] = [];
+  if (range.min !== -Infinity) parts.push(`${field} ${range.minInclusive ? '>=' : '>'} ${range.min}`);
+  if (range.max !== Infinity) parts.push(`${field} ${range.maxInclusive ? '<=' : '<'} ${range.max}`);
+  return parts.join(' AND ');
+}
+
+/**
+ * Numeric / boolean constraints of a condition made only of ANDed simple
+ * comparisons; null when the condition is too complex to reason about
+ */
+function extractConstraints(node: ConditionNode): ConstraintSet | null {
+  const constraints: ConstraintSet = { numbers: {}, booleans: {} };
+
+  const addNumber = (field: string, range: NumericRange) => {
+    constraints.numbers[field] = intersectRanges(constraints.numbers[field] || anyRange(), range);
+  };
+
+  const visit = (current: ConditionNode): boolean => {
+    if (current.type === 'logical') {
+      return current.operator === 'and' && visit(current.left) && visit(current.right);
+    }
+    if (current.type === 'field' && current.path.length === 1) {
+      constraints.booleans[current.path[0]] = true;
+      return true;
+    }
+    if (current.type === 'not' && current.operand.type === 'field' && current.operand.path.length === 1) {
+      constraints.booleans[current.operand.path[0]] = false;
+      return true;
+    }
+    if (current.type !== 'comparison') return false;
+
+    let { left, right } = current;
+    let operator = current.operator;
+    if (left.type === 'literal' && right.type === 'field') {
+      [left, right] = [right, left];
+      const flipped: Record<string, typeof operator> = { '>': '<', '>=': '<=', '<': '>', '<=': '>=' };
+      operator = flipped[operator] || operator;
+    }
+    if (left.type !== 'field' || right.type !== 'literal') return false;
+
+    const field = FIELD_ALIASES[left.path.join('.')] || left.path.join('.');
+    const value = right.value;
+
+    if (typeof value === 'boolean' && (operator === '==' || operator === '!=')) {
+      constraints.booleans[field] = operator === '==' ? value : !value;
+      return true;
+    }
+    if (typeof value !== 'number') return false;
+
+    switch (operator) {
+      case '>':
+        addNumber(field, { ...anyRange(), min: value, minInclusive: false });
+        return true;
+      case '>=':
+        addNumber(field, { ...anyRange(), min: value, minInclusive: true });
+        return true;
+      case '<':
+        addNumber(field, { ...anyRange(), max: value, maxInclusive: false });
+        return true;
+      case '<=':
+        addNumber(field, { ...anyRange(), max: value, maxInclusive: true });
+        return true;
+      case '==':
+        addNumber(field, { min: value, minInclusive: true, max: value, maxInclusive: true });
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  return visit(node) ? constraints : null;
+}
+
+/**
+ * Compiled AST of an edge's expression condition, if it has one
+ */
+function getEdgeConditionAst(edge: Edge): ConditionNode | null {
+  let expression: string | null = null;
+  if (isExpressionConditionData(edge.condition_data)) {
+    expression = edge.condition_data.expression;
+  } else if (edge.condition_type === 'custom' && edge.condition_data) {
+    expression = legacyConditionToExpression(edge.condition_data);
+  } else if (edge.condition_type === 'conditional' && edge.condition) {
+    expression = edge.condition;
+  }
+  return expression ? compileCondition(expression).ast : null;
+}
+
+function edgeConstraints(edge: Edge): ConstraintSet | null {
+  if (edge.condition_type === 'success') return { numbers: {}, booleans: { success: true } };
+  if (edge.condition_type === 'failure') return { numbers: {}, booleans: { success: false } };
+  const ast = getEdgeConditionAst(edge);
+  return ast ? extractConstraints(ast) : null;
+}
+
+function findContradiction(constraints: ConstraintSet): string | null {
+  for (const [field, range] of Object.entries(constraints.numbers)) {
+    if (isEmptyRange(range)) return field;
+  }
+  return null;
+}
+
+/**
+ * A value assignment satisfying both constraint sets, described for the
+ * user; null when they can't both hold
+ */
+function findOverlap(a: ConstraintSet, b: ConstraintSet): string | null {
+  for (const [field, value] of Object.entries(a.booleans)) {
+    if (field in b.booleans && b.booleans[field] !== value) return null;
+  }
+
+  const descriptions: string[] = [];
+  const fields = new Set([...Object.keys(a.numbers), ...Object.keys(b.numbers)]);
+  for (const field of fields) {
+    const range = intersectRanges(a.numbers[field] || anyRange(), b.numbers[field] || anyRange());
+    if (isEmptyRange(range)) return null;
+    descriptions.push(formatRange(field, range));
+  }
+  Object.entries({ ...a.booleans, ...b.booleans }).forEach(([field, value]) => {
+    descriptions.push(value ? field : `NOT ${field}`);
+  });
+
+  return descriptions.filter(Boolean).join(' AND ') || 'any result';
+}
+
+// ============================================================================
+// CRITICAL PATH
+// ============================================================================
+
+function computeCriticalPath(
+  roots: string[],
+  adjacency: Map<string, Edge[]>,
+  timeouts: Map<string, number>
+): CriticalPath {
+  const memo = new Map<string, CriticalPath>();
+  const onPath = new Set<string>();
+
+  // Longest path ignoring back edges, so cycles count once
+  const longestFrom = (node: string): CriticalPath => {
+    const cached = memo.get(node);
+    if (cached) return cached;
+
+    onPath.add(node);
+    let best: CriticalPath = { nodes: [], edgeIds: [], totalSeconds: 0 };
+    (adjacency.get(node) || []).forEach(edge => {
+      if (onPath.has(edge.to_node)) return;
+      const rest = longestFrom(edge.to_node);
+      if (rest.totalSeconds > best.totalSeconds || best.nodes.length === 0) {
+        best = { nodes: rest.nodes, edgeIds: [getGraphEdgeId(edge), ...rest.edgeIds], totalSeconds: rest.totalSeconds };
+      }
+    });
+    onPath.delete(node);
+
+    const own = timeouts.get(node) || 0;
+    const result = isVirtualNode(node)
+      ? best
+      : { nodes: [node, ...best.nodes], edgeIds: best.edgeIds, totalSeconds: own + best.totalSeconds };
+    memo.set(node, result);
+    return result;
+  };
+
+  return roots
+    .map(root => longestFrom(root))
+    .reduce<CriticalPath>(
+      (longest, path) => (path.totalSeconds > longest.totalSeconds ? path : longest),
+      { nodes: [], edgeIds: [], totalSeconds: 0 }
+    );
+}
+
+/**
+ * Longest path from the roots, weighting each agent node by its duration;
+ * edges closing a cycle are ignored so a loop counts once
+ */
+export function findCriticalPath(roots: string[], edges: Edge[], durations: Record<string, number>): CriticalPath {
+  return computeCriticalPath(roots, buildAdjacency(edges), new Map(Object.entries(durations)));
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Analyze a graph structure against the template's agents
+ */
+export function analyzeGraph(graph: GraphStructure, agents: Agent[], fallbackEntryPoint?: string): GraphAnalysis {
+  const issues: GraphIssue[] = [];
+  const agentIds = agents.map(agentKey);
+  const agentIdSet = new Set(agentIds);
+  const names = new Map(agents.map(agent => [agentKey(agent), agent.name]));
+  const nameOf = (nodeId: string) => names.get(nodeId) || nodeId;
+  // The builder links a lone agent to itself so the graph has an edge; that
+  // placeholder is not a real loop
+  const edges = (graph.edges || []).filter(
+    edge => !(agents.length === 1 && edge.from_node === edge.to_node && edge.condition_type === 'always')
+  );
+  const adjacency = buildAdjacency(edges);
+  const entryPoint = graph.entry_point || fallbackEntryPoint || null;
+
+  const addIssue = (issue: Omit<GraphIssue, 'field'> & { field?: string }) => {
+    issues.push({ field: GRAPH_FIELD, ...issue });
+  };
+
+  // Unknown node references
+  (graph.nodes || []).forEach((nodeId, index) => {
+    if (!agentIdSet.has(nodeId) && !isVirtualNode(nodeId)) {
+      addIssue({
+        kind: 'unknown_node',
+        severity: 'error',
+        message: `Node '${nodeId}' is not an agent in this template`,
+        field: `${GRAPH_FIELD}.nodes[${index}]`,
+        nodeIds: [nodeId],
+        edgeIds: [],
+      });
+    }
+  });
+  edges.forEach((edge, index) => {
+    [edge.from_node, edge.to_node].forEach((nodeId, position) => {
+      if (!agentIdSet.has(nodeId) && !isVirtualNode(nodeId)) {
+        addIssue({
+          kind: 'unknown_node',
+          severity: 'error',
+          message: `Edge ${position === 0 ? 'source' : 'target'} '${nodeId}' is not an agent in this template`,
+          field: `${GRAPH_FIELD}.edges[${index}].${position === 0 ? 'from_node' : 'to_node'}`,
+          nodeIds: [],
+          edgeIds: [getGraphEdgeId(edge)],
+        });
+      }
+    });
+  });
+
+  // Entry point
+  if (!entryPoint && agents.length > 0) {
+    addIssue({
+      kind: 'missing_entry_point',
+      severity: 'error',
+      message: 'Graph has no entry point',
+      field: `${GRAPH_FIELD}.entry_point`,
+      nodeIds: [],
+      edgeIds: [],
+    });
+  } else if (entryPoint && !agentIdSet.has(entryPoint)) {
+    addIssue({
+      kind: 'missing_entry_point',
+      severity: 'error',
+      message: `Entry point '${entryPoint}' is not an agent in this template`,
+      field: `${GRAPH_FIELD}.entry_point`,
+      nodeIds: [],
+      edgeIds: [],
+    });
+  }
+
+  // Reachability from the entry point and Start
+  const roots = [START_NODE, ...(entryPoint ? [entryPoint] : [])];
+  const reachable = collectReachable(roots, node => (adjacency.get(node) || []).map(edge => edge.to_node));
+  const connected = new Set(edges.flatMap(edge => [edge.from_node, edge.to_node]));
+
+  const orphanNodes = edges.length > 0
+    ? agentIds.filter(id => !connected.has(id) && id !== entryPoint)
+    : [];
+  const unreachableNodes = agentIds.filter(id => !reachable.has(id) && !orphanNodes.includes(id));
+
+  orphanNodes.forEach(nodeId => {
+    addIssue({
+      kind: 'orphan_node',
+      severity: 'warning',
+      message: `${nameOf(nodeId)} is not connected to the workflow and will never run`,
+      nodeIds: [nodeId],
+      edgeIds: [],
+    });
+  });
+  unreachableNodes.forEach(nodeId => {
+    addIssue({
+      kind: 'unreachable_node',
+      severity: 'warning',
+      message: `Unreachable nodes detected: ${nameOf(nodeId)} can't be reached from the entry point`,
+      nodeIds: [nodeId],
+      edgeIds: [],
+    });
+  });
+
+  // Exit points
+  const declaredExits = (graph.exit_points || []).filter(Boolean);
+  const unreachableExitPoints = declaredExits.filter(nodeId => !reachable.has(nodeId));
+  unreachableExitPoints.forEach(nodeId => {
+    addIssue({
+      kind: 'unreachable_exit_point',
+      severity: 'warning',
+      message: `Exit point ${nameOf(nodeId)} can't be reached from the entry point`,
+      field: `${GRAPH_FIELD}.exit_points`,
+      nodeIds: [nodeId],
+      edgeIds: [],
+    });
+  });
+
+  // Cycles
+  const cycleComponents = findCycleComponents([...reachable], adjacency);
+  const cycles: GraphCycle[] = cycleComponents.map(component => {
+    const members = new Set(component);
+    const internal = edges.filter(edge => members.has(edge.from_node) && members.has(edge.to_node));
+    return {
+      nodes: component,
+      edgeIds: internal.map(getGraphEdgeId),
+      hasExitEdge: edges.some(edge => members.has(edge.from_node) && !members.has(edge.to_node)),
+      hasExitCondition: internal.some(edge => edge.condition_type !== 'always'),
+    };
+  });
+  const nodesInClosedCycles = new Set<string>();
+
+  cycles.forEach(cycle => {
+    const path = [...cycle.nodes, cycle.nodes[0]].map(nameOf).join(' → ');
+    if (!cycle.hasExitEdge) {
+      cycle.nodes.forEach(node => nodesInClosedCycles.add(node));
+      addIssue({
+        kind: 'cycle_without_exit',
+        severity: 'error',
+        message: `Cycle ${path} has no way out and would run forever`,
+        nodeIds: cycle.nodes,
+        edgeIds: cycle.edgeIds,
+      });
+    } else if (!cycle.hasExitCondition) {
+      addIssue({
+        kind: 'cycle_without_exit',
+        severity: 'error',
+        message: `Cycle ${path} has no exit condition: every edge in the loop always fires`,
+        nodeIds: cycle.nodes,
+        edgeIds: cycle.edgeIds,
+      });
+    }
+  });
+
+  // Dead ends: reachable nodes from which no exit can be reached
+  const exits = new Set<string>([END_NODE, ...declaredExits]);
+  if (declaredExits.length === 0) {
+    // Without declared exits a run stops at an agent with no edge left to
+    // follow: one with no outgoing edges, or only conditional ones
+    agentIds
+      .filter(id => (adjacency.get(id) || []).every(edge => (edge.condition_type || 'always') !== 'always'))
+      .forEach(id => exits.add(id));
+  }
+  const reverse = new Map<string, string[]>();
+  edges.forEach(edge => {
+    reverse.set(edge.to_node, [...(reverse.get(edge.to_node) || []), edge.from_node]);
+  });
+  const canExit = collectReachable([...exits], node => reverse.get(node) || []);
+  const deadEndNodes = agentIds.filter(
+    id => reachable.has(id) && !canExit.has(id) && !nodesInClosedCycles.has(id)
+  );
+  deadEndNodes.forEach(nodeId => {
+    addIssue({
+      kind: 'dead_end',
+      severity: 'warning',
+      message: adjacency.has(nodeId)
+        ? `No path from ${nameOf(nodeId)} reaches an exit point`
+        : `${nameOf(nodeId)} has no outgoing edges and is not an exit point`,
+      nodeIds: [nodeId],
+      edgeIds: [],
+    });
+  });
+
+  // Conditions on each edge and between sibling edges
+  const constraintsByEdge = new Map<Edge, ConstraintSet | null>();
+  edges.forEach((edge, index) => {
+    const constraints = edgeConstraints(edge);
+    constraintsByEdge.set(edge, constraints);
+    const field = constraints ? findContradiction(constraints) : null;
+    if (constraints && field) {
+      addIssue({
+        kind: 'impossible_condition',
+        severity: 'error',
+        message: `Condition on ${nameOf(edge.from_node)} → ${nameOf(edge.to_node)} can never be true (${field} has no possible value)`,
+        field: `${GRAPH_FIELD}.edges[${index}]`,
+        nodeIds: [],
+        edgeIds: [getGraphEdgeId(edge)],
+      });
+    }
+  });
+
+  adjacency.forEach((siblings, source) => {
+    for (let i = 0; i < siblings.length; i++) {
+      for (let j = i + 1; j < siblings.length; j++) {
+        const a = siblings[i];
+        const b = siblings[j];
+        const edgeIds = [getGraphEdgeId(a), getGraphEdgeId(b)];
+
+        if (
+          a.to_node === b.to_node &&
+          a.condition_type === b.condition_type &&
+          (a.condition || '') === (b.condition || '')
+        ) {
+          addIssue({
+            kind: 'duplicate_edge',
+            severity: 'warning',
+            message: `Duplicate edge ${nameOf(source)} → ${nameOf(a.to_node)}`,
+            nodeIds: [],
+            edgeIds,
+          });
+          continue;
+        }
+
+        // Only expression routers are expected to be mutually exclusive
+        const isRouter = (edge: Edge) => edge.condition_type === 'conditional' || edge.condition_type === 'custom';
+        if (a.to_node === b.to_node || !isRouter(a) || !isRouter(b)) continue;
+
+        const constraintsA = constraintsByEdge.get(a);
+        const constraintsB = constraintsByEdge.get(b);
+        if (!constraintsA || !constraintsB) continue;
+
+        const overlap = findOverlap(constraintsA, constraintsB);
+        if (overlap) {
+          addIssue({
+            kind: 'conflicting_conditions',
+            severity: 'warning',
+            message: `Conditions on ${nameOf(source)} → ${nameOf(a.to_node)} and → ${nameOf(b.to_node)} overlap; both branches run when ${overlap}`,
+            nodeIds: [],
+            edgeIds,
+          });
+        }
+      }
+    }
+  });
+
+  // Critical path by agent timeout
+  const timeouts = new Map(agents.map(agent => [agentKey(agent), agent.timeout_seconds || 0]));
+  const criticalPath = computeCriticalPath(roots, adjacency, timeouts);
+
+  // Index issues for highlighting
+  const nodeIssues: Record<string, GraphIssue[]> = {};
+  const edgeIssues: Record<string, GraphIssue[]> = {};
+  issues.forEach(issue => {
+    issue.nodeIds.forEach(id => (nodeIssues[id] = [...(nodeIssues[id] || []), issue]));
+    issue.edgeIds.forEach(id => (edgeIssues[id] = [...(edgeIssues[id] || []), issue]));
+  });
+
+  return {
+    entryPoint,
+    reachableNodes: agentIds.filter(id => reachable.has(id)),
+    unreachableNodes,
+    orphanNodes,
+    deadEndNodes,
+    unreachableExitPoints,
+    cycles,
+    criticalPath,
+    issues,
+    nodeIssues,
+    edgeIssues,
+  };
+}
+
+/**
+ * Analyze a workflow's graph_structure; null when it has none
+ */
+export function analyzeWorkflowGraph(workflow: WorkflowConfig, agents: Agent[]): GraphAnalysis | null {
+  if (!workflow.graph_structure) return null;
+  return analyzeGraph(workflow.graph_structure, agents, workflow.entry_point);
+}
+
+/**
+ * Graph issues in the shape the template validators report
+ */
+export function graphIssuesToValidationErrors(analysis: GraphAnalysis | null): ValidationError[] {
+  if (!analysis) return [];
+  return analysis.issues.map(issue => ({
+    field: issue.field,
+    message: issue.message,
+    type: 'custom' as const,
+    severity: issue.severity,
+  }));
+}
+
+/**
+ * Parallel groups implied by a graph: agents started together from Start,
+ * otherwise every agent node as one group
+ */
+export function extractParallelGroups(graph: GraphStructure | undefined): string[][] {
+  if (!graph) return [];
+
+  const startEdges = graph.edges.filter(edge => edge.from_node === START_NODE);
+  if (startEdges.length > 1) {
+    return [startEdges.map(edge => edge.to_node)];
+  }
+
+  const agentNodes = graph.nodes.filter(node => !isVirtualNode(node));
+  return agentNodes.length > 0 ? [agentNodes] : [];
+}
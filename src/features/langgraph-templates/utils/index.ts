@@ -16,6 +16,220 @@ export {
   getStepValidation
 } from './template-validation';
 
+// Export template version diffing
+export {
+  diffTemplates,
+  summarizeTemplateDiff,
+  formatDiffValue
+} from './template-diff';
+export type {
+  TemplateDiffEntry,
+  TemplateDiffSection,
+  TemplateDiffChange,
+  TemplateDiffSummary
+} from './template-diff';
+
+// Export HITL intervention form helpers
+export {
+  resolveHITLConfig,
+  buildInterventionFields,
+  getEditablePrompts,
+  getInterventionRoutes,
+  parseFieldValue
+} from './intervention-form';
+export type {
+  InterventionField,
+  InterventionFieldKind,
+  InterventionRoute,
+  InterventionFormResult,
+  InterventionFormSource
+} from './intervention-form';
+
+// Export pre-execution cost estimation
+export {
+  estimateTemplateCost,
+  estimateTavilyCredits,
+  estimateTavilyContextTokens,
+  estimateTextTokens,
+  checkBudget,
+  formatEstimateCost,
+  formatEstimateRange,
+  MODEL_PRICING,
+  TAVILY_CREDIT_PRICE
+} from './cost-estimator';
+export type {
+  EstimateRange,
+  AgentCostEstimate,
+  TemplateCostEstimate,
+  BudgetCheck
+} from './cost-estimator';
+
+// Export template input variable helpers
+export {
+  BUILT_IN_PLACEHOLDERS,
+  TEMPLATE_VARIABLE_TYPES,
+  extractPlaceholders,
+  detectTemplatePlaceholders,
+  suggestTemplateVariables,
+  validateTemplateVariables,
+  validateVariableValue,
+  validateVariableValues,
+  getDefaultVariableValues,
+  parseVariableValues
+} from './template-variables';
+export type { PlaceholderUsage } from './template-variables';
+
+// Export portable template file format (JSON / YAML import and export)
+export {
+  TEMPLATE_FILE_FORMAT,
+  TEMPLATE_FILE_SCHEMA_VERSION,
+  TemplateFileError,
+  toPortableTemplate,
+  createTemplateFile,
+  serializeTemplateFile,
+  parseTemplateFile,
+  migrateTemplateFile,
+  importTemplateFile,
+  remapTemplateAgentIds,
+  resolveTemplateName,
+  detectTemplateFileType,
+  getTemplateFileName,
+  getTemplateFileMimeType
+} from './template-file-format';
+export type {
+  TemplateFile,
+  TemplateFileType,
+  PortableTemplate,
+  TemplateImportOptions,
+  TemplateImportResult
+} from './template-file-format';
+export { parseYaml, stringifyYaml, YamlParseError } from './yaml';
+
+// Export edge condition expression language
+export {
+  CONDITION_LANGUAGE,
+  CONDITION_LANGUAGE_VERSION,
+  CONDITION_FIELDS,
+  compileCondition,
+  evaluateCondition,
+  buildConditionContext,
+  resolveConditionField,
+  getConditionCompletions,
+  legacyConditionToExpression,
+  isExpressionConditionData,
+  createExpressionConditionData
+} from './condition-expression';
+export type {
+  ConditionNode,
+  ConditionValueType,
+  ComparisonOperator,
+  ConditionDiagnostic,
+  CompiledCondition,
+  ConditionContext,
+  ConditionFieldSchema,
+  ConditionCompletion,
+  ConditionCompletions,
+  ExpressionConditionData
+} from './condition-expression';
+
+// Export dry-run workflow simulator
+export {
+  simulateWorkflow,
+  getDryRunHighlight,
+  createDefaultMock,
+  createDefaultMocks,
+  createMocksFromExecution,
+  DRY_RUN_START_EDGE_ID
+} from './dry-run-simulator';
+export type {
+  DryRunMock,
+  DryRunMocks,
+  DryRunOutcome,
+  DryRunNodeStatus,
+  DryRunEdgeDecision,
+  DryRunStep,
+  DryRunResult,
+  DryRunHighlight
+} from './dry-run-simulator';
+
+// Export workflow graph analysis
+export {
+  analyzeGraph,
+  analyzeWorkflowGraph,
+  graphIssuesToValidationErrors,
+  extractParallelGroups,
+  resolveExecutionGraph,
+  findCriticalPath,
+  getGraphEdgeId,
+  isVirtualNode
+} from './graph-analysis';
+export type {
+  GraphIssueKind,
+  GraphIssue,
+  GraphCycle,
+  CriticalPath,
+  GraphAnalysis,
+  ExecutionGraph
+} from './graph-analysis';
+
+// Export timeout budget analysis
+export { analyzeTimeoutBudget, getAgentTimeBudget } from './timeout-budget';
+export type {
+  BudgetSegmentKind,
+  BudgetSegment,
+  AgentTimeBudget,
+  ScheduledAgent,
+  PathBudget,
+  TimeoutBudget
+} from './timeout-budget';
+
+// Export batch execution helpers
+export {
+  MAX_BATCH_SIZE,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  parseBatchList,
+  parseCsv,
+  parseBatchCsv,
+  getRowVariableValues,
+  validateBatchRows,
+  createBatchRunRows,
+  estimateBatchCost,
+  getBatchRowStatus,
+  isActiveBatchRow,
+  summarizeBatch,
+  batchResultsToCsv,
+  batchResultsToJson
+} from './batch-execution';
+export type {
+  BatchInputRow,
+  BatchParseResult,
+  BatchRowStatus,
+  BatchRunRow,
+  BatchSummary
+} from './batch-execution';
+
+// Export template tag, facet and search highlight helpers
+export {
+  MAX_TEMPLATE_TAGS,
+  MAX_TAG_LENGTH,
+  SUCCESS_RATE_OPTIONS,
+  normalizeTag,
+  addTags,
+  formatCategoryLabel,
+  toTemplateListParams,
+  describeActiveFacets,
+  removeFacet,
+  collectTemplateOwners,
+  highlightMatches
+} from './template-facets';
+export type {
+  TemplateFacetFilters,
+  TemplateOwnerOption,
+  TemplateFacetChip,
+  HighlightSegment
+} from './template-facets';
+
 // Export workflow validation functions with different names to avoid conflicts
 export {
   validateWorkflow as validateWorkflowConfig,
@@ -0,0 +1,200 @@
+/**
+ * Intervention Form Utilities
+ *
+ * Builds the editable fields, prompts and routes shown for `input`, `modify`
+ * and `decision` interventions from the agent's HITL config and the request context.
+ */
+
+import type { Edge, HITLConfig, Template } from '../types';
+
+export type InterventionFieldKind = 'text' | 'textarea' | 'number' | 'boolean' | 'json';
+
+export interface InterventionField {
+  name: string;
+  label: string;
+  kind: InterventionFieldKind;
+  value: string;
+  required: boolean;
+}
+
+export interface InterventionRoute {
+  id: string;
+  to_node: string;
+  label: string;
+  condition_type?: string;
+  condition?: string;
+  description?: string;
+}
+
+export interface InterventionFormResult {
+  action: 'approve' | 'reject' | 'modify' | 'skip' | 'retry';
+  human_feedback?: string;
+  modifications?: Record<string, unknown>;
+  custom_parameters?: Record<string, unknown>;
+}
+
+// Minimal shape shared by the execution-page and inbox intervention types
+export interface InterventionFormSource {
+  agent_id: string;
+  intervention_type: string;
+  context: Record<string, unknown>;
+  agent_result?: unknown;
+}
+
+const PROMPT_KEYS = ['system_prompt', 'user_prompt'] as const;
+export type PromptKey = typeof PROMPT_KEYS[number];
+
+const LONG_TEXT_THRESHOLD = 80;
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function humanize(name: string): string {
+  return name.replace(/[_.-]+/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+}
+
+function inferKind(value: unknown): InterventionFieldKind {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value !== null && typeof value === 'object') return 'json';
+  if (typeof value === 'string' && (value.length > LONG_TEXT_THRESHOLD || value.includes('\n'))) return 'textarea';
+  return 'text';
+}
+
+function serialize(value: unknown, kind: InterventionFieldKind): string {
+  if (value === undefined || value === null) return kind === 'boolean' ? 'false' : '';
+  if (kind === 'json') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+/**
+ * Resolve the HITL config for the agent, preferring the template definition
+ * and falling back to whatever the backend put in the request context
+ */
+export function resolveHITLConfig(
+  intervention: InterventionFormSource,
+  template?: Template | null
+): Partial<HITLConfig> {
+  const agent = template?.agents.find(a => (a.id || a.name) === intervention.agent_id);
+  const context = intervention.context || {};
+  const contextConfig = asRecord(context.hitl_config);
+
+  return {
+    ...contextConfig,
+    ...agent?.hitl_config,
+    required_fields: agent?.hitl_config?.required_fields?.length
+      ? agent.hitl_config.required_fields
+      : (contextConfig.required_fields as string[] | undefined) || (context.required_fields as string[] | undefined) || [],
+    custom_prompt: agent?.hitl_config?.custom_prompt
+      || (contextConfig.custom_prompt as string | undefined)
+      || (context.custom_prompt as string | undefined),
+  };
+}
+
+/**
+ * Build one form field per `required_fields` entry, prefilled from the
+ * agent result (for `modify`) or the request context (for `input`)
+ */
+export function buildInterventionFields(
+  intervention: InterventionFormSource,
+  requiredFields: string[]
+): InterventionField[] {
+  const result = asRecord(intervention.agent_result);
+  const context = intervention.context || {};
+  const source = intervention.intervention_type === 'modify' ? { ...context, ...result } : context;
+
+  return requiredFields.map(name => {
+    const current = source[name];
+    const kind = current === undefined ? 'textarea' : inferKind(current);
+    return {
+      name,
+      label: humanize(name),
+      kind,
+      value: serialize(current, kind),
+      required: true,
+    };
+  });
+}
+
+/**
+ * Prompts the human may edit before a `modify` intervention continues
+ */
+export function getEditablePrompts(
+  intervention: InterventionFormSource,
+  template?: Template | null
+): Partial<Record<PromptKey, string>> {
+  const agent = template?.agents.find(a => (a.id || a.name) === intervention.agent_id);
+  const context = intervention.context || {};
+  const prompts: Partial<Record<PromptKey, string>> = {};
+
+  PROMPT_KEYS.forEach(key => {
+    const value = (context[key] as string | undefined) ?? agent?.[key];
+    if (typeof value === 'string') {
+      prompts[key] = value;
+    }
+  });
+  return prompts;
+}
+
+/**
+ * Outgoing graph edges the human can route to in a `decision` intervention
+ */
+export function getInterventionRoutes(
+  intervention: InterventionFormSource,
+  template?: Template | null
+): InterventionRoute[] {
+  const nameOf = (nodeId: string) =>
+    template?.agents.find(agent => (agent.id || agent.name) === nodeId)?.name || nodeId;
+
+  const toRoute = (edge: Partial<Edge> & { to_node: string }, index: number): InterventionRoute => ({
+    id: edge.edge_id || `${intervention.agent_id}->${edge.to_node}-${index}`,
+    to_node: edge.to_node,
+    label: nameOf(edge.to_node),
+    condition_type: edge.condition_type,
+    condition: edge.condition,
+    description: edge.description,
+  });
+
+  const templateEdges = (template?.workflow.graph_structure?.edges || [])
+    .filter(edge => edge.from_node === intervention.agent_id);
+  if (templateEdges.length > 0) {
+    return templateEdges.map(toRoute);
+  }
+
+  // Backend may send the candidate routes along with the request
+  const contextRoutes = intervention.context?.available_routes ?? intervention.context?.outgoing_edges;
+  if (Array.isArray(contextRoutes)) {
+    return contextRoutes
+      .map(route => (typeof route === 'string' ? { to_node: route } : asRecord(route)))
+      .filter((route): route is Partial<Edge> & { to_node: string } => typeof route.to_node === 'string')
+      .map(toRoute);
+  }
+
+  return [];
+}
+
+/**
+ * Parse a field's raw input back into a typed value
+ */
+export function parseFieldValue(field: InterventionField, raw: string): unknown {
+  switch (field.kind) {
+    case 'number': {
+      const parsed = Number(raw);
+      if (raw.trim() === '' || isNaN(parsed)) {
+        throw new Error(`${field.label} must be a number`);
+      }
+      return parsed;
+    }
+    case 'boolean':
+      return raw === 'true';
+    case 'json':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new Error(`${field.label} must be valid JSON`);
+      }
+    default:
+      return raw;
+  }
+}
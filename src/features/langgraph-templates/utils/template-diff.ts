@@ -0,0 +1,246 @@
+/**
+ * Template Diff Utilities
+ *
+ * Field-level comparison of two template snapshots, grouped into
+ * basic info, agents, prompts, workflow settings and graph edges.
+ */
+
+import type { Agent, Edge, Template } from '../types';
+
+export type TemplateDiffSection = 'basic' | 'agents' | 'prompts' | 'workflow' | 'edges';
+
+export type TemplateDiffChange = 'added' | 'removed' | 'changed';
+
+export interface TemplateDiffEntry {
+  section: TemplateDiffSection;
+  path: string;
+  label: string;
+  change: TemplateDiffChange;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface TemplateDiffSummary {
+  total: number;
+  bySection: Record<TemplateDiffSection, number>;
+}
+
+const BASIC_FIELDS: Array<keyof Template> = ['name', 'description', 'category', 'tags', 'is_active', 'is_public'];
+
+const PROMPT_FIELDS: Array<keyof Agent & string> = ['system_prompt', 'user_prompt'];
+
+// Fields that change on every save and would only add noise to the diff
+const IGNORED_WORKFLOW_PATHS = ['graph_structure.edges', 'graph_structure.version'];
+
+/**
+ * Flatten a nested object into dot-separated leaf paths.
+ * Arrays are kept as leaves so that reordering shows up as a single change.
+ */
+function flatten(value: unknown, prefix = ''): Record<string, unknown> {
+  if (value === null || value === undefined || typeof value !== 'object' || Array.isArray(value)) {
+    return prefix ? { [prefix]: value } : {};
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    Object.assign(result, flatten(child, path));
+  }
+  return result;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function compareFlat(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  section: TemplateDiffSection,
+  pathPrefix: string,
+  labelPrefix: string,
+  ignore: string[] = []
+): TemplateDiffEntry[] {
+  const entries: TemplateDiffEntry[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  keys.forEach(key => {
+    if (ignore.some(ignored => key === ignored || key.startsWith(`${ignored}.`))) return;
+
+    const a = before[key];
+    const b = after[key];
+    if (isEqual(a, b) || (isEmpty(a) && isEmpty(b))) return;
+
+    entries.push({
+      section,
+      path: pathPrefix ? `${pathPrefix}.${key}` : key,
+      label: labelPrefix ? `${labelPrefix} › ${key}` : key,
+      change: isEmpty(a) ? 'added' : isEmpty(b) ? 'removed' : 'changed',
+      before: a,
+      after: b,
+    });
+  });
+
+  return entries;
+}
+
+function getAgentKey(agent: Agent, index: number): string {
+  return agent.id || agent.name || `agent_${index}`;
+}
+
+function getEdgeKey(edge: Edge): string {
+  return edge.edge_id || `${edge.from_node}->${edge.to_node}`;
+}
+
+function resolveAgentName(template: Template, nodeId: string): string {
+  return template.agents.find(agent => (agent.id || agent.name) === nodeId)?.name || nodeId;
+}
+
+function diffAgents(before: Template, after: Template): TemplateDiffEntry[] {
+  const entries: TemplateDiffEntry[] = [];
+  const beforeAgents = new Map(before.agents.map((agent, i) => [getAgentKey(agent, i), agent]));
+  const afterAgents = new Map(after.agents.map((agent, i) => [getAgentKey(agent, i), agent]));
+
+  beforeAgents.forEach((agent, key) => {
+    if (!afterAgents.has(key)) {
+      entries.push({
+        section: 'agents',
+        path: `agents.${key}`,
+        label: agent.name,
+        change: 'removed',
+        before: agent.type,
+      });
+    }
+  });
+
+  afterAgents.forEach((agent, key) => {
+    const previous = beforeAgents.get(key);
+    if (!previous) {
+      entries.push({
+        section: 'agents',
+        path: `agents.${key}`,
+        label: agent.name,
+        change: 'added',
+        after: agent.type,
+      });
+      return;
+    }
+
+    // Prompts get their own section so long text changes are easy to find
+    PROMPT_FIELDS.forEach(field => {
+      if (previous[field] !== agent[field]) {
+        entries.push({
+          section: 'prompts',
+          path: `agents.${key}.${field}`,
+          label: `${agent.name} › ${field}`,
+          change: 'changed',
+          before: previous[field],
+          after: agent[field],
+        });
+      }
+    });
+
+    entries.push(
+      ...compareFlat(flatten(previous), flatten(agent), 'agents', `agents.${key}`, agent.name, PROMPT_FIELDS)
+    );
+  });
+
+  return entries;
+}
+
+function diffEdges(before: Template, after: Template): TemplateDiffEntry[] {
+  const entries: TemplateDiffEntry[] = [];
+  const beforeEdges = new Map((before.workflow.graph_structure?.edges || []).map(edge => [getEdgeKey(edge), edge]));
+  const afterEdges = new Map((after.workflow.graph_structure?.edges || []).map(edge => [getEdgeKey(edge), edge]));
+
+  const describe = (template: Template, edge: Edge) =>
+    `${resolveAgentName(template, edge.from_node)} → ${resolveAgentName(template, edge.to_node)}`;
+
+  beforeEdges.forEach((edge, key) => {
+    if (!afterEdges.has(key)) {
+      entries.push({
+        section: 'edges',
+        path: `edges.${key}`,
+        label: describe(before, edge),
+        change: 'removed',
+        before: edge.condition_type,
+      });
+    }
+  });
+
+  afterEdges.forEach((edge, key) => {
+    const previous = beforeEdges.get(key);
+    if (!previous) {
+      entries.push({
+        section: 'edges',
+        path: `edges.${key}`,
+        label: describe(after, edge),
+        change: 'added',
+        after: edge.condition_type,
+      });
+      return;
+    }
+
+    entries.push(
+      ...compareFlat(flatten(previous), flatten(edge), 'edges', `edges.${key}`, describe(after, edge))
+    );
+  });
+
+  return entries;
+}
+
+/**
+ * Compute a field-level diff between two template snapshots
+ */
+export function diffTemplates(before: Template, after: Template): TemplateDiffEntry[] {
+  const basic = compareFlat(
+    Object.fromEntries(BASIC_FIELDS.map(field => [field, before[field]])),
+    Object.fromEntries(BASIC_FIELDS.map(field => [field, after[field]])),
+    'basic',
+    '',
+    ''
+  );
+
+  const workflow = compareFlat(
+    flatten(before.workflow),
+    flatten(after.workflow),
+    'workflow',
+    'workflow',
+    'Workflow',
+    IGNORED_WORKFLOW_PATHS
+  );
+
+  return [...basic, ...diffAgents(before, after), ...workflow, ...diffEdges(before, after)];
+}
+
+/**
+ * Count diff entries per section
+ */
+export function summarizeTemplateDiff(entries: TemplateDiffEntry[]): TemplateDiffSummary {
+  const bySection: Record<TemplateDiffSection, number> = {
+    basic: 0,
+    agents: 0,
+    prompts: 0,
+    workflow: 0,
+    edges: 0,
+  };
+
+  entries.forEach(entry => {
+    bySection[entry.section] += 1;
+  });
+
+  return { total: entries.length, bySection };
+}
+
+/**
+ * Format a diff value for display
+ */
+export function formatDiffValue(value: unknown): string {
+  if (value === undefined || value === null) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
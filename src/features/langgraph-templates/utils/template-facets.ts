@@ -0,0 +1,169 @@
+/**
+ * Template Facet Utilities
+ *
+ * Tag normalisation, faceted list filters and search-match highlighting
+ * for template discovery.
+ */
+
+import { AGENT_TYPE_CONFIGS, TEMPLATE_CATEGORY_CONFIGS, WORKFLOW_MODE_CONFIGS } from '../types';
+import type { AgentType, Template, TemplateCategory, WorkflowMode } from '../types';
+import type { TemplateListParams } from '../services/template.service';
+
+export const MAX_TEMPLATE_TAGS = 10;
+export const MAX_TAG_LENGTH = 32;
+
+export interface TemplateFacetFilters {
+  search?: string;
+  category?: TemplateCategory;
+  is_public?: boolean;
+  tags?: string[];
+  agent_types?: AgentType[];
+  workflow_modes?: WorkflowMode[];
+  // created_by of the owning user
+  owner?: string;
+  // 0-1, like Template.success_rate
+  min_success_rate?: number;
+}
+
+export interface TemplateOwnerOption {
+  id: string;
+  name: string;
+}
+
+export interface TemplateFacetChip {
+  key: keyof TemplateFacetFilters;
+  value?: string;
+  label: string;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export const SUCCESS_RATE_OPTIONS = [
+  { value: 0.5, label: '50%+ success' },
+  { value: 0.75, label: '75%+ success' },
+  { value: 0.9, label: '90%+ success' },
+  { value: 0.95, label: '95%+ success' },
+];
+
+/**
+ * Lowercase, hyphen-separated tag; empty when nothing usable is left
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/^#+/, '')
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Add comma-separated input to the tag list, skipping duplicates and
+ * anything past MAX_TEMPLATE_TAGS
+ */
+export function addTags(tags: string[], input: string): string[] {
+  const next = [...tags];
+  input.split(',').map(normalizeTag).forEach(tag => {
+    if (tag && !next.includes(tag) && next.length < MAX_TEMPLATE_TAGS) {
+      next.push(tag);
+    }
+  });
+  return next;
+}
+
+export function formatCategoryLabel(category: string): string {
+  return TEMPLATE_CATEGORY_CONFIGS[category as TemplateCategory]?.label
+    ?? category.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+}
+
+/**
+ * List request parameters for the facets; empty facets are left out
+ */
+export function toTemplateListParams(filters: TemplateFacetFilters): TemplateListParams {
+  return {
+    search: filters.search?.trim() || undefined,
+    category: filters.category,
+    is_public: filters.is_public,
+    tags: filters.tags?.length ? filters.tags : undefined,
+    agent_types: filters.agent_types?.length ? filters.agent_types : undefined,
+    workflow_modes: filters.workflow_modes?.length ? filters.workflow_modes : undefined,
+    author: filters.owner,
+    min_success_rate: filters.min_success_rate,
+  };
+}
+
+/**
+ * One removable chip per active facet value (search excluded)
+ */
+export function describeActiveFacets(
+  filters: TemplateFacetFilters,
+  ownerNames: Record<string, string> = {}
+): TemplateFacetChip[] {
+  const chips: TemplateFacetChip[] = [];
+
+  if (filters.category) {
+    chips.push({ key: 'category', label: formatCategoryLabel(filters.category) });
+  }
+  if (filters.is_public !== undefined) {
+    chips.push({ key: 'is_public', label: filters.is_public ? 'Public' : 'Private' });
+  }
+  filters.tags?.forEach(tag => chips.push({ key: 'tags', value: tag, label: `#${tag}` }));
+  filters.agent_types?.forEach(type => chips.push({ key: 'agent_types', value: type, label: AGENT_TYPE_CONFIGS[type].label }));
+  filters.workflow_modes?.forEach(mode => chips.push({ key: 'workflow_modes', value: mode, label: `${WORKFLOW_MODE_CONFIGS[mode].label} workflow` }));
+  if (filters.owner) {
+    chips.push({ key: 'owner', label: `Owner: ${ownerNames[filters.owner] || filters.owner}` });
+  }
+  if (filters.min_success_rate !== undefined) {
+    chips.push({ key: 'min_success_rate', label: `${Math.round(filters.min_success_rate * 100)}%+ success` });
+  }
+
+  return chips;
+}
+
+/**
+ * Filters without the chip's value; list facets drop only that entry
+ */
+export function removeFacet(filters: TemplateFacetFilters, chip: TemplateFacetChip): TemplateFacetFilters {
+  const current = filters[chip.key];
+  if (Array.isArray(current) && chip.value !== undefined) {
+    const remaining = (current as string[]).filter(value => value !== chip.value);
+    return { ...filters, [chip.key]: remaining.length > 0 ? remaining : undefined };
+  }
+  return { ...filters, [chip.key]: undefined };
+}
+
+/**
+ * Owners of the given templates, by created_by, for the owner facet
+ */
+export function collectTemplateOwners(templates: Template[]): TemplateOwnerOption[] {
+  const owners = new Map<string, string>();
+  templates.forEach(template => {
+    if (template.created_by && !owners.has(template.created_by)) {
+      owners.set(template.created_by, template.created_by_name || template.created_by);
+    }
+  });
+  return Array.from(owners, ([id, name]) => ({ id, name }));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split text into matching and non-matching segments for every
+ * whitespace-separated term of the query (case-insensitive)
+ */
+export function highlightMatches(text: string, query?: string): HighlightSegment[] {
+  const terms = (query || '').trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (!text || terms.length === 0) return [{ text, match: false }];
+
+  const pattern = new RegExp(`(${terms.join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: terms.some(term => new RegExp(`^${term}$`, 'i').test(part)) }));
+}
@@ -0,0 +1,439 @@
+/**
+ * Template File Format
+ *
+ * Portable, schema-versioned files for keeping templates in git and moving
+ * them between environments. A file is a JSON or YAML document:
+ *
+ *   format: langgraph-template
+ *   schema_version: 2
+ *   exported_at: 2025-01-01T00:00:00.000Z
+ *   template:
+ *     name: Market Research
+ *     description: ...
+ *     agents:
+ *       - id: agent_1
+ *         name: Researcher
+ *         ...
+ *     workflow:
+ *       mode: sequential
+ *       sequence:
+ *         - agent_1
+ *     variables: [...]
+ *
+ * Exported templates carry no server state (id, owner, timestamps, stats)
+ * and their agent ids are rewritten to stable `agent_1..n` so the same
+ * template always exports identically. Settings left out of a hand-written
+ * file fall back to the builder defaults. On import, agents get fresh ids and
+ * every reference (sequence, parallel groups, graph nodes / edges / entry
+ * and exit points, depends_on, condition keys) is remapped to match.
+ *
+ * Schema history:
+ *   1 - bare template object, as produced by the workflow canvas' copy /
+ *       download before this format existed. Agents may lack ids and be
+ *       referenced by name.
+ *   2 - `format` / `schema_version` envelope around the template.
+ */
+
+import { validateTemplate } from './comprehensive-validation';
+import { parseYaml, stringifyYaml } from './yaml';
+import {
+  DEFAULT_AGENT,
+  DEFAULT_LLM_CONFIG,
+  DEFAULT_TAVILY_CONFIG,
+  DEFAULT_WORKFLOW_CONFIG,
+} from '../types';
+import type { Agent, Template, ValidationResult, WorkflowConfig } from '../types';
+
+export const TEMPLATE_FILE_FORMAT = 'langgraph-template';
+export const TEMPLATE_FILE_SCHEMA_VERSION = 2;
+
+export type TemplateFileType = 'json' | 'yaml';
+
+export type PortableTemplate = Omit<
+  Template,
+  | 'id'
+  | 'created_by'
+  | 'created_by_name'
+  | 'created_at'
+  | 'updated_at'
+  | 'execution_count'
+  | 'success_rate'
+  | 'avg_cost'
+  | 'avg_duration'
+  | 'is_active'
+>;
+
+export interface TemplateFile {
+  format: typeof TEMPLATE_FILE_FORMAT;
+  schema_version: number;
+  exported_at: string;
+  template: PortableTemplate;
+}
+
+export interface TemplateImportOptions {
+  fileName?: string;
+  // Names already in use; a conflicting import is renamed
+  existingNames?: string[];
+}
+
+export interface TemplateImportResult {
+  template: PortableTemplate;
+  validation: ValidationResult;
+  // Non-blocking notes about migration, renaming and unresolved references
+  warnings: string[];
+  sourceSchemaVersion: number;
+  renamedFrom?: string;
+}
+
+export class TemplateFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateFileError';
+  }
+}
+
+// Server-managed fields that don't travel between environments
+const SERVER_FIELDS = [
+  'id',
+  'created_by',
+  'created_by_name',
+  'created_at',
+  'updated_at',
+  'execution_count',
+  'success_rate',
+  'avg_cost',
+  'avg_duration',
+  'is_active',
+] as const;
+
+const MIME_TYPES: Record<TemplateFileType, string> = {
+  json: 'application/json',
+  yaml: 'application/x-yaml',
+};
+
+// ============================================================================
+// AGENT ID REMAPPING
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Rewrite every agent reference in a workflow. References that aren't agent
+ * ids (e.g. the canvas' virtual `start` / `end` nodes) are left untouched.
+ */
+function remapWorkflow(workflow: WorkflowConfig, mapRef: (ref: string) => string): WorkflowConfig {
+  const remapped: WorkflowConfig = { ...workflow };
+
+  if (workflow.sequence) {
+    remapped.sequence = workflow.sequence.map(mapRef);
+  }
+  if (workflow.parallel_groups) {
+    remapped.parallel_groups = workflow.parallel_groups.map(group => group.map(mapRef));
+  }
+  if (workflow.entry_point) {
+    remapped.entry_point = mapRef(workflow.entry_point);
+  }
+  if (isRecord(workflow.conditions)) {
+    remapped.conditions = Object.fromEntries(
+      Object.entries(workflow.conditions).map(([key, value]) => [mapRef(key), value])
+    );
+  }
+  if (workflow.graph_structure) {
+    const graph = workflow.graph_structure;
+    remapped.graph_structure = {
+      ...graph,
+      nodes: (graph.nodes || []).map(mapRef),
+      edges: (graph.edges || []).map(edge => ({
+        ...edge,
+        from_node: mapRef(edge.from_node),
+        to_node: mapRef(edge.to_node),
+      })),
+      entry_point: graph.entry_point ? mapRef(graph.entry_point) : graph.entry_point,
+      ...(graph.exit_points ? { exit_points: graph.exit_points.map(mapRef) } : {}),
+    };
+  }
+
+  return remapped;
+}
+
+/**
+ * Give every agent a new id and rewrite all references to it
+ */
+export function remapTemplateAgentIds<T extends Pick<Template, 'agents' | 'workflow'>>(
+  template: T,
+  createId: (agent: Agent, index: number) => string
+): T {
+  const idMap = new Map<string, string>();
+  const agents = template.agents.map((agent, index) => {
+    const newId = createId(agent, index);
+    // Agents without an id are referenced by name (see `a.id || a.name` in the builder)
+    idMap.set(agent.id || agent.name, newId);
+    return { ...agent, id: newId };
+  });
+
+  const mapRef = (ref: string) => idMap.get(ref) ?? ref;
+
+  return {
+    ...template,
+    agents: agents.map(agent => (agent.depends_on ? { ...agent, depends_on: agent.depends_on.map(mapRef) } : agent)),
+    workflow: template.workflow ? remapWorkflow(template.workflow, mapRef) : template.workflow,
+  };
+}
+
+export function generateAgentId(): string {
+  return `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Agent references that don't resolve to an agent in the template
+ */
+function findUnresolvedReferences(template: Pick<Template, 'agents' | 'workflow'>): string[] {
+  const ids = new Set(template.agents.map(agent => agent.id || agent.name));
+  const unresolved = new Set<string>();
+  const check = (ref: string | undefined) => {
+    if (ref && !ids.has(ref)) unresolved.add(ref);
+  };
+
+  template.agents.forEach(agent => agent.depends_on?.forEach(check));
+  template.workflow.sequence?.forEach(check);
+  template.workflow.parallel_groups?.forEach(group => group.forEach(check));
+
+  // Graph edges may legitimately use the canvas' virtual start / end nodes
+  const graph = template.workflow.graph_structure;
+  graph?.nodes?.forEach(check);
+  graph?.edges?.forEach(edge => {
+    if (edge.from_node !== 'start') check(edge.from_node);
+    if (edge.to_node !== 'end') check(edge.to_node);
+  });
+
+  return Array.from(unresolved);
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Strip server state and normalise agent ids to `agent_1..n`
+ */
+export function toPortableTemplate(template: Partial<Template> & Pick<Template, 'agents' | 'workflow'>): PortableTemplate {
+  const stripped: Record<string, unknown> = { ...template };
+  SERVER_FIELDS.forEach(field => delete stripped[field]);
+
+  const portable = remapTemplateAgentIds(stripped as unknown as PortableTemplate, (_, index) => `agent_${index + 1}`);
+
+  // Derived validation metadata is recomputed on load and only adds diff noise
+  if (portable.workflow.graph_structure) {
+    const graph = { ...portable.workflow.graph_structure };
+    delete graph.is_valid;
+    delete graph.validation_errors;
+    delete graph.validation_warnings;
+    portable.workflow = { ...portable.workflow, graph_structure: graph };
+  }
+
+  return portable;
+}
+
+export function createTemplateFile(template: Partial<Template> & Pick<Template, 'agents' | 'workflow'>): TemplateFile {
+  return {
+    format: TEMPLATE_FILE_FORMAT,
+    schema_version: TEMPLATE_FILE_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    template: toPortableTemplate(template),
+  };
+}
+
+export function serializeTemplateFile(
+  template: Partial<Template> & Pick<Template, 'agents' | 'workflow'>,
+  type: TemplateFileType = 'json'
+): string {
+  // JSON round-trip drops undefined fields so both formats carry the same data
+  const file = JSON.parse(JSON.stringify(createTemplateFile(template)));
+  return type === 'yaml' ? stringifyYaml(file) : `${JSON.stringify(file, null, 2)}\n`;
+}
+
+export function getTemplateFileMimeType(type: TemplateFileType): string {
+  return MIME_TYPES[type];
+}
+
+export function getTemplateFileName(template: Pick<Template, 'name'>, type: TemplateFileType): string {
+  const slug = (template.name || 'template')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'template';
+  return `${slug}.template.${type === 'yaml' ? 'yaml' : 'json'}`;
+}
+
+// ============================================================================
+// PARSE & MIGRATE
+// ============================================================================
+
+export function detectTemplateFileType(text: string, fileName?: string): TemplateFileType {
+  if (fileName && /\.ya?ml$/i.test(fileName)) return 'yaml';
+  if (fileName && /\.json$/i.test(fileName)) return 'json';
+  return /^\s*[{[]/.test(text) ? 'json' : 'yaml';
+}
+
+/**
+ * Upgrade any supported file to the current schema version
+ */
+export function migrateTemplateFile(data: unknown): { file: TemplateFile; sourceSchemaVersion: number; notes: string[] } {
+  if (!isRecord(data)) {
+    throw new TemplateFileError('Template file must contain an object');
+  }
+
+  const notes: string[] = [];
+  let file: Record<string, unknown>;
+  let sourceSchemaVersion: number;
+
+  if ('format' in data || 'schema_version' in data) {
+    if (data.format !== TEMPLATE_FILE_FORMAT) {
+      throw new TemplateFileError(`Unsupported file format "${String(data.format)}"`);
+    }
+    if (typeof data.schema_version !== 'number' || !Number.isInteger(data.schema_version) || data.schema_version < 1) {
+      throw new TemplateFileError('Template file has an invalid schema_version');
+    }
+    if (data.schema_version > TEMPLATE_FILE_SCHEMA_VERSION) {
+      throw new TemplateFileError(
+        `Template file uses schema version ${data.schema_version}, but this app supports up to ${TEMPLATE_FILE_SCHEMA_VERSION}. Update the app to import it.`
+      );
+    }
+    file = data;
+    sourceSchemaVersion = data.schema_version;
+  } else {
+    // v1: bare template without an envelope
+    file = { format: TEMPLATE_FILE_FORMAT, schema_version: 1, template: data };
+    sourceSchemaVersion = 1;
+  }
+
+  if (file.schema_version === 1) {
+    const template = isRecord(file.template) ? file.template : {};
+    const agents = Array.isArray(template.agents) ? template.agents : [];
+    const unnamed = agents.filter(agent => isRecord(agent) && !agent.id).length;
+
+    file = {
+      format: TEMPLATE_FILE_FORMAT,
+      schema_version: 2,
+      exported_at: typeof file.exported_at === 'string' ? file.exported_at : undefined,
+      template: {
+        ...template,
+        // v1 agents without ids were referenced by name
+        agents: agents.map(agent => (isRecord(agent) && !agent.id ? { ...agent, id: agent.name } : agent)),
+      },
+    };
+    notes.push(
+      `Migrated from schema version 1${unnamed > 0 ? `; ${unnamed} agent${unnamed === 1 ? '' : 's'} without ids matched by name` : ''}`
+    );
+  }
+
+  return { file: file as unknown as TemplateFile, sourceSchemaVersion, notes };
+}
+
+function assertTemplateShape(template: unknown): asserts template is PortableTemplate {
+  if (!isRecord(template)) {
+    throw new TemplateFileError('Template file is missing the "template" section');
+  }
+  if (typeof template.name !== 'string') {
+    throw new TemplateFileError('Template is missing a name');
+  }
+  if (!Array.isArray(template.agents) || template.agents.some(agent => !isRecord(agent) || typeof agent.name !== 'string')) {
+    throw new TemplateFileError('Template agents must be a list of agents with names');
+  }
+  if (!isRecord(template.workflow) || typeof template.workflow.mode !== 'string') {
+    throw new TemplateFileError('Template is missing a workflow with a mode');
+  }
+}
+
+export function parseTemplateFile(text: string, fileName?: string): { file: TemplateFile; sourceSchemaVersion: number; notes: string[] } {
+  if (!text.trim()) {
+    throw new TemplateFileError('Template file is empty');
+  }
+
+  const type = detectTemplateFileType(text, fileName);
+  let data: unknown;
+  try {
+    data = type === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new TemplateFileError(
+      `Could not read ${type.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const migrated = migrateTemplateFile(data);
+  assertTemplateShape(migrated.file.template);
+  return migrated;
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Fill settings omitted from the file with the defaults new templates get
+ */
+function applyTemplateDefaults(template: PortableTemplate): PortableTemplate {
+  return {
+    ...template,
+    description: template.description ?? '',
+    agents: template.agents.map(agent => ({
+      ...agent,
+      type: agent.type ?? DEFAULT_AGENT.type,
+      llm_config: { ...DEFAULT_LLM_CONFIG, ...agent.llm_config },
+      tavily_config: { ...DEFAULT_TAVILY_CONFIG, ...agent.tavily_config },
+      timeout_seconds: agent.timeout_seconds ?? DEFAULT_AGENT.timeout_seconds,
+      retry_count: agent.retry_count ?? DEFAULT_AGENT.retry_count,
+      priority: agent.priority ?? DEFAULT_AGENT.priority,
+    })),
+    workflow: { ...DEFAULT_WORKFLOW_CONFIG, ...template.workflow },
+  };
+}
+
+/**
+ * First free name of `name`, `name (imported)`, `name (imported 2)`, ...
+ */
+export function resolveTemplateName(name: string, existingNames: string[]): string {
+  const taken = new Set(existingNames.map(existing => existing.trim().toLowerCase()));
+  if (!taken.has(name.trim().toLowerCase())) return name;
+
+  for (let attempt = 1; ; attempt++) {
+    const candidate = attempt === 1 ? `${name} (imported)` : `${name} (imported ${attempt})`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+/**
+ * Parse, migrate, remap and validate a template file for import
+ */
+export function importTemplateFile(text: string, options: TemplateImportOptions = {}): TemplateImportResult {
+  const { file, sourceSchemaVersion, notes } = parseTemplateFile(text, options.fileName);
+  const warnings = [...notes];
+
+  const unresolved = findUnresolvedReferences(file.template);
+  if (unresolved.length > 0) {
+    warnings.push(`Workflow references unknown agents: ${unresolved.join(', ')}`);
+  }
+
+  const stripped: Record<string, unknown> = { ...file.template };
+  SERVER_FIELDS.forEach(field => delete stripped[field]);
+
+  let template = remapTemplateAgentIds(applyTemplateDefaults(stripped as unknown as PortableTemplate), generateAgentId);
+
+  let renamedFrom: string | undefined;
+  const name = resolveTemplateName(template.name, options.existingNames || []);
+  if (name !== template.name) {
+    renamedFrom = template.name;
+    warnings.push(`A template named "${template.name}" already exists; importing as "${name}"`);
+    template = { ...template, name };
+  }
+
+  return {
+    template,
+    validation: validateTemplate(template as Template),
+    warnings,
+    sourceSchemaVersion,
+    renamedFrom,
+  };
+}
@@ -21,6 +21,9 @@ import type {
   TavilyTimeRange,
   TavilyFormat
 } from '../types';
+import { validateTemplateVariables } from './template-variables';
+import { analyzeWorkflowGraph } from './graph-analysis';
+import type { GraphAnalysis } from './graph-analysis';
 
 // Valid enum values - must match backend exactly
 const VALID_AGENT_TYPES: AgentType[] = ['research', 'analysis', 'synthesis', 'validation'];
@@ -49,6 +52,11 @@ export function validateTemplate(template: Template): ValidationResult {
   // Workflow validation
   validateWorkflow(template.workflow, template.agents, errors, warnings);
 
+  // Input variable validation
+  const variableValidation = validateTemplateVariables(template);
+  errors.push(...variableValidation.errors);
+  warnings.push(...variableValidation.warnings);
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -759,7 +767,8 @@ export function validateWorkflowStep(template: Template): StepValidationResult {
   }
 
   // Cyclic flow detection
-  const cyclicFlows = detectCyclicFlows(template.workflow);
+  const graphAnalysis = analyzeWorkflowGraph(template.workflow, template.agents);
+  const cyclicFlows = detectCyclicFlows(template.workflow, graphAnalysis);
   cyclicFlows.forEach(cycle => {
     errors.push({
       field: 'workflow.cycle',
@@ -768,6 +777,17 @@ export function validateWorkflowStep(template: Template): StepValidationResult {
     });
   });
 
+  // Remaining graph structure problems (reachability, dead ends, conditions)
+  graphAnalysis?.issues
+    .filter(issue => issue.kind !== 'cycle_without_exit')
+    .forEach(issue => {
+      if (issue.severity === 'error') {
+        errors.push({ field: issue.field, message: issue.message, type: 'custom' });
+      } else {
+        warnings.push(issue.message);
+      }
+    });
+
   // Mode-specific suggestions
   switch (template.workflow.mode) {
     case 'sequential':
@@ -833,9 +853,14 @@ export function validateWorkflowStep(template: Template): StepValidationResult {
 /**
  * Detect cyclic flows in workflow configuration
  */
-function detectCyclicFlows(workflow: WorkflowConfig): string[] {
+function detectCyclicFlows(workflow: WorkflowConfig, graphAnalysis: GraphAnalysis | null): string[] {
   const cycles: string[] = [];
 
+  // Loops in the graph that can never be left
+  graphAnalysis?.issues
+    .filter(issue => issue.kind === 'cycle_without_exit')
+    .forEach(issue => cycles.push(issue.message));
+
   switch (workflow.mode) {
     case 'sequential':
       // Sequential workflows are inherently acyclic
@@ -853,8 +878,8 @@ function detectCyclicFlows(workflow: WorkflowConfig): string[] {
       break;
 
     case 'conditional':
-      // Conditional workflows need runtime analysis - warn about potential cycles
-      if (workflow.conditions && Object.keys(workflow.conditions).length > 0) {
+      // Without a graph, conditional workflows need runtime analysis - warn about potential cycles
+      if (!graphAnalysis && workflow.conditions && Object.keys(workflow.conditions).length > 0) {
         cycles.push('Conditional workflows may create cycles - review routing logic carefully');
       }
       break;
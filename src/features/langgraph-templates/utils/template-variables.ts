@@ -0,0 +1,244 @@
+/**
+ * Template Variable Utilities
+ *
+ * Detects `{placeholder}`s in agent prompts, suggests typed variable
+ * declarations for them, and validates / parses the values entered at
+ * execution time into `custom_parameters`.
+ */
+
+import type { Template, TemplateVariable, TemplateVariableType, ValidationError } from '../types';
+
+/**
+ * Placeholders the backend fills itself: `query` is the execution query,
+ * `data` and `information` carry upstream agent results (see AGENT_TYPE_CONFIGS)
+ */
+export const BUILT_IN_PLACEHOLDERS = ['query', 'data', 'information'] as const;
+
+export const TEMPLATE_VARIABLE_TYPES: Record<TemplateVariableType, { label: string; description: string }> = {
+  string: { label: 'Text', description: 'Free-form text' },
+  number: { label: 'Number', description: 'Numeric value with optional bounds' },
+  enum: { label: 'Choice', description: 'One of a fixed list of options' },
+  url_list: { label: 'URL List', description: 'One or more http(s) URLs' },
+  date: { label: 'Date', description: 'Calendar date (YYYY-MM-DD)' },
+};
+
+// `{name}` but not `{{escaped}}`
+const PLACEHOLDER_PATTERN = /(?<!\{)\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}(?!\})/g;
+
+const URL_PATTERN = /^https?:\/\/[^\s/$.?#].[^\s]*$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface PlaceholderUsage {
+  name: string;
+  // Names of the agents whose prompts use the placeholder
+  agents: string[];
+}
+
+export function isBuiltInPlaceholder(name: string): boolean {
+  return (BUILT_IN_PLACEHOLDERS as readonly string[]).includes(name);
+}
+
+/**
+ * Placeholder names used in a piece of text, in order of first appearance
+ */
+export function extractPlaceholders(text: string | undefined): string[] {
+  if (!text) return [];
+  const names: string[] = [];
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * All non built-in placeholders across the template's agent prompts
+ */
+export function detectTemplatePlaceholders(template: Pick<Template, 'agents'>): PlaceholderUsage[] {
+  const usage = new Map<string, string[]>();
+
+  template.agents.forEach(agent => {
+    const names = [...extractPlaceholders(agent.system_prompt), ...extractPlaceholders(agent.user_prompt)];
+    names.forEach(name => {
+      if (isBuiltInPlaceholder(name)) return;
+      const agents = usage.get(name) || [];
+      if (!agents.includes(agent.name)) {
+        agents.push(agent.name);
+      }
+      usage.set(name, agents);
+    });
+  });
+
+  return Array.from(usage.entries()).map(([name, agents]) => ({ name, agents }));
+}
+
+/**
+ * Guess a variable type from its placeholder name
+ */
+export function inferVariableType(name: string): TemplateVariableType {
+  const lower = name.toLowerCase();
+  if (/(urls?|links?|sites?|domains?|sources?)$/.test(lower)) return 'url_list';
+  if (/(date|since|until|from_date|to_date|deadline)$/.test(lower)) return 'date';
+  if (/(count|number|num|limit|max|min|year|amount|budget|size|days)$/.test(lower)) return 'number';
+  return 'string';
+}
+
+export function humanizeVariableName(name: string): string {
+  return name.replace(/_+/g, ' ').replace(/\b\w/g, char => char.toUpperCase()).trim();
+}
+
+/**
+ * Declarations for placeholders that don't have a variable yet
+ */
+export function suggestTemplateVariables(template: Pick<Template, 'agents' | 'variables'>): TemplateVariable[] {
+  const declared = new Set((template.variables || []).map(variable => variable.name));
+
+  return detectTemplatePlaceholders(template)
+    .filter(usage => !declared.has(usage.name))
+    .map(usage => ({
+      name: usage.name,
+      label: humanizeVariableName(usage.name),
+      type: inferVariableType(usage.name),
+      required: true,
+    }));
+}
+
+/**
+ * Check the declarations against the prompts: every placeholder needs a
+ * variable, and each variable must be well formed
+ */
+export function validateTemplateVariables(
+  template: Pick<Template, 'agents' | 'variables'>
+): { errors: ValidationError[]; warnings: string[] } {
+  const errors: ValidationError[] = [];
+  const warnings: string[] = [];
+  const variables = template.variables || [];
+  const usages = detectTemplatePlaceholders(template);
+  const declared = new Set<string>();
+
+  variables.forEach((variable, index) => {
+    const field = `variables.${index}`;
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(variable.name)) {
+      errors.push({ field: `${field}.name`, message: `"${variable.name}" is not a valid variable name`, type: 'custom' });
+    } else if (declared.has(variable.name)) {
+      errors.push({ field: `${field}.name`, message: `Variable "${variable.name}" is declared more than once`, type: 'custom' });
+    } else if (isBuiltInPlaceholder(variable.name)) {
+      errors.push({ field: `${field}.name`, message: `"${variable.name}" is filled automatically and can't be a variable`, type: 'custom' });
+    }
+    declared.add(variable.name);
+
+    if (variable.type === 'enum' && !(variable.options || []).some(option => option.trim())) {
+      errors.push({ field: `${field}.options`, message: `Choice variable "${variable.name}" needs at least one option`, type: 'required' });
+    }
+
+    if (variable.type === 'number' && variable.min !== undefined && variable.max !== undefined && variable.min > variable.max) {
+      errors.push({ field: `${field}.min`, message: `Minimum of "${variable.name}" is greater than its maximum`, type: 'range' });
+    }
+
+    if (variable.default_value) {
+      const defaultError = validateVariableValue(variable, variable.default_value);
+      if (defaultError) {
+        errors.push({ field: `${field}.default_value`, message: `Default value: ${defaultError}`, type: 'custom' });
+      }
+    }
+
+    if (!usages.some(usage => usage.name === variable.name)) {
+      warnings.push(`Variable "${variable.name}" is not used in any agent prompt`);
+    }
+  });
+
+  // Undeclared placeholders still run (the text is left as-is), so they only warn
+  usages
+    .filter(usage => !declared.has(usage.name))
+    .forEach(usage => {
+      warnings.push(
+        `Placeholder {${usage.name}} used by ${usage.agents.join(', ')} has no declared variable; declare "${usage.name}" under Input Variables`
+      );
+    });
+
+  return { errors, warnings };
+}
+
+/**
+ * Validate one execution-time value; returns an error message or null
+ */
+export function validateVariableValue(variable: TemplateVariable, raw: string): string | null {
+  const value = raw.trim();
+  const label = variable.label || humanizeVariableName(variable.name);
+
+  if (!value) {
+    return variable.required ? `${label} is required` : null;
+  }
+
+  switch (variable.type) {
+    case 'number': {
+      const parsed = Number(value);
+      if (isNaN(parsed)) return `${label} must be a number`;
+      if (variable.min !== undefined && parsed < variable.min) return `${label} must be at least ${variable.min}`;
+      if (variable.max !== undefined && parsed > variable.max) return `${label} must be at most ${variable.max}`;
+      return null;
+    }
+    case 'enum':
+      return (variable.options || []).includes(value) ? null : `${label} must be one of: ${(variable.options || []).join(', ')}`;
+    case 'url_list': {
+      const invalid = splitUrlList(value).filter(url => !URL_PATTERN.test(url));
+      return invalid.length > 0 ? `Invalid URL${invalid.length > 1 ? 's' : ''}: ${invalid.join(', ')}` : null;
+    }
+    case 'date':
+      return DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime()) ? null : `${label} must be a valid date`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate all execution-time values, keyed by variable name
+ */
+export function validateVariableValues(variables: TemplateVariable[], values: Record<string, string>): Record<string, string> {
+  const errors: Record<string, string> = {};
+  variables.forEach(variable => {
+    const error = validateVariableValue(variable, values[variable.name] ?? '');
+    if (error) {
+      errors[variable.name] = error;
+    }
+  });
+  return errors;
+}
+
+function splitUrlList(value: string): string[] {
+  return value.split(/[\s,]+/).map(url => url.trim()).filter(Boolean);
+}
+
+/**
+ * Initial form values from the declared defaults
+ */
+export function getDefaultVariableValues(variables: TemplateVariable[]): Record<string, string> {
+  return Object.fromEntries(variables.map(variable => [variable.name, variable.default_value ?? '']));
+}
+
+/**
+ * Convert validated form values to typed `custom_parameters`
+ */
+export function parseVariableValues(variables: TemplateVariable[], values: Record<string, string>): Record<string, unknown> {
+  const parameters: Record<string, unknown> = {};
+
+  variables.forEach(variable => {
+    const value = (values[variable.name] ?? '').trim();
+    if (!value) return;
+
+    switch (variable.type) {
+      case 'number':
+        parameters[variable.name] = Number(value);
+        break;
+      case 'url_list':
+        parameters[variable.name] = splitUrlList(value);
+        break;
+      default:
+        parameters[variable.name] = value;
+    }
+  });
+
+  return parameters;
+}
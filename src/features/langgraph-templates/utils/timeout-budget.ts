@@ -0,0 +1,337 @@
+/**
+ * Workflow Timeout Budget
+ *
+ * Worst-case wall-clock projection for a workflow:
+ * - per agent: every attempt (1 + retry_count) running to its timeout, plus
+ *   each enabled HITL intervention waiting out its timeout
+ * - per path: the agents along each route from the entry point to an exit
+ * - overall: a schedule that starts every reachable agent as soon as its
+ *   predecessors finish, limited to max_concurrent_agents at a time
+ *
+ * Conditional branches are all assumed to run, so the schedule is an upper
+ * bound; per-path figures show each branch on its own.
+ */
+
+import type { Agent, Edge, InterventionPoint, WorkflowConfig } from '../types';
+import { findCriticalPath, isVirtualNode, resolveExecutionGraph } from './graph-analysis';
+import type { CriticalPath } from './graph-analysis';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BudgetSegmentKind = 'execution' | 'retry' | 'intervention';
+
+export interface BudgetSegment {
+  kind: BudgetSegmentKind;
+  label: string;
+  seconds: number;
+}
+
+export interface AgentTimeBudget {
+  nodeId: string;
+  agentName: string;
+  attempts: number;
+  executionSeconds: number;
+  retrySeconds: number;
+  interventionSeconds: number;
+  worstCaseSeconds: number;
+  // In execution order, for the schedule bars
+  segments: BudgetSegment[];
+}
+
+export interface ScheduledAgent extends AgentTimeBudget {
+  // When its predecessors have all finished
+  readySeconds: number;
+  startSeconds: number;
+  endSeconds: number;
+  // Time spent waiting for a concurrency slot
+  queuedSeconds: number;
+  onCriticalPath: boolean;
+}
+
+export interface PathBudget {
+  nodes: string[];
+  // Sum of the agents' worst cases, as if the path ran alone
+  worstCaseSeconds: number;
+  // When the path's last agent finishes in the projected schedule
+  finishSeconds: number;
+  exceedsTimeout: boolean;
+}
+
+export interface TimeoutBudget {
+  workflowTimeoutSeconds: number;
+  maxConcurrentAgents: number;
+  agents: Record<string, AgentTimeBudget>;
+  schedule: ScheduledAgent[];
+  paths: PathBudget[];
+  criticalPath: CriticalPath;
+  worstCaseSeconds: number;
+  exceedsTimeout: boolean;
+  warnings: string[];
+}
+
+const MAX_PATHS = 20;
+
+const agentKey = (agent: Agent) => agent.id || agent.name;
+
+// ============================================================================
+// AGENTS
+// ============================================================================
+
+/**
+ * Worst-case time for one agent: all attempts time out and every enabled
+ * intervention waits for its full timeout
+ */
+export function getAgentTimeBudget(agent: Agent): AgentTimeBudget {
+  const attempts = 1 + Math.max(0, agent.retry_count || 0);
+  const timeout = agent.timeout_seconds || 0;
+  const hitl = agent.hitl_config?.enabled ? agent.hitl_config : undefined;
+  const waitsAt = (point: InterventionPoint) => Boolean(hitl?.intervention_points.includes(point));
+  const wait = hitl?.timeout_seconds || 0;
+
+  const segments: BudgetSegment[] = [];
+  if (waitsAt('before_execution')) {
+    segments.push({ kind: 'intervention', label: 'Approval before run', seconds: wait });
+  }
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    segments.push({
+      kind: attempt === 1 ? 'execution' : 'retry',
+      label: attempt === 1 ? 'Run' : `Retry ${attempt - 1}`,
+      seconds: timeout,
+    });
+    if (waitsAt('on_error')) {
+      segments.push({ kind: 'intervention', label: 'Error review', seconds: wait });
+    }
+  }
+  if (waitsAt('after_execution')) {
+    segments.push({ kind: 'intervention', label: 'Review after run', seconds: wait });
+  }
+  if (waitsAt('conditional')) {
+    segments.push({ kind: 'intervention', label: 'Routing decision', seconds: wait });
+  }
+
+  const total = (kind: BudgetSegmentKind) =>
+    segments.filter(segment => segment.kind === kind).reduce((sum, segment) => sum + segment.seconds, 0);
+
+  return {
+    nodeId: agentKey(agent),
+    agentName: agent.name,
+    attempts,
+    executionSeconds: total('execution'),
+    retrySeconds: total('retry'),
+    interventionSeconds: total('intervention'),
+    worstCaseSeconds: segments.reduce((sum, segment) => sum + segment.seconds, 0),
+    segments,
+  };
+}
+
+// ============================================================================
+// GRAPH HELPERS
+// ============================================================================
+
+/**
+ * Edges reachable from the roots that don't close a cycle
+ */
+function getForwardEdges(roots: string[], edges: Edge[]): Edge[] {
+  const outgoing = new Map<string, Edge[]>();
+  edges.forEach(edge => outgoing.set(edge.from_node, [...(outgoing.get(edge.from_node) || []), edge]));
+
+  const forward: Edge[] = [];
+  const visited = new Set<string>();
+  const onStack = new Set<string>();
+
+  const visit = (node: string) => {
+    visited.add(node);
+    onStack.add(node);
+    (outgoing.get(node) || []).forEach(edge => {
+      if (onStack.has(edge.to_node)) return;
+      forward.push(edge);
+      if (!visited.has(edge.to_node)) visit(edge.to_node);
+    });
+    onStack.delete(node);
+  };
+
+  roots.forEach(root => {
+    if (!visited.has(root)) visit(root);
+  });
+  return forward;
+}
+
+/**
+ * Agent-only paths from the roots to an exit (or a sink), capped at MAX_PATHS
+ */
+function enumeratePaths(roots: string[], edges: Edge[], exits: Set<string>): string[][] {
+  const outgoing = new Map<string, string[]>();
+  edges.forEach(edge => outgoing.set(edge.from_node, [...(outgoing.get(edge.from_node) || []), edge.to_node]));
+
+  const paths: string[][] = [];
+  const walk = (node: string, path: string[]) => {
+    if (paths.length >= MAX_PATHS) return;
+    const nextPath = isVirtualNode(node) ? path : [...path, node];
+    const targets = outgoing.get(node) || [];
+
+    if ((exits.has(node) || targets.length === 0) && nextPath.length > 0) {
+      paths.push(nextPath);
+      if (targets.length === 0) return;
+    }
+    targets.forEach(target => walk(target, nextPath));
+  };
+
+  roots.forEach(root => walk(root, []));
+
+  // An exit with outgoing edges can record the same agents twice
+  const seen = new Set<string>();
+  return paths.filter(path => {
+    const key = path.join('>');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Project the worst-case schedule for a workflow and check it against the
+ * workflow timeout
+ */
+export function analyzeTimeoutBudget(agents: Agent[], workflow: WorkflowConfig): TimeoutBudget {
+  const graph = resolveExecutionGraph(agents, workflow);
+  const maxConcurrent = Math.max(1, workflow.max_concurrent_agents || 1);
+  const workflowTimeout = workflow.timeout_seconds || 0;
+  const warnings: string[] = [];
+
+  const budgets: Record<string, AgentTimeBudget> = {};
+  agents.forEach(agent => {
+    budgets[agentKey(agent)] = getAgentTimeBudget(agent);
+  });
+  const priorities = new Map(agents.map(agent => [agentKey(agent), agent.priority || 1]));
+  const agentOrder = new Map(agents.map((agent, index) => [agentKey(agent), index]));
+
+  const roots = ['start', ...graph.entryPoints];
+  const forwardEdges = getForwardEdges(roots, graph.edges);
+  const predecessors = new Map<string, string[]>();
+  const reached = new Set<string>(graph.entryPoints);
+  forwardEdges.forEach(edge => {
+    predecessors.set(edge.to_node, [...(predecessors.get(edge.to_node) || []), edge.from_node]);
+    reached.add(edge.to_node);
+  });
+
+  // List-schedule agents in dependency order onto max_concurrent_agents slots
+  const finishTimes = new Map<string, number>();
+  const slots: number[] = Array(maxConcurrent).fill(0);
+  const schedule: ScheduledAgent[] = [];
+  const pending = new Set([...reached].filter(node => !isVirtualNode(node) && budgets[node]));
+
+  // Virtual nodes finish as soon as their own predecessors do
+  const finishOf = (node: string, trail = new Set<string>()): number | undefined => {
+    if (finishTimes.has(node)) return finishTimes.get(node);
+    if (!isVirtualNode(node)) return budgets[node] ? undefined : 0;
+    if (trail.has(node)) return 0;
+    trail.add(node);
+    let latest = 0;
+    for (const predecessor of predecessors.get(node) || []) {
+      const finish = finishOf(predecessor, trail);
+      if (finish === undefined) return undefined;
+      latest = Math.max(latest, finish);
+    }
+    return latest;
+  };
+
+  const readyTime = (node: string): number | undefined => {
+    let latest = 0;
+    for (const predecessor of predecessors.get(node) || []) {
+      const finish = finishOf(predecessor);
+      if (finish === undefined) return undefined;
+      latest = Math.max(latest, finish);
+    }
+    return latest;
+  };
+
+  while (pending.size > 0) {
+    const ready = [...pending]
+      .map(node => ({ node, ready: readyTime(node) }))
+      .filter((entry): entry is { node: string; ready: number } => entry.ready !== undefined);
+    if (ready.length === 0) break;
+
+    ready.sort((a, b) =>
+      a.ready - b.ready ||
+      (priorities.get(b.node) || 0) - (priorities.get(a.node) || 0) ||
+      (agentOrder.get(a.node) || 0) - (agentOrder.get(b.node) || 0)
+    );
+    const { node, ready: readySeconds } = ready[0];
+
+    const slot = slots.indexOf(Math.min(...slots));
+    const startSeconds = Math.max(readySeconds, slots[slot]);
+    const endSeconds = startSeconds + budgets[node].worstCaseSeconds;
+    slots[slot] = endSeconds;
+    finishTimes.set(node, endSeconds);
+    pending.delete(node);
+
+    schedule.push({
+      ...budgets[node],
+      readySeconds,
+      startSeconds,
+      endSeconds,
+      queuedSeconds: startSeconds - readySeconds,
+      onCriticalPath: false,
+    });
+  }
+
+  // Critical path by worst-case agent time
+  const durations = Object.fromEntries(Object.entries(budgets).map(([id, budget]) => [id, budget.worstCaseSeconds]));
+  const criticalPath = findCriticalPath(roots, graph.edges, durations);
+  schedule.forEach(entry => {
+    entry.onCriticalPath = criticalPath.nodes.includes(entry.nodeId);
+  });
+
+  // Per-path figures
+  const exits = new Set(['end', ...graph.exitPoints]);
+  const paths = enumeratePaths(roots, forwardEdges, exits)
+    .map(nodes => {
+      const worstCaseSeconds = nodes.reduce((sum, node) => sum + (budgets[node]?.worstCaseSeconds || 0), 0);
+      const finishSeconds = Math.max(worstCaseSeconds, ...nodes.map(node => finishTimes.get(node) || 0));
+      return { nodes, worstCaseSeconds, finishSeconds, exceedsTimeout: workflowTimeout > 0 && finishSeconds > workflowTimeout };
+    })
+    .sort((a, b) => b.finishSeconds - a.finishSeconds);
+
+  const worstCaseSeconds = Math.max(0, criticalPath.totalSeconds, ...schedule.map(entry => entry.endSeconds));
+  const exceedsTimeout = workflowTimeout > 0 && worstCaseSeconds > workflowTimeout;
+  const nameOf = (node: string) => budgets[node]?.agentName || node;
+
+  if (exceedsTimeout) {
+    warnings.push(
+      `Worst-case runtime (${worstCaseSeconds}s) exceeds the workflow timeout (${workflowTimeout}s); ` +
+      `critical path: ${criticalPath.nodes.map(nameOf).join(' → ')}`
+    );
+  }
+  Object.values(budgets).forEach(budget => {
+    if (workflowTimeout > 0 && budget.worstCaseSeconds > workflowTimeout) {
+      warnings.push(
+        `Agent "${budget.agentName}" alone can take ${budget.worstCaseSeconds}s with retries and interventions, ` +
+        `longer than the workflow timeout (${workflowTimeout}s)`
+      );
+    }
+  });
+  const queued = schedule.filter(entry => entry.queuedSeconds > 0);
+  if (queued.length > 0) {
+    warnings.push(
+      `max_concurrent_agents (${maxConcurrent}) delays ${queued.map(entry => entry.agentName).join(', ')}`
+    );
+  }
+
+  return {
+    workflowTimeoutSeconds: workflowTimeout,
+    maxConcurrentAgents: maxConcurrent,
+    agents: budgets,
+    schedule: schedule.sort((a, b) => a.startSeconds - b.startSeconds),
+    paths,
+    criticalPath,
+    worstCaseSeconds,
+    exceedsTimeout,
+    warnings,
+  };
+}
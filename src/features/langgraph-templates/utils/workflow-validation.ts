@@ -4,9 +4,12 @@
  * Implements all critical validations to prevent LangGraph execution failures:
  * 1-6: Basic validations (cycles, self-refs, unreachable nodes, etc.)
  * 7-12: Advanced LangGraph execution validations
+ * 13-14: Graph structure validation (see graph-analysis.ts)
  */
 
 import type { Template, Agent, WorkflowConfig } from '../types';
+import { analyzeWorkflowGraph, extractParallelGroups, graphIssuesToValidationErrors } from './graph-analysis';
+import { analyzeTimeoutBudget } from './timeout-budget';
 
 export interface ValidationError {
   field: string;
@@ -47,32 +50,6 @@ function validateDependencyReferences(agents: Agent[]): ValidationError[] {
   return errors;
 }
 
-/**
- * Helper function to extract parallel groups from graph structure
- */
-function extractParallelGroupsFromGraph(workflow: WorkflowConfig): string[][] {
-  if (!workflow.graph_structure) return [];
-  
-  const graph = workflow.graph_structure;
-  const parallelGroups: string[][] = [];
-  
-  // Find nodes that start from 'start' node (parallel execution)
-  const startEdges = graph.edges.filter(edge => edge.from_node === 'start');
-  if (startEdges.length > 1) {
-    // Multiple edges from start = parallel execution
-    const parallelAgents = startEdges.map(edge => edge.to_node);
-    parallelGroups.push(parallelAgents);
-  } else {
-    // Single group with all agents
-    const agentNodes = graph.nodes.filter(node => !['start', 'end'].includes(node));
-    if (agentNodes.length > 0) {
-      parallelGroups.push(agentNodes);
-    }
-  }
-  
-  return parallelGroups;
-}
-
 /**
  * 8. Workflow Mode Consistency
  * Updated to handle both legacy and modern workflow configurations
@@ -132,7 +109,7 @@ function validateModeConsistency(workflow: WorkflowConfig): ValidationError[] {
       
       // If using graph_structure, validate it can be used for parallel execution
       if (hasGraphStructure && !hasParallelGroups) {
-        const extractedGroups = extractParallelGroupsFromGraph(workflow);
+        const extractedGroups = extractParallelGroups(workflow.graph_structure);
         if (extractedGroups.length === 0) {
           errors.push({
             field: 'workflow.graph_structure',
@@ -451,6 +428,17 @@ function validateTimeouts(workflow: WorkflowConfig, agents: Agent[]): Validation
     }
   }
   
+  // Worst case across parallel groups and branches, with retries and HITL waits
+  const budget = analyzeTimeoutBudget(agents, workflow);
+  budget.warnings.forEach(message => {
+    errors.push({
+      field: 'workflow.timeout_seconds',
+      message,
+      type: 'range',
+      severity: 'warning'
+    });
+  });
+  
   return errors;
 }
 
@@ -534,63 +522,8 @@ function validateLangGraphStructure(template: Template): ValidationError[] {
     return errors;
   }
   
-  const agentIds = new Set(template.agents.map(a => a.id).filter(Boolean) as string[]);
-  
-  // Validate entry point
-  if (!graph.entry_point) {
-    errors.push({
-      field: 'workflow.graph_structure.entry_point',
-      message: 'Graph structure missing entry_point',
-      type: 'required',
-      severity: 'error'
-    });
-  } else if (!agentIds.has(graph.entry_point)) {
-    errors.push({
-      field: 'workflow.graph_structure.entry_point',
-      message: `Entry point '${graph.entry_point}' must be a valid agent ID`,
-      type: 'custom',
-      severity: 'error'
-    });
-  }
-  
-  // Validate nodes (should only contain agent IDs)
-  graph.nodes.forEach((nodeId, index) => {
-    if (!agentIds.has(nodeId)) {
-      errors.push({
-        field: `workflow.graph_structure.nodes[${index}]`,
-        message: `Node '${nodeId}' must be a valid agent ID`,
-        type: 'custom',
-        severity: 'error'
-      });
-    }
-  });
-  
-  // Validate edges (can reference virtual nodes like 'start', 'end')
+  // Entry point, node references and reachability are covered by graph analysis
   graph.edges.forEach((edge, index) => {
-    // Validate from_node
-    if (!agentIds.has(edge.from_node) && 
-        !['start', 'end'].includes(edge.from_node) && 
-        !edge.from_node.startsWith('parallel_')) {
-      errors.push({
-        field: `workflow.graph_structure.edges[${index}].from_node`,
-        message: `Edge from_node '${edge.from_node}' must be a valid agent ID or virtual node`,
-        type: 'custom',
-        severity: 'error'
-      });
-    }
-    
-    // Validate to_node
-    if (!agentIds.has(edge.to_node) && 
-        !['start', 'end'].includes(edge.to_node) && 
-        !edge.to_node.startsWith('parallel_')) {
-      errors.push({
-        field: `workflow.graph_structure.edges[${index}].to_node`,
-        message: `Edge to_node '${edge.to_node}' must be a valid agent ID or virtual node`,
-        type: 'custom',
-        severity: 'error'
-      });
-    }
-    
     // Validate edge has required fields
     if (!edge.edge_id) {
       errors.push({
@@ -611,38 +544,6 @@ function validateLangGraphStructure(template: Template): ValidationError[] {
     }
   });
   
-  // Check for unreachable nodes (warning only)
-  const reachableNodes = new Set<string>();
-  const toVisit = [graph.entry_point];
-  
-  while (toVisit.length > 0) {
-    const current = toVisit.pop()!;
-    if (reachableNodes.has(current)) continue;
-    
-    reachableNodes.add(current);
-    
-    // Find all nodes reachable from current
-    graph.edges.forEach(edge => {
-      if (edge.from_node === current && !reachableNodes.has(edge.to_node)) {
-        toVisit.push(edge.to_node);
-      }
-    });
-  }
-  
-  // Check for unreachable agent nodes
-  const unreachableAgents = [...agentIds].filter(agentId => !reachableNodes.has(agentId));
-  if (unreachableAgents.length > 0) {
-    unreachableAgents.forEach(agentId => {
-      const agent = template.agents.find(a => a.id === agentId);
-      errors.push({
-        field: 'workflow.graph_structure',
-        message: `Unreachable nodes detected: ${agent?.name || agentId}`,
-        type: 'custom',
-        severity: 'warning'
-      });
-    });
-  }
-  
   return errors;
 }
 
@@ -795,6 +696,9 @@ export function validateWorkflow(template: Template): ValidationResult {
   // 13: LangGraph structure validation
   errors.push(...validateLangGraphStructure(template));
   
+  // 14: Graph analysis (reachability, dead ends, cycles, conditions)
+  errors.push(...graphIssuesToValidationErrors(analyzeWorkflowGraph(template.workflow, template.agents)));
+  
   // Separate warnings from errors
   const actualErrors = errors.filter(e => e.severity !== 'warning');
   const warningErrors = errors.filter(e => e.severity === 'warning');
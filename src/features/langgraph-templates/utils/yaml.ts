@@ -0,0 +1,447 @@
+/**
+ * Minimal YAML
+ *
+ * Serializer and parser for the JSON-compatible subset of YAML used by the
+ * template file format: block mappings and sequences, plain / quoted
+ * scalars, `|` and `>` block scalars, `#` comments and single-line flow
+ * collections. Anchors, tags and multi-document streams are not supported.
+ */
+
+type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+export class YamlParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`YAML line ${line}: ${message}`);
+    this.name = 'YamlParseError';
+    this.line = line;
+  }
+}
+
+// ============================================================================
+// STRINGIFY
+// ============================================================================
+
+// Shared by the writer and the reader so every string that parses as a number is quoted
+const NUMBER_SCALAR = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+const RESERVED_SCALARS = /^(true|false|yes|no|on|off|null|~|\.inf|\.nan)$/i;
+
+function hasControlChars(value: string, allowNewlines = false): boolean {
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x20 && !(allowNewlines && code === 0x0a)) return true;
+  }
+  return false;
+}
+
+function quoteIfNeeded(value: string): string {
+  const needsQuotes =
+    value === '' ||
+    RESERVED_SCALARS.test(value) ||
+    NUMBER_SCALAR.test(value) ||
+    /^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /:\s|\s#|:$|\s$/.test(value) ||
+    hasControlChars(value);
+  return needsQuotes ? JSON.stringify(value) : value;
+}
+
+function stringifyKey(key: string): string {
+  return /^[A-Za-z_][\w.-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function isCollection(value: unknown): value is object {
+  return value !== null && typeof value === 'object';
+}
+
+function isEmptyCollection(value: object): boolean {
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0;
+}
+
+function stringifyScalar(value: unknown, indent: string): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+
+  const text = String(value);
+  // Whitespace-only lines and trailing blank lines do not survive a literal
+  // block round trip, so those strings stay quoted
+  const isLiteralSafe =
+    !/^\s/.test(text) &&
+    !/(^|\n)[ \t]+(\n|$)/.test(text) &&
+    !text.endsWith('\n\n') &&
+    !hasControlChars(text, true);
+  if (text.includes('\n') && isLiteralSafe) {
+    // Literal block keeps prompts readable in diffs
+    const chomp = text.endsWith('\n') ? '' : '-';
+    const body = text.replace(/\n$/, '').split('\n').map(line => (line ? `${indent}  ${line}` : '')).join('\n');
+    return `|${chomp}\n${body}`;
+  }
+  return quoteIfNeeded(text);
+}
+
+function stringifyNode(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (isCollection(item) && !isEmptyCollection(item)) {
+        const [first, ...rest] = stringifyNode(item, `${indent}  `);
+        return [`${indent}- ${first.trimStart()}`, ...rest];
+      }
+      return [`${indent}- ${isCollection(item) ? (Array.isArray(item) ? '[]' : '{}') : stringifyScalar(item, indent)}`];
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .flatMap(([key, item]) => {
+      const prefix = `${indent}${stringifyKey(key)}:`;
+      if (isCollection(item)) {
+        if (isEmptyCollection(item)) return [`${prefix} ${Array.isArray(item) ? '[]' : '{}'}`];
+        return [prefix, ...stringifyNode(item, Array.isArray(item) ? indent : `${indent}  `)];
+      }
+      return [`${prefix} ${stringifyScalar(item, indent)}`];
+    });
+}
+
+/**
+ * Serialize JSON-compatible data as block-style YAML
+ */
+export function stringifyYaml(value: unknown): string {
+  if (!isCollection(value)) return `${stringifyScalar(value, '')}\n`;
+  if (isEmptyCollection(value)) return Array.isArray(value) ? '[]\n' : '{}\n';
+  return `${stringifyNode(value, '').join('\n')}\n`;
+}
+
+// ============================================================================
+// PARSE
+// ============================================================================
+
+interface Line {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+function parseScalar(raw: string, lineNumber: number): YamlValue {
+  const text = raw.trim();
+  if (text === '' || text === '~' || text === 'null' || text === 'Null' || text === 'NULL') return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (NUMBER_SCALAR.test(text)) return Number(text);
+
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new YamlParseError('Invalid double-quoted string', lineNumber);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) throw new YamlParseError('Unterminated single-quoted string', lineNumber);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('[') || text.startsWith('{')) {
+    return parseFlow(text, lineNumber);
+  }
+  return text;
+}
+
+/**
+ * Single-line flow collections, e.g. `[a, b]` or `{ key: value }`
+ */
+function parseFlow(text: string, lineNumber: number): YamlValue {
+  let pos = 0;
+
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const readToken = (): string => {
+    skipSpace();
+    const start = pos;
+    if (text[pos] === '"' || text[pos] === "'") {
+      const quote = text[pos++];
+      while (pos < text.length && text[pos] !== quote) {
+        if (text[pos] === '\\' && quote === '"') pos++;
+        pos++;
+      }
+      pos++;
+      return text.slice(start, pos);
+    }
+    while (pos < text.length && !/[,\]}:]/.test(text[pos])) pos++;
+    // `:` inside plain scalars such as URLs is not a separator
+    while (text[pos] === ':' && text[pos + 1] && !/[\s,\]}]/.test(text[pos + 1])) {
+      pos++;
+      while (pos < text.length && !/[,\]}:]/.test(text[pos])) pos++;
+    }
+    return text.slice(start, pos).trim();
+  };
+
+  const readValue = (): YamlValue => {
+    skipSpace();
+    if (text[pos] === '[') {
+      pos++;
+      const items: YamlValue[] = [];
+      skipSpace();
+      if (text[pos] === ']') {
+        pos++;
+        return items;
+      }
+      while (pos < text.length) {
+        items.push(readValue());
+        skipSpace();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] === ']') {
+          pos++;
+          return items;
+        } else break;
+      }
+      throw new YamlParseError('Unterminated flow sequence', lineNumber);
+    }
+    if (text[pos] === '{') {
+      pos++;
+      const map: Record<string, YamlValue> = {};
+      skipSpace();
+      if (text[pos] === '}') {
+        pos++;
+        return map;
+      }
+      while (pos < text.length) {
+        const key = parseScalar(readToken(), lineNumber);
+        skipSpace();
+        if (text[pos] !== ':') throw new YamlParseError('Expected ":" in flow mapping', lineNumber);
+        pos++;
+        map[String(key)] = readValue();
+        skipSpace();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] === '}') {
+          pos++;
+          return map;
+        } else break;
+      }
+      throw new YamlParseError('Unterminated flow mapping', lineNumber);
+    }
+    return parseScalar(readToken(), lineNumber);
+  };
+
+  const value = readValue();
+  skipSpace();
+  if (pos < text.length) throw new YamlParseError('Unexpected characters after flow collection', lineNumber);
+  return value;
+}
+
+/**
+ * Split `key: value` at the first mapping separator outside quotes
+ */
+function splitKeyValue(text: string): [string, string] | null {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if ((char === '"' || char === "'") && i === 0) {
+      quote = char;
+    } else if (char === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return [text.slice(0, i).trim(), text.slice(i + 1).trim()];
+    }
+  }
+  return null;
+}
+
+class YamlParser {
+  private lines: Line[];
+  private rawLines: string[];
+  private index = 0;
+
+  constructor(source: string) {
+    this.rawLines = source.replace(/\r\n?/g, '\n').split('\n');
+    this.lines = [];
+    this.rawLines.forEach((raw, i) => {
+      if (/^\s*---\s*$/.test(raw) && this.lines.length === 0) return;
+      if (raw.includes('\t') && /^\s*\t/.test(raw)) {
+        throw new YamlParseError('Tabs are not allowed for indentation', i + 1);
+      }
+      const text = stripComment(raw);
+      if (!text.trim()) return;
+      this.lines.push({ number: i + 1, indent: text.length - text.trimStart().length, text: text.trim() });
+    });
+  }
+
+  parse(): YamlValue {
+    if (this.lines.length === 0) return null;
+    const value = this.parseNode(this.lines[0].indent);
+    if (this.index < this.lines.length) {
+      throw new YamlParseError('Unexpected indentation', this.lines[this.index].number);
+    }
+    return value;
+  }
+
+  private parseNode(indent: number): YamlValue {
+    const line = this.lines[this.index];
+    if (line.text === '-' || line.text.startsWith('- ')) {
+      return this.parseSequence(indent);
+    }
+    if (splitKeyValue(line.text)) {
+      return this.parseMapping(indent);
+    }
+    this.index++;
+    return parseScalar(line.text, line.number);
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent) break;
+      if (line.indent > indent) throw new YamlParseError('Unexpected indentation', line.number);
+      if (!(line.text === '-' || line.text.startsWith('- '))) break;
+
+      const rest = line.text.slice(1).trimStart();
+      if (!rest) {
+        this.index++;
+        items.push(this.index < this.lines.length && this.lines[this.index].indent > indent
+          ? this.parseNode(this.lines[this.index].indent)
+          : null);
+        continue;
+      }
+
+      // `- key: value` / `- - item` start a nested collection indented past the dash
+      const itemIndent = indent + (line.text.length - rest.length);
+      if (rest === '-' || rest.startsWith('- ')) {
+        this.lines[this.index] = { ...line, indent: itemIndent, text: rest };
+        items.push(this.parseSequence(itemIndent));
+        continue;
+      }
+      if (splitKeyValue(rest) && !rest.startsWith('[') && !rest.startsWith('{')) {
+        this.lines[this.index] = { ...line, indent: itemIndent, text: rest };
+        items.push(this.parseMapping(itemIndent));
+        continue;
+      }
+
+      this.index++;
+      items.push(this.parseInlineValue(rest, line, indent));
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, YamlValue> {
+    const map: Record<string, YamlValue> = {};
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent) break;
+      if (line.indent > indent) throw new YamlParseError('Unexpected indentation', line.number);
+
+      const pair = splitKeyValue(line.text);
+      if (!pair) throw new YamlParseError('Expected "key: value"', line.number);
+
+      const key = String(parseScalar(pair[0], line.number));
+      this.index++;
+
+      if (pair[1]) {
+        map[key] = this.parseInlineValue(pair[1], line, indent);
+      } else if (this.index < this.lines.length) {
+        const next = this.lines[this.index];
+        const isSequence = next.text === '-' || next.text.startsWith('- ');
+        // Sequences may sit at the same indent as their key
+        if (next.indent > indent || (isSequence && next.indent === indent)) {
+          map[key] = this.parseNode(next.indent);
+        } else {
+          map[key] = null;
+        }
+      } else {
+        map[key] = null;
+      }
+    }
+    return map;
+  }
+
+  private parseInlineValue(text: string, line: Line, parentIndent: number): YamlValue {
+    const blockMatch = text.match(/^([|>])([+-]?)$/);
+    if (blockMatch) {
+      return this.parseBlockScalar(blockMatch[1] as '|' | '>', blockMatch[2], line, parentIndent);
+    }
+    return parseScalar(text, line.number);
+  }
+
+  /**
+   * Block scalars are read from the raw source so blank lines and `#` survive
+   */
+  private parseBlockScalar(style: '|' | '>', chomp: string, line: Line, parentIndent: number): string {
+    const collected: string[] = [];
+    let blockIndent: number | null = null;
+    let rawIndex = line.number; // next raw line (0-based)
+
+    while (rawIndex < this.rawLines.length) {
+      const raw = this.rawLines[rawIndex];
+      if (!raw.trim()) {
+        collected.push('');
+        rawIndex++;
+        continue;
+      }
+      const indent = raw.length - raw.trimStart().length;
+      if (indent <= parentIndent) break;
+      if (blockIndent === null) blockIndent = indent;
+      if (indent < blockIndent) break;
+      collected.push(raw.slice(blockIndent));
+      rawIndex++;
+    }
+
+    // Skip the parsed lines
+    while (this.index < this.lines.length && this.lines[this.index].number <= rawIndex) {
+      this.index++;
+    }
+
+    // Trailing blank lines belong to the chomping indicator, not the content
+    let trailing = 0;
+    while (collected.length > 0 && collected[collected.length - 1] === '') {
+      collected.pop();
+      trailing++;
+    }
+
+    let text = style === '|'
+      ? collected.join('\n')
+      : collected.reduce((acc, current, i) => {
+          if (i === 0) return current;
+          if (current === '') return `${acc}\n`;
+          return acc.endsWith('\n') ? `${acc}${current}` : `${acc} ${current}`;
+        }, '');
+
+    if (chomp === '+') text += '\n'.repeat(trailing + 1);
+    else if (chomp !== '-' && text) text += '\n';
+    return text;
+  }
+}
+
+/**
+ * Parse YAML (or JSON, which is valid YAML) into plain data
+ */
+export function parseYaml(source: string): unknown {
+  const trimmed = source.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Fall through to the flow-collection parser
+    }
+  }
+  return new YamlParser(source).parse();
+}
@@ -0,0 +1,195 @@
+/**
+ * NotificationSettingsCard Component
+ * Per-user browser notification and sound alert preferences
+ */
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Bell, Volume2 } from 'lucide-react';
+import type { NotificationSettings, NotificationSound } from '@/services/notification.service';
+import { useNotificationSettings } from '../hooks/useNotificationSettings';
+
+interface NotificationSettingsCardProps {
+  className?: string;
+}
+
+const EVENT_TOGGLES: Array<{ key: keyof NotificationSettings; label: string; description: string }> = [
+  {
+    key: 'notifyOnIntervention',
+    label: 'Intervention required',
+    description: 'An agent is waiting for human input before its timeout',
+  },
+  {
+    key: 'notifyOnCompletion',
+    label: 'Execution completed',
+    description: 'A workflow finished successfully',
+  },
+  {
+    key: 'notifyOnError',
+    label: 'Execution failed',
+    description: 'A workflow stopped with an error',
+  },
+];
+
+const SOUNDS: Array<{ value: NotificationSound; label: string }> = [
+  { value: 'chime', label: 'Chime' },
+  { value: 'beep', label: 'Beep' },
+  { value: 'ping', label: 'Ping' },
+];
+
+const PERMISSION_LABELS = {
+  granted: 'Allowed',
+  denied: 'Blocked',
+  default: 'Not requested',
+  unsupported: 'Not supported',
+} as const;
+
+export const NotificationSettingsCard: React.FC<NotificationSettingsCardProps> = ({
+  className = ''
+}) => {
+  const { settings, permission, updateSettings, requestPermission, testSound } = useNotificationSettings();
+
+  const handleToggleEnabled = async (enabled: boolean) => {
+    updateSettings({ enabled });
+    if (enabled && permission === 'default') {
+      await requestPermission();
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Bell className="h-4 w-4" />
+            <span>Notifications</span>
+          </CardTitle>
+          <Badge variant={permission === 'granted' ? 'secondary' : 'outline'}>
+            Browser: {PERMISSION_LABELS[permission]}
+          </Badge>
+        </div>
+        <CardDescription>
+          Get alerted about interventions and finished runs while working in another tab
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="notifications-enabled">Enable notifications</Label>
+            <p className="text-sm text-muted-foreground">Off by default; stored for your account on this browser</p>
+          </div>
+          <Switch
+            id="notifications-enabled"
+            checked={settings.enabled}
+            onCheckedChange={handleToggleEnabled}
+          />
+        </div>
+
+        {settings.enabled && permission === 'denied' && (
+          <div className="text-sm text-yellow-700 bg-yellow-50 p-3 rounded-md">
+            Notifications are blocked for this site. Allow them in your browser settings to receive alerts.
+          </div>
+        )}
+
+        {settings.enabled && permission === 'default' && (
+          <Button variant="outline" size="sm" onClick={requestPermission}>
+            Allow browser notifications
+          </Button>
+        )}
+
+        <div className={`space-y-4 ${settings.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+          {/* Events */}
+          <div className="space-y-3 pt-3 border-t">
+            {EVENT_TOGGLES.map(toggle => (
+              <div key={toggle.key} className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor={`notify-${toggle.key}`}>{toggle.label}</Label>
+                  <p className="text-xs text-muted-foreground">{toggle.description}</p>
+                </div>
+                <Switch
+                  id={`notify-${toggle.key}`}
+                  checked={settings[toggle.key] as boolean}
+                  onCheckedChange={(checked) => updateSettings({ [toggle.key]: checked })}
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Behaviour */}
+          <div className="space-y-3 pt-3 border-t">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="notify-only-hidden">Only when the tab is in the background</Label>
+              <Switch
+                id="notify-only-hidden"
+                checked={settings.onlyWhenHidden}
+                onCheckedChange={(checked) => updateSettings({ onlyWhenHidden: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="notify-title-count">Show pending interventions in the tab title</Label>
+              <Switch
+                id="notify-title-count"
+                checked={settings.showPendingCountInTitle}
+                onCheckedChange={(checked) => updateSettings({ showPendingCountInTitle: checked })}
+              />
+            </div>
+          </div>
+
+          {/* Sound */}
+          <div className="space-y-3 pt-3 border-t">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="notify-sound">Play sound</Label>
+              <Switch
+                id="notify-sound"
+                checked={settings.soundEnabled}
+                onCheckedChange={(checked) => updateSettings({ soundEnabled: checked })}
+              />
+            </div>
+            {settings.soundEnabled && (
+              <div className="flex flex-wrap items-center gap-3">
+                <Select
+                  value={settings.sound}
+                  onValueChange={(value) => updateSettings({ sound: value as NotificationSound })}
+                >
+                  <SelectTrigger className="w-32" aria-label="Notification sound">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SOUNDS.map(sound => (
+                      <SelectItem key={sound.value} value={sound.value}>{sound.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  value={settings.volume}
+                  onChange={(e) => updateSettings({ volume: Number(e.target.value) })}
+                  aria-label="Notification volume"
+                  className="w-32"
+                />
+                <Button variant="ghost" size="sm" onClick={() => testSound()} className="gap-2">
+                  <Volume2 className="h-4 w-4" />
+                  Test
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -14,6 +14,7 @@ import { Loader2, Activity, Settings, Edit, RefreshCw } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { authService } from '@/services/api';
 import { ProfileHeader } from './ProfileHeader';
+import { NotificationSettingsCard } from './NotificationSettingsCard';
 import { useUserStats } from '../hooks/useUserStats';
 
 interface ProfileListProps {
@@ -343,6 +344,9 @@ export const ProfileList: React.FC<ProfileListProps> = ({
           </CardContent>
         </Card>
       </div>
+
+      {/* Notification Preferences */}
+      <NotificationSettingsCard />
     </div>
   );
 };
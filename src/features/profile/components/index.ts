@@ -5,3 +5,4 @@
 
 export { ProfileList } from './ProfileList';
 export { ProfileHeader } from './ProfileHeader';
+export { NotificationSettingsCard } from './NotificationSettingsCard';
@@ -1 +1,2 @@
 export { useUserStats } from './useUserStats';
+export { useNotificationSettings } from './useNotificationSettings';
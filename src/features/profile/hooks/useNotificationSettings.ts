@@ -0,0 +1,51 @@
+/**
+ * useNotificationSettings Hook
+ * Read and update the current user's notification preferences
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  notificationService,
+  type NotificationSettings,
+  type NotificationSound,
+} from '@/services/notification.service';
+
+interface UseNotificationSettingsReturn {
+  settings: NotificationSettings;
+  permission: NotificationPermission | 'unsupported';
+  updateSettings: (updates: Partial<NotificationSettings>) => void;
+  requestPermission: () => Promise<void>;
+  testSound: (sound?: NotificationSound) => void;
+}
+
+export function useNotificationSettings(): UseNotificationSettingsReturn {
+  const [settings, setSettings] = useState<NotificationSettings>(() => notificationService.getSettings());
+  const [permission, setPermission] = useState(() => notificationService.getPermission());
+
+  useEffect(() => {
+    // Settings change when the user switches or another component saves them
+    setSettings(notificationService.getSettings());
+    return notificationService.subscribe(setSettings);
+  }, []);
+
+  const updateSettings = useCallback((updates: Partial<NotificationSettings>) => {
+    notificationService.updateSettings(updates);
+  }, []);
+
+  const requestPermission = useCallback(async () => {
+    const result = await notificationService.requestPermission();
+    setPermission(result);
+  }, []);
+
+  const testSound = useCallback((sound?: NotificationSound) => {
+    notificationService.playSound(sound ?? settings.sound, settings.volume);
+  }, [settings.sound, settings.volume]);
+
+  return {
+    settings,
+    permission,
+    updateSettings,
+    requestPermission,
+    testSound,
+  };
+}
@@ -4,6 +4,7 @@
  */
 
 import { apiClient } from '../../../services/api/ApiClient';
+import type { ExecutionMetrics } from '../../execution-history/types';
 
 // User statistics interface
 export interface UserStats {
@@ -52,59 +53,25 @@ interface ExecutionHistoryItem {
 
 export class ProfileService {
   /**
-   * Get user statistics from execution history
+   * Get user statistics from the aggregate execution metrics
    */
   async getUserStats(): Promise<UserStats> {
     try {
-      // Fetch all user executions to calculate statistics
-      const response = await apiClient.get<ExecutionListResponse>('/api/execution-results/history', {
-        params: { 
-          limit: 1000, // Get all executions for accurate stats
-          page: 1 
-        }
-      });
-
-      const executions = response.executions || [];
-      const summaryStats = response.summary_stats;
-
-      // Calculate statistics
-      const totalExecutions = response.total_executions || 0;
-      const totalCost = summaryStats?.total_cost || 0;
-      
-      // Calculate success rate from actual execution statuses
-      let successfulExecutions = 0;
-      let lastExecutionDate: string | null = null;
-      let totalDurationSeconds = 0;
-      let completedExecutions = 0;
-
-      executions.forEach((execution) => {
-        // Count successful executions
-        if (execution.status === 'completed' || execution.status === 'success') {
-          successfulExecutions++;
-        }
-
-        // Track latest execution date
-        if (execution.started_at) {
-          if (!lastExecutionDate || new Date(execution.started_at) > new Date(lastExecutionDate)) {
-            lastExecutionDate = execution.started_at;
-          }
-        }
-
-        // Calculate average execution time
-        if (execution.total_duration_seconds) {
-          totalDurationSeconds += execution.total_duration_seconds;
-          completedExecutions++;
-        }
-      });
+      // All-time aggregates computed server-side
+      const response = await apiClient.get<{ metrics: ExecutionMetrics }>('/api/executions/metrics/summary');
+      const metrics = response.metrics;
 
-      const successRate = totalExecutions > 0 ? (successfulExecutions / totalExecutions) * 100 : 0;
-      const averageExecutionTime = completedExecutions > 0 ? totalDurationSeconds / completedExecutions : 0;
+      // Older backends don't report the latest run; one history row covers it
+      const lastExecutionDate = metrics?.last_execution_at !== undefined
+        ? metrics.last_execution_at
+        : (await this.getRecentExecutions(1))[0]?.started_at || null;
 
       return {
-        totalExecutions,
-        totalCost,
-        successRate,
-        averageExecutionTime,
+        totalExecutions: metrics?.total_executions || 0,
+        totalCost: metrics?.total_cost || 0,
+        // Metrics report the rate as a 0-1 fraction
+        successRate: (metrics?.success_rate || 0) * 100,
+        averageExecutionTime: metrics?.average_duration || 0,
         lastExecutionDate
       };
 
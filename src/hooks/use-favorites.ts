@@ -0,0 +1,56 @@
+/**
+ * useFavorites Hook
+ * The current user's favorite templates and executions
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  favoritesService,
+  type FavoriteInput,
+  type FavoriteItem,
+  type FavoriteKind,
+} from '@/services/favorites.service';
+
+interface UseFavoritesReturn {
+  favorites: FavoriteItem[];
+  favoriteTemplates: FavoriteItem[];
+  favoriteExecutions: FavoriteItem[];
+  isFavorite: (kind: FavoriteKind, id: string) => boolean;
+  toggleFavorite: (item: FavoriteInput) => void;
+  removeFavorite: (kind: FavoriteKind, id: string) => void;
+}
+
+export function useFavorites(): UseFavoritesReturn {
+  const [favorites, setFavorites] = useState<FavoriteItem[]>(() => favoritesService.getFavorites());
+
+  useEffect(() => {
+    // Favorites change when the user switches or another component stars something
+    setFavorites(favoritesService.getFavorites());
+    return favoritesService.subscribe(setFavorites);
+  }, []);
+
+  const favoriteTemplates = useMemo(() => favorites.filter(item => item.kind === 'template'), [favorites]);
+  const favoriteExecutions = useMemo(() => favorites.filter(item => item.kind === 'execution'), [favorites]);
+
+  const isFavorite = useCallback(
+    (kind: FavoriteKind, id: string) => favorites.some(item => item.kind === kind && item.id === id),
+    [favorites]
+  );
+
+  const toggleFavorite = useCallback((item: FavoriteInput) => {
+    favoritesService.toggle(item);
+  }, []);
+
+  const removeFavorite = useCallback((kind: FavoriteKind, id: string) => {
+    favoritesService.remove(kind, id);
+  }, []);
+
+  return {
+    favorites,
+    favoriteTemplates,
+    favoriteExecutions,
+    isFavorite,
+    toggleFavorite,
+    removeFavorite,
+  };
+}
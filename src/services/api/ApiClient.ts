@@ -339,8 +339,13 @@ export class ApiClient {
 
   /**
    * Refresh authentication token
+   * Public so non-axios transports (e.g. event streams) can recover from a 401
    */
-  private async refreshAuthToken(): Promise<string> {
+  public async refreshAuthToken(): Promise<string> {
+    if (!this.refreshToken) {
+      throw new ApiException('No refresh token available', 401, 'AUTH_FAILED');
+    }
+
     if (this.isRefreshing) {
       // Wait for ongoing refresh
       return new Promise((resolve, reject) => {
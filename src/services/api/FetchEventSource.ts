@@ -0,0 +1,252 @@
+/**
+ * FetchEventSource
+ * Fetch-based Server-Sent Events transport that authenticates with the
+ * Authorization header instead of putting the JWT in the query string
+ */
+
+import { ApiClient, ApiException } from './ApiClient';
+
+export interface FetchEventSourceOptions {
+  headers?: Record<string, string>;
+  // Sent as the Last-Event-ID header so the server can replay missed events
+  lastEventId?: string | null;
+  // Reconnect after the stream drops, like the native EventSource does
+  autoReconnect?: boolean;
+  withCredentials?: boolean;
+}
+
+type MessageListener = (event: MessageEvent<string>) => void;
+
+const DEFAULT_RETRY_DELAY = 3000;
+
+export class FetchEventSource {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+
+  public readonly url: string;
+  public readyState: number = FetchEventSource.CONNECTING;
+  public lastEventId: string;
+
+  public onopen: (() => void) | null = null;
+  public onmessage: MessageListener | null = null;
+  public onerror: ((error: Error) => void) | null = null;
+
+  private options: FetchEventSourceOptions;
+  private listeners = new Map<string, Set<MessageListener>>();
+  private abortController: AbortController | null = null;
+  private retryDelay = DEFAULT_RETRY_DELAY;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasRetriedAuth = false;
+
+  constructor(url: string, options: FetchEventSourceOptions = {}) {
+    this.url = url;
+    this.options = { autoReconnect: true, ...options };
+    this.lastEventId = options.lastEventId || '';
+
+    // Defer so callers can attach handlers first, matching EventSource
+    setTimeout(() => this.connect(), 0);
+  }
+
+  /**
+   * Listen for a named event (`event:` field)
+   */
+  public addEventListener(type: string, listener: MessageListener): void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener);
+  }
+
+  public removeEventListener(type: string, listener: MessageListener): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Close the stream; no further reconnects are attempted
+   */
+  public close(): void {
+    this.readyState = FetchEventSource.CLOSED;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.abortController?.abort();
+    this.abortController = null;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      ...this.options.headers,
+    };
+
+    const token = localStorage.getItem('auth_token');
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    if (this.lastEventId) {
+      headers['Last-Event-ID'] = this.lastEventId;
+    }
+    return headers;
+  }
+
+  private async connect(): Promise<void> {
+    if (this.readyState === FetchEventSource.CLOSED) return;
+
+    this.readyState = FetchEventSource.CONNECTING;
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'GET',
+        headers: this.buildHeaders(),
+        credentials: this.options.withCredentials ? 'include' : 'same-origin',
+        signal: abortController.signal,
+      });
+
+      if (response.status === 401) {
+        await this.handleUnauthorized();
+        return;
+      }
+
+      if (!response.ok || !response.body) {
+        throw new ApiException(
+          `Stream request failed with status ${response.status}`,
+          response.status,
+          'STREAM_ERROR'
+        );
+      }
+
+      this.hasRetriedAuth = false;
+      this.readyState = FetchEventSource.OPEN;
+      this.onopen?.();
+
+      await this.readStream(response.body);
+
+      // Server ended the stream
+      this.handleDisconnect(new Error('Stream closed by server'));
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+      this.handleDisconnect(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Refresh the access token once and reconnect; give up if that also fails
+   */
+  private async handleUnauthorized(): Promise<void> {
+    if (!this.hasRetriedAuth) {
+      this.hasRetriedAuth = true;
+      try {
+        await ApiClient.getInstance().refreshAuthToken();
+        await this.connect();
+        return;
+      } catch (error) {
+        console.error('Failed to refresh token for event stream:', error);
+      }
+    }
+
+    const apiClient = ApiClient.getInstance();
+    apiClient.clearAuthToken();
+    if (window.location.pathname !== '/login') {
+      window.location.href = '/login';
+    }
+
+    this.close();
+    this.onerror?.(new ApiException('Authentication failed', 401, 'AUTH_FAILED'));
+  }
+
+  private handleDisconnect(error: Error): void {
+    if (this.readyState === FetchEventSource.CLOSED) return;
+
+    this.onerror?.(error);
+
+    // onerror may have closed the stream
+    if (!this.options.autoReconnect || this.readyState === FetchEventSource.CLOSED) {
+      this.close();
+      return;
+    }
+
+    this.readyState = FetchEventSource.CONNECTING;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.connect();
+    }, this.retryDelay);
+  }
+
+  /**
+   * Parse the text/event-stream body and dispatch complete events
+   */
+  private async readStream(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let eventType = '';
+    let dataLines: string[] = [];
+
+    const dispatch = () => {
+      if (dataLines.length > 0) {
+        this.dispatchEvent(eventType || 'message', dataLines.join('\n'));
+      }
+      eventType = '';
+      dataLines = [];
+    };
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          dispatch();
+          continue;
+        }
+        if (line.startsWith(':')) continue; // Comment / keep-alive
+
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        let fieldValue = separator === -1 ? '' : line.slice(separator + 1);
+        if (fieldValue.startsWith(' ')) {
+          fieldValue = fieldValue.slice(1);
+        }
+
+        switch (field) {
+          case 'event':
+            eventType = fieldValue;
+            break;
+          case 'data':
+            dataLines.push(fieldValue);
+            break;
+          case 'id':
+            if (!fieldValue.includes('\0')) {
+              this.lastEventId = fieldValue;
+            }
+            break;
+          case 'retry': {
+            const retry = parseInt(fieldValue, 10);
+            if (!isNaN(retry)) {
+              this.retryDelay = retry;
+            }
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  private dispatchEvent(type: string, data: string): void {
+    const event = new MessageEvent<string>(type, { data, lastEventId: this.lastEventId });
+
+    if (type === 'message') {
+      this.onmessage?.(event);
+    }
+    this.listeners.get(type)?.forEach(listener => listener(event));
+  }
+}
@@ -9,6 +9,8 @@ import { authService } from './AuthService';
 
 // Export API Client
 export { ApiClient, apiClient } from './ApiClient';
+export { FetchEventSource } from './FetchEventSource';
+export type { FetchEventSourceOptions } from './FetchEventSource';
 
 // Export Services
 export { AuthService, authService } from './AuthService';
@@ -0,0 +1,122 @@
+/**
+ * Favorites Service
+ * Starred templates and executions of the signed-in user for quick launch
+ * from the dashboard and sidebar. Subscribers are notified on every change,
+ * so stars stay in sync across components.
+ */
+
+export type FavoriteKind = 'template' | 'execution';
+
+export interface FavoriteItem {
+  kind: FavoriteKind;
+  id: string;
+  // Display name, stored so favorites can be listed without fetching
+  name: string;
+  // Template an execution ran, so favorite executions count for their template
+  templateId?: string;
+  addedAt: string;
+}
+
+export type FavoriteInput = Omit<FavoriteItem, 'addedAt'>;
+
+const STORAGE_KEY_PREFIX = 'favorites';
+const MAX_FAVORITES = 50;
+
+type FavoritesListener = (favorites: FavoriteItem[]) => void;
+
+export class FavoritesService {
+  private static instance: FavoritesService;
+
+  private userId: string | null = null;
+  private favorites: FavoriteItem[] = [];
+  private listeners = new Set<FavoritesListener>();
+
+  private constructor() {
+    this.favorites = this.loadFavorites();
+  }
+
+  public static getInstance(): FavoritesService {
+    if (!FavoritesService.instance) {
+      FavoritesService.instance = new FavoritesService();
+    }
+    return FavoritesService.instance;
+  }
+
+  /**
+   * Switch to the favorites of the signed-in user
+   */
+  public setUser(userId: string | null): void {
+    if (this.userId === userId) return;
+    this.userId = userId;
+    this.favorites = this.loadFavorites();
+    this.emit();
+  }
+
+  /**
+   * All favorites, most recently added first
+   */
+  public getFavorites(): FavoriteItem[] {
+    return this.favorites;
+  }
+
+  public isFavorite(kind: FavoriteKind, id: string): boolean {
+    return this.favorites.some(item => item.kind === kind && item.id === id);
+  }
+
+  public add(item: FavoriteInput): FavoriteItem[] {
+    const rest = this.favorites.filter(existing => !(existing.kind === item.kind && existing.id === item.id));
+    return this.save([{ ...item, addedAt: new Date().toISOString() }, ...rest].slice(0, MAX_FAVORITES));
+  }
+
+  public remove(kind: FavoriteKind, id: string): FavoriteItem[] {
+    return this.save(this.favorites.filter(item => !(item.kind === kind && item.id === id)));
+  }
+
+  /**
+   * Add the item, or remove it when it's already a favorite
+   */
+  public toggle(item: FavoriteInput): FavoriteItem[] {
+    return this.isFavorite(item.kind, item.id) ? this.remove(item.kind, item.id) : this.add(item);
+  }
+
+  public subscribe(listener: FavoritesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private save(favorites: FavoriteItem[]): FavoriteItem[] {
+    this.favorites = favorites;
+    try {
+      localStorage.setItem(this.getStorageKey(), JSON.stringify(favorites));
+    } catch (error) {
+      console.error('Failed to save favorites:', error);
+    }
+    this.emit();
+    return favorites;
+  }
+
+  private getStorageKey(): string {
+    return this.userId ? `${STORAGE_KEY_PREFIX}_${this.userId}` : STORAGE_KEY_PREFIX;
+  }
+
+  private loadFavorites(): FavoriteItem[] {
+    try {
+      const stored = localStorage.getItem(this.getStorageKey());
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed)
+        ? parsed.filter((item): item is FavoriteItem => Boolean(item?.id && item?.kind && item?.name))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener(this.favorites));
+  }
+}
+
+// Export singleton instance
+export const favoritesService = FavoritesService.getInstance();
@@ -0,0 +1,246 @@
+/**
+ * Notification Service
+ * Opt-in browser notifications, sound alerts and a pending-count badge in the
+ * document title for interventions and execution results
+ */
+
+export type NotificationKind = 'intervention' | 'completion' | 'error';
+
+export type NotificationSound = 'chime' | 'beep' | 'ping';
+
+export interface NotificationSettings {
+  enabled: boolean;
+  notifyOnIntervention: boolean;
+  notifyOnCompletion: boolean;
+  notifyOnError: boolean;
+  // Only show system notifications while the tab is in the background
+  onlyWhenHidden: boolean;
+  soundEnabled: boolean;
+  sound: NotificationSound;
+  volume: number; // 0-1
+  showPendingCountInTitle: boolean;
+}
+
+export interface NotificationPayload {
+  title: string;
+  body?: string;
+  // Notifications with the same tag replace each other
+  tag?: string;
+  // Route to open when the notification is clicked
+  url?: string;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  notifyOnIntervention: true,
+  notifyOnCompletion: true,
+  notifyOnError: true,
+  onlyWhenHidden: true,
+  soundEnabled: true,
+  sound: 'chime',
+  volume: 0.5,
+  showPendingCountInTitle: true,
+};
+
+// Frequencies (Hz) and note length (s) for each sound
+const SOUND_PATTERNS: Record<NotificationSound, { notes: number[]; duration: number; type: OscillatorType }> = {
+  chime: { notes: [880, 1318.5], duration: 0.18, type: 'sine' },
+  beep: { notes: [660, 660], duration: 0.12, type: 'square' },
+  ping: { notes: [1568], duration: 0.25, type: 'triangle' },
+};
+
+const KIND_SETTING: Record<NotificationKind, keyof NotificationSettings> = {
+  intervention: 'notifyOnIntervention',
+  completion: 'notifyOnCompletion',
+  error: 'notifyOnError',
+};
+
+const STORAGE_KEY_PREFIX = 'notification_settings';
+
+type SettingsListener = (settings: NotificationSettings) => void;
+
+export class NotificationService {
+  private static instance: NotificationService;
+
+  private userId: string | null = null;
+  private settings: NotificationSettings = { ...DEFAULT_NOTIFICATION_SETTINGS };
+  private listeners = new Set<SettingsListener>();
+  private pendingCounts = new Map<string, number>();
+  private baseTitle: string | null = null;
+  private audioContext: AudioContext | null = null;
+
+  private constructor() {
+    this.settings = this.loadSettings();
+  }
+
+  public static getInstance(): NotificationService {
+    if (!NotificationService.instance) {
+      NotificationService.instance = new NotificationService();
+    }
+    return NotificationService.instance;
+  }
+
+  /**
+   * Switch to the settings of the signed-in user
+   */
+  public setUser(userId: string | null): void {
+    if (this.userId === userId) return;
+    this.userId = userId;
+    this.settings = this.loadSettings();
+    this.emit();
+    this.updateTitle();
+  }
+
+  public getSettings(): NotificationSettings {
+    return this.settings;
+  }
+
+  public updateSettings(updates: Partial<NotificationSettings>): NotificationSettings {
+    this.settings = { ...this.settings, ...updates };
+    try {
+      localStorage.setItem(this.getStorageKey(), JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Failed to save notification settings:', error);
+    }
+    this.emit();
+    this.updateTitle();
+    return this.settings;
+  }
+
+  public subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public isSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  }
+
+  public getPermission(): NotificationPermission | 'unsupported' {
+    return this.isSupported() ? Notification.permission : 'unsupported';
+  }
+
+  public async requestPermission(): Promise<NotificationPermission | 'unsupported'> {
+    if (!this.isSupported()) return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+    return Notification.requestPermission();
+  }
+
+  /**
+   * Show a notification and play the alert sound, honouring the user's settings
+   */
+  public notify(kind: NotificationKind, payload: NotificationPayload): void {
+    const settings = this.settings;
+    if (!settings.enabled || !settings[KIND_SETTING[kind]]) return;
+
+    if (settings.soundEnabled) {
+      this.playSound(settings.sound, settings.volume);
+    }
+
+    const isHidden = document.visibilityState === 'hidden' || !document.hasFocus();
+    if (settings.onlyWhenHidden && !isHidden) return;
+    if (this.getPermission() !== 'granted') return;
+
+    try {
+      const notification = new Notification(payload.title, {
+        body: payload.body,
+        tag: payload.tag,
+        requireInteraction: kind === 'intervention',
+      });
+      notification.onclick = () => {
+        window.focus();
+        if (payload.url && window.location.pathname !== payload.url) {
+          window.location.href = payload.url;
+        }
+        notification.close();
+      };
+    } catch (error) {
+      console.error('Failed to show notification:', error);
+    }
+  }
+
+  /**
+   * Play one of the built-in alert sounds
+   */
+  public playSound(sound: NotificationSound = this.settings.sound, volume: number = this.settings.volume): void {
+    try {
+      if (!this.audioContext) {
+        this.audioContext = new AudioContext();
+      }
+      const context = this.audioContext;
+      const pattern = SOUND_PATTERNS[sound];
+      const start = context.currentTime;
+
+      pattern.notes.forEach((frequency, index) => {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        const noteStart = start + index * pattern.duration;
+
+        oscillator.type = pattern.type;
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(Math.max(0, Math.min(1, volume)) * 0.3, noteStart);
+        gain.gain.exponentialRampToValueAtTime(0.0001, noteStart + pattern.duration);
+
+        oscillator.connect(gain);
+        gain.connect(context.destination);
+        oscillator.start(noteStart);
+        oscillator.stop(noteStart + pattern.duration);
+      });
+    } catch (error) {
+      // Autoplay policies can block audio until the user interacts with the page
+      console.debug('Unable to play notification sound:', error);
+    }
+  }
+
+  /**
+   * Report how many interventions a page or hook is waiting on.
+   * Counts from all sources are summed into the document title.
+   */
+  public setPendingCount(source: string, count: number): void {
+    if (count > 0) {
+      this.pendingCounts.set(source, count);
+    } else {
+      this.pendingCounts.delete(source);
+    }
+    this.updateTitle();
+  }
+
+  private updateTitle(): void {
+    const total = Array.from(this.pendingCounts.values()).reduce((sum, count) => sum + count, 0);
+    const showCount = this.settings.enabled && this.settings.showPendingCountInTitle && total > 0;
+
+    if (this.baseTitle === null) {
+      if (!showCount) return;
+      this.baseTitle = document.title;
+    }
+
+    if (showCount) {
+      document.title = `(${total}) ${this.baseTitle}`;
+    } else {
+      document.title = this.baseTitle;
+      this.baseTitle = null;
+    }
+  }
+
+  private getStorageKey(): string {
+    return this.userId ? `${STORAGE_KEY_PREFIX}_${this.userId}` : STORAGE_KEY_PREFIX;
+  }
+
+  private loadSettings(): NotificationSettings {
+    try {
+      const stored = localStorage.getItem(this.getStorageKey());
+      return stored ? { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_NOTIFICATION_SETTINGS };
+    } catch {
+      return { ...DEFAULT_NOTIFICATION_SETTINGS };
+    }
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener(this.settings));
+  }
+}
+
+// Export singleton instance
+export const notificationService = NotificationService.getInstance();